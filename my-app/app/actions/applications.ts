@@ -0,0 +1,268 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import { createNotification } from "@/lib/notifications";
+
+type ReviewStatus = "pending" | "shortlisted" | "rejected";
+
+interface ApplyResult {
+  conversationId?: string;
+  error?: string;
+}
+
+interface ApplicationActionResult {
+  success?: boolean;
+  error?: string;
+}
+
+const MAX_COVER_NOTE_LENGTH = 500;
+
+// Apply to an open job as a worker (or resume an existing application).
+// Creates the chat thread with the poster and sends the cover note as its first message.
+export async function applyToJob(
+  jobId: string,
+  coverNote?: string
+): Promise<ApplyResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const note = coverNote?.trim() || null;
+  if (note && note.length > MAX_COVER_NOTE_LENGTH) {
+    return { error: `Cover note must be ${MAX_COVER_NOTE_LENGTH} characters or less` };
+  }
+
+  const { data: job, error: fetchError } = await supabase
+    .from("jobs")
+    .select("user_id, status")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (fetchError || !job) {
+    return { error: "Job not found" };
+  }
+
+  if (job.user_id === user.id) {
+    return { error: "You cannot apply to your own job" };
+  }
+
+  const { data: existing } = await supabase
+    .from("applications")
+    .select("id, status, conversation_id")
+    .eq("job_id", jobId)
+    .eq("worker_id", user.id)
+    .maybeSingle();
+
+  // Resume an active application
+  if (existing && existing.status !== "withdrawn") {
+    if (existing.status === "rejected") {
+      return { error: "The poster has declined your application" };
+    }
+    if (existing.conversation_id) {
+      return { conversationId: existing.conversation_id };
+    }
+  }
+
+  if (job.status !== "open") {
+    return { error: "This task is no longer accepting applicants" };
+  }
+
+  // Find or create the chat thread with the poster
+  let conversationId: string | null | undefined = existing?.conversation_id;
+
+  if (!conversationId) {
+    const { data: existingConv } = await supabase
+      .from("conversations")
+      .select("id")
+      .eq("job_id", jobId)
+      .eq("worker_id", user.id)
+      .maybeSingle();
+
+    conversationId = existingConv?.id;
+  }
+
+  if (!conversationId) {
+    const { data: newConversation, error: convError } = await supabase
+      .from("conversations")
+      .insert({
+        job_id: jobId,
+        worker_id: user.id,
+      })
+      .select("id")
+      .single();
+
+    if (convError || !newConversation) {
+      console.error("Error creating conversation:", convError);
+      return { error: convError?.message || "Failed to start conversation" };
+    }
+
+    conversationId = newConversation.id as string;
+  }
+
+  const { error } = existing
+    ? await supabase
+        .from("applications")
+        .update({
+          status: "pending",
+          cover_note: note,
+          conversation_id: conversationId,
+        })
+        .eq("id", existing.id)
+    : await supabase.from("applications").insert({
+        job_id: jobId,
+        worker_id: user.id,
+        conversation_id: conversationId,
+        cover_note: note,
+      });
+
+  if (error) {
+    console.error("Error applying to job:", error);
+    return { error: error.message };
+  }
+
+  if (note) {
+    await supabase.from("messages").insert({
+      conversation_id: conversationId,
+      sender_id: user.id,
+      content: note,
+    });
+  }
+
+  await createNotification(supabase, {
+    recipientId: job.user_id,
+    actorId: user.id,
+    kind: "new_applicant",
+    jobId,
+    conversationId,
+    body: note,
+  });
+
+  revalidatePath("/my-jobs");
+  revalidatePath("/profile");
+
+  return { conversationId };
+}
+
+// Withdraw an application as the worker who made it.
+// Any live offer on the job is withdrawn with it.
+export async function withdrawApplication(jobId: string): Promise<ApplicationActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data: application, error: fetchError } = await supabase
+    .from("applications")
+    .select("id, status")
+    .eq("job_id", jobId)
+    .eq("worker_id", user.id)
+    .maybeSingle();
+
+  if (fetchError || !application) {
+    return { error: "Application not found" };
+  }
+
+  if (application.status !== "pending" && application.status !== "shortlisted") {
+    return { error: "This application can no longer be withdrawn" };
+  }
+
+  const { error } = await supabase
+    .from("applications")
+    .update({ status: "withdrawn" })
+    .eq("id", application.id);
+
+  if (error) {
+    console.error("Error withdrawing application:", error);
+    return { error: error.message };
+  }
+
+  await supabase
+    .from("offers")
+    .update({ status: "withdrawn" })
+    .eq("job_id", jobId)
+    .eq("worker_id", user.id)
+    .in("status", ["pending", "countered"]);
+
+  revalidatePath("/my-jobs");
+  revalidatePath("/profile");
+
+  return { success: true };
+}
+
+// Shortlist, reject or reset an applicant as the job poster.
+// Hiring goes through assignWorker instead.
+export async function updateApplicationStatus(
+  applicationId: string,
+  status: ReviewStatus
+): Promise<ApplicationActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data: application, error: fetchError } = await supabase
+    .from("applications")
+    .select("id, job_id, worker_id, conversation_id, status, jobs(user_id, status)")
+    .eq("id", applicationId)
+    .maybeSingle();
+
+  if (fetchError || !application) {
+    return { error: "Application not found" };
+  }
+
+  const job = application.jobs as unknown as { user_id: string; status: string } | null;
+
+  if (!job || job.user_id !== user.id) {
+    return { error: "You can only review applications on your own jobs" };
+  }
+
+  if (job.status !== "open") {
+    return { error: "This job is no longer open" };
+  }
+
+  if (application.status === "withdrawn" || application.status === "hired") {
+    return { error: "This application can no longer be changed" };
+  }
+
+  const { error } = await supabase
+    .from("applications")
+    .update({ status })
+    .eq("id", applicationId);
+
+  if (error) {
+    console.error("Error updating application status:", error);
+    return { error: error.message };
+  }
+
+  if (status === "rejected") {
+    // A declined applicant's offers go with the application
+    await supabase
+      .from("offers")
+      .update({ status: "rejected" })
+      .eq("job_id", application.job_id)
+      .eq("worker_id", application.worker_id)
+      .in("status", ["pending", "countered"]);
+  }
+
+  if (status !== "pending" && status !== application.status) {
+    await createNotification(supabase, {
+      recipientId: application.worker_id,
+      actorId: user.id,
+      kind: status === "shortlisted" ? "application_shortlisted" : "application_rejected",
+      jobId: application.job_id,
+      conversationId: application.conversation_id,
+    });
+  }
+
+  revalidatePath("/my-jobs");
+
+  return { success: true };
+}
@@ -0,0 +1,58 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+
+interface RequestLoginCodeResult {
+  success?: boolean;
+  error?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Seeded into allowed_email_domains in supabase/email-allowlist.sql
+const GIKI_EMAIL_SUFFIX = "@giki.edu.pk";
+
+// What Supabase Auth reports when a trigger on auth.users rejects a sign-up
+const SIGN_UP_REJECTED_MESSAGE = "Database error saving new user";
+
+// Send a one-time login code, but only to emails on the allow-list.
+// The check itself is the sign-up trigger in supabase/email-allowlist.sql:
+// the exception list is private, so there is no separate lookup to call.
+export async function requestLoginCode(rawEmail: string): Promise<RequestLoginCodeResult> {
+  const email = rawEmail.trim().toLowerCase();
+
+  if (!email) {
+    return { error: "Please enter your email" };
+  }
+
+  if (!EMAIL_PATTERN.test(email)) {
+    return { error: "Please enter a valid email address" };
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      shouldCreateUser: true,
+      // Force OTP code instead of magic link
+      emailRedirectTo: undefined,
+    },
+  });
+
+  if (error) {
+    console.error("Error sending login code:", error);
+    // The sign-up trigger rejected the email: off-domain and not an exception.
+    // Auth hides the trigger's own message behind this one, which it only
+    // sends when inserting the new user fails, and a GIKI address can't be
+    // turned away by the allow-list; anything else is passed on.
+    if (error.message === SIGN_UP_REJECTED_MESSAGE && !email.endsWith(GIKI_EMAIL_SUFFIX)) {
+      return {
+        error: "CrowdServe is exclusive to GIKI. Use your @giki.edu.pk email, or ask an admin to add you as an alumni or staff exception.",
+      };
+    }
+    return { error: error.message };
+  }
+
+  return { success: true };
+}
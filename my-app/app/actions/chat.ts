@@ -0,0 +1,215 @@
+"use server";
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/utils/supabase/server";
+import { createNotification } from "@/lib/notifications";
+import {
+  ATTACHMENT_BUCKET,
+  ATTACHMENT_NAME_MAX_LENGTH,
+  getAttachmentLabel,
+  validateAttachmentFile,
+} from "@/lib/attachments";
+
+interface ChatActionResult {
+  success?: boolean;
+  error?: string;
+}
+
+type ConversationLookup =
+  | { error: string }
+  | { error?: undefined; jobId: string; recipientId: string | undefined };
+
+// Resolve both participants of the conversation and check the user is one of them
+async function getConversationRecipient(
+  supabase: SupabaseClient,
+  conversationId: string,
+  userId: string
+): Promise<ConversationLookup> {
+  const { data: conversation, error: fetchError } = await supabase
+    .from("conversations")
+    .select("id, job_id, worker_id, jobs(user_id)")
+    .eq("id", conversationId)
+    .maybeSingle();
+
+  if (fetchError || !conversation) {
+    return { error: "Conversation not found" };
+  }
+
+  const job = conversation.jobs as unknown as { user_id: string } | null;
+  const posterId = job?.user_id;
+
+  if (userId !== conversation.worker_id && userId !== posterId) {
+    return { error: "You are not part of this conversation" };
+  }
+
+  return {
+    jobId: conversation.job_id,
+    recipientId: userId === conversation.worker_id ? posterId : conversation.worker_id,
+  };
+}
+
+// Send a chat message and notify the other participant
+export async function sendMessage(
+  conversationId: string,
+  content: string
+): Promise<ChatActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const trimmed = content.trim();
+  if (!trimmed) {
+    return { error: "Message cannot be empty" };
+  }
+
+  const conversation = await getConversationRecipient(supabase, conversationId, user.id);
+  if (conversation.error !== undefined) {
+    return { error: conversation.error };
+  }
+
+  const { error } = await supabase.from("messages").insert({
+    conversation_id: conversationId,
+    sender_id: user.id,
+    content: trimmed,
+  });
+
+  if (error) {
+    console.error("Error sending message:", error);
+    return { error: error.message };
+  }
+
+  if (conversation.recipientId) {
+    await createNotification(supabase, {
+      recipientId: conversation.recipientId,
+      actorId: user.id,
+      kind: "new_message",
+      jobId: conversation.jobId,
+      conversationId,
+      body: trimmed,
+    });
+  }
+
+  return { success: true };
+}
+
+// Send a photo or PDF (with an optional caption) and notify the other participant
+export async function sendAttachment(formData: FormData): Promise<ChatActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const conversationId = formData.get("conversationId");
+  const file = formData.get("file");
+  const caption = ((formData.get("caption") as string) || "").trim();
+
+  if (typeof conversationId !== "string" || !conversationId) {
+    return { error: "Conversation not found" };
+  }
+
+  if (!(file instanceof File) || file.size === 0) {
+    return { error: "Please choose a file" };
+  }
+
+  // Validate again on the server: the browser checks can be bypassed
+  const fileError = validateAttachmentFile(file);
+  if (fileError) {
+    return { error: fileError };
+  }
+
+  const conversation = await getConversationRecipient(supabase, conversationId, user.id);
+  if (conversation.error !== undefined) {
+    return { error: conversation.error };
+  }
+
+  // Stored under a random name; the original name is kept in the table
+  const extension = file.type === "application/pdf" ? "pdf" : file.type.split("/")[1];
+  const path = `${conversationId}/${crypto.randomUUID()}.${extension}`;
+  const fileName = file.name.trim().slice(0, ATTACHMENT_NAME_MAX_LENGTH) || `attachment.${extension}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (uploadError) {
+    console.error("Error uploading attachment:", uploadError);
+    return { error: "Failed to upload attachment" };
+  }
+
+  const content = caption || getAttachmentLabel(fileName, file.type);
+
+  const { error } = await supabase.rpc("send_attachment_message", {
+    p_conversation_id: conversationId,
+    p_content: content,
+    p_storage_path: path,
+    p_file_name: fileName,
+    p_mime_type: file.type,
+    p_size_bytes: file.size,
+  });
+
+  if (error) {
+    console.error("Error sending attachment:", error);
+    await supabase.storage.from(ATTACHMENT_BUCKET).remove([path]);
+    return { error: error.message };
+  }
+
+  if (conversation.recipientId) {
+    await createNotification(supabase, {
+      recipientId: conversation.recipientId,
+      actorId: user.id,
+      kind: "new_message",
+      jobId: conversation.jobId,
+      conversationId,
+      body: content,
+    });
+  }
+
+  return { success: true };
+}
+
+// Mark the other participant's messages in a conversation as read
+export async function markConversationRead(
+  conversationId: string
+): Promise<ChatActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { error } = await supabase.rpc("mark_conversation_read", {
+    p_conversation_id: conversationId,
+  });
+
+  if (error) {
+    console.error("Error marking conversation read:", error);
+    return { error: error.message };
+  }
+
+  return { success: true };
+}
+
+// Refresh the current user's last-seen time (heartbeat from the open app)
+export async function touchLastSeen(): Promise<ChatActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { error } = await supabase.rpc("touch_last_seen");
+
+  if (error) {
+    console.error("Error updating last seen:", error);
+    return { error: error.message };
+  }
+
+  return { success: true };
+}
@@ -2,6 +2,14 @@
 
 import { revalidatePath } from "next/cache";
 import { createClient } from "@/utils/supabase/server";
+import { DEFAULT_CATEGORY, isCategorySlug } from "@/lib/categories";
+import {
+  sanitizeDescription,
+  sanitizeTitle,
+  validateDescription,
+  validateTitle,
+} from "@/lib/job-text";
+import { getDefaultDueAt, validateDueAt } from "@/lib/deadlines";
 
 interface CreateJobResult {
   success?: boolean;
@@ -19,24 +27,41 @@ export async function createJob(formData: FormData): Promise<CreateJobResult> {
   }
 
   // Extract form data
-  const title = formData.get("title") as string;
-  const description = formData.get("description") as string;
+  const title = sanitizeTitle((formData.get("title") as string) || "");
+  const description = sanitizeDescription((formData.get("description") as string) || "");
   const priceString = formData.get("price") as string;
   const urgency = (formData.get("urgency") as string) || "Flexible";
   const location = (formData.get("location") as string) || "Campus";
-  const category = (formData.get("category") as string) || "other";
+  const category = (formData.get("category") as string) || DEFAULT_CATEGORY;
+  const dueAtString = formData.get("due_at") as string | null;
 
   // Validate required fields
   if (!title || !priceString) {
     return { error: "Title and price are required" };
   }
 
+  const textError = validateTitle(title) || validateDescription(description);
+  if (textError) {
+    return { error: textError };
+  }
+
+  if (!isCategorySlug(category)) {
+    return { error: "Invalid category" };
+  }
+
   // Convert price to number
   const price = parseInt(priceString, 10);
   if (isNaN(price) || price < 0) {
     return { error: "Invalid price" };
   }
 
+  // Deadline: use the one picked in the form, or derive it from urgency
+  const dueAt = dueAtString ? new Date(dueAtString) : getDefaultDueAt(urgency);
+  const dueAtError = validateDueAt(dueAt);
+  if (dueAtError) {
+    return { error: dueAtError };
+  }
+
   // Insert job into database with the authenticated user's ID
   const { error } = await supabase.from("jobs").insert({
     title,
@@ -45,6 +70,7 @@ export async function createJob(formData: FormData): Promise<CreateJobResult> {
     urgency,
     location,
     category,
+    due_at: dueAt.toISOString(),
     user_id: user.id,
   });
 
@@ -0,0 +1,177 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import { createNotification } from "@/lib/notifications";
+import {
+  EVIDENCE_MAX_LENGTH,
+  RESOLUTION_NOTE_MAX_LENGTH,
+  getDisputeReasonLabel,
+  isDisputeOutcome,
+  isDisputeReason,
+  validateWorkerShare,
+} from "@/lib/disputes";
+
+interface DisputeActionResult {
+  success?: boolean;
+  error?: string;
+}
+
+// Open a dispute on an in-progress, submitted or completed job as its poster or worker.
+// The job stays frozen (status, payment, ratings) until a moderator resolves it.
+export async function openDispute(
+  jobId: string,
+  reason: string,
+  evidence?: string
+): Promise<DisputeActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  if (!isDisputeReason(reason)) {
+    return { error: "Pick a reason for the dispute" };
+  }
+
+  const details = evidence?.trim() || null;
+  if (details && details.length > EVIDENCE_MAX_LENGTH) {
+    return { error: `Details must be ${EVIDENCE_MAX_LENGTH} characters or less` };
+  }
+
+  const { data: job, error: fetchError } = await supabase
+    .from("jobs")
+    .select("user_id, assigned_to, status")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (fetchError || !job) {
+    return { error: "Job not found" };
+  }
+
+  const isOwner = job.user_id === user.id;
+  const isAssignedWorker = job.assigned_to === user.id;
+
+  if (!isOwner && !isAssignedWorker) {
+    return { error: "You are not involved in this job" };
+  }
+
+  if (!["in_progress", "pending_review", "completed"].includes(job.status)) {
+    return { error: "Disputes can only be opened on in-progress or completed jobs" };
+  }
+
+  const { data: existing } = await supabase
+    .from("disputes")
+    .select("id")
+    .eq("job_id", jobId)
+    .eq("status", "open")
+    .maybeSingle();
+
+  if (existing) {
+    return { error: "There is already an open dispute for this job" };
+  }
+
+  const { error } = await supabase.from("disputes").insert({
+    job_id: jobId,
+    opened_by: user.id,
+    reason,
+    evidence: details,
+  });
+
+  if (error) {
+    console.error("Error opening dispute:", error);
+    return { error: error.message };
+  }
+
+  const { data: conv } = await supabase
+    .from("conversations")
+    .select("id")
+    .eq("job_id", jobId)
+    .eq("worker_id", job.assigned_to)
+    .maybeSingle();
+
+  await createNotification(supabase, {
+    recipientId: isOwner ? job.assigned_to : job.user_id,
+    actorId: user.id,
+    kind: "dispute_opened",
+    jobId,
+    conversationId: conv?.id,
+    body: getDisputeReasonLabel(reason),
+  });
+
+  revalidatePath("/my-jobs");
+  revalidatePath("/my-gigs");
+  revalidatePath("/moderation");
+
+  return { success: true };
+}
+
+// Resolve an open dispute as a moderator. Settlement, the chat message and
+// the notifications all happen in resolve_dispute (supabase/disputes.sql).
+export async function resolveDispute(
+  disputeId: string,
+  outcome: string,
+  workerShare?: number | null,
+  note?: string
+): Promise<DisputeActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data: isModerator } = await supabase.rpc("is_moderator");
+  if (!isModerator) {
+    return { error: "Only moderators can resolve disputes" };
+  }
+
+  if (!isDisputeOutcome(outcome)) {
+    return { error: "Pick an outcome" };
+  }
+
+  const resolutionNote = note?.trim() || null;
+  if (resolutionNote && resolutionNote.length > RESOLUTION_NOTE_MAX_LENGTH) {
+    return { error: `Note must be ${RESOLUTION_NOTE_MAX_LENGTH} characters or less` };
+  }
+
+  const { data: dispute, error: fetchError } = await supabase
+    .from("disputes_with_details")
+    .select("id, status, job_price")
+    .eq("id", disputeId)
+    .maybeSingle();
+
+  if (fetchError || !dispute) {
+    return { error: "Dispute not found" };
+  }
+
+  if (dispute.status !== "open") {
+    return { error: "This dispute has already been resolved" };
+  }
+
+  if (outcome === "split") {
+    const shareError = validateWorkerShare(workerShare ?? 0, dispute.job_price);
+    if (shareError) {
+      return { error: shareError };
+    }
+  }
+
+  const { error } = await supabase.rpc("resolve_dispute", {
+    p_dispute_id: disputeId,
+    p_outcome: outcome,
+    p_worker_share: outcome === "split" ? workerShare : null,
+    p_note: resolutionNote,
+  });
+
+  if (error) {
+    console.error("Error resolving dispute:", error);
+    return { error: error.message };
+  }
+
+  revalidatePath("/moderation");
+  revalidatePath("/my-jobs");
+  revalidatePath("/my-gigs");
+
+  return { success: true };
+}
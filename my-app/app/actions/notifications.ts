@@ -0,0 +1,56 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+
+interface NotificationActionResult {
+  success?: boolean;
+  error?: string;
+}
+
+// Mark a single notification as read
+export async function markNotificationRead(
+  notificationId: string
+): Promise<NotificationActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { error } = await supabase
+    .from("notifications")
+    .update({ is_read: true })
+    .eq("id", notificationId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error marking notification read:", error);
+    return { error: error.message };
+  }
+
+  return { success: true };
+}
+
+// Mark every unread notification for the current user as read
+export async function markAllNotificationsRead(): Promise<NotificationActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { error } = await supabase
+    .from("notifications")
+    .update({ is_read: true })
+    .eq("user_id", user.id)
+    .eq("is_read", false);
+
+  if (error) {
+    console.error("Error marking notifications read:", error);
+    return { error: error.message };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,334 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import { createNotification } from "@/lib/notifications";
+import { assignWorker } from "@/app/actions/update-job-status";
+import { applyToJob } from "@/app/actions/applications";
+
+interface OfferActionResult {
+  success?: boolean;
+  error?: string;
+}
+
+interface SubmitOfferData {
+  jobId: string;
+  price: number;
+  eta?: string;
+  note?: string;
+}
+
+interface CounterOfferData {
+  price: number;
+  note?: string;
+}
+
+const MAX_NOTE_LENGTH = 500;
+const MAX_ETA_LENGTH = 50;
+
+function validatePrice(price: number): string | null {
+  if (!Number.isInteger(price) || price <= 0) {
+    return "Offer price must be a positive whole number";
+  }
+  return null;
+}
+
+// Submit an offer on an open job as a worker.
+// Any earlier live offer from the same worker is superseded.
+export async function submitOffer(data: SubmitOfferData): Promise<OfferActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const priceError = validatePrice(data.price);
+  if (priceError) {
+    return { error: priceError };
+  }
+
+  const eta = data.eta?.trim() || null;
+  const note = data.note?.trim() || null;
+
+  if (eta && eta.length > MAX_ETA_LENGTH) {
+    return { error: `ETA must be ${MAX_ETA_LENGTH} characters or less` };
+  }
+
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    return { error: `Note must be ${MAX_NOTE_LENGTH} characters or less` };
+  }
+
+  const { data: job, error: fetchError } = await supabase
+    .from("jobs")
+    .select("user_id, status")
+    .eq("id", data.jobId)
+    .maybeSingle();
+
+  if (fetchError || !job) {
+    return { error: "Job not found" };
+  }
+
+  if (job.user_id === user.id) {
+    return { error: "You cannot make an offer on your own job" };
+  }
+
+  if (job.status !== "open") {
+    return { error: "Can only make offers on open jobs" };
+  }
+
+  // Bidding counts as applying; offers live alongside the chat thread with the poster
+  const conversation = await applyToJob(data.jobId);
+  if (!conversation.conversationId) {
+    return { error: conversation.error || "Failed to start conversation" };
+  }
+
+  // Replace any live offer this worker already has on the job
+  const { error: supersedeError } = await supabase
+    .from("offers")
+    .update({ status: "superseded" })
+    .eq("job_id", data.jobId)
+    .eq("worker_id", user.id)
+    .in("status", ["pending", "countered"]);
+
+  if (supersedeError) {
+    console.error("Error superseding offers:", supersedeError);
+    return { error: supersedeError.message };
+  }
+
+  const { error } = await supabase.from("offers").insert({
+    job_id: data.jobId,
+    worker_id: user.id,
+    conversation_id: conversation.conversationId,
+    price: data.price,
+    eta,
+    note,
+  });
+
+  if (error) {
+    console.error("Error submitting offer:", error);
+    return { error: error.message };
+  }
+
+  await createNotification(supabase, {
+    recipientId: job.user_id,
+    actorId: user.id,
+    kind: "new_offer",
+    jobId: data.jobId,
+    conversationId: conversation.conversationId,
+    body: note,
+    data: { price: data.price, eta },
+  });
+
+  revalidatePath("/my-jobs");
+
+  return { success: true };
+}
+
+// Withdraw a live offer as the worker who made it
+export async function withdrawOffer(offerId: string): Promise<OfferActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data: offer, error: fetchError } = await supabase
+    .from("offers")
+    .select("worker_id, status")
+    .eq("id", offerId)
+    .maybeSingle();
+
+  if (fetchError || !offer) {
+    return { error: "Offer not found" };
+  }
+
+  if (offer.worker_id !== user.id) {
+    return { error: "You can only withdraw your own offers" };
+  }
+
+  if (offer.status !== "pending" && offer.status !== "countered") {
+    return { error: "This offer can no longer be withdrawn" };
+  }
+
+  const { error } = await supabase
+    .from("offers")
+    .update({ status: "withdrawn" })
+    .eq("id", offerId);
+
+  if (error) {
+    console.error("Error withdrawing offer:", error);
+    return { error: error.message };
+  }
+
+  revalidatePath("/my-jobs");
+
+  return { success: true };
+}
+
+// Shared lookup for the poster-side actions below
+async function getOfferForPoster(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  offerId: string,
+  userId: string
+) {
+  const { data: offer, error } = await supabase
+    .from("offers")
+    .select("id, job_id, worker_id, conversation_id, price, status, jobs(user_id, status)")
+    .eq("id", offerId)
+    .maybeSingle();
+
+  if (error || !offer) {
+    return { error: "Offer not found" };
+  }
+
+  const job = offer.jobs as unknown as { user_id: string; status: string } | null;
+
+  if (!job || job.user_id !== userId) {
+    return { error: "You can only respond to offers on your own jobs" };
+  }
+
+  if (job.status !== "open") {
+    return { error: "This job is no longer open" };
+  }
+
+  return { offer };
+}
+
+// Accept an offer: assigns the worker at the offered price
+export async function acceptOffer(offerId: string): Promise<OfferActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { offer, error: lookupError } = await getOfferForPoster(supabase, offerId, user.id);
+  if (!offer) {
+    return { error: lookupError };
+  }
+
+  if (offer.status !== "pending") {
+    return { error: "Only pending offers can be accepted" };
+  }
+
+  // Assigns the worker at the offered price and closes the other offers.
+  // assignWorker already tells the worker they were picked.
+  const result = await assignWorker(offer.job_id, offer.worker_id, { offerId });
+
+  if (result.error) {
+    return result;
+  }
+
+  revalidatePath("/my-jobs");
+
+  return { success: true };
+}
+
+// Reject a live offer
+export async function rejectOffer(offerId: string): Promise<OfferActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { offer, error: lookupError } = await getOfferForPoster(supabase, offerId, user.id);
+  if (!offer) {
+    return { error: lookupError };
+  }
+
+  if (offer.status !== "pending" && offer.status !== "countered") {
+    return { error: "This offer can no longer be rejected" };
+  }
+
+  const { error } = await supabase
+    .from("offers")
+    .update({ status: "rejected" })
+    .eq("id", offerId);
+
+  if (error) {
+    console.error("Error rejecting offer:", error);
+    return { error: error.message };
+  }
+
+  await createNotification(supabase, {
+    recipientId: offer.worker_id,
+    actorId: user.id,
+    kind: "offer_rejected",
+    jobId: offer.job_id,
+    conversationId: offer.conversation_id,
+  });
+
+  revalidatePath("/my-jobs");
+
+  return { success: true };
+}
+
+// Counter a pending offer with a different price.
+// The worker responds by submitting a new offer.
+export async function counterOffer(
+  offerId: string,
+  data: CounterOfferData
+): Promise<OfferActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const priceError = validatePrice(data.price);
+  if (priceError) {
+    return { error: priceError };
+  }
+
+  const note = data.note?.trim() || null;
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    return { error: `Note must be ${MAX_NOTE_LENGTH} characters or less` };
+  }
+
+  const { offer, error: lookupError } = await getOfferForPoster(supabase, offerId, user.id);
+  if (!offer) {
+    return { error: lookupError };
+  }
+
+  if (offer.status !== "pending") {
+    return { error: "Only pending offers can be countered" };
+  }
+
+  if (data.price === offer.price) {
+    return { error: "Counter with a different price, or accept the offer" };
+  }
+
+  const { error } = await supabase
+    .from("offers")
+    .update({
+      status: "countered",
+      counter_price: data.price,
+      counter_note: note,
+    })
+    .eq("id", offerId);
+
+  if (error) {
+    console.error("Error countering offer:", error);
+    return { error: error.message };
+  }
+
+  await createNotification(supabase, {
+    recipientId: offer.worker_id,
+    actorId: user.id,
+    kind: "offer_countered",
+    jobId: offer.job_id,
+    conversationId: offer.conversation_id,
+    body: note,
+    data: { price: data.price },
+  });
+
+  revalidatePath("/my-jobs");
+
+  return { success: true };
+}
@@ -0,0 +1,112 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/utils/supabase/server";
+import { createNotification } from "@/lib/notifications";
+import { isPaymentUnresolved, type PaymentStatus } from "@/lib/payments";
+
+interface PaymentActionResult {
+  success?: boolean;
+  error?: string;
+}
+
+type PaymentUpdate = Exclude<PaymentStatus, "pending">;
+
+// The notification kind for each update; set_job_payment_status posts the
+// chat event of the same name (supabase/system-messages.sql)
+const PAYMENT_EVENTS: Record<PaymentUpdate, "payment_marked_paid" | "payment_confirmed" | "payment_disputed"> = {
+  marked_paid: "payment_marked_paid",
+  confirmed: "payment_confirmed",
+  disputed: "payment_disputed",
+};
+
+// Move a completed job's cash payment forward and notify the other side
+async function setPaymentStatus(
+  jobId: string,
+  status: PaymentUpdate
+): Promise<PaymentActionResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const { data: job, error: fetchError } = await supabase
+    .from("jobs")
+    .select("user_id, assigned_to, status, payment_status")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (fetchError || !job) {
+    return { error: "Job not found" };
+  }
+
+  if (job.status !== "completed" || !job.assigned_to) {
+    return { error: "Payment can only be confirmed on completed jobs" };
+  }
+
+  const isOwner = job.user_id === user.id;
+  const isAssignedWorker = job.assigned_to === user.id;
+
+  if (status === "marked_paid") {
+    if (!isOwner) {
+      return { error: "Only the poster can mark a job as paid" };
+    }
+    if (job.payment_status !== "pending") {
+      return { error: "This payment has already been marked" };
+    }
+  } else {
+    if (!isAssignedWorker) {
+      return { error: "Only the worker can confirm or report a payment" };
+    }
+    if (!isPaymentUnresolved(job.payment_status)) {
+      return { error: "This payment has already been settled" };
+    }
+  }
+
+  const { error } = await supabase.rpc("set_job_payment_status", {
+    p_job_id: jobId,
+    p_status: status,
+  });
+
+  if (error) {
+    console.error("Error updating payment status:", error);
+    return { error: error.message };
+  }
+
+  const { data: conv } = await supabase
+    .from("conversations")
+    .select("id")
+    .eq("job_id", jobId)
+    .eq("worker_id", job.assigned_to)
+    .maybeSingle();
+
+  await createNotification(supabase, {
+    recipientId: isOwner ? job.assigned_to : job.user_id,
+    actorId: user.id,
+    kind: PAYMENT_EVENTS[status],
+    jobId,
+    conversationId: conv?.id,
+  });
+
+  revalidatePath("/my-jobs");
+  revalidatePath("/my-gigs");
+
+  return { success: true };
+}
+
+// Poster: record that the worker has been paid in cash
+export async function markPaymentSent(jobId: string): Promise<PaymentActionResult> {
+  return setPaymentStatus(jobId, "marked_paid");
+}
+
+// Worker: confirm the cash payment arrived
+export async function confirmPaymentReceived(jobId: string): Promise<PaymentActionResult> {
+  return setPaymentStatus(jobId, "confirmed");
+}
+
+// Worker: report that the payment never arrived
+export async function reportPaymentMissing(jobId: string): Promise<PaymentActionResult> {
+  return setPaymentStatus(jobId, "disputed");
+}
@@ -2,6 +2,7 @@
 
 import { revalidatePath } from "next/cache";
 import { createClient } from "@/utils/supabase/server";
+import { createNotification } from "@/lib/notifications";
 
 interface CreateRatingResult {
   success?: boolean;
@@ -39,6 +40,18 @@ export async function createRating(data: RatingData): Promise<CreateRatingResult
     return { error: "You can only rate after the job is completed" };
   }
 
+  // Ratings wait until any dispute on the job is resolved
+  const { data: openDispute } = await supabase
+    .from("disputes")
+    .select("id")
+    .eq("job_id", data.jobId)
+    .eq("status", "open")
+    .maybeSingle();
+
+  if (openDispute) {
+    return { error: "This job is under dispute. You can rate it once it's resolved." };
+  }
+
   // Verify user is involved in the job
   const isOwner = job.user_id === user.id;
   const isHelper = job.assigned_to === user.id;
@@ -88,14 +101,40 @@ export async function createRating(data: RatingData): Promise<CreateRatingResult
     return { error: error.message };
   }
 
+  await createNotification(supabase, {
+    recipientId: data.ratedUserId,
+    actorId: user.id,
+    kind: "new_rating",
+    jobId: data.jobId,
+    body: data.review || null,
+    data: { rating: data.rating },
+  });
+
   revalidatePath("/");
   revalidatePath("/profile");
 
   return { success: true };
 }
 
+// A rating with the rater's profile and the job title attached
+export interface UserRating {
+  id: string;
+  rating: number;
+  review: string | null;
+  rating_type: string;
+  created_at: string;
+  job_id: string;
+  raterId: string;
+  raterName: string | null;
+  raterEmail: string | null;
+  raterAvatar: string | null;
+  jobTitle: string;
+}
+
 // Get ratings for a user
-export async function getUserRatings(userId: string) {
+export async function getUserRatings(
+  userId: string
+): Promise<{ ratings: UserRating[]; error?: string }> {
   const supabase = await createClient();
 
   const { data, error } = await supabase
@@ -107,8 +146,8 @@ export async function getUserRatings(userId: string) {
       rating_type,
       created_at,
       job_id,
-      jobs (title),
-      rater:profiles!ratings_rater_id_fkey (full_name, avatar_url)
+      rater_id,
+      jobs (title)
     `)
     .eq("rated_id", userId)
     .order("created_at", { ascending: false });
@@ -118,7 +157,34 @@ export async function getUserRatings(userId: string) {
     return { ratings: [], error: error.message };
   }
 
-  return { ratings: data || [] };
+  // rater_id points at auth.users, so rater profiles are fetched separately
+  const raterIds = [...new Set((data || []).map(r => r.rater_id))];
+  const { data: raterProfiles } = raterIds.length > 0
+    ? await supabase
+        .from("profiles")
+        .select("id, full_name, avatar_url, email")
+        .in("id", raterIds)
+    : { data: [] };
+
+  const ratings = (data || []).map(r => {
+    const rater = raterProfiles?.find(p => p.id === r.rater_id);
+    const job = Array.isArray(r.jobs) ? r.jobs[0] : r.jobs;
+    return {
+      id: r.id,
+      rating: r.rating,
+      review: r.review,
+      rating_type: r.rating_type,
+      created_at: r.created_at,
+      job_id: r.job_id,
+      raterId: r.rater_id,
+      raterName: rater?.full_name || null,
+      raterEmail: rater?.email || null,
+      raterAvatar: rater?.avatar_url || null,
+      jobTitle: job?.title || "Unknown Task",
+    };
+  });
+
+  return { ratings };
 }
 
 // Get rating stats for a user
@@ -2,18 +2,25 @@
 
 import { revalidatePath } from "next/cache";
 import { createClient } from "@/utils/supabase/server";
-
-type JobStatus = "open" | "in_progress" | "completed" | "cancelled";
+import { createNotification } from "@/lib/notifications";
+import { REVIEW_NOTE_MAX_LENGTH } from "@/lib/review";
+import { getJobActor, getTransitionError, type JobStatus } from "@/lib/job-transitions";
 
 interface UpdateJobStatusResult {
   success?: boolean;
   error?: string;
 }
 
+interface AssignWorkerOptions {
+  // Pending offer being accepted; the job is assigned at its price
+  offerId?: string;
+}
+
 // Assign a worker to a job and set status to in_progress
 export async function assignWorker(
   jobId: string,
-  workerId: string
+  workerId: string,
+  options: AssignWorkerOptions = {}
 ): Promise<UpdateJobStatusResult> {
   const supabase = await createClient();
 
@@ -22,10 +29,9 @@ export async function assignWorker(
     return { error: "You must be logged in" };
   }
 
-  // Verify user owns the job
   const { data: job, error: fetchError } = await supabase
     .from("jobs")
-    .select("user_id, status, title")
+    .select("user_id, assigned_to, status")
     .eq("id", jobId)
     .maybeSingle();
 
@@ -33,62 +39,69 @@ export async function assignWorker(
     return { error: "Job not found" };
   }
 
-  if (job.user_id !== user.id) {
-    return { error: "You can only assign workers to your own jobs" };
+  const transitionError = getTransitionError(job.status, "in_progress", getJobActor(job, user.id));
+  if (transitionError) {
+    return { error: transitionError };
   }
 
-  if (job.status !== "open") {
-    return { error: "Can only assign workers to open jobs" };
+  if (options.offerId) {
+    const { data: offer } = await supabase
+      .from("offers")
+      .select("job_id, worker_id")
+      .eq("id", options.offerId)
+      .maybeSingle();
+
+    if (!offer || offer.job_id !== jobId || offer.worker_id !== workerId) {
+      return { error: "Offer not found" };
+    }
   }
 
-  // Update job with assigned worker and status
-  const { error } = await supabase
-    .from("jobs")
-    .update({
-      assigned_to: workerId,
-      status: "in_progress",
-    })
-    .eq("id", jobId);
+  // The applicants still waiting, notified below that the job was filled
+  const { data: others } = await supabase
+    .from("applications")
+    .select("worker_id, conversation_id")
+    .eq("job_id", jobId)
+    .neq("worker_id", workerId)
+    .in("status", ["pending", "shortlisted"]);
+
+  // Assign the worker and hold the payment in escrow in one transaction.
+  // The applications are marked hired and rejected by the same transaction
+  // (see settle_applications_on_hire in supabase/applications.sql), which
+  // also opens the worker's chat and posts the hire in it and in the other
+  // applicants' chats (hire_job_worker in supabase/system-messages.sql).
+  const { error } = options.offerId
+    ? await supabase.rpc("accept_offer", { p_offer_id: options.offerId })
+    : await supabase.rpc("assign_job_worker", { p_job_id: jobId, p_worker_id: workerId });
 
   if (error) {
     console.error("Error assigning worker:", error);
     return { error: error.message };
   }
 
-  // Find or create conversation with the worker and send notification message
-  const { data: existingConv } = await supabase
+  const { data: conv } = await supabase
     .from("conversations")
     .select("id")
     .eq("job_id", jobId)
     .eq("worker_id", workerId)
     .maybeSingle();
 
-  let conversationId = existingConv?.id;
-
-  if (!conversationId) {
-    // Create conversation if it doesn't exist
-    const { data: newConv, error: convError } = await supabase
-      .from("conversations")
-      .insert({
-        job_id: jobId,
-        worker_id: workerId,
-      })
-      .select("id")
-      .single();
-
-    if (convError) {
-      console.error("Error creating conversation:", convError);
-    } else {
-      conversationId = newConv?.id;
-    }
-  }
-
-  // Send notification message - Premium Apple-style
-  if (conversationId) {
-    await supabase.from("messages").insert({
-      conversation_id: conversationId,
-      sender_id: user.id,
-      content: `You've been selected for "${job.title}". Ready when you are.`,
+  await createNotification(supabase, {
+    recipientId: workerId,
+    actorId: user.id,
+    kind: "worker_assigned",
+    jobId,
+    conversationId: conv?.id,
+  });
+
+  // Let the other applicants know
+  for (const application of others || []) {
+    await createNotification(supabase, {
+      recipientId: application.worker_id,
+      actorId: user.id,
+      kind: "application_rejected",
+      jobId,
+      conversationId: application.conversation_id,
+      body: "This task has been filled.",
     });
   }
 
@@ -114,7 +127,7 @@ export async function updateJobStatus(
   // Fetch job to check permissions
   const { data: job, error: fetchError } = await supabase
     .from("jobs")
-    .select("user_id, assigned_to, status, title")
+    .select("user_id, assigned_to, status")
     .eq("id", jobId)
     .maybeSingle();
 
@@ -123,52 +136,40 @@ export async function updateJobStatus(
   }
 
   const isOwner = job.user_id === user.id;
-  const isAssignedWorker = job.assigned_to === user.id;
 
-  // Permission checks based on status transition
-  if (status === "cancelled" && !isOwner) {
-    return { error: "Only the job owner can cancel a job" };
+  // Same rules as the enforce_job_status_transition trigger (supabase/job-events.sql)
+  const transitionError = getTransitionError(job.status, status, getJobActor(job, user.id));
+  if (transitionError) {
+    return { error: transitionError };
   }
 
-  if (status === "completed") {
-    if (!isOwner && !isAssignedWorker) {
-      return { error: "Only the job owner or assigned worker can complete a job" };
-    }
-    if (job.status !== "in_progress") {
-      return { error: "Job must be in progress to be completed" };
-    }
+  // Sending a submission back needs a note, so it goes through requestChanges
+  if (status === "in_progress") {
+    return { error: "Use request changes to send a submitted job back" };
   }
 
-  if (status === "open" && !isOwner) {
-    return { error: "Only the job owner can reopen a job" };
-  }
-
-  // Build update object
-  const updateData: Record<string, unknown> = { status };
-  
-  if (status === "completed") {
-    updateData.completed_at = new Date().toISOString();
-  }
-  
-  if (status === "open") {
-    updateData.assigned_to = null;
-    updateData.completed_at = null;
-  }
-
-  if (status === "cancelled") {
-    updateData.assigned_to = null;
-  }
-
-  const { error } = await supabase
-    .from("jobs")
-    .update(updateData)
-    .eq("id", jobId);
+  // Update the job and release or refund its escrow in one transaction
+  // (see set_job_status in supabase/job-review.sql)
+  const { error } = await supabase.rpc("set_job_status", {
+    p_job_id: jobId,
+    p_status: status,
+  });
 
   if (error) {
     console.error("Error updating job status:", error);
     return { error: error.message };
   }
 
+  // Reopening puts the previously hired worker back in the applicant pool
+  if (status === "open" && job.assigned_to) {
+    await supabase
+      .from("applications")
+      .update({ status: "pending" })
+      .eq("job_id", jobId)
+      .eq("worker_id", job.assigned_to)
+      .eq("status", "hired");
+  }
+
   // Send notification messages for status changes - Premium Apple-style
   if (job.assigned_to) {
     const { data: conv } = await supabase
@@ -178,22 +179,17 @@ export async function updateJobStatus(
       .eq("worker_id", job.assigned_to)
       .maybeSingle();
 
-    if (conv) {
-      let notificationMessage = "";
-      
-      if (status === "completed") {
-        notificationMessage = `Task completed. "${job.title}" is now finished. Thank you for your work.`;
-      } else if (status === "cancelled") {
-        notificationMessage = `This task has been cancelled. "${job.title}" is no longer available.`;
-      }
-      
-      if (notificationMessage) {
-        await supabase.from("messages").insert({
-          conversation_id: conv.id,
-          sender_id: user.id,
-          content: notificationMessage,
-        });
-      }
+    // Notify the other side of the job about submission / completion / cancellation
+    if (status === "pending_review" || status === "completed" || status === "cancelled") {
+      await createNotification(supabase, {
+        recipientId: isOwner ? job.assigned_to : job.user_id,
+        actorId: user.id,
+        kind: status === "pending_review"
+          ? "work_submitted"
+          : status === "completed" ? "job_completed" : "job_cancelled",
+        jobId,
+        conversationId: conv?.id,
+      });
     }
   }
 
@@ -204,6 +200,84 @@ export async function updateJobStatus(
   return { success: true };
 }
 
+// Worker: hand the finished job to the poster for approval
+export async function submitForReview(jobId: string): Promise<UpdateJobStatusResult> {
+  return updateJobStatus(jobId, "pending_review");
+}
+
+// Poster: send a submitted job back to the worker with a note on what to fix
+export async function requestChanges(
+  jobId: string,
+  note: string
+): Promise<UpdateJobStatusResult> {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: "You must be logged in" };
+  }
+
+  const reviewNote = note.trim();
+  if (!reviewNote) {
+    return { error: "Tell the worker what needs to change" };
+  }
+  if (reviewNote.length > REVIEW_NOTE_MAX_LENGTH) {
+    return { error: `Note must be ${REVIEW_NOTE_MAX_LENGTH} characters or less` };
+  }
+
+  const { data: job, error: fetchError } = await supabase
+    .from("jobs")
+    .select("user_id, assigned_to, status")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (fetchError || !job) {
+    return { error: "Job not found" };
+  }
+
+  // open -> in_progress is an assignment, not a review
+  if (job.status !== "pending_review") {
+    return { error: "Changes can only be requested on submitted jobs" };
+  }
+
+  const transitionError = getTransitionError(job.status, "in_progress", getJobActor(job, user.id));
+  if (transitionError) {
+    return { error: transitionError };
+  }
+
+  const { error } = await supabase.rpc("set_job_status", {
+    p_job_id: jobId,
+    p_status: "in_progress",
+    p_note: reviewNote,
+  });
+
+  if (error) {
+    console.error("Error requesting changes:", error);
+    return { error: error.message };
+  }
+
+  const { data: conv } = await supabase
+    .from("conversations")
+    .select("id")
+    .eq("job_id", jobId)
+    .eq("worker_id", job.assigned_to)
+    .maybeSingle();
+
+  await createNotification(supabase, {
+    recipientId: job.assigned_to,
+    actorId: user.id,
+    kind: "changes_requested",
+    jobId,
+    conversationId: conv?.id,
+    body: reviewNote,
+  });
+
+  revalidatePath("/my-jobs");
+  revalidatePath("/my-gigs");
+
+  return { success: true };
+}
+
 // Unassign a worker from a job (return to open)
 export async function unassignWorker(jobId: string): Promise<UpdateJobStatusResult> {
   return updateJobStatus(jobId, "open");
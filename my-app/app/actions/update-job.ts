@@ -0,0 +1,180 @@
+"use server";
+
+import { createClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { DEFAULT_CATEGORY, isCategorySlug } from "@/lib/categories";
+import {
+  sanitizeDescription,
+  sanitizeTitle,
+  validateDescription,
+  validateTitle,
+} from "@/lib/job-text";
+import { getDefaultDueAt, validateDueAt } from "@/lib/deadlines";
+
+// Fields a poster can change after posting
+const EDITABLE_FIELDS = ["title", "description", "price", "urgency", "location", "category", "due_at"] as const;
+
+type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+type JobChanges = Partial<Record<EditableField, { from: unknown; to: unknown }>>;
+
+export async function updateJob(
+  jobId: string,
+  formData: FormData
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createClient();
+
+    // Security Check: Get the current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return { success: false, error: "You must be logged in to edit a job" };
+    }
+
+    // Extract form data
+    const title = sanitizeTitle((formData.get("title") as string) || "");
+    const description = sanitizeDescription((formData.get("description") as string) || "");
+    const priceString = formData.get("price") as string;
+    const urgency = (formData.get("urgency") as string) || "Flexible";
+    const location = (formData.get("location") as string) || "Campus";
+    const category = (formData.get("category") as string) || DEFAULT_CATEGORY;
+    const dueAtString = formData.get("due_at") as string | null;
+
+    // Validate required fields
+    if (!title || !priceString) {
+      return { success: false, error: "Title and price are required" };
+    }
+
+    const textError = validateTitle(title) || validateDescription(description);
+    if (textError) {
+      return { success: false, error: textError };
+    }
+
+    if (!isCategorySlug(category)) {
+      return { success: false, error: "Invalid category" };
+    }
+
+    const price = parseInt(priceString, 10);
+    if (isNaN(price) || price < 0) {
+      return { success: false, error: "Invalid price" };
+    }
+
+    const dueAt = dueAtString ? new Date(dueAtString) : getDefaultDueAt(urgency);
+
+    // Authorization: Ensure the job belongs to the user before editing
+    const { data: job, error: fetchError } = await supabase
+      .from("jobs")
+      .select("id, user_id, status, title, description, price, urgency, location, category, due_at")
+      .eq("id", jobId)
+      .maybeSingle();
+
+    if (fetchError || !job) {
+      return { success: false, error: "Job not found" };
+    }
+
+    if (job.user_id !== user.id) {
+      return { success: false, error: "You are not authorized to edit this job" };
+    }
+
+    // Expired jobs can be reposted with a new deadline
+    if (job.status !== "open" && job.status !== "expired") {
+      return { success: false, error: "Only open jobs can be edited" };
+    }
+
+    // Work out what actually changed
+    const next: Record<EditableField, unknown> = {
+      title,
+      description,
+      price,
+      urgency,
+      location,
+      category,
+      due_at: dueAt.toISOString(),
+    };
+
+    const changes: JobChanges = {};
+    for (const field of EDITABLE_FIELDS) {
+      const unchanged = field === "due_at"
+        ? new Date(job.due_at).getTime() === dueAt.getTime()
+        : (job[field] ?? "") === (next[field] ?? "");
+      if (!unchanged) {
+        changes[field] = { from: job[field], to: next[field] };
+      }
+    }
+
+    const isRepost = job.status === "expired";
+
+    if (Object.keys(changes).length === 0 && !isRepost) {
+      return { success: true };
+    }
+
+    // A deadline that has already passed is fine until someone moves it
+    if (changes.due_at || isRepost) {
+      const dueAtError = validateDueAt(dueAt);
+      if (dueAtError) {
+        return { success: false, error: dueAtError };
+      }
+    }
+
+    if (isRepost) {
+      // Operation: Repost the job, which goes back into the feed
+      // (see repost_job in supabase/job-edits.sql)
+      const { error: repostError } = await supabase.rpc("repost_job", {
+        p_job_id: jobId,
+        p_title: title,
+        p_description: description,
+        p_price: price,
+        p_urgency: urgency,
+        p_location: location,
+        p_category: category,
+        p_due_at: dueAt.toISOString(),
+      });
+
+      if (repostError) {
+        console.error("Error reposting job:", repostError);
+        return { success: false, error: "Failed to repost job" };
+      }
+    } else {
+      // Operation: Update the job.
+      // The status filter repeats the check above, so a job assigned in the
+      // meantime is left alone.
+      const { data: updated, error: updateError } = await supabase
+        .from("jobs")
+        .update(next)
+        .eq("id", jobId)
+        .eq("user_id", user.id) // Extra safety: ensure user owns the job
+        .eq("status", "open")
+        .select("id");
+
+      if (updateError) {
+        console.error("Error updating job:", updateError);
+        return { success: false, error: "Failed to update job" };
+      }
+
+      if (!updated || updated.length === 0) {
+        return { success: false, error: "This job can no longer be edited" };
+      }
+    }
+
+    // History: Record the diff
+    const { error: historyError } = await supabase.from("job_edits").insert({
+      job_id: jobId,
+      editor_id: user.id,
+      changes,
+    });
+
+    if (historyError) {
+      console.error("Error recording job edit:", historyError);
+    }
+
+    // Cleanup: Revalidate paths to refresh the UI
+    revalidatePath("/");
+    revalidatePath("/my-jobs");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unexpected error updating job:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
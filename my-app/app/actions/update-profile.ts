@@ -2,6 +2,12 @@
 
 import { revalidatePath } from "next/cache";
 import { createClient } from "@/utils/supabase/server";
+import { AVATAR_BUCKET, getDefaultAvatarUrl, validateAvatarFile } from "@/lib/avatar";
+import {
+  parseAvailability,
+  validateProfileDetails,
+  type ProfileDetails,
+} from "@/lib/profile-details";
 
 interface UpdateProfileResult {
   success?: boolean;
@@ -30,11 +36,40 @@ export async function updateProfile(formData: FormData): Promise<UpdateProfileRe
     return { error: "Display name must be less than 50 characters" };
   }
 
+  // Profile details (skills come as repeated fields, availability as JSON)
+  const batchString = (formData.get("batch") as string) || "";
+  let availability: unknown = [];
+  try {
+    availability = JSON.parse((formData.get("availability") as string) || "[]");
+  } catch {
+    return { error: "Invalid availability" };
+  }
+
+  const details: ProfileDetails = {
+    bio: ((formData.get("bio") as string) || "").replace(/<[^>]*>/g, "").trim(),
+    hostel: (formData.get("hostel") as string) || null,
+    department: (formData.get("department") as string) || null,
+    batch: batchString ? Number(batchString) : null,
+    skills: [...new Set(formData.getAll("skills").map(String))],
+    availability: parseAvailability(availability),
+  };
+
+  const detailsError = validateProfileDetails(details);
+  if (detailsError) {
+    return { error: detailsError };
+  }
+
   // Update profile in database
   const { error } = await supabase
     .from("profiles")
     .update({
       full_name: displayName.trim(),
+      bio: details.bio || null,
+      hostel: details.hostel,
+      department: details.department,
+      batch: details.batch,
+      skills: details.skills,
+      availability: details.availability,
     })
     .eq("id", user.id);
 
@@ -47,6 +82,116 @@ export async function updateProfile(formData: FormData): Promise<UpdateProfileRe
   revalidatePath("/profile");
   revalidatePath("/");
   revalidatePath("/my-jobs");
+  revalidatePath(`/u/${user.id}`);
 
   return { success: true };
 }
+
+// Remove every file in the user's avatar folder
+async function clearAvatarFolder(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  keep?: string
+) {
+  const { data: files } = await supabase.storage.from(AVATAR_BUCKET).list(userId);
+  const paths = (files || [])
+    .map((file) => `${userId}/${file.name}`)
+    .filter((path) => path !== keep);
+
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from(AVATAR_BUCKET).remove(paths);
+    if (error) {
+      console.error("Error removing old avatars:", error);
+    }
+  }
+}
+
+// Upload a new avatar (already cropped and resized in the browser)
+export async function updateAvatar(formData: FormData): Promise<UpdateProfileResult & { avatarUrl?: string }> {
+  const supabase = await createClient();
+
+  // Get the authenticated user
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: "You must be logged in to update your avatar" };
+  }
+
+  const file = formData.get("avatar");
+
+  if (!(file instanceof File) || file.size === 0) {
+    return { error: "Please choose an image" };
+  }
+
+  // Validate again on the server: the client crop can be bypassed
+  const fileError = validateAvatarFile(file);
+  if (fileError) {
+    return { error: fileError };
+  }
+
+  // A fresh name per upload so cached copies of the old avatar don't linger
+  const extension = file.type.split("/")[1];
+  const path = `${user.id}/avatar-${Date.now()}.${extension}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(AVATAR_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (uploadError) {
+    console.error("Error uploading avatar:", uploadError);
+    return { error: "Failed to upload avatar" };
+  }
+
+  const { data: { publicUrl } } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path);
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({ avatar_url: publicUrl })
+    .eq("id", user.id);
+
+  if (error) {
+    console.error("Error saving avatar:", error);
+    await supabase.storage.from(AVATAR_BUCKET).remove([path]);
+    return { error: error.message };
+  }
+
+  await clearAvatarFolder(supabase, user.id, path);
+
+  revalidatePath("/profile");
+  revalidatePath(`/u/${user.id}`);
+  revalidatePath("/");
+
+  return { success: true, avatarUrl: publicUrl };
+}
+
+// Delete the uploaded avatar and fall back to the generated one
+export async function removeAvatar(): Promise<UpdateProfileResult & { avatarUrl?: string }> {
+  const supabase = await createClient();
+
+  // Get the authenticated user
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: "You must be logged in to update your avatar" };
+  }
+
+  const avatarUrl = getDefaultAvatarUrl(user.id);
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({ avatar_url: avatarUrl })
+    .eq("id", user.id);
+
+  if (error) {
+    console.error("Error removing avatar:", error);
+    return { error: error.message };
+  }
+
+  await clearAvatarFolder(supabase, user.id);
+
+  revalidatePath("/profile");
+  revalidatePath(`/u/${user.id}`);
+  revalidatePath("/");
+
+  return { success: true, avatarUrl };
+}
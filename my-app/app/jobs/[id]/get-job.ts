@@ -0,0 +1,30 @@
+import { cache } from "react";
+import { createClient } from "@/utils/supabase/server";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const JOB_COLUMNS =
+  "id, title, description, price, agreed_price, urgency, location, category, status, due_at, created_at, user_id, assigned_to, student_name, student_email, avatar_url, poster_rating, poster_total_ratings";
+
+// Shared by the page, its metadata and its Open Graph image, so one request
+// only reads the job once
+export const getJob = cache(async (id: string) => {
+  if (!UUID_PATTERN.test(id)) return null;
+
+  const supabase = await createClient();
+
+  const { data } = await supabase
+    .from("jobs_with_poster")
+    .select(JOB_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  return data;
+});
+
+// Poster's name, or their roll number when they haven't set one
+export function getPosterName(job: { student_name: string | null; student_email: string | null }): string {
+  if (job.student_name && job.student_name.trim()) return job.student_name;
+  const match = job.student_email?.match(/[a-z]?(\d+)@/i);
+  return match ? match[1] : "A student";
+}
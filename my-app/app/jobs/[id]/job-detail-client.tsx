@@ -0,0 +1,321 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import {
+  ArrowLeft,
+  MapPin,
+  Clock,
+  Users,
+  Calendar,
+  Star,
+  Link2,
+  Check,
+  MessageCircle,
+  Briefcase,
+  LogIn,
+} from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { ProfileLink } from "@/components/features/profile-link";
+import { RichDescription } from "@/components/features/rich-description";
+import { JobTimeline } from "@/components/features/job-timeline";
+import { ChatSheet } from "@/components/features/chat-sheet";
+import { getCategory } from "@/lib/categories";
+import { formatDueLabel } from "@/lib/deadlines";
+import { LOGIN_PATH, NEXT_PARAM } from "@/lib/auth-routes";
+import type { JobStatus } from "@/lib/job-transitions";
+import Link from "next/link";
+
+interface JobDetail {
+  id: string;
+  title: string;
+  description: string;
+  price: number;
+  urgency: string;
+  location: string;
+  category: string | null;
+  status: JobStatus;
+  dueAt: string | null;
+  createdAt: string;
+  userId: string;
+  assignedTo: string | null;
+}
+
+interface PosterSummary {
+  name: string;
+  avatarUrl: string;
+  averageRating: number;
+  totalRatings: number;
+}
+
+interface JobDetailClientProps {
+  job: JobDetail;
+  poster: PosterSummary;
+  applicantCount: number;
+  currentUserId: string | null;
+  currentUserEmail: string | null;
+}
+
+const STATUS_STYLES: Record<JobStatus, { label: string; className: string }> = {
+  open: { label: "Open", className: "bg-emerald-100 text-emerald-800 dark:bg-emerald-500/20 dark:text-emerald-300" },
+  in_progress: { label: "In Progress", className: "bg-blue-100 text-blue-800 dark:bg-blue-500/20 dark:text-blue-300" },
+  pending_review: { label: "In Review", className: "bg-sky-100 text-sky-800 dark:bg-sky-500/20 dark:text-sky-300" },
+  completed: { label: "Completed", className: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300" },
+  cancelled: { label: "Cancelled", className: "bg-red-100 text-red-800 dark:bg-red-500/20 dark:text-red-300" },
+  expired: { label: "Expired", className: "bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300" },
+};
+
+function formatPostedDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+export function JobDetailClient({
+  job,
+  poster,
+  applicantCount,
+  currentUserId,
+  currentUserEmail,
+}: JobDetailClientProps) {
+  const router = useRouter();
+  const [chatOpen, setChatOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const category = getCategory(job.category);
+  const CategoryIcon = category.icon;
+  const status = STATUS_STYLES[job.status];
+  const isOwner = currentUserId === job.userId;
+  const isWorker = !!currentUserId && currentUserId === job.assignedTo;
+  const loginHref = `${LOGIN_PATH}?${NEXT_PARAM}=${encodeURIComponent(`/jobs/${job.id}`)}`;
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  // Applying or hiring in the sheet changes the status and applicant count
+  const handleCloseChat = () => {
+    setChatOpen(false);
+    router.refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-black relative">
+      {/* Grid Background */}
+      <div className="fixed inset-0 -z-10 h-full w-full bg-white dark:bg-black">
+        <div className="absolute bottom-0 left-0 right-0 top-0 bg-[linear-gradient(to_right,#4f4f4f2e_1px,transparent_1px),linear-gradient(to_bottom,#4f4f4f2e_1px,transparent_1px)] bg-[size:14px_24px] [mask-image:radial-gradient(ellipse_60%_50%_at_50%_0%,#000_70%,transparent_100%)]" />
+      </div>
+
+      {/* Glow Orbs */}
+      <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[800px] h-[400px] bg-emerald-500/20 blur-[120px] rounded-full -z-10" />
+
+      <ChatSheet
+        job={{
+          id: job.id,
+          title: job.title,
+          description: job.description,
+          price: job.price,
+          urgency: job.urgency,
+          location: job.location,
+          category: job.category ?? undefined,
+          userId: job.userId,
+          studentName: poster.name,
+          avatarUrl: poster.avatarUrl,
+          status: job.status,
+          assignedTo: job.assignedTo,
+        }}
+        isOpen={chatOpen}
+        onClose={handleCloseChat}
+        currentUserId={currentUserId}
+        currentUserEmail={currentUserEmail}
+      />
+
+      {/* Glass Header */}
+      <header className="sticky top-0 z-50 bg-white/60 dark:bg-black/50 backdrop-blur-xl border-b border-zinc-200/30 dark:border-zinc-800/30">
+        <div className="max-w-3xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="flex items-center justify-center w-9 h-9 rounded-full bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4 text-zinc-600 dark:text-zinc-400" />
+              </motion.button>
+            </Link>
+            <h1 className="text-xl font-bold tracking-tight text-zinc-900 dark:text-white">
+              Task
+            </h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopyLink} className="rounded-xl">
+              {copied ? <Check className="h-3.5 w-3.5 mr-2" /> : <Link2 className="h-3.5 w-3.5 mr-2" />}
+              {copied ? "Copied" : "Copy link"}
+            </Button>
+            <ThemeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-6 py-12 space-y-6">
+        {/* Summary Card */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="relative overflow-hidden rounded-3xl bg-white/70 dark:bg-zinc-900/70 backdrop-blur-2xl border border-zinc-200/50 dark:border-zinc-800/50 shadow-2xl shadow-zinc-900/10 dark:shadow-black/30 p-8 sm:p-10"
+        >
+          <div className="flex items-center justify-between gap-4">
+            <span className={`px-3 py-1 rounded-full text-xs font-semibold ${status.className}`}>
+              {status.label}
+            </span>
+            <span className="px-4 py-1.5 rounded-full bg-emerald-500 text-white font-semibold shadow-lg shadow-emerald-500/30">
+              Rs. {job.price.toLocaleString()}
+            </span>
+          </div>
+
+          <h2 className="mt-5 text-2xl sm:text-3xl font-bold tracking-tight text-zinc-900 dark:text-white break-words">
+            {job.title}
+          </h2>
+
+          <div className="flex flex-wrap items-center gap-2 mt-4">
+            <span className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-violet-50 dark:bg-violet-500/10 text-violet-700 dark:text-violet-400 rounded-lg text-xs font-medium">
+              <CategoryIcon className="h-3 w-3" />
+              {category.label}
+            </span>
+            <span className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg text-xs font-medium text-zinc-600 dark:text-zinc-400">
+              <MapPin className="h-3 w-3" />
+              {job.location}
+            </span>
+            <span className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-amber-50 dark:bg-amber-500/10 text-amber-700 dark:text-amber-400 rounded-lg text-xs font-medium">
+              <Clock className="h-3 w-3" />
+              {job.dueAt && job.status === "open" ? formatDueLabel(job.dueAt) : job.urgency}
+            </span>
+          </div>
+
+          {/* Poster */}
+          <div className="flex items-center gap-4 mt-8 pt-6 border-t border-zinc-200/60 dark:border-zinc-800">
+            <ProfileLink userId={job.userId} className="rounded-xl">
+              <Avatar className="h-12 w-12 rounded-xl ring-2 ring-zinc-100 dark:ring-zinc-800">
+                <AvatarImage src={poster.avatarUrl} alt={poster.name} />
+                <AvatarFallback className="rounded-xl text-sm font-medium bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400">
+                  {poster.name.slice(0, 2).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+            </ProfileLink>
+            <div className="flex-1 min-w-0">
+              <ProfileLink userId={job.userId} className="font-semibold text-zinc-900 dark:text-white hover:underline">
+                {poster.name}
+              </ProfileLink>
+              <p className="flex items-center gap-1 text-xs text-zinc-500 dark:text-zinc-400 mt-0.5">
+                <Star className="h-3 w-3 text-amber-500 fill-amber-500" />
+                {poster.totalRatings > 0
+                  ? `${poster.averageRating.toFixed(1)} · ${poster.totalRatings} ${poster.totalRatings === 1 ? "review" : "reviews"}`
+                  : "No reviews yet"}
+              </p>
+            </div>
+          </div>
+
+          {/* Stats */}
+          <div className="grid grid-cols-2 gap-3 mt-6">
+            <div className="p-4 rounded-2xl bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-500/10 dark:to-indigo-500/5 border border-blue-200/50 dark:border-blue-500/20 text-center">
+              <p className="text-2xl font-bold text-blue-900 dark:text-white">{applicantCount}</p>
+              <p className="text-xs text-blue-600/70 dark:text-blue-400/60 mt-1 flex items-center justify-center gap-1">
+                <Users className="h-3 w-3" />
+                {applicantCount === 1 ? "applicant" : "applicants"}
+              </p>
+            </div>
+            <div className="p-4 rounded-2xl bg-gradient-to-br from-emerald-50 to-teal-50 dark:from-emerald-500/10 dark:to-teal-500/5 border border-emerald-200/50 dark:border-emerald-500/20 text-center">
+              <p className="text-2xl font-bold text-emerald-900 dark:text-white">{formatPostedDate(job.createdAt)}</p>
+              <p className="text-xs text-emerald-600/70 dark:text-emerald-400/60 mt-1 flex items-center justify-center gap-1">
+                <Calendar className="h-3 w-3" />
+                posted
+              </p>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="mt-6">
+            {!currentUserId ? (
+              <Link href={loginHref}>
+                <Button className="w-full h-12 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white font-semibold">
+                  <LogIn className="h-4 w-4 mr-2" />
+                  Sign in to apply
+                </Button>
+              </Link>
+            ) : isOwner ? (
+              <div className="grid grid-cols-2 gap-3">
+                <Button
+                  onClick={() => setChatOpen(true)}
+                  className="h-12 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white font-semibold"
+                >
+                  <Users className="h-4 w-4 mr-2" />
+                  View applicants
+                </Button>
+                <Link href="/my-jobs">
+                  <Button variant="outline" className="w-full h-12 rounded-xl font-semibold">
+                    <Briefcase className="h-4 w-4 mr-2" />
+                    My Jobs
+                  </Button>
+                </Link>
+              </div>
+            ) : isWorker || job.status === "open" ? (
+              <Button
+                onClick={() => setChatOpen(true)}
+                className="w-full h-12 rounded-xl bg-emerald-600 hover:bg-emerald-700 text-white font-semibold"
+              >
+                <MessageCircle className="h-4 w-4 mr-2" />
+                {isWorker ? "Open chat" : "Apply or message the poster"}
+              </Button>
+            ) : (
+              <p className="text-center text-sm text-zinc-500 dark:text-zinc-400 py-3">
+                This task is no longer taking applicants
+              </p>
+            )}
+          </div>
+        </motion.div>
+
+        {/* Description */}
+        {job.description && (
+          <motion.section
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+          >
+            <p className="text-xs font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-widest mb-4">
+              About this task
+            </p>
+            <div className="p-6 rounded-2xl bg-zinc-50 dark:bg-zinc-900/50 border border-zinc-200/80 dark:border-zinc-800">
+              <RichDescription
+                text={job.description}
+                className="text-[15px] text-zinc-700 dark:text-zinc-300 leading-relaxed"
+              />
+            </div>
+          </motion.section>
+        )}
+
+        {/* Status History - only the poster and worker get events back */}
+        {currentUserId && (
+          <motion.section
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+          >
+            <JobTimeline key={job.status} jobId={job.id} />
+          </motion.section>
+        )}
+      </main>
+    </div>
+  );
+}
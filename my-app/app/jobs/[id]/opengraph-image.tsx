@@ -0,0 +1,72 @@
+import { ImageResponse } from "next/og";
+import { getCategory } from "@/lib/categories";
+import { formatDueLabel } from "@/lib/deadlines";
+import { TITLE_MAX_LENGTH, toPreview } from "@/lib/job-text";
+import { getJob, getPosterName } from "./get-job";
+
+export const alt = "A task on CrowdServe";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+interface JobImageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Link preview card for chat apps: title, price and who posted it
+export default async function JobOpenGraphImage({ params }: JobImageProps) {
+  const { id } = await params;
+  const job = await getJob(id);
+
+  const title = job ? toPreview(job.title, TITLE_MAX_LENGTH) : "Task not found";
+  const details = job
+    ? [
+        getCategory(job.category).label,
+        job.location,
+        job.status === "open" && job.due_at ? formatDueLabel(job.due_at) : null,
+      ].filter(Boolean).join(" · ")
+    : "";
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 72,
+          background: "linear-gradient(135deg, #052e16 0%, #09090b 60%)",
+          color: "white",
+        }}
+      >
+        <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+          <div style={{ fontSize: 32, fontWeight: 700, color: "#34d399" }}>CrowdServe</div>
+          {job && (
+            <div
+              style={{
+                padding: "12px 28px",
+                borderRadius: 999,
+                background: "#10b981",
+                fontSize: 36,
+                fontWeight: 700,
+              }}
+            >
+              Rs. {job.price.toLocaleString()}
+            </div>
+          )}
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 24 }}>
+          <div style={{ fontSize: 64, fontWeight: 700, lineHeight: 1.15 }}>{title}</div>
+          {details && <div style={{ fontSize: 30, color: "#a1a1aa" }}>{details}</div>}
+        </div>
+
+        <div style={{ fontSize: 28, color: "#d4d4d8" }}>
+          {job ? `Posted by ${getPosterName(job)}` : "The student marketplace for GIKI"}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,88 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { createClient } from "@/utils/supabase/server";
+import { getDefaultAvatarUrl } from "@/lib/avatar";
+import { getCategory } from "@/lib/categories";
+import { TITLE_MAX_LENGTH, toPreview } from "@/lib/job-text";
+import { getJob, getPosterName } from "./get-job";
+import { JobDetailClient } from "./job-detail-client";
+
+interface JobPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({ params }: JobPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const job = await getJob(id);
+
+  if (!job) {
+    return { title: "Task not found · CrowdServe" };
+  }
+
+  const title = `${toPreview(job.title, TITLE_MAX_LENGTH)} · Rs. ${job.price.toLocaleString()}`;
+  const description =
+    toPreview(job.description, 160) ||
+    `${getCategory(job.category).label} task posted by ${getPosterName(job)} on CrowdServe`;
+
+  // The image itself comes from opengraph-image.tsx next to this page
+  return {
+    title: `${title} · CrowdServe`,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      siteName: "CrowdServe",
+      url: `/jobs/${job.id}`,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+export default async function JobPage({ params }: JobPageProps) {
+  const { id } = await params;
+  const job = await getJob(id);
+
+  if (!job) {
+    notFound();
+  }
+
+  const supabase = await createClient();
+
+  const [{ data: { user } }, { data: applicantCount }] = await Promise.all([
+    supabase.auth.getUser(),
+    supabase.rpc("job_applicant_count", { p_job_id: job.id }),
+  ]);
+
+  return (
+    <JobDetailClient
+      job={{
+        id: job.id,
+        title: job.title,
+        description: job.description || "",
+        price: job.agreed_price ?? job.price,
+        urgency: job.urgency,
+        location: job.location,
+        category: job.category,
+        status: job.status,
+        dueAt: job.due_at,
+        createdAt: job.created_at,
+        userId: job.user_id,
+        assignedTo: job.assigned_to,
+      }}
+      poster={{
+        name: getPosterName(job),
+        avatarUrl: job.avatar_url || getDefaultAvatarUrl(job.user_id),
+        averageRating: Number(job.poster_rating) || 0,
+        totalRatings: job.poster_total_ratings || 0,
+      }}
+      applicantCount={applicantCount ?? 0}
+      currentUserId={user?.id ?? null}
+      currentUserEmail={user?.email ?? null}
+    />
+  );
+}
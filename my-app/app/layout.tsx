@@ -6,6 +6,8 @@ import { SWRProvider } from "@/lib/swr-config";
 import "./globals.css";
 
 export const metadata: Metadata = {
+  // Absolute URLs for Open Graph images on shared links (Vercel's URL is used when unset)
+  metadataBase: process.env.NEXT_PUBLIC_SITE_URL ? new URL(process.env.NEXT_PUBLIC_SITE_URL) : undefined,
   title: "CrowdServe",
   description: "The student marketplace for GIKI. Post tasks, find help, earn money.",
 };
@@ -1,6 +1,15 @@
 import { GikiLoginForm } from "@/components/auth/giki-login-form";
+import { NEXT_PARAM, getSafeNextPath } from "@/lib/auth-routes";
+
+interface LoginPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  // Where to send the user once they're signed in (set by the middleware)
+  const next = (await searchParams)[NEXT_PARAM];
+  const redirectTo = getSafeNextPath(typeof next === "string" ? next : null);
 
-export default function LoginPage() {
   return (
     <div className="relative min-h-screen flex items-center justify-center p-6">
       {/* Background */}
@@ -14,7 +23,7 @@ export default function LoginPage() {
       <div className="absolute top-1/2 right-1/3 w-[300px] h-[300px] bg-blue-500/10 blur-[100px] rounded-full -z-10" />
 
       {/* Login Form */}
-      <GikiLoginForm />
+      <GikiLoginForm redirectTo={redirectTo} />
 
       {/* Footer */}
       <div className="absolute bottom-6 text-center w-full">
@@ -0,0 +1,312 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { ArrowLeft, Scale, Loader2, CheckCircle2, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { ProfileLink } from "@/components/features/profile-link";
+import { resolveDispute } from "@/app/actions/disputes";
+import {
+  DISPUTE_OUTCOMES,
+  RESOLUTION_NOTE_MAX_LENGTH,
+  getDisputeReasonLabel,
+  validateWorkerShare,
+  type DisputeOutcome,
+  type DisputeStatus,
+} from "@/lib/disputes";
+import Link from "next/link";
+
+export interface DisputeItem {
+  id: string;
+  jobId: string;
+  jobTitle: string;
+  jobStatus: string;
+  jobPrice: number;
+  reason: string;
+  evidence: string | null;
+  status: DisputeStatus;
+  outcome: DisputeOutcome | null;
+  workerShare: number | null;
+  resolutionNote: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  openedByPoster: boolean;
+  posterId: string;
+  posterName: string | null;
+  posterEmail: string | null;
+  workerId: string | null;
+  workerName: string | null;
+  workerEmail: string | null;
+}
+
+interface ModerationClientProps {
+  disputes: DisputeItem[];
+}
+
+function extractRegNumber(email: string | null): string {
+  if (!email) return "User";
+  const match = email.match(/[a-z]?(\d+)@/i);
+  return match ? match[1] : "User";
+}
+
+function getDisplayName(name: string | null, email: string | null): string {
+  if (name && name.trim()) return name;
+  return extractRegNumber(email);
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function describeOutcome(dispute: DisputeItem): string {
+  switch (dispute.outcome) {
+    case "refund":
+      return `Refunded Rs. ${dispute.jobPrice} to the poster`;
+    case "release":
+      return `Released Rs. ${dispute.jobPrice} to the worker`;
+    case "split":
+      return `Rs. ${dispute.workerShare} to the worker, Rs. ${dispute.jobPrice - (dispute.workerShare ?? 0)} to the poster`;
+    default:
+      return "";
+  }
+}
+
+function ResolveForm({ dispute }: { dispute: DisputeItem }) {
+  const router = useRouter();
+  const [outcome, setOutcome] = useState<DisputeOutcome | null>(null);
+  const [share, setShare] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleResolve = () => {
+    if (!outcome) return;
+    setError(null);
+
+    const workerShare = outcome === "split" ? Number(share) : null;
+    if (workerShare !== null) {
+      const shareError = validateWorkerShare(workerShare, dispute.jobPrice);
+      if (shareError) {
+        setError(shareError);
+        return;
+      }
+    }
+
+    startTransition(async () => {
+      const result = await resolveDispute(dispute.id, outcome, workerShare, note);
+      if (result.success) {
+        router.refresh();
+      } else if (result.error) {
+        setError(result.error);
+      }
+    });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-zinc-100 dark:border-zinc-800 space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {DISPUTE_OUTCOMES.map((o) => (
+          <button
+            key={o.value}
+            type="button"
+            onClick={() => setOutcome(o.value)}
+            className={`p-3 rounded-xl border text-left transition-colors ${
+              outcome === o.value
+                ? "border-violet-500 bg-violet-50 dark:bg-violet-500/10"
+                : "border-zinc-200 dark:border-zinc-800 hover:border-zinc-300 dark:hover:border-zinc-700"
+            }`}
+          >
+            <p className="text-sm font-semibold text-zinc-900 dark:text-white">{o.label}</p>
+            <p className="text-[11px] text-zinc-500 dark:text-zinc-400 leading-snug">{o.description}</p>
+          </button>
+        ))}
+      </div>
+
+      {outcome === "split" && (
+        <div className="flex items-center gap-3">
+          <Input
+            type="number"
+            min={1}
+            max={dispute.jobPrice - 1}
+            value={share}
+            onChange={(e) => setShare(e.target.value)}
+            placeholder="Worker's share"
+            className="w-40 rounded-xl"
+          />
+          <span className="text-sm text-zinc-500 dark:text-zinc-400">
+            of Rs. {dispute.jobPrice}
+            {Number(share) > 0 && Number(share) < dispute.jobPrice && (
+              <> · poster gets Rs. {dispute.jobPrice - Number(share)} back</>
+            )}
+          </span>
+        </div>
+      )}
+
+      <Textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note for both sides (optional, posted in their chat)"
+        maxLength={RESOLUTION_NOTE_MAX_LENGTH}
+        className="min-h-[80px] rounded-xl resize-none"
+      />
+
+      {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleResolve}
+          disabled={!outcome || isPending}
+          className="rounded-xl bg-violet-600 hover:bg-violet-700 text-white font-semibold"
+        >
+          {isPending ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Resolving...
+            </>
+          ) : (
+            "Resolve Dispute"
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ModerationClient({ disputes }: ModerationClientProps) {
+  const [activeTab, setActiveTab] = useState<DisputeStatus>("open");
+
+  const openCount = disputes.filter((d) => d.status === "open").length;
+  const visible = disputes.filter((d) => d.status === activeTab);
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-black relative">
+      {/* Glass Header */}
+      <header className="sticky top-0 z-50 bg-white/60 dark:bg-black/50 backdrop-blur-xl border-b border-zinc-200/30 dark:border-zinc-800/30">
+        <div className="max-w-3xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="flex items-center justify-center w-9 h-9 rounded-full bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4 text-zinc-600 dark:text-zinc-400" />
+              </motion.button>
+            </Link>
+            <h1 className="text-xl font-bold tracking-tight text-zinc-900 dark:text-white">
+              Disputes
+            </h1>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-6 py-8 space-y-4">
+        {/* Tab Bar */}
+        <div className="flex items-center gap-1 p-1 bg-zinc-100 dark:bg-zinc-800/50 rounded-xl w-fit">
+          {(["open", "resolved"] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                activeTab === tab
+                  ? "bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white shadow-sm"
+                  : "text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
+              }`}
+            >
+              {tab === "open" ? `Open (${openCount})` : `Resolved (${disputes.length - openCount})`}
+            </button>
+          ))}
+        </div>
+
+        {visible.length === 0 ? (
+          <div className="flex flex-col items-center py-20 text-center">
+            <Scale className="h-10 w-10 text-zinc-300 dark:text-zinc-700 mb-4" />
+            <p className="text-zinc-500 dark:text-zinc-400">
+              {activeTab === "open" ? "No open disputes" : "No resolved disputes yet"}
+            </p>
+          </div>
+        ) : (
+          visible.map((dispute, index) => (
+            <motion.div
+              key={dispute.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.03 }}
+              className="bg-white dark:bg-zinc-900 rounded-2xl border border-zinc-200/80 dark:border-zinc-800 p-5"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-[16px] text-zinc-900 dark:text-white truncate">
+                    {dispute.jobTitle}
+                  </h3>
+                  <p className="text-[13px] text-zinc-500 dark:text-zinc-400 mt-0.5">
+                    <ProfileLink userId={dispute.posterId} className="font-medium hover:underline">
+                      {getDisplayName(dispute.posterName, dispute.posterEmail)}
+                    </ProfileLink>
+                    {" (poster) · "}
+                    {dispute.workerId ? (
+                      <ProfileLink userId={dispute.workerId} className="font-medium hover:underline">
+                        {getDisplayName(dispute.workerName, dispute.workerEmail)}
+                      </ProfileLink>
+                    ) : (
+                      "Worker"
+                    )}
+                    {" (worker)"}
+                  </p>
+                </div>
+                <span className="shrink-0 px-3 py-1 rounded-full bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-300 text-sm font-semibold">
+                  Rs. {dispute.jobPrice}
+                </span>
+              </div>
+
+              <div className="mt-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-[13px] text-zinc-500 dark:text-zinc-400">
+                <span className="font-medium text-red-600 dark:text-red-400">
+                  {getDisputeReasonLabel(dispute.reason)}
+                </span>
+                <span>opened by the {dispute.openedByPoster ? "poster" : "worker"}</span>
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3.5 w-3.5" />
+                  {formatDate(dispute.createdAt)}
+                </span>
+                <span>Job {dispute.jobStatus.replace("_", " ")}</span>
+              </div>
+
+              {dispute.evidence && (
+                <p className="mt-3 text-sm text-zinc-700 dark:text-zinc-300 whitespace-pre-wrap bg-zinc-50 dark:bg-zinc-800/50 rounded-xl p-3">
+                  {dispute.evidence}
+                </p>
+              )}
+
+              {dispute.status === "open" ? (
+                <ResolveForm dispute={dispute} />
+              ) : (
+                <div className="mt-4 pt-4 border-t border-zinc-100 dark:border-zinc-800">
+                  <p className="flex items-center gap-2 text-sm font-medium text-violet-700 dark:text-violet-400">
+                    <CheckCircle2 className="h-4 w-4" />
+                    {describeOutcome(dispute)}
+                  </p>
+                  {dispute.resolutionNote && (
+                    <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">{dispute.resolutionNote}</p>
+                  )}
+                  {dispute.resolvedAt && (
+                    <p className="mt-1 text-xs text-zinc-400">{formatDate(dispute.resolvedAt)}</p>
+                  )}
+                </div>
+              )}
+            </motion.div>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { notFound, redirect } from "next/navigation";
+import { createClient } from "@/utils/supabase/server";
+import { ModerationClient, type DisputeItem } from "./moderation-client";
+
+export default async function ModerationPage() {
+  const supabase = await createClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    redirect("/login?next=/moderation");
+  }
+
+  // Moderators are managed in the moderators table; everyone else gets a 404
+  const { data: isModerator } = await supabase.rpc("is_moderator");
+
+  if (!isModerator) {
+    notFound();
+  }
+
+  const { data: disputes } = await supabase
+    .from("disputes_with_details")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  const items: DisputeItem[] = (disputes || []).map((d) => ({
+    id: d.id,
+    jobId: d.job_id,
+    jobTitle: d.job_title,
+    jobStatus: d.job_status,
+    jobPrice: d.job_price,
+    reason: d.reason,
+    evidence: d.evidence,
+    status: d.status,
+    outcome: d.outcome,
+    workerShare: d.worker_share,
+    resolutionNote: d.resolution_note,
+    resolvedAt: d.resolved_at,
+    createdAt: d.created_at,
+    openedByPoster: d.opened_by === d.poster_id,
+    posterId: d.poster_id,
+    posterName: d.poster_name,
+    posterEmail: d.poster_email,
+    workerId: d.worker_id,
+    workerName: d.worker_name,
+    workerEmail: d.worker_email,
+  }));
+
+  return <ModerationClient disputes={items} />;
+}
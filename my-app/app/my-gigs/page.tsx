@@ -13,7 +13,12 @@ import {
   CircleDot,
   XCircle,
   Star,
-  User
+  User,
+  AlertTriangle,
+  Banknote,
+  Scale,
+  Hourglass,
+  RotateCcw
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -27,9 +32,16 @@ import {
 } from "@/components/ui/dialog";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { createClient } from "@/utils/supabase/client";
-import { updateJobStatus } from "@/app/actions/update-job-status";
+import { submitForReview } from "@/app/actions/update-job-status";
+import { confirmPaymentReceived, reportPaymentMissing } from "@/app/actions/payments";
+import { formatDueLabel } from "@/lib/deadlines";
+import { useWallet } from "@/lib/hooks/use-data";
+import { PAYMENT_STATUS_CONFIG, isPaymentUnresolved, type PaymentStatus } from "@/lib/payments";
+import { REVIEW_AUTO_APPROVE_HOURS } from "@/lib/review";
+import { ProfileLink } from "@/components/features/profile-link";
 import { ChatSheet } from "@/components/features/chat-sheet";
 import { RatingDialog } from "@/components/features/rating-dialog";
+import { DisputeDialog } from "@/components/features/dispute-dialog";
 import { UserMenu } from "@/components/auth/user-menu";
 import { ThemeToggle } from "@/components/theme-toggle";
 import Link from "next/link";
@@ -37,7 +49,7 @@ import Link from "next/link";
 // Create a single instance outside the component to prevent re-creation
 const supabase = createClient();
 
-type JobStatus = "open" | "in_progress" | "completed" | "cancelled";
+type JobStatus = "open" | "in_progress" | "pending_review" | "completed" | "cancelled" | "expired";
 
 // Status configuration with premium styling
 const STATUS_CONFIG: Record<JobStatus, {
@@ -55,6 +67,11 @@ const STATUS_CONFIG: Record<JobStatus, {
     className: "bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-500/10 dark:text-blue-400 dark:border-blue-500/30",
     dotColor: "bg-blue-500",
   },
+  pending_review: {
+    label: "In Review",
+    className: "bg-sky-50 text-sky-700 border-sky-200 dark:bg-sky-500/10 dark:text-sky-400 dark:border-sky-500/30",
+    dotColor: "bg-sky-500",
+  },
   completed: {
     label: "Completed",
     className: "bg-zinc-100 text-zinc-600 border-zinc-200 dark:bg-zinc-800 dark:text-zinc-400 dark:border-zinc-700",
@@ -65,6 +82,11 @@ const STATUS_CONFIG: Record<JobStatus, {
     className: "bg-red-50 text-red-700 border-red-200 dark:bg-red-500/10 dark:text-red-400 dark:border-red-500/30",
     dotColor: "bg-red-500",
   },
+  expired: {
+    label: "Expired",
+    className: "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/10 dark:text-amber-400 dark:border-amber-500/30",
+    dotColor: "bg-amber-500",
+  },
 };
 
 interface TakenJob {
@@ -81,9 +103,32 @@ interface TakenJob {
   poster_avatar: string | null;
   assigned_at: string;
   created_at: string;
+  due_at: string;
+  is_overdue: boolean;
+  payment_status: PaymentStatus | null;
+  has_open_dispute: boolean;
+  submitted_at: string | null;
+  review_note: string | null;
   hasRated: boolean;
 }
 
+// Submitted jobs stay on the active tab until the poster approves them
+function isActiveJob(job: TakenJob): boolean {
+  return job.status === "in_progress" || job.status === "pending_review";
+}
+
+function formatAutoApproval(submittedAt: string | null): string {
+  if (!submittedAt) return "Waiting for the poster to approve";
+  const approvesAt = new Date(new Date(submittedAt).getTime() + REVIEW_AUTO_APPROVE_HOURS * 3600000);
+  const label = approvesAt.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `Waiting for approval · auto-approves ${label}`;
+}
+
 function formatTimeAgo(dateString: string): string {
   const date = new Date(dateString);
   const now = new Date();
@@ -121,9 +166,15 @@ export default function MyGigsPage() {
   
   // Status management
   const [statusDialogOpen, setStatusDialogOpen] = useState(false);
-  const [jobToComplete, setJobToComplete] = useState<TakenJob | null>(null);
+  const [jobToSubmit, setJobToSubmit] = useState<TakenJob | null>(null);
   const [activeTab, setActiveTab] = useState<"active" | "completed">("active");
   
+  // Dispute dialog
+  const [jobToDispute, setJobToDispute] = useState<TakenJob | null>(null);
+
+  // Earnings come from the payment ledger
+  const { data: wallet } = useWallet(currentUserId);
+
   // Rating dialog
   const [ratingDialogOpen, setRatingDialogOpen] = useState(false);
   const [jobToRate, setJobToRate] = useState<TakenJob | null>(null);
@@ -155,7 +206,8 @@ export default function MyGigsPage() {
       id: job.id,
       title: job.title,
       description: job.description || "",
-      price: job.price,
+      // Workers are paid the price agreed through an accepted offer, if any
+      price: job.agreed_price ?? job.price,
       urgency: job.urgency,
       location: job.location,
       status: (job.status as JobStatus) || "in_progress",
@@ -165,6 +217,12 @@ export default function MyGigsPage() {
       poster_avatar: job.avatar_url,
       assigned_at: job.updated_at || job.created_at,
       created_at: job.created_at,
+      due_at: job.due_at,
+      is_overdue: !!job.is_overdue,
+      payment_status: (job.payment_status as PaymentStatus | null) ?? null,
+      has_open_dispute: !!job.has_open_dispute,
+      submitted_at: job.submitted_at ?? null,
+      review_note: job.review_note ?? null,
       hasRated: ratedJobIds.has(job.id),
     }));
 
@@ -190,30 +248,51 @@ export default function MyGigsPage() {
     fetchData();
   }, [fetchJobs]);
 
-  const handleCompleteClick = (job: TakenJob) => {
-    setJobToComplete(job);
+  const handleSubmitClick = (job: TakenJob) => {
+    setJobToSubmit(job);
     setStatusDialogOpen(true);
   };
 
-  const handleConfirmComplete = () => {
-    if (!jobToComplete) return;
+  const handleConfirmSubmit = () => {
+    if (!jobToSubmit) return;
 
     startTransition(async () => {
-      const result = await updateJobStatus(jobToComplete.id, "completed");
+      const result = await submitForReview(jobToSubmit.id);
       if (result.success) {
         setJobs((prev) => 
           prev.map((j) => 
-            j.id === jobToComplete.id ? { ...j, status: "completed" } : j
+            j.id === jobToSubmit.id
+              ? { ...j, status: "pending_review", submitted_at: new Date().toISOString() }
+              : j
           )
         );
         setStatusDialogOpen(false);
-        setJobToComplete(null);
+        setJobToSubmit(null);
       } else {
         console.error("Failed to update status:", result.error);
       }
     });
   };
 
+  const handlePaymentResponse = (job: TakenJob, received: boolean) => {
+    startTransition(async () => {
+      const result = received
+        ? await confirmPaymentReceived(job.id)
+        : await reportPaymentMissing(job.id);
+      if (result.success) {
+        setJobs((prev) =>
+          prev.map((j) =>
+            j.id === job.id
+              ? { ...j, payment_status: received ? "confirmed" : "disputed", has_open_dispute: !received }
+              : j
+          )
+        );
+      } else {
+        console.error("Failed to update payment:", result.error);
+      }
+    });
+  };
+
   const handleViewChat = (job: TakenJob) => {
     setSelectedJob(job);
     setChatSheetOpen(true);
@@ -258,6 +337,25 @@ export default function MyGigsPage() {
         />
       )}
 
+      {/* Dispute Dialog */}
+      {jobToDispute && (
+        <DisputeDialog
+          isOpen={!!jobToDispute}
+          onClose={() => setJobToDispute(null)}
+          onOpened={() => {
+            setJobs((prev) =>
+              prev.map((j) =>
+                j.id === jobToDispute.id
+                  ? { ...j, has_open_dispute: true, payment_status: j.status === "completed" ? "disputed" : j.payment_status }
+                  : j
+              )
+            );
+          }}
+          jobId={jobToDispute.id}
+          jobTitle={jobToDispute.title}
+        />
+      )}
+
       {/* Rating Dialog */}
       {jobToRate && (
         <RatingDialog
@@ -362,15 +460,20 @@ export default function MyGigsPage() {
                   </h3>
                   <div className="flex items-baseline gap-2">
                     <span className="text-3xl font-bold text-white">
-                      Rs. {jobs.filter(j => j.status === "completed").reduce((acc, j) => acc + j.price, 0).toLocaleString()}
+                      Rs. {(wallet?.earned ?? 0).toLocaleString()}
                     </span>
                     <span className="text-blue-200 text-sm">earned</span>
                   </div>
+                  {!!wallet?.pendingEarnings && (
+                    <p className="text-blue-200 text-xs mt-1">
+                      Rs. {wallet.pendingEarnings.toLocaleString()} held in escrow for active tasks
+                    </p>
+                  )}
                 </div>
                 <div className="flex gap-4">
                   <div className="text-center">
                     <div className="text-2xl font-bold text-white">
-                      {jobs.filter(j => j.status === "in_progress").length}
+                      {jobs.filter(isActiveJob).length}
                     </div>
                     <div className="text-blue-200 text-xs">Active</div>
                   </div>
@@ -394,7 +497,7 @@ export default function MyGigsPage() {
                     : "text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
                 }`}
               >
-                Active ({jobs.filter(j => j.status === "in_progress").length})
+                Active ({jobs.filter(isActiveJob).length})
               </button>
               <button
                 onClick={() => setActiveTab("completed")}
@@ -412,12 +515,12 @@ export default function MyGigsPage() {
               {jobs
                 .filter(job => 
                   activeTab === "active" 
-                    ? job.status === "in_progress"
+                    ? isActiveJob(job)
                     : job.status === "completed" || job.status === "cancelled"
                 )
                 .map((job, index) => {
                   const statusConfig = STATUS_CONFIG[job.status];
-                  const isActive = job.status === "in_progress";
+                  const isActive = isActiveJob(job);
                   
                   return (
                     <motion.div
@@ -432,15 +535,17 @@ export default function MyGigsPage() {
                       {/* Main Row */}
                       <div className="flex items-start gap-4">
                         {/* Poster Avatar */}
-                        <Avatar className="h-12 w-12 rounded-xl ring-2 ring-zinc-100 dark:ring-zinc-800 shadow-md">
-                          <AvatarImage 
-                            src={job.poster_avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${job.user_id}`} 
-                            className="rounded-xl"
-                          />
-                          <AvatarFallback className="rounded-xl bg-gradient-to-br from-blue-400 to-indigo-500 text-white font-bold">
-                            {getDisplayName(job.poster_name, job.poster_email).slice(0, 2)}
-                          </AvatarFallback>
-                        </Avatar>
+                        <ProfileLink userId={job.user_id} className="rounded-xl shrink-0">
+                          <Avatar className="h-12 w-12 rounded-xl ring-2 ring-zinc-100 dark:ring-zinc-800 shadow-md">
+                            <AvatarImage 
+                              src={job.poster_avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${job.user_id}`} 
+                              className="rounded-xl"
+                            />
+                            <AvatarFallback className="rounded-xl bg-gradient-to-br from-blue-400 to-indigo-500 text-white font-bold">
+                              {getDisplayName(job.poster_name, job.poster_email).slice(0, 2)}
+                            </AvatarFallback>
+                          </Avatar>
+                        </ProfileLink>
 
                         {/* Left: Title + Meta */}
                         <div className="flex-1 min-w-0">
@@ -452,6 +557,8 @@ export default function MyGigsPage() {
                             <span className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[11px] font-semibold border ${statusConfig.className}`}>
                               {job.status === "in_progress" ? (
                                 <Loader2 className="h-2.5 w-2.5 animate-spin" />
+                              ) : job.status === "pending_review" ? (
+                                <Hourglass className="h-2.5 w-2.5" />
                               ) : job.status === "completed" ? (
                                 <CheckCircle2 className="h-2.5 w-2.5" />
                               ) : job.status === "cancelled" ? (
@@ -461,11 +568,32 @@ export default function MyGigsPage() {
                               )}
                               {statusConfig.label}
                             </span>
+                            {job.is_overdue && (
+                              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-semibold border bg-red-50 text-red-700 border-red-200 dark:bg-red-500/10 dark:text-red-400 dark:border-red-500/30">
+                                <AlertTriangle className="h-2.5 w-2.5" />
+                                Overdue
+                              </span>
+                            )}
+                            {job.has_open_dispute && (
+                              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-semibold border bg-red-50 text-red-700 border-red-200 dark:bg-red-500/10 dark:text-red-400 dark:border-red-500/30">
+                                <Scale className="h-2.5 w-2.5" />
+                                Under dispute
+                              </span>
+                            )}
+                            {job.status === "completed" && job.payment_status && (
+                              <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-semibold border ${PAYMENT_STATUS_CONFIG[job.payment_status].className}`}>
+                                <Banknote className="h-2.5 w-2.5" />
+                                {job.payment_status === "marked_paid" ? "Poster marked as paid" : PAYMENT_STATUS_CONFIG[job.payment_status].label}
+                              </span>
+                            )}
                           </div>
                           
                           <div className="flex items-center gap-3 text-[13px] text-zinc-500 dark:text-zinc-400 mb-1">
                             <span className="font-medium text-zinc-700 dark:text-zinc-300">
-                              by {getDisplayName(job.poster_name, job.poster_email)}
+                              by{" "}
+                              <ProfileLink userId={job.user_id} className="hover:underline">
+                                {getDisplayName(job.poster_name, job.poster_email)}
+                              </ProfileLink>
                             </span>
                           </div>
                           
@@ -476,9 +604,18 @@ export default function MyGigsPage() {
                             </span>
                             <span className="flex items-center gap-1">
                               <Clock className="h-3.5 w-3.5" />
-                              {job.urgency}
+                              {isActive ? formatDueLabel(job.due_at) : job.urgency}
                             </span>
                           </div>
+
+                          {job.status === "in_progress" && job.review_note && (
+                            <p className="mt-2 flex items-start gap-1.5 text-[13px] text-amber-700 dark:text-amber-400">
+                              <RotateCcw className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                              <span>
+                                <span className="font-medium">Changes requested:</span> {job.review_note}
+                              </span>
+                            </p>
+                          )}
                         </div>
 
                         {/* Right: Price */}
@@ -505,7 +642,7 @@ export default function MyGigsPage() {
                           </motion.button>
                           
                           {/* Rate (only for completed) */}
-                          {job.status === "completed" && (
+                          {job.status === "completed" && !job.has_open_dispute && (
                             job.hasRated ? (
                               <span className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 font-medium text-[13px]">
                                 <CheckCircle2 className="h-3.5 w-3.5" />
@@ -523,23 +660,69 @@ export default function MyGigsPage() {
                               </motion.button>
                             )
                           )}
+
+                          {/* Report a problem (active or completed, until a dispute is open) */}
+                          {(isActive || job.status === "completed") && !job.has_open_dispute && (
+                            <motion.button
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
+                              onClick={() => setJobToDispute(job)}
+                              className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-zinc-500 hover:text-red-600 dark:hover:text-red-400 font-medium text-[13px] transition-colors"
+                            >
+                              <AlertTriangle className="h-3.5 w-3.5" />
+                              Report
+                            </motion.button>
+                          )}
                         </div>
 
-                        {/* Status Actions */}
-                        {isActive && (
+                        {/* Cash payment confirmation */}
+                        {job.status === "completed" && isPaymentUnresolved(job.payment_status) && !job.has_open_dispute && (
                           <div className="flex items-center gap-2">
-                            {/* Mark Complete */}
                             <motion.button
                               whileHover={{ scale: 1.02 }}
                               whileTap={{ scale: 0.98 }}
-                              onClick={() => handleCompleteClick(job)}
+                              onClick={() => handlePaymentResponse(job, false)}
+                              disabled={isPending}
+                              className="px-3 py-1.5 rounded-lg text-zinc-500 hover:text-red-600 dark:hover:text-red-400 font-medium text-[13px] transition-colors disabled:opacity-50"
+                            >
+                              Not Received
+                            </motion.button>
+                            <motion.button
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
+                              onClick={() => handlePaymentResponse(job, true)}
+                              disabled={isPending}
+                              className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white font-semibold text-[13px] transition-colors shadow-lg shadow-emerald-500/25 disabled:opacity-50"
+                            >
+                              <Banknote className="h-4 w-4" />
+                              Confirm Received
+                            </motion.button>
+                          </div>
+                        )}
+
+                        {/* Status Actions (frozen while under dispute) */}
+                        {job.status === "in_progress" && !job.has_open_dispute && (
+                          <div className="flex items-center gap-2">
+                            {/* Submit for Review */}
+                            <motion.button
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
+                              onClick={() => handleSubmitClick(job)}
                               className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white font-semibold text-[13px] transition-colors shadow-lg shadow-emerald-500/25"
                             >
                               <CheckCircle2 className="h-4 w-4" />
-                              Mark Complete
+                              {job.review_note ? "Resubmit for Review" : "Submit for Review"}
                             </motion.button>
                           </div>
                         )}
+
+                        {/* Waiting on the poster */}
+                        {job.status === "pending_review" && !job.has_open_dispute && (
+                          <span className="flex items-center gap-1.5 text-[13px] text-sky-700 dark:text-sky-400">
+                            <Hourglass className="h-3.5 w-3.5" />
+                            {formatAutoApproval(job.submitted_at)}
+                          </span>
+                        )}
                       </div>
                     </motion.div>
                   );
@@ -549,7 +732,7 @@ export default function MyGigsPage() {
             {/* Empty state for tab */}
             {jobs.filter(job => 
               activeTab === "active" 
-                ? job.status === "in_progress"
+                ? isActiveJob(job)
                 : job.status === "completed" || job.status === "cancelled"
             ).length === 0 && (
               <motion.div
@@ -575,7 +758,7 @@ export default function MyGigsPage() {
         )}
       </main>
 
-      {/* Complete Confirmation Dialog */}
+      {/* Submit Confirmation Dialog */}
       <Dialog open={statusDialogOpen} onOpenChange={setStatusDialogOpen}>
         <DialogContent className="sm:max-w-[400px] rounded-3xl border border-zinc-200 dark:border-zinc-800">
           <DialogHeader className="text-center">
@@ -583,10 +766,10 @@ export default function MyGigsPage() {
               <CheckCircle2 className="h-7 w-7 text-emerald-600 dark:text-emerald-400" />
             </div>
             <DialogTitle className="text-xl font-bold text-zinc-900 dark:text-white text-center">
-              Mark as completed?
+              Submit for review?
             </DialogTitle>
             <DialogDescription className="text-zinc-500 dark:text-zinc-400 mt-2">
-              This will mark <span className="font-medium text-zinc-700 dark:text-zinc-300">&quot;{jobToComplete?.title}&quot;</span> as completed. The poster will be notified and you&apos;ll earn Rs. {jobToComplete?.price}.
+              This will send <span className="font-medium text-zinc-700 dark:text-zinc-300">&quot;{jobToSubmit?.title}&quot;</span> to the poster for review. You&apos;ll earn Rs. {jobToSubmit?.price} once they approve it, or automatically after {REVIEW_AUTO_APPROVE_HOURS} hours if they don&apos;t respond.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="flex gap-3 mt-6">
@@ -599,17 +782,17 @@ export default function MyGigsPage() {
               Not Yet
             </Button>
             <Button
-              onClick={handleConfirmComplete}
+              onClick={handleConfirmSubmit}
               disabled={isPending}
               className="flex-1 rounded-xl h-11 bg-emerald-600 hover:bg-emerald-700 text-white"
             >
               {isPending ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Completing...
+                  Submitting...
                 </>
               ) : (
-                "Complete Task"
+                "Submit Task"
               )}
             </Button>
           </DialogFooter>
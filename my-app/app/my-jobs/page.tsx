@@ -16,7 +16,14 @@ import {
   XCircle,
   CircleDot,
   UserCheck,
-  Star
+  Star,
+  HandCoins,
+  Pencil,
+  RotateCcw,
+  CalendarClock,
+  Banknote,
+  Scale,
+  Hourglass
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -29,21 +36,27 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
 import * as VisuallyHidden from "@radix-ui/react-visually-hidden";
 import { createClient } from "@/utils/supabase/client";
 import { deleteJob } from "@/app/actions/delete-job";
-import { updateJobStatus } from "@/app/actions/update-job-status";
+import { requestChanges, updateJobStatus } from "@/app/actions/update-job-status";
+import { markPaymentSent } from "@/app/actions/payments";
 import { SmartPricingForm } from "@/components/features/smart-pricing-form";
 import { ChatSheet } from "@/components/features/chat-sheet";
 import { RatingDialog } from "@/components/features/rating-dialog";
+import { DisputeDialog } from "@/components/features/dispute-dialog";
 import { UserMenu } from "@/components/auth/user-menu";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { formatDueLabel } from "@/lib/deadlines";
+import { PAYMENT_STATUS_CONFIG, type PaymentStatus } from "@/lib/payments";
+import { REVIEW_AUTO_APPROVE_HOURS, REVIEW_NOTE_MAX_LENGTH } from "@/lib/review";
 import Link from "next/link";
 
 // Create a single instance outside the component to prevent re-creation
 const supabase = createClient();
 
-type JobStatus = "open" | "in_progress" | "completed" | "cancelled";
+type JobStatus = "open" | "in_progress" | "pending_review" | "completed" | "cancelled" | "expired";
 
 // Status configuration with premium styling
 const STATUS_CONFIG: Record<JobStatus, {
@@ -61,6 +74,11 @@ const STATUS_CONFIG: Record<JobStatus, {
     className: "bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-500/10 dark:text-blue-400 dark:border-blue-500/30",
     dotColor: "bg-blue-500",
   },
+  pending_review: {
+    label: "In Review",
+    className: "bg-sky-50 text-sky-700 border-sky-200 dark:bg-sky-500/10 dark:text-sky-400 dark:border-sky-500/30",
+    dotColor: "bg-sky-500",
+  },
   completed: {
     label: "Completed",
     className: "bg-zinc-100 text-zinc-600 border-zinc-200 dark:bg-zinc-800 dark:text-zinc-400 dark:border-zinc-700",
@@ -71,6 +89,11 @@ const STATUS_CONFIG: Record<JobStatus, {
     className: "bg-red-50 text-red-700 border-red-200 dark:bg-red-500/10 dark:text-red-400 dark:border-red-500/30",
     dotColor: "bg-red-500",
   },
+  expired: {
+    label: "Expired",
+    className: "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/10 dark:text-amber-400 dark:border-amber-500/30",
+    dotColor: "bg-amber-500",
+  },
 };
 
 interface Job {
@@ -80,15 +103,29 @@ interface Job {
   price: number;
   urgency: string;
   location: string;
+  category: string;
   status: JobStatus;
   user_id: string;
   assigned_to: string | null;
   assigned_name: string | null;
   created_at: string;
+  due_at: string;
+  is_overdue: boolean;
   applicant_count: number;
+  agreed_price: number | null;
+  offer_count: number;
+  best_offer: number | null;
+  last_edited_at: string | null;
+  payment_status: PaymentStatus | null;
+  has_open_dispute: boolean;
+  submitted_at: string | null;
   hasRated: boolean;
 }
 
+function isActiveJob(job: Job): boolean {
+  return job.status === "open" || job.status === "in_progress" || job.status === "pending_review";
+}
+
 function formatTimeAgo(dateString: string): string {
   const date = new Date(dateString);
   const now = new Date();
@@ -126,6 +163,17 @@ export default function MyJobsPage() {
   const [ratingDialogOpen, setRatingDialogOpen] = useState(false);
   const [jobToRate, setJobToRate] = useState<Job | null>(null);
 
+  // Dispute dialog
+  const [jobToDispute, setJobToDispute] = useState<Job | null>(null);
+
+  // Request changes dialog
+  const [jobToReview, setJobToReview] = useState<Job | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+  const [reviewError, setReviewError] = useState<string | null>(null);
+
+  // Edit dialog
+  const [jobToEdit, setJobToEdit] = useState<Job | null>(null);
+
   // Extract fetch logic into a reusable function
   const fetchJobs = useCallback(async (userId: string) => {
     // Use the view to get assigned user info
@@ -149,13 +197,37 @@ export default function MyJobsPage() {
 
     const ratedJobIds = new Set((ratingsData || []).map(r => r.job_id));
 
-    // For each job, count the conversations (applicants)
+    // Latest edit per job (newest first, so the first hit wins)
+    const { data: editsData } = await supabase
+      .from("job_edits")
+      .select("job_id, created_at")
+      .in("job_id", (jobsData || []).map(j => j.id))
+      .order("created_at", { ascending: false });
+
+    const lastEditMap = new Map<string, string>();
+    for (const edit of editsData || []) {
+      if (!lastEditMap.has(edit.job_id)) {
+        lastEditMap.set(edit.job_id, edit.created_at);
+      }
+    }
+
+    // For each job, count the applications (withdrawn ones don't count)
     const jobsWithCounts = await Promise.all(
       (jobsData || []).map(async (job) => {
         const { count } = await supabase
-          .from("conversations")
+          .from("applications")
           .select("*", { count: "exact", head: true })
-          .eq("job_id", job.id);
+          .eq("job_id", job.id)
+          .neq("status", "withdrawn");
+
+        // Offers still waiting on a response from the poster
+        const { data: offers } = await supabase
+          .from("offers")
+          .select("price")
+          .eq("job_id", job.id)
+          .eq("status", "pending");
+
+        const offerPrices = (offers || []).map(o => o.price);
 
         return {
           id: job.id,
@@ -164,12 +236,22 @@ export default function MyJobsPage() {
           price: job.price,
           urgency: job.urgency,
           location: job.location,
+          category: job.category,
           status: (job.status as JobStatus) || "open",
           user_id: job.user_id,
           assigned_to: job.assigned_to,
           assigned_name: job.assigned_name,
           created_at: job.created_at,
+          due_at: job.due_at,
+          is_overdue: !!job.is_overdue,
           applicant_count: count || 0,
+          agreed_price: job.agreed_price ?? null,
+          offer_count: offerPrices.length,
+          best_offer: offerPrices.length > 0 ? Math.min(...offerPrices) : null,
+          last_edited_at: lastEditMap.get(job.id) || null,
+          payment_status: (job.payment_status as PaymentStatus | null) ?? null,
+          has_open_dispute: !!job.has_open_dispute,
+          submitted_at: job.submitted_at ?? null,
           hasRated: ratedJobIds.has(job.id),
         };
       })
@@ -205,6 +287,14 @@ export default function MyJobsPage() {
     }
   };
 
+  // Handle successful job edit
+  const handleJobEdited = async () => {
+    setJobToEdit(null);
+    if (currentUserId) {
+      await fetchJobs(currentUserId);
+    }
+  };
+
   const handleDeleteClick = (job: Job) => {
     setJobToDelete(job);
     setDeleteDialogOpen(true);
@@ -242,7 +332,9 @@ export default function MyJobsPage() {
       if (result.success) {
         setJobs((prev) => 
           prev.map((j) => 
-            j.id === jobToUpdate.id ? { ...j, status: newStatus } : j
+            j.id === jobToUpdate.id
+              ? { ...j, status: newStatus, payment_status: newStatus === "completed" ? "pending" : null }
+              : j
           )
         );
         setStatusDialogOpen(false);
@@ -254,6 +346,42 @@ export default function MyJobsPage() {
     });
   };
 
+  const closeReviewDialog = () => {
+    setJobToReview(null);
+    setReviewNote("");
+    setReviewError(null);
+  };
+
+  const handleRequestChanges = () => {
+    if (!jobToReview) return;
+    setReviewError(null);
+
+    startTransition(async () => {
+      const result = await requestChanges(jobToReview.id, reviewNote);
+      if (result.success) {
+        setJobs((prev) =>
+          prev.map((j) => (j.id === jobToReview.id ? { ...j, status: "in_progress" } : j))
+        );
+        closeReviewDialog();
+      } else if (result.error) {
+        setReviewError(result.error);
+      }
+    });
+  };
+
+  const handleMarkPaid = (job: Job) => {
+    startTransition(async () => {
+      const result = await markPaymentSent(job.id);
+      if (result.success) {
+        setJobs((prev) =>
+          prev.map((j) => (j.id === job.id ? { ...j, payment_status: "marked_paid" } : j))
+        );
+      } else {
+        console.error("Failed to mark payment:", result.error);
+      }
+    });
+  };
+
   const handleViewChat = (job: Job) => {
     setSelectedJob(job);
     setChatSheetOpen(true);
@@ -293,6 +421,7 @@ export default function MyJobsPage() {
             price: selectedJob.price,
             urgency: selectedJob.urgency,
             location: selectedJob.location,
+            category: selectedJob.category,
             userId: selectedJob.user_id,
             studentName: extractRegNumber(currentUserEmail),
             avatarUrl: `https://api.dicebear.com/7.x/avataaars/svg?seed=${selectedJob.user_id}`,
@@ -304,6 +433,25 @@ export default function MyJobsPage() {
         />
       )}
 
+      {/* Dispute Dialog */}
+      {jobToDispute && (
+        <DisputeDialog
+          isOpen={!!jobToDispute}
+          onClose={() => setJobToDispute(null)}
+          onOpened={() => {
+            setJobs((prev) =>
+              prev.map((j) =>
+                j.id === jobToDispute.id
+                  ? { ...j, has_open_dispute: true, payment_status: j.status === "completed" ? "disputed" : j.payment_status }
+                  : j
+              )
+            );
+          }}
+          jobId={jobToDispute.id}
+          jobTitle={jobToDispute.title}
+        />
+      )}
+
       {/* Rating Dialog */}
       {jobToRate && jobToRate.assigned_to && (
         <RatingDialog
@@ -462,7 +610,7 @@ export default function MyJobsPage() {
                     : "text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
                 }`}
               >
-                Active ({jobs.filter(j => j.status === "open" || j.status === "in_progress").length})
+                Active ({jobs.filter(isActiveJob).length})
               </button>
               <button
                 onClick={() => setActiveTab("completed")}
@@ -472,7 +620,7 @@ export default function MyJobsPage() {
                     : "text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
                 }`}
               >
-                Completed ({jobs.filter(j => j.status === "completed" || j.status === "cancelled").length})
+                Completed ({jobs.filter(j => j.status === "completed" || j.status === "cancelled" || j.status === "expired").length})
               </button>
             </div>
 
@@ -480,12 +628,12 @@ export default function MyJobsPage() {
               {jobs
                 .filter(job => 
                   activeTab === "active" 
-                    ? job.status === "open" || job.status === "in_progress"
-                    : job.status === "completed" || job.status === "cancelled"
+                    ? isActiveJob(job)
+                    : job.status === "completed" || job.status === "cancelled" || job.status === "expired"
                 )
                 .map((job, index) => {
                   const statusConfig = STATUS_CONFIG[job.status];
-                  const isActive = job.status === "open" || job.status === "in_progress";
+                  const isActive = isActiveJob(job);
                   
                   return (
                     <motion.div
@@ -509,11 +657,31 @@ export default function MyJobsPage() {
                             <span className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[11px] font-semibold border ${statusConfig.className}`}>
                               {job.status === "in_progress" ? (
                                 <Loader2 className="h-2.5 w-2.5 animate-spin" />
+                              ) : job.status === "pending_review" ? (
+                                <Hourglass className="h-2.5 w-2.5" />
                               ) : (
                                 <span className={`w-1.5 h-1.5 rounded-full ${statusConfig.dotColor}`} />
                               )}
                               {statusConfig.label}
                             </span>
+                            {job.is_overdue && (
+                              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-semibold border bg-red-50 text-red-700 border-red-200 dark:bg-red-500/10 dark:text-red-400 dark:border-red-500/30">
+                                <AlertTriangle className="h-2.5 w-2.5" />
+                                Overdue
+                              </span>
+                            )}
+                            {job.has_open_dispute && (
+                              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-semibold border bg-red-50 text-red-700 border-red-200 dark:bg-red-500/10 dark:text-red-400 dark:border-red-500/30">
+                                <Scale className="h-2.5 w-2.5" />
+                                Under dispute
+                              </span>
+                            )}
+                            {job.status === "completed" && job.payment_status && (
+                              <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-semibold border ${PAYMENT_STATUS_CONFIG[job.payment_status].className}`}>
+                                <Banknote className="h-2.5 w-2.5" />
+                                {PAYMENT_STATUS_CONFIG[job.payment_status].label}
+                              </span>
+                            )}
                           </div>
                           
                           <div className="flex items-center gap-3 text-[13px] text-zinc-500 dark:text-zinc-400">
@@ -521,10 +689,35 @@ export default function MyJobsPage() {
                               <Clock className="h-3.5 w-3.5" />
                               {formatTimeAgo(job.created_at)}
                             </span>
+                            {job.last_edited_at && (
+                              <span className="flex items-center gap-1">
+                                <Pencil className="h-3 w-3" />
+                                Edited {formatTimeAgo(job.last_edited_at)}
+                              </span>
+                            )}
+                            {isActive && (
+                              <span className={`flex items-center gap-1 ${job.is_overdue ? "text-red-600 dark:text-red-400" : ""}`}>
+                                <CalendarClock className="h-3.5 w-3.5" />
+                                {formatDueLabel(job.due_at)}
+                              </span>
+                            )}
+                            {job.status === "pending_review" && job.submitted_at && (
+                              <span className="flex items-center gap-1 text-sky-600 dark:text-sky-400">
+                                <Hourglass className="h-3.5 w-3.5" />
+                                Submitted {formatTimeAgo(job.submitted_at)}
+                              </span>
+                            )}
                             <span className="flex items-center gap-1">
                               <Users className="h-3.5 w-3.5" />
                               {job.applicant_count} applicant{job.applicant_count !== 1 ? "s" : ""}
                             </span>
+                            {job.status === "open" && job.offer_count > 0 && (
+                              <span className="flex items-center gap-1 text-violet-600 dark:text-violet-400">
+                                <HandCoins className="h-3.5 w-3.5" />
+                                {job.offer_count} offer{job.offer_count !== 1 ? "s" : ""}
+                                {job.best_offer !== null && ` · from Rs. ${job.best_offer.toLocaleString()}`}
+                              </span>
+                            )}
                             {job.assigned_name && (
                               <span className="flex items-center gap-1 text-blue-600 dark:text-blue-400">
                                 <UserCheck className="h-3.5 w-3.5" />
@@ -539,7 +732,7 @@ export default function MyJobsPage() {
                           variant="secondary" 
                           className="bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-300 font-semibold px-3 py-1 shrink-0"
                         >
-                          Rs. {job.price}
+                          Rs. {job.agreed_price ?? job.price}
                         </Badge>
                       </div>
 
@@ -558,7 +751,7 @@ export default function MyJobsPage() {
                           </motion.button>
                           
                           {/* Rate (only for completed) */}
-                          {job.status === "completed" && job.assigned_to && (
+                          {job.status === "completed" && job.assigned_to && !job.has_open_dispute && (
                             job.hasRated ? (
                               <span className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-emerald-50 dark:bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 font-medium text-[13px]">
                                 <CheckCircle2 className="h-3.5 w-3.5" />
@@ -576,11 +769,74 @@ export default function MyJobsPage() {
                               </motion.button>
                             )
                           )}
+
+                          {/* Cash payment (only while the poster hasn't marked it) */}
+                          {job.status === "completed" && job.payment_status === "pending" && !job.has_open_dispute && (
+                            <motion.button
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
+                              onClick={() => handleMarkPaid(job)}
+                              disabled={isPending}
+                              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-emerald-50 dark:bg-emerald-500/10 hover:bg-emerald-100 dark:hover:bg-emerald-500/20 text-emerald-700 dark:text-emerald-400 font-medium text-[13px] transition-colors disabled:opacity-50"
+                            >
+                              <Banknote className="h-3.5 w-3.5" />
+                              Mark as Paid
+                            </motion.button>
+                          )}
+
+                          {/* Report a problem (assigned or completed, until a dispute is open) */}
+                          {(job.status === "in_progress" || job.status === "pending_review" || job.status === "completed") && job.assigned_to && !job.has_open_dispute && (
+                            <motion.button
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
+                              onClick={() => setJobToDispute(job)}
+                              className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-zinc-500 hover:text-red-600 dark:hover:text-red-400 font-medium text-[13px] transition-colors"
+                            >
+                              <AlertTriangle className="h-3.5 w-3.5" />
+                              Report
+                            </motion.button>
+                          )}
                         </div>
 
-                        {/* Status Actions */}
-                        {isActive && (
+                        {/* Review a submission: approve or send it back */}
+                        {job.status === "pending_review" && !job.has_open_dispute && (
                           <div className="flex items-center gap-2">
+                            <motion.button
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
+                              onClick={() => setJobToReview(job)}
+                              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-600 dark:text-zinc-400 font-medium text-[13px] transition-colors"
+                            >
+                              <RotateCcw className="h-3.5 w-3.5" />
+                              Request Changes
+                            </motion.button>
+                            <motion.button
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
+                              onClick={() => handleStatusAction(job, "complete")}
+                              className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white font-semibold text-[13px] transition-colors shadow-lg shadow-emerald-500/25"
+                            >
+                              <CheckCircle2 className="h-4 w-4" />
+                              Approve
+                            </motion.button>
+                          </div>
+                        )}
+
+                        {/* Status Actions (frozen while under dispute) */}
+                        {(job.status === "open" || job.status === "in_progress") && !job.has_open_dispute && (
+                          <div className="flex items-center gap-2">
+                            {/* Edit (only while open) */}
+                            {job.status === "open" && (
+                              <motion.button
+                                whileHover={{ scale: 1.05 }}
+                                whileTap={{ scale: 0.95 }}
+                                onClick={() => setJobToEdit(job)}
+                                className="flex items-center justify-center w-8 h-8 rounded-lg bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-600 dark:text-zinc-400 transition-colors"
+                              >
+                                <Pencil className="h-3.5 w-3.5" />
+                              </motion.button>
+                            )}
+
                             {/* Mark Complete */}
                             <motion.button
                               whileHover={{ scale: 1.02 }}
@@ -614,6 +870,19 @@ export default function MyJobsPage() {
                             </motion.button>
                           </div>
                         )}
+
+                        {/* Repost an expired task with a new deadline */}
+                        {job.status === "expired" && (
+                          <motion.button
+                            whileHover={{ scale: 1.02 }}
+                            whileTap={{ scale: 0.98 }}
+                            onClick={() => setJobToEdit(job)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-amber-50 dark:bg-amber-500/10 hover:bg-amber-100 dark:hover:bg-amber-500/20 text-amber-700 dark:text-amber-400 font-medium text-[13px] transition-colors"
+                          >
+                            <RotateCcw className="h-3.5 w-3.5" />
+                            Repost
+                          </motion.button>
+                        )}
                       </div>
                     </motion.div>
                   );
@@ -623,8 +892,8 @@ export default function MyJobsPage() {
             {/* Empty state for tab */}
             {jobs.filter(job => 
               activeTab === "active" 
-                ? job.status === "open" || job.status === "in_progress"
-                : job.status === "completed" || job.status === "cancelled"
+                ? isActiveJob(job)
+                : job.status === "completed" || job.status === "cancelled" || job.status === "expired"
             ).length === 0 && (
               <motion.div
                 initial={{ opacity: 0 }}
@@ -649,6 +918,31 @@ export default function MyJobsPage() {
         )}
       </main>
 
+      {/* Edit Task Dialog */}
+      <Dialog open={!!jobToEdit} onOpenChange={(open) => !open && setJobToEdit(null)}>
+        <DialogContent className="sm:max-w-[600px] p-0 overflow-hidden rounded-3xl border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900">
+          <VisuallyHidden.Root>
+            <DialogTitle>Edit Task</DialogTitle>
+          </VisuallyHidden.Root>
+          {jobToEdit && (
+            <SmartPricingForm
+              key={jobToEdit.id}
+              job={{
+                id: jobToEdit.id,
+                title: jobToEdit.title,
+                description: jobToEdit.description,
+                price: jobToEdit.price,
+                urgency: jobToEdit.urgency,
+                location: jobToEdit.location,
+                category: jobToEdit.category,
+                dueAt: jobToEdit.status === "expired" ? null : jobToEdit.due_at,
+              }}
+              onSuccess={handleJobEdited}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="sm:max-w-[400px] rounded-3xl border border-zinc-200 dark:border-zinc-800">
@@ -707,11 +1001,13 @@ export default function MyJobsPage() {
               )}
             </div>
             <DialogTitle className="text-xl font-bold text-zinc-900 dark:text-white text-center">
-              {statusAction === "complete" ? "Mark as Completed?" : "Cancel this task?"}
+              {statusAction === "complete"
+                ? jobToUpdate?.status === "pending_review" ? "Approve this task?" : "Mark as Completed?"
+                : "Cancel this task?"}
             </DialogTitle>
             <DialogDescription className="text-zinc-500 dark:text-zinc-400 mt-2">
               {statusAction === "complete" 
-                ? <>This will mark <span className="font-medium text-zinc-700 dark:text-zinc-300">&quot;{jobToUpdate?.title}&quot;</span> as completed. You can rate the helper after this.</>
+                ? <>This will mark <span className="font-medium text-zinc-700 dark:text-zinc-300">&quot;{jobToUpdate?.title}&quot;</span> as completed and release the payment to the helper. You can rate the helper after this.</>
                 : <>This will cancel <span className="font-medium text-zinc-700 dark:text-zinc-300">&quot;{jobToUpdate?.title}&quot;</span>. It will be moved to your completed tasks.</>
               }
             </DialogDescription>
@@ -740,7 +1036,7 @@ export default function MyJobsPage() {
                   Updating...
                 </>
               ) : statusAction === "complete" ? (
-                "Mark Complete"
+                jobToUpdate?.status === "pending_review" ? "Approve" : "Mark Complete"
               ) : (
                 "Cancel Task"
               )}
@@ -748,6 +1044,62 @@ export default function MyJobsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Request Changes Dialog */}
+      <Dialog open={!!jobToReview} onOpenChange={(open) => !open && !isPending && closeReviewDialog()}>
+        <DialogContent className="sm:max-w-[440px] rounded-3xl border border-zinc-200 dark:border-zinc-800">
+          <DialogHeader className="text-center">
+            <div className="mx-auto mb-4 w-14 h-14 rounded-full bg-amber-100 dark:bg-amber-500/20 flex items-center justify-center">
+              <RotateCcw className="h-7 w-7 text-amber-600 dark:text-amber-400" />
+            </div>
+            <DialogTitle className="text-xl font-bold text-zinc-900 dark:text-white text-center">
+              Request changes?
+            </DialogTitle>
+            <DialogDescription className="text-zinc-500 dark:text-zinc-400 mt-2">
+              <span className="font-medium text-zinc-700 dark:text-zinc-300">&quot;{jobToReview?.title}&quot;</span> goes back to the helper with your note. If you don&apos;t respond to a submission, it is approved automatically after {REVIEW_AUTO_APPROVE_HOURS} hours.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Textarea
+              placeholder="What needs to change?"
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+              className="min-h-[100px] rounded-xl border-zinc-200 dark:border-zinc-800 resize-none"
+              maxLength={REVIEW_NOTE_MAX_LENGTH}
+            />
+            <p className="text-xs text-zinc-400 mt-2 text-right">
+              {reviewNote.length}/{REVIEW_NOTE_MAX_LENGTH}
+            </p>
+            {reviewError && (
+              <p className="text-center text-sm text-red-500 dark:text-red-400">{reviewError}</p>
+            )}
+          </div>
+          <DialogFooter className="flex gap-3 mt-2">
+            <Button
+              variant="outline"
+              onClick={closeReviewDialog}
+              className="flex-1 rounded-xl h-11"
+              disabled={isPending}
+            >
+              Go Back
+            </Button>
+            <Button
+              onClick={handleRequestChanges}
+              disabled={!reviewNote.trim() || isPending}
+              className="flex-1 rounded-xl h-11 bg-amber-600 hover:bg-amber-700 text-white"
+            >
+              {isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                "Send Back"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,6 +1,9 @@
 import { createClient } from "@/utils/supabase/server";
 import { redirect } from "next/navigation";
 import { ProfileClient } from "./profile-client";
+import { getUserRatings } from "@/app/actions/rating";
+import { getDefaultAvatarUrl } from "@/lib/avatar";
+import { parseAvailability } from "@/lib/profile-details";
 
 export default async function ProfilePage() {
   const supabase = await createClient();
@@ -9,7 +12,7 @@ export default async function ProfilePage() {
   const { data: { user }, error: authError } = await supabase.auth.getUser();
 
   if (authError || !user) {
-    redirect("/login");
+    redirect("/login?next=/profile");
   }
 
   // Fetch user profile with rating stats
@@ -25,70 +28,35 @@ export default async function ProfilePage() {
     .select("*", { count: "exact", head: true })
     .eq("user_id", user.id);
 
-  // Count tasks applied to (conversations where user is worker)
+  // Count tasks applied to (withdrawn applications don't count)
   const { count: tasksApplied } = await supabase
-    .from("conversations")
+    .from("applications")
     .select("*", { count: "exact", head: true })
-    .eq("worker_id", user.id);
+    .eq("worker_id", user.id)
+    .neq("status", "withdrawn");
 
   // Fetch ratings received by this user
-  const { data: ratings } = await supabase
-    .from("ratings")
-    .select(`
-      id,
-      rating,
-      review,
-      rating_type,
-      created_at,
-      job_id,
-      rater_id
-    `)
-    .eq("rated_id", user.id)
-    .order("created_at", { ascending: false })
-    .limit(10);
-
-  // Fetch rater profiles separately
-  const raterIds = [...new Set((ratings || []).map(r => r.rater_id))];
-  const { data: raterProfiles } = raterIds.length > 0 
-    ? await supabase
-        .from("profiles")
-        .select("id, full_name, avatar_url, email")
-        .in("id", raterIds)
-    : { data: [] };
-
-  // Fetch job titles
-  const jobIds = [...new Set((ratings || []).map(r => r.job_id))];
-  const { data: jobs } = jobIds.length > 0
-    ? await supabase
-        .from("jobs")
-        .select("id, title")
-        .in("id", jobIds)
-    : { data: [] };
-
-  // Combine data
-  const ratingsWithDetails = (ratings || []).map(r => {
-    const rater = raterProfiles?.find(p => p.id === r.rater_id);
-    const job = jobs?.find(j => j.id === r.job_id);
-    return {
-      ...r,
-      raterName: rater?.full_name || null,
-      raterEmail: rater?.email || null,
-      raterAvatar: rater?.avatar_url || null,
-      jobTitle: job?.title || "Unknown Task",
-    };
-  });
+  const { ratings } = await getUserRatings(user.id);
 
   return (
     <ProfileClient
       email={user.email || ""}
       displayName={profile?.full_name || ""}
-      avatarUrl={profile?.avatar_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${user.id}`}
+      avatarUrl={profile?.avatar_url || getDefaultAvatarUrl(user.id)}
       tasksPosted={tasksPosted || 0}
       tasksApplied={tasksApplied || 0}
       createdAt={profile?.created_at || user.created_at}
       averageRating={profile?.average_rating || 0}
       totalRatings={profile?.total_ratings || 0}
-      ratings={ratingsWithDetails}
+      ratings={ratings}
+      details={{
+        bio: profile?.bio || "",
+        hostel: profile?.hostel || null,
+        department: profile?.department || null,
+        batch: profile?.batch ?? null,
+        skills: profile?.skills || [],
+        availability: parseAvailability(profile?.availability),
+      }}
     />
   );
 }
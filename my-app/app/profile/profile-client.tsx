@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useTransition } from "react";
+import { useRef, useState, useTransition } from "react";
 import { motion } from "framer-motion";
 import { 
   ArrowLeft, 
@@ -14,13 +14,43 @@ import {
   Pencil,
   Save,
   Star,
-  Quote
+  Quote,
+  Camera,
+  Trash2,
+  Home,
+  GraduationCap,
+  Clock,
+  Plus,
+  X
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { updateProfile } from "@/app/actions/update-profile";
+import { removeAvatar, updateAvatar, updateProfile } from "@/app/actions/update-profile";
+import { AVATAR_ACCEPTED_TYPES, cropAvatar, validateAvatarFile } from "@/lib/avatar";
+import { TASK_CATEGORIES, getCategory } from "@/lib/categories";
+import {
+  BIO_MAX_LENGTH,
+  DEPARTMENTS,
+  HOSTELS,
+  MAX_AVAILABILITY_WINDOWS,
+  MAX_SKILLS,
+  WEEKDAYS,
+  formatAvailabilityWindow,
+  getDepartmentLabel,
+  sortAvailability,
+  type AvailabilityWindow,
+  type ProfileDetails,
+} from "@/lib/profile-details";
 import Link from "next/link";
 
 interface Rating {
@@ -45,8 +75,12 @@ interface ProfileClientProps {
   averageRating: number;
   totalRatings: number;
   ratings: Rating[];
+  details: ProfileDetails;
 }
 
+// Shared style for the select triggers in the details form
+const SELECT_TRIGGER_CLASS = "h-9 w-full bg-white dark:bg-zinc-900 border-zinc-300 dark:border-zinc-600 focus:ring-violet-500";
+
 // Extract roll number from GIKI email
 function extractRollNumber(email: string): string {
   const match = email.match(/^([a-z]?\d+)/i);
@@ -72,21 +106,62 @@ export function ProfileClient({
   averageRating,
   totalRatings,
   ratings,
+  details,
 }: ProfileClientProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [name, setName] = useState(displayName);
   const [isPending, startTransition] = useTransition();
   const [showSuccess, setShowSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [bio, setBio] = useState(details.bio);
+  const [hostel, setHostel] = useState(details.hostel || "");
+  const [department, setDepartment] = useState(details.department || "");
+  const [batch, setBatch] = useState(details.batch?.toString() || "");
+  const [skills, setSkills] = useState(details.skills);
+  const [availability, setAvailability] = useState<AvailabilityWindow[]>(details.availability);
+  const [avatar, setAvatar] = useState(avatarUrl);
+  const [isAvatarPending, startAvatarTransition] = useTransition();
+  const [avatarError, setAvatarError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Uploaded avatars live in Supabase Storage; anything else is the generated fallback
+  const hasUploadedAvatar = avatar.includes("/storage/");
 
   const rollNumber = extractRollNumber(email);
   const joinDate = formatJoinDate(createdAt);
 
+  const resetDetails = () => {
+    setBio(details.bio);
+    setHostel(details.hostel || "");
+    setDepartment(details.department || "");
+    setBatch(details.batch?.toString() || "");
+    setSkills(details.skills);
+    setAvailability(details.availability);
+  };
+
+  const toggleSkill = (slug: string) => {
+    setSkills((prev) =>
+      prev.includes(slug)
+        ? prev.filter((s) => s !== slug)
+        : prev.length < MAX_SKILLS ? [...prev, slug] : prev
+    );
+  };
+
+  const updateWindow = (index: number, patch: Partial<AvailabilityWindow>) => {
+    setAvailability((prev) => prev.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+  };
+
   const handleSave = () => {
     setError(null);
     startTransition(async () => {
       const formData = new FormData();
       formData.append("displayName", name);
+      formData.append("bio", bio);
+      formData.append("hostel", hostel);
+      formData.append("department", department);
+      formData.append("batch", batch);
+      skills.forEach((skill) => formData.append("skills", skill));
+      formData.append("availability", JSON.stringify(availability));
       
       const result = await updateProfile(formData);
       
@@ -100,6 +175,54 @@ export function ProfileClient({
     });
   };
 
+  const handleAvatarSelected = (file: File | undefined) => {
+    if (!file) return;
+    setAvatarError(null);
+
+    if (!AVATAR_ACCEPTED_TYPES.includes(file.type)) {
+      setAvatarError("Avatar must be a JPEG, PNG or WebP image");
+      return;
+    }
+
+    startAvatarTransition(async () => {
+      try {
+        // Crop to a square and shrink before uploading
+        const cropped = await cropAvatar(file);
+        const upload = new File([cropped], "avatar.webp", { type: cropped.type });
+
+        const fileError = validateAvatarFile(upload);
+        if (fileError) {
+          setAvatarError(fileError);
+          return;
+        }
+
+        const formData = new FormData();
+        formData.append("avatar", upload);
+
+        const result = await updateAvatar(formData);
+        if (result.avatarUrl) {
+          setAvatar(result.avatarUrl);
+        } else if (result.error) {
+          setAvatarError(result.error);
+        }
+      } catch (err) {
+        setAvatarError(err instanceof Error ? err.message : "Failed to upload avatar");
+      }
+    });
+  };
+
+  const handleRemoveAvatar = () => {
+    setAvatarError(null);
+    startAvatarTransition(async () => {
+      const result = await removeAvatar();
+      if (result.avatarUrl) {
+        setAvatar(result.avatarUrl);
+      } else if (result.error) {
+        setAvatarError(result.error);
+      }
+    });
+  };
+
   return (
     <div className="min-h-screen bg-white dark:bg-black relative">
       {/* Grid Background */}
@@ -154,12 +277,37 @@ export function ProfileClient({
                 transition={{ delay: 0.1, type: "spring", stiffness: 300 }}
                 className="relative"
               >
-                <Avatar className="h-28 w-28 ring-4 ring-white dark:ring-zinc-800 shadow-2xl">
-                  <AvatarImage src={avatarUrl} alt={rollNumber} />
-                  <AvatarFallback className="text-2xl font-bold bg-gradient-to-br from-violet-500 to-purple-600 text-white">
-                    {rollNumber.slice(0, 2)}
-                  </AvatarFallback>
-                </Avatar>
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isAvatarPending}
+                  className="group relative block rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-violet-500"
+                  aria-label="Change avatar"
+                >
+                  <Avatar className="h-28 w-28 ring-4 ring-white dark:ring-zinc-800 shadow-2xl">
+                    <AvatarImage src={avatar} alt={rollNumber} />
+                    <AvatarFallback className="text-2xl font-bold bg-gradient-to-br from-violet-500 to-purple-600 text-white">
+                      {rollNumber.slice(0, 2)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className={`absolute inset-0 flex items-center justify-center rounded-full bg-black/50 text-white transition-opacity ${isAvatarPending ? "opacity-100" : "opacity-0 group-hover:opacity-100"}`}>
+                    {isAvatarPending ? (
+                      <Loader2 className="h-6 w-6 animate-spin" />
+                    ) : (
+                      <Camera className="h-6 w-6" />
+                    )}
+                  </span>
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={AVATAR_ACCEPTED_TYPES.join(",")}
+                  className="hidden"
+                  onChange={(e) => {
+                    handleAvatarSelected(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
                 {/* Online indicator */}
                 <div className="absolute bottom-1 right-1 w-6 h-6 rounded-full bg-white dark:bg-zinc-800 flex items-center justify-center">
                   <div className="w-4 h-4 rounded-full bg-emerald-500 ring-2 ring-emerald-500/30" />
@@ -180,6 +328,22 @@ export function ProfileClient({
                   <Calendar className="h-3.5 w-3.5" />
                   <span>Joined {joinDate}</span>
                 </div>
+                {hasUploadedAvatar && (
+                  <button
+                    type="button"
+                    onClick={handleRemoveAvatar}
+                    disabled={isAvatarPending}
+                    className="inline-flex items-center gap-1.5 mt-3 text-xs font-medium text-zinc-500 hover:text-red-600 dark:text-zinc-400 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    Remove photo
+                  </button>
+                )}
+                {avatarError && (
+                  <p className="mt-2 text-sm text-red-500 dark:text-red-400">
+                    {avatarError}
+                  </p>
+                )}
               </motion.div>
             </div>
 
@@ -244,6 +408,198 @@ export function ProfileClient({
                 </div>
               </div>
 
+              {/* About - Editable with the display name */}
+              <div className="p-4 rounded-2xl bg-zinc-100/80 dark:bg-zinc-800/50 border border-zinc-200/50 dark:border-zinc-700/50 space-y-4">
+                <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">
+                  About
+                </p>
+
+                {/* Bio */}
+                {isEditing ? (
+                  <div>
+                    <Textarea
+                      value={bio}
+                      onChange={(e) => setBio(e.target.value)}
+                      placeholder="A line or two about you and what you can help with"
+                      maxLength={BIO_MAX_LENGTH}
+                      rows={3}
+                      className="bg-white dark:bg-zinc-900 border-zinc-300 dark:border-zinc-600 focus-visible:ring-violet-500 resize-none"
+                    />
+                    <p className="text-[11px] text-zinc-400 text-right mt-1">
+                      {bio.length}/{BIO_MAX_LENGTH}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-zinc-700 dark:text-zinc-300 whitespace-pre-line">
+                    {details.bio || "No bio yet"}
+                  </p>
+                )}
+
+                {/* Hostel, Department, Batch */}
+                {isEditing ? (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <Select value={hostel} onValueChange={setHostel}>
+                      <SelectTrigger className={SELECT_TRIGGER_CLASS}>
+                        <SelectValue placeholder="Hostel" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {HOSTELS.map((h) => (
+                          <SelectItem key={h} value={h}>{h}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select value={department} onValueChange={setDepartment}>
+                      <SelectTrigger className={SELECT_TRIGGER_CLASS}>
+                        <SelectValue placeholder="Department" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DEPARTMENTS.map((d) => (
+                          <SelectItem key={d.value} value={d.value}>{d.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      inputMode="numeric"
+                      value={batch}
+                      onChange={(e) => setBatch(e.target.value)}
+                      placeholder="Batch (e.g. 2023)"
+                      className="h-9 bg-white dark:bg-zinc-900 border-zinc-300 dark:border-zinc-600 focus-visible:ring-violet-500"
+                    />
+                  </div>
+                ) : (
+                  (details.hostel || details.department || details.batch) && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-zinc-600 dark:text-zinc-400">
+                      {details.hostel && (
+                        <span className="flex items-center gap-1.5">
+                          <Home className="h-3.5 w-3.5" />
+                          {details.hostel}
+                        </span>
+                      )}
+                      {(details.department || details.batch) && (
+                        <span className="flex items-center gap-1.5">
+                          <GraduationCap className="h-3.5 w-3.5" />
+                          {[getDepartmentLabel(details.department), details.batch].filter(Boolean).join(" · ")}
+                        </span>
+                      )}
+                    </div>
+                  )
+                )}
+
+                {/* Skills */}
+                <div>
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
+                    Skills{isEditing && ` (up to ${MAX_SKILLS})`}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {(isEditing ? TASK_CATEGORIES : details.skills.map((slug) => getCategory(slug))).map((cat) => {
+                      const IconComponent = cat.icon;
+                      const selected = skills.includes(cat.value);
+                      return isEditing ? (
+                        <button
+                          key={cat.value}
+                          type="button"
+                          onClick={() => toggleSkill(cat.value)}
+                          className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium border transition-colors ${
+                            selected
+                              ? "bg-violet-600 border-violet-600 text-white"
+                              : "bg-white dark:bg-zinc-900 border-zinc-300 dark:border-zinc-600 text-zinc-600 dark:text-zinc-400 hover:border-violet-400"
+                          }`}
+                        >
+                          <IconComponent className="h-3 w-3" />
+                          {cat.label}
+                        </button>
+                      ) : (
+                        <span
+                          key={cat.value}
+                          className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium bg-violet-50 dark:bg-violet-500/10 text-violet-700 dark:text-violet-400"
+                        >
+                          <IconComponent className="h-3 w-3" />
+                          {cat.label}
+                        </span>
+                      );
+                    })}
+                    {!isEditing && details.skills.length === 0 && (
+                      <span className="text-sm text-zinc-400">None added</span>
+                    )}
+                  </div>
+                </div>
+
+                {/* Weekly Availability */}
+                <div>
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
+                    Weekly availability
+                  </p>
+                  {isEditing ? (
+                    <div className="space-y-2">
+                      {availability.map((window, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <Select
+                            value={window.day.toString()}
+                            onValueChange={(value) => updateWindow(index, { day: Number(value) })}
+                          >
+                            <SelectTrigger className="h-9 w-24 bg-white dark:bg-zinc-900 border-zinc-300 dark:border-zinc-600">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {WEEKDAYS.map((day, dayIndex) => (
+                                <SelectItem key={day} value={dayIndex.toString()}>{day}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="time"
+                            value={window.start}
+                            onChange={(e) => updateWindow(index, { start: e.target.value })}
+                            className="h-9 flex-1 bg-white dark:bg-zinc-900 border-zinc-300 dark:border-zinc-600"
+                          />
+                          <span className="text-zinc-400">–</span>
+                          <Input
+                            type="time"
+                            value={window.end}
+                            onChange={(e) => updateWindow(index, { end: e.target.value })}
+                            className="h-9 flex-1 bg-white dark:bg-zinc-900 border-zinc-300 dark:border-zinc-600"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setAvailability((prev) => prev.filter((_, i) => i !== index))}
+                            className="h-9 w-9 shrink-0 rounded-xl"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      {availability.length < MAX_AVAILABILITY_WINDOWS && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setAvailability((prev) => [...prev, { day: 1, start: "17:00", end: "21:00" }])}
+                          className="rounded-xl"
+                        >
+                          <Plus className="h-3.5 w-3.5 mr-1.5" />
+                          Add window
+                        </Button>
+                      )}
+                    </div>
+                  ) : details.availability.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {sortAvailability(details.availability).map((window, index) => (
+                        <span
+                          key={index}
+                          className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium bg-emerald-50 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-400"
+                        >
+                          <Clock className="h-3 w-3" />
+                          {formatAvailabilityWindow(window)}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-sm text-zinc-400">Not set</span>
+                  )}
+                </div>
+              </div>
+
               {/* Save Button & Error */}
               {isEditing && (
                 <motion.div
@@ -262,6 +618,7 @@ export function ProfileClient({
                       onClick={() => {
                         setIsEditing(false);
                         setName(displayName);
+                        resetDetails();
                         setError(null);
                       }}
                       className="flex-1 h-11 rounded-xl"
@@ -0,0 +1,72 @@
+import { notFound } from "next/navigation";
+import { createClient } from "@/utils/supabase/server";
+import { getUserRatingStats, getUserRatings } from "@/app/actions/rating";
+import { getDefaultAvatarUrl } from "@/lib/avatar";
+import { parseAvailability } from "@/lib/profile-details";
+import { PublicProfileClient } from "./public-profile-client";
+
+interface PublicProfilePageProps {
+  params: Promise<{ id: string }>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default async function PublicProfilePage({ params }: PublicProfilePageProps) {
+  const { id } = await params;
+
+  if (!UUID_PATTERN.test(id)) {
+    notFound();
+  }
+
+  const supabase = await createClient();
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("id, email, full_name, avatar_url, created_at, bio, hostel, department, batch, skills, availability")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!profile) {
+    notFound();
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const [{ ratings }, stats] = await Promise.all([
+    getUserRatings(id),
+    getUserRatingStats(id),
+  ]);
+
+  // Open jobs they've posted that are still taking applicants
+  const { data: openJobs } = await supabase
+    .from("jobs_with_poster")
+    .select("id, title, price, category, due_at, created_at")
+    .eq("user_id", id)
+    .eq("status", "open")
+    .gt("due_at", new Date().toISOString())
+    .order("created_at", { ascending: false })
+    .limit(6);
+
+  return (
+    <PublicProfileClient
+      email={profile.email || ""}
+      displayName={profile.full_name || ""}
+      avatarUrl={profile.avatar_url || getDefaultAvatarUrl(profile.id)}
+      createdAt={profile.created_at}
+      averageRating={stats.averageRating}
+      totalRatings={stats.totalRatings}
+      tasksCompleted={stats.tasksCompleted}
+      ratings={ratings}
+      openJobs={openJobs || []}
+      isOwnProfile={user?.id === profile.id}
+      details={{
+        bio: profile.bio || "",
+        hostel: profile.hostel,
+        department: profile.department,
+        batch: profile.batch,
+        skills: profile.skills || [],
+        availability: parseAvailability(profile.availability),
+      }}
+    />
+  );
+}
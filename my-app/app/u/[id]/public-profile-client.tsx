@@ -0,0 +1,409 @@
+"use client";
+
+import { motion } from "framer-motion";
+import {
+  ArrowLeft,
+  Calendar,
+  GraduationCap,
+  CheckCircle2,
+  Briefcase,
+  Star,
+  Quote,
+  Clock,
+  Pencil,
+  Home,
+} from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { ProfileLink } from "@/components/features/profile-link";
+import { getCategory } from "@/lib/categories";
+import { formatDueLabel } from "@/lib/deadlines";
+import { TITLE_MAX_LENGTH, toPreview } from "@/lib/job-text";
+import {
+  formatAvailabilityWindow,
+  getDepartmentLabel,
+  isAvailableAt,
+  sortAvailability,
+  type ProfileDetails,
+} from "@/lib/profile-details";
+import type { UserRating } from "@/app/actions/rating";
+import Link from "next/link";
+
+interface OpenJob {
+  id: string;
+  title: string;
+  price: number;
+  category: string;
+  due_at: string;
+  created_at: string;
+}
+
+interface PublicProfileClientProps {
+  email: string;
+  displayName: string;
+  avatarUrl: string;
+  createdAt: string;
+  averageRating: number;
+  totalRatings: number;
+  tasksCompleted: number;
+  ratings: UserRating[];
+  openJobs: OpenJob[];
+  isOwnProfile: boolean;
+  details: ProfileDetails;
+}
+
+// Extract roll number from GIKI email
+function extractRollNumber(email: string): string {
+  const match = email.match(/^([a-z]?\d+)/i);
+  return match ? match[1].toUpperCase() : "Student";
+}
+
+// GIKI roll numbers start with the intake year (e.g. 2023444 -> 2023)
+function getBatch(rollNumber: string): string | null {
+  const match = rollNumber.match(/^[A-Z]?(20\d{2})\d+$/);
+  return match ? match[1] : null;
+}
+
+// Format date
+function formatJoinDate(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+  });
+}
+
+function getDisplayName(name: string | null, email: string | null): string {
+  if (name && name.trim()) return name;
+  return email ? extractRollNumber(email) : "Student";
+}
+
+export function PublicProfileClient({
+  email,
+  displayName,
+  avatarUrl,
+  createdAt,
+  averageRating,
+  totalRatings,
+  tasksCompleted,
+  ratings,
+  openJobs,
+  isOwnProfile,
+  details,
+}: PublicProfileClientProps) {
+  const rollNumber = extractRollNumber(email);
+  const batch = details.batch?.toString() ?? getBatch(rollNumber);
+  const department = getDepartmentLabel(details.department);
+  const name = displayName || rollNumber;
+  const reviews = ratings.filter((r) => r.review).slice(0, 5);
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-black relative">
+      {/* Grid Background */}
+      <div className="fixed inset-0 -z-10 h-full w-full bg-white dark:bg-black">
+        <div className="absolute bottom-0 left-0 right-0 top-0 bg-[linear-gradient(to_right,#4f4f4f2e_1px,transparent_1px),linear-gradient(to_bottom,#4f4f4f2e_1px,transparent_1px)] bg-[size:14px_24px] [mask-image:radial-gradient(ellipse_60%_50%_at_50%_0%,#000_70%,transparent_100%)]" />
+      </div>
+
+      {/* Glow Orbs */}
+      <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[800px] h-[400px] bg-emerald-500/20 blur-[120px] rounded-full -z-10" />
+
+      {/* Glass Header */}
+      <header className="sticky top-0 z-50 bg-white/60 dark:bg-black/50 backdrop-blur-xl border-b border-zinc-200/30 dark:border-zinc-800/30">
+        <div className="max-w-3xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="flex items-center justify-center w-9 h-9 rounded-full bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4 text-zinc-600 dark:text-zinc-400" />
+              </motion.button>
+            </Link>
+            <h1 className="text-xl font-bold tracking-tight text-zinc-900 dark:text-white">
+              Profile
+            </h1>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-6 py-12 space-y-6">
+        {/* Identity Card */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="relative overflow-hidden rounded-3xl bg-white/70 dark:bg-zinc-900/70 backdrop-blur-2xl border border-zinc-200/50 dark:border-zinc-800/50 shadow-2xl shadow-zinc-900/10 dark:shadow-black/30"
+        >
+          <div className="absolute top-0 left-0 right-0 h-32 bg-gradient-to-br from-emerald-500/20 via-teal-500/10 to-transparent" />
+
+          <div className="relative p-8 sm:p-10">
+            <div className="flex flex-col items-center">
+              <Avatar className="h-28 w-28 ring-4 ring-white dark:ring-zinc-800 shadow-2xl">
+                <AvatarImage src={avatarUrl} alt={name} />
+                <AvatarFallback className="text-2xl font-bold bg-gradient-to-br from-emerald-500 to-teal-600 text-white">
+                  {rollNumber.slice(0, 2)}
+                </AvatarFallback>
+              </Avatar>
+
+              <h2 className="mt-4 text-2xl font-bold tracking-tight text-zinc-900 dark:text-white text-center">
+                {name}
+              </h2>
+              <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+                {displayName && <span>{rollNumber}</span>}
+                {(department || batch) && (
+                  <span className="flex items-center gap-1.5">
+                    <GraduationCap className="h-3.5 w-3.5" />
+                    {[department, batch && `Batch ${batch}`].filter(Boolean).join(" · ")}
+                  </span>
+                )}
+                {details.hostel && (
+                  <span className="flex items-center gap-1.5">
+                    <Home className="h-3.5 w-3.5" />
+                    {details.hostel}
+                  </span>
+                )}
+                <span className="flex items-center gap-1.5">
+                  <Calendar className="h-3.5 w-3.5" />
+                  Joined {formatJoinDate(createdAt)}
+                </span>
+              </div>
+
+              {details.bio && (
+                <p className="mt-4 max-w-md text-center text-sm text-zinc-600 dark:text-zinc-300 whitespace-pre-line">
+                  {details.bio}
+                </p>
+              )}
+
+              {isOwnProfile && (
+                <Link href="/profile" className="mt-4">
+                  <Button variant="outline" size="sm" className="rounded-xl">
+                    <Pencil className="h-3.5 w-3.5 mr-2" />
+                    Edit your profile
+                  </Button>
+                </Link>
+              )}
+            </div>
+
+            {/* Stats */}
+            <div className="grid grid-cols-3 gap-3 mt-8">
+              <div className="p-4 rounded-2xl bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-500/10 dark:to-orange-500/5 border border-amber-200/50 dark:border-amber-500/20 text-center">
+                <p className="text-2xl font-bold text-amber-900 dark:text-white">
+                  {totalRatings > 0 ? averageRating.toFixed(1) : "–"}
+                </p>
+                <p className="text-xs text-amber-600/70 dark:text-amber-400/60 mt-1">
+                  {totalRatings} {totalRatings === 1 ? "review" : "reviews"}
+                </p>
+              </div>
+              <div className="p-4 rounded-2xl bg-gradient-to-br from-emerald-50 to-teal-50 dark:from-emerald-500/10 dark:to-teal-500/5 border border-emerald-200/50 dark:border-emerald-500/20 text-center">
+                <p className="text-2xl font-bold text-emerald-900 dark:text-white">
+                  {tasksCompleted}
+                </p>
+                <p className="text-xs text-emerald-600/70 dark:text-emerald-400/60 mt-1 flex items-center justify-center gap-1">
+                  <CheckCircle2 className="h-3 w-3" />
+                  completed
+                </p>
+              </div>
+              <div className="p-4 rounded-2xl bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-500/10 dark:to-indigo-500/5 border border-blue-200/50 dark:border-blue-500/20 text-center">
+                <p className="text-2xl font-bold text-blue-900 dark:text-white">
+                  {openJobs.length}
+                </p>
+                <p className="text-xs text-blue-600/70 dark:text-blue-400/60 mt-1 flex items-center justify-center gap-1">
+                  <Briefcase className="h-3 w-3" />
+                  open tasks
+                </p>
+              </div>
+            </div>
+          </div>
+        </motion.div>
+
+        {/* Skills & Availability */}
+        {(details.skills.length > 0 || details.availability.length > 0) && (
+          <motion.section
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="space-y-4"
+          >
+            {details.skills.length > 0 && (
+              <div>
+                <p className="text-xs font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-widest mb-3">
+                  Skills
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {details.skills.map((slug) => {
+                    const skill = getCategory(slug);
+                    const SkillIcon = skill.icon;
+                    return (
+                      <span
+                        key={slug}
+                        className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium bg-violet-50 dark:bg-violet-500/10 text-violet-700 dark:text-violet-400"
+                      >
+                        <SkillIcon className="h-3 w-3" />
+                        {skill.label}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            {details.availability.length > 0 && (
+              <div>
+                <p className="flex items-center gap-2 text-xs font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-widest mb-3">
+                  Usually available
+                  {isAvailableAt(details.availability) && (
+                    <span className="px-2 py-0.5 rounded-full bg-emerald-500 text-white text-[10px] normal-case tracking-normal">
+                      Available now
+                    </span>
+                  )}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {sortAvailability(details.availability).map((window, index) => (
+                    <span
+                      key={index}
+                      className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium bg-emerald-50 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-400"
+                    >
+                      <Clock className="h-3 w-3" />
+                      {formatAvailabilityWindow(window)}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </motion.section>
+        )}
+
+        {/* Rating Breakdown */}
+        {totalRatings > 0 && (
+          <motion.section
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+          >
+            <p className="text-xs font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-widest mb-4">
+              Ratings
+            </p>
+            <div className="p-6 rounded-2xl bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-500/10 dark:to-orange-500/5 border border-amber-200/50 dark:border-amber-500/20 space-y-1.5">
+              {[5, 4, 3, 2, 1].map((star) => {
+                const count = ratings.filter((r) => r.rating === star).length;
+                const percentage = ratings.length > 0 ? (count / ratings.length) * 100 : 0;
+                return (
+                  <div key={star} className="flex items-center gap-2">
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400 w-3">
+                      {star}
+                    </span>
+                    <Star className="h-3 w-3 text-amber-500 fill-amber-500" />
+                    <div className="flex-1 h-2 bg-amber-100 dark:bg-amber-900/20 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-amber-500 rounded-full transition-all"
+                        style={{ width: `${percentage}%` }}
+                      />
+                    </div>
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400 w-6">
+                      {count}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </motion.section>
+        )}
+
+        {/* Open Tasks */}
+        {openJobs.length > 0 && (
+          <motion.section
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+          >
+            <p className="text-xs font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-widest mb-4">
+              Open Tasks
+            </p>
+            <div className="space-y-3">
+              {openJobs.map((job) => {
+                const category = getCategory(job.category);
+                const CategoryIcon = category.icon;
+                return (
+                  <Link
+                    key={job.id}
+                    href={`/jobs/${job.id}`}
+                    className="flex items-center gap-4 p-4 rounded-2xl bg-zinc-50 dark:bg-zinc-900/50 border border-zinc-200/80 dark:border-zinc-800 hover:border-emerald-500/50 transition-colors"
+                  >
+                    <div className="flex items-center justify-center w-10 h-10 rounded-xl bg-violet-50 dark:bg-violet-500/10 shrink-0">
+                      <CategoryIcon className="h-4 w-4 text-violet-600 dark:text-violet-400" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-zinc-900 dark:text-white truncate">
+                        {toPreview(job.title, TITLE_MAX_LENGTH)}
+                      </p>
+                      <p className="flex items-center gap-1 text-xs text-zinc-500 dark:text-zinc-400 mt-0.5">
+                        <Clock className="h-3 w-3" />
+                        {formatDueLabel(job.due_at)}
+                      </p>
+                    </div>
+                    <span className="px-3 py-1 rounded-full bg-emerald-500 text-white text-sm font-semibold shrink-0">
+                      Rs. {job.price.toLocaleString()}
+                    </span>
+                  </Link>
+                );
+              })}
+            </div>
+          </motion.section>
+        )}
+
+        {/* Recent Reviews */}
+        {reviews.length > 0 && (
+          <motion.section
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.4 }}
+          >
+            <p className="text-xs font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-widest mb-4">
+              Recent Reviews
+            </p>
+            <div className="space-y-3">
+              {reviews.map((rating) => (
+                <div
+                  key={rating.id}
+                  className="p-4 rounded-xl bg-zinc-50 dark:bg-zinc-800/50 border border-zinc-200/50 dark:border-zinc-700/50"
+                >
+                  <div className="flex items-start gap-3">
+                    <Quote className="h-4 w-4 text-zinc-400 dark:text-zinc-500 mt-0.5 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-zinc-700 dark:text-zinc-300 leading-relaxed">
+                        {rating.review}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-2 mt-2">
+                        <div className="flex items-center gap-0.5">
+                          {[1, 2, 3, 4, 5].map((star) => (
+                            <Star
+                              key={star}
+                              className={`h-3 w-3 ${
+                                star <= rating.rating
+                                  ? "text-amber-500 fill-amber-500"
+                                  : "text-zinc-300 dark:text-zinc-600"
+                              }`}
+                            />
+                          ))}
+                        </div>
+                        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                          by{" "}
+                          <ProfileLink userId={rating.raterId} className="font-medium text-zinc-700 dark:text-zinc-300 hover:underline">
+                            {getDisplayName(rating.raterName, rating.raterEmail)}
+                          </ProfileLink>
+                          {" "}for {rating.jobTitle}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.section>
+        )}
+      </main>
+    </div>
+  );
+}
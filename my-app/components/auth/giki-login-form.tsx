@@ -7,10 +7,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { createClient } from "@/utils/supabase/client";
 import { useRouter } from "next/navigation";
+import { requestLoginCode } from "@/app/actions/auth";
 
 type Stage = "email" | "otp" | "success";
 
-export function GikiLoginForm() {
+interface GikiLoginFormProps {
+  // Same-site path to return to after login
+  redirectTo?: string;
+}
+
+export function GikiLoginForm({ redirectTo = "/" }: GikiLoginFormProps) {
   const [stage, setStage] = useState<Stage>("email");
   const [email, setEmail] = useState("");
   const [otp, setOtp] = useState(["", "", "", "", "", "", "", ""]);
@@ -26,43 +32,22 @@ export function GikiLoginForm() {
     return match ? match[1].toUpperCase() : "Student";
   };
 
-  // Validate GIKI email
-  const isValidGikiEmail = (email: string) => {
-    const gikiRegex = /^[a-zA-Z0-9._%+-]+@giki\.edu(\.pk)?$/i;
-    return gikiRegex.test(email);
-  };
-
-  // Handle email submission
+  // Handle email submission (the allow-list is checked on the server)
   const handleSendCode = () => {
     setError(null);
 
-    if (!email) {
+    if (!email.trim()) {
       setError("Please enter your email");
       return;
     }
 
-    if (!isValidGikiEmail(email)) {
-      if (email.includes("@gmail") || email.includes("@yahoo") || email.includes("@hotmail")) {
-        setError("Exclusive to GIKI Students only.");
-      } else {
-        setError("Please use your GIKI email (@giki.edu.pk)");
-      }
-      return;
-    }
-
     startTransition(async () => {
-      const { error } = await supabase.auth.signInWithOtp({
-        email,
-        options: {
-          shouldCreateUser: true,
-          // Force OTP code instead of magic link
-          emailRedirectTo: undefined,
-        },
-      });
+      const result = await requestLoginCode(email);
 
-      if (error) {
-        setError(error.message);
+      if (result.error) {
+        setError(result.error);
       } else {
+        setEmail(email.trim().toLowerCase());
         setStage("otp");
       }
     });
@@ -124,7 +109,7 @@ export function GikiLoginForm() {
         setStage("success");
         // Force navigation and refresh to update server components
         setTimeout(() => {
-          router.push("/");
+          router.push(redirectTo);
           router.refresh();
         }, 1000);
       }
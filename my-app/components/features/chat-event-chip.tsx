@@ -0,0 +1,74 @@
+"use client";
+
+import {
+  AlertTriangle,
+  ArrowLeftRight,
+  BellRing,
+  CheckCircle2,
+  CircleDot,
+  HandCoins,
+  Pencil,
+  Scale,
+  Send,
+  TimerReset,
+  UserCheck,
+  Wallet,
+  XCircle,
+  type LucideIcon,
+} from "lucide-react";
+import { describeChatEvent, describeUnknownEvent, type ChatEventKind } from "@/lib/system-messages";
+import type { ChatMessage } from "@/lib/chat-history";
+
+const EVENT_CONFIG: Record<ChatEventKind, { icon: LucideIcon; color: string }> = {
+  worker_selected: { icon: UserCheck, color: "text-emerald-600 dark:text-emerald-400" },
+  job_filled: { icon: CircleDot, color: "text-zinc-500" },
+  work_submitted: { icon: Send, color: "text-violet-600 dark:text-violet-400" },
+  job_completed: { icon: CheckCircle2, color: "text-blue-600 dark:text-blue-400" },
+  job_cancelled: { icon: XCircle, color: "text-red-500" },
+  changes_requested: { icon: TimerReset, color: "text-amber-600 dark:text-amber-400" },
+  work_auto_approved: { icon: CheckCircle2, color: "text-blue-600 dark:text-blue-400" },
+  job_updated: { icon: Pencil, color: "text-amber-600 dark:text-amber-400" },
+  payment_marked_paid: { icon: Wallet, color: "text-emerald-600 dark:text-emerald-400" },
+  payment_confirmed: { icon: CheckCircle2, color: "text-emerald-600 dark:text-emerald-400" },
+  payment_disputed: { icon: AlertTriangle, color: "text-red-500" },
+  payment_reminder: { icon: BellRing, color: "text-amber-600 dark:text-amber-400" },
+  payment_flagged: { icon: AlertTriangle, color: "text-red-500" },
+  dispute_opened: { icon: Scale, color: "text-red-500" },
+  dispute_resolved: { icon: Scale, color: "text-blue-600 dark:text-blue-400" },
+  offer_made: { icon: HandCoins, color: "text-violet-600 dark:text-violet-400" },
+  offer_countered: { icon: ArrowLeftRight, color: "text-amber-600 dark:text-amber-400" },
+  offer_declined: { icon: XCircle, color: "text-zinc-500" },
+};
+
+interface ChatEventChipProps {
+  message: ChatMessage;
+  isMe: boolean;
+  time: string;
+}
+
+// Centered chip for a status change, offer or notice in the chat thread.
+// Notices from before events were stored have no payload and show their text.
+export function ChatEventChip({ message, isMe, time }: ChatEventChipProps) {
+  const text = message.event ? describeChatEvent(message.event, isMe) : describeUnknownEvent(message.content);
+  const config = message.event ? EVENT_CONFIG[message.event.event] : null;
+  const Icon = config?.icon ?? CircleDot;
+
+  return (
+    <div className="flex justify-center my-3">
+      <div className="max-w-[85%] flex items-start gap-2 px-3.5 py-2 rounded-2xl bg-zinc-100/90 dark:bg-zinc-800/80 border border-zinc-200/60 dark:border-zinc-700/50">
+        <Icon className={`h-3.5 w-3.5 mt-0.5 shrink-0 ${config?.color ?? "text-zinc-500"}`} />
+        <div className="min-w-0 text-center">
+          <p className="text-xs font-medium text-zinc-700 dark:text-zinc-200 leading-snug">
+            {text.title}
+          </p>
+          {text.detail && (
+            <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5 whitespace-pre-wrap break-words">
+              {text.detail}
+            </p>
+          )}
+          <p className="text-[10px] text-zinc-400 dark:text-zinc-500 mt-0.5">{time}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback, useTransition } from "react";
+import { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback, useTransition } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
   Send, 
@@ -14,10 +14,19 @@ import {
   ChevronRight,
   UserCheck,
   CheckCircle2,
-  CircleDot
+  CircleDot,
+  HandCoins,
+  Bookmark,
+  X,
+  Undo2,
+  Home,
+  GraduationCap,
+  Paperclip,
+  FileText
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Sheet,
   SheetContent,
@@ -27,13 +36,49 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { createClient } from "@/utils/supabase/client";
 import { assignWorker } from "@/app/actions/update-job-status";
+import { markConversationRead, sendAttachment, sendMessage } from "@/app/actions/chat";
+import {
+  applyToJob,
+  withdrawApplication,
+  updateApplicationStatus,
+} from "@/app/actions/applications";
+import { OfferPanel } from "@/components/features/offer-panel";
+import { JobTimeline } from "@/components/features/job-timeline";
+import { RichDescription } from "@/components/features/rich-description";
+import { ProfileLink } from "@/components/features/profile-link";
+import { getCategory } from "@/lib/categories";
+import {
+  getDepartmentLabel,
+  isAvailableAt,
+  parseAvailability,
+  type AvailabilityWindow,
+} from "@/lib/profile-details";
+import { toPreview } from "@/lib/job-text";
+import { MESSAGE_COLUMNS, fetchLastMessagePreview, fetchMessagePage, mapMessageRow, withAttachments, type ChatMessage } from "@/lib/chat-history";
+import { getMessagePreview, isPreviewMessageType, type MessagePreviewRow } from "@/lib/system-messages";
+import {
+  ATTACHMENT_ACCEPTED_TYPES,
+  formatFileSize,
+  getAttachmentLabel,
+  isImageAttachment,
+  shrinkImage,
+  validateAttachmentFile,
+  type ChatAttachment,
+} from "@/lib/attachments";
+import { AttachmentLightbox, MessageAttachments } from "@/components/features/message-attachments";
+import { ChatEventChip } from "@/components/features/chat-event-chip";
+import { TYPING_THROTTLE_MS, TYPING_TIMEOUT_MS, formatLastSeen } from "@/lib/presence";
+import { useOnlineUsers } from "@/lib/hooks/use-presence";
 import type { RealtimeChannel } from "@supabase/supabase-js";
+import Link from "next/link";
+import Image from "next/image";
 
 // Create a single instance outside the component to prevent re-creation
 const supabase = createClient();
 
 // Types
-type JobStatus = "open" | "in_progress" | "completed" | "cancelled";
+type JobStatus = "open" | "in_progress" | "pending_review" | "completed" | "cancelled" | "expired";
+type ApplicationStatus = "pending" | "shortlisted" | "rejected" | "withdrawn" | "hired";
 
 interface Job {
   id: string;
@@ -42,6 +87,7 @@ interface Job {
   price: number;
   urgency: string;
   location: string;
+  category?: string;
   userId: string;
   studentName: string;
   avatarUrl: string;
@@ -49,22 +95,27 @@ interface Job {
   assignedTo?: string | null;
 }
 
-interface Message {
-  id: string;
-  conversationId: string;
-  senderId: string;
-  content: string;
-  createdAt: string;
-  senderEmail?: string;
-}
-
 interface Applicant {
+  applicationId: string;
   conversationId: string;
   workerId: string;
+  status: ApplicationStatus;
+  coverNote: string | null;
   workerEmail: string;
   workerName: string | null;
+  workerBio: string | null;
+  workerHostel: string | null;
+  workerDepartment: string | null;
+  workerBatch: number | null;
+  workerSkills: string[];
+  workerAvailability: AvailabilityWindow[];
   lastMessage?: string;
   lastMessageTime?: string;
+  // Messages from this applicant the poster hasn't opened yet
+  unreadCount: number;
+  // Latest live or accepted offer from this applicant
+  offerPrice?: number;
+  offerStatus?: string;
 }
 
 interface ChatSheetProps {
@@ -101,7 +152,7 @@ export function ChatSheet({
   currentUserId,
 }: ChatSheetProps) {
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isSending, setIsSending] = useState(false);
@@ -110,7 +161,28 @@ export function ChatSheet({
   const [isLoadingApplicants, setIsLoadingApplicants] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Older history: whether there's more to load, and the scroll height to
+  // restore against once a page is prepended
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const prependScrollHeightRef = useRef<number | null>(null);
+  const lastScrollTopRef = useRef(0);
+
+  // Attachment waiting to be sent with the next message, and the photo open in the lightbox
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [lightboxAttachment, setLightboxAttachment] = useState<ChatAttachment | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingPreviewUrl = useMemo(
+    () => (pendingFile && isImageAttachment(pendingFile.type) ? URL.createObjectURL(pendingFile) : null),
+    [pendingFile]
+  );
   const channelRef = useRef<RealtimeChannel | null>(null);
+  // Typing indicator timers: when we last told the other side, and when to hide theirs
+  const lastTypingSentRef = useRef(0);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Read by the applicant list subscription, which outlives a single conversation
+  const activeConversationIdRef = useRef<string | null>(null);
   
   // Assignment state
   const [currentViewingWorkerId, setCurrentViewingWorkerId] = useState<string | null>(null);
@@ -119,7 +191,33 @@ export function ChatSheet({
   const [assignedWorkerId, setAssignedWorkerId] = useState<string | null>(job?.assignedTo || null);
   const [isPending, startTransition] = useTransition();
 
+  // Presence of the other participant
+  const onlineUserIds = useOnlineUsers(currentUserId);
+  const [otherTyping, setOtherTyping] = useState(false);
+  const [otherInChat, setOtherInChat] = useState(false);
+  const [otherLastSeen, setOtherLastSeen] = useState<string | null>(null);
+
+  // Application state
+  const [myApplicationStatus, setMyApplicationStatus] = useState<ApplicationStatus | null>(null);
+  const [showApplyForm, setShowApplyForm] = useState(false);
+  const [coverNote, setCoverNote] = useState("");
+  const [applyError, setApplyError] = useState<string | null>(null);
+  // Poster-side filters for the applicant list
+  const [applicantFilters, setApplicantFilters] = useState({ skillMatch: false, hostel: "", availableNow: false });
+
   const isOwner = currentUserId === job?.userId;
+  const currentApplicant = applicants.find(a => a.workerId === currentViewingWorkerId) || null;
+  const otherUserId = isOwner ? currentViewingWorkerId : job?.userId ?? null;
+  const isOtherOnline = otherInChat || (!!otherUserId && onlineUserIds.has(otherUserId));
+  // "Seen" / "Sent" goes under the latest message we sent
+  const ownMessages = messages.filter(m => m.senderId === currentUserId && m.messageType === "user");
+  const lastOwnMessage = ownMessages[ownMessages.length - 1];
+  const applicantHostels = [...new Set(applicants.map(a => a.workerHostel).filter((h): h is string => !!h))].sort();
+  const filteredApplicants = applicants.filter((a) =>
+    (!applicantFilters.skillMatch || (!!job?.category && a.workerSkills.includes(job.category))) &&
+    (!applicantFilters.hostel || a.workerHostel === applicantFilters.hostel) &&
+    (!applicantFilters.availableNow || isAvailableAt(a.workerAvailability))
+  );
 
   // Scroll to bottom when messages change
   const scrollToBottom = useCallback(() => {
@@ -131,16 +229,37 @@ export function ChatSheet({
     }
   }, []);
 
+  // Free the local preview once it's sent or removed
+  useEffect(() => {
+    return () => {
+      if (pendingPreviewUrl) URL.revokeObjectURL(pendingPreviewUrl);
+    };
+  }, [pendingPreviewUrl]);
+
+  // Only a new latest message scrolls down; prepending older history doesn't
+  const latestMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     const timer = setTimeout(scrollToBottom, 100);
     return () => clearTimeout(timer);
-  }, [messages, scrollToBottom]);
+  }, [latestMessageId, otherTyping, scrollToBottom]);
+
+  // Keep the same messages in view after older ones are added above them
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (container && prependScrollHeightRef.current !== null) {
+      container.scrollTop += container.scrollHeight - prependScrollHeightRef.current;
+      prependScrollHeightRef.current = null;
+    }
+  }, [messages]);
 
   // Reset state when sheet closes or job changes
   useEffect(() => {
     if (!isOpen) {
       setActiveConversationId(null);
       setMessages([]);
+      setHasOlderMessages(false);
+      setPendingFile(null);
+      setAttachmentError(null);
       setNewMessage("");
       setOtherUserEmail(null);
       setApplicants([]);
@@ -148,6 +267,10 @@ export function ChatSheet({
       setCurrentViewingWorkerName(null);
       setJobStatus("open");
       setAssignedWorkerId(null);
+      setMyApplicationStatus(null);
+      setShowApplyForm(false);
+      setCoverNote("");
+      setApplyError(null);
     }
   }, [isOpen, job?.id]);
 
@@ -178,46 +301,66 @@ export function ChatSheet({
     const fetchApplicants = async () => {
       setIsLoadingApplicants(true);
 
-      // Get all conversations for this job
-      const { data: conversations, error } = await supabase
-        .from("conversations")
-        .select("id, worker_id, created_at")
-        .eq("job_id", job.id);
+      // Get all live applications for this job, with worker profiles
+      const { data: applications, error } = await supabase
+        .from("applications_with_worker")
+        .select("id, worker_id, conversation_id, cover_note, status, worker_email, worker_name, worker_bio, worker_hostel, worker_department, worker_batch, worker_skills, worker_availability")
+        .eq("job_id", job.id)
+        .neq("status", "withdrawn")
+        .not("conversation_id", "is", null)
+        .order("created_at", { ascending: true });
 
-      if (error || !conversations || conversations.length === 0) {
+      if (error || !applications || applications.length === 0) {
         setApplicants([]);
         setIsLoadingApplicants(false);
         return;
       }
 
-      // Get worker profiles
-      const workerIds = conversations.map(c => c.worker_id);
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("id, email, full_name")
-        .in("id", workerIds);
+      // Get each applicant's latest offer (newest first, so the first hit wins)
+      const { data: offers } = await supabase
+        .from("offers")
+        .select("worker_id, price, status")
+        .eq("job_id", job.id)
+        .in("status", ["pending", "countered", "accepted"])
+        .order("created_at", { ascending: false });
+
+      const offerMap = new Map<string, { price: number; status: string }>();
+      for (const offer of offers || []) {
+        if (!offerMap.has(offer.worker_id)) {
+          offerMap.set(offer.worker_id, { price: offer.price, status: offer.status });
+        }
+      }
 
-      const profileMap = new Map(profiles?.map(p => [p.id, { email: p.email, name: p.full_name }]) || []);
+      const { data: unreadRows } = await supabase.rpc("conversation_unread_counts");
+      const unreadMap = new Map<string, number>(
+        (unreadRows || []).map((r: { conversation_id: string; unread_count: number }) => [r.conversation_id, r.unread_count])
+      );
 
       // Get last message for each conversation
       const applicantData: Applicant[] = await Promise.all(
-        conversations.map(async (conv) => {
-          const { data: lastMsg } = await supabase
-            .from("messages")
-            .select("content, created_at")
-            .eq("conversation_id", conv.id)
-            .order("created_at", { ascending: false })
-            .limit(1)
-            .maybeSingle();
+        applications.map(async (app) => {
+          const lastMsg = await fetchLastMessagePreview(supabase, app.conversation_id, currentUserId);
 
-          const profile = profileMap.get(conv.worker_id);
+          const offer = offerMap.get(app.worker_id);
           return {
-            conversationId: conv.id,
-            workerId: conv.worker_id,
-            workerEmail: profile?.email || "",
-            workerName: profile?.name || null,
-            lastMessage: lastMsg?.content,
-            lastMessageTime: lastMsg?.created_at,
+            applicationId: app.id,
+            conversationId: app.conversation_id,
+            workerId: app.worker_id,
+            status: app.status as ApplicationStatus,
+            coverNote: app.cover_note,
+            workerEmail: app.worker_email || "",
+            workerName: app.worker_name || null,
+            workerBio: app.worker_bio || null,
+            workerHostel: app.worker_hostel || null,
+            workerDepartment: app.worker_department || null,
+            workerBatch: app.worker_batch ?? null,
+            workerSkills: app.worker_skills || [],
+            workerAvailability: parseAvailability(app.worker_availability),
+            lastMessage: lastMsg?.text,
+            lastMessageTime: lastMsg?.createdAt,
+            unreadCount: unreadMap.get(app.conversation_id) ?? 0,
+            offerPrice: offer?.price,
+            offerStatus: offer?.status,
           };
         })
       );
@@ -229,24 +372,75 @@ export function ChatSheet({
     fetchApplicants();
   }, [isOpen, job, currentUserId, isOwner]);
 
-  // Check for existing conversation when sheet opens (for non-owners)
+  // Check for an existing application when sheet opens (for non-owners)
   useEffect(() => {
     if (!isOpen || !job || !currentUserId || isOwner) return;
 
-    const checkExistingConversation = async () => {
+    const checkExistingApplication = async () => {
       const { data } = await supabase
-        .from("conversations")
-        .select("id")
+        .from("applications")
+        .select("status, conversation_id")
         .eq("job_id", job.id)
         .eq("worker_id", currentUserId)
         .maybeSingle();
 
       if (data) {
-        setActiveConversationId(data.id);
+        setMyApplicationStatus(data.status as ApplicationStatus);
+        // Withdrawn applicants land on the details view so they can re-apply
+        if (data.status !== "withdrawn" && data.conversation_id) {
+          setActiveConversationId(data.conversation_id);
+        }
       }
     };
 
-    checkExistingConversation();
+    checkExistingApplication();
+  }, [isOpen, job, currentUserId, isOwner]);
+
+  useEffect(() => {
+    activeConversationIdRef.current = activeConversationId;
+  }, [activeConversationId]);
+
+  // Mark a conversation read and clear its badge in the applicant list
+  const markRead = useCallback(async (conversationId: string) => {
+    setApplicants(prev => prev.map(a =>
+      a.conversationId === conversationId ? { ...a, unreadCount: 0 } : a
+    ));
+    const result = await markConversationRead(conversationId);
+    if (result.error) {
+      console.error("Failed to mark conversation read:", result.error);
+    }
+  }, []);
+
+  // Keep the applicant list badges live while the poster has the sheet open
+  useEffect(() => {
+    if (!isOpen || !job || !currentUserId || !isOwner) return;
+
+    const channel = supabase
+      .channel(`unread:${job.id}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "messages" },
+        (payload) => {
+          if (payload.new.sender_id === currentUserId) return;
+          // Notices count as unread but don't replace what was last said
+          const showsInPreview = isPreviewMessageType(payload.new.message_type);
+          setApplicants(prev => prev.map(a =>
+            a.conversationId === payload.new.conversation_id
+              ? {
+                  ...a,
+                  ...(showsInPreview && {
+                    lastMessage: getMessagePreview(payload.new as MessagePreviewRow, currentUserId),
+                    lastMessageTime: payload.new.created_at,
+                  }),
+                  unreadCount: payload.new.conversation_id === activeConversationIdRef.current ? 0 : a.unreadCount + 1,
+                }
+              : a
+          ));
+        }
+      )
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
   }, [isOpen, job, currentUserId, isOwner]);
 
   // Fetch messages when conversation is active
@@ -255,57 +449,39 @@ export function ChatSheet({
 
     const fetchMessages = async () => {
       setIsLoading(true);
-      
-      // First fetch messages
-      const { data, error } = await supabase
-        .from("messages")
-        .select("*")
-        .eq("conversation_id", activeConversationId)
-        .order("created_at", { ascending: true });
 
-      if (error) {
-        console.error("Error fetching messages:", error);
-        setIsLoading(false);
-        return;
-      }
+      // Latest page only; older history loads as the user scrolls up
+      try {
+        const page = await fetchMessagePage(supabase, activeConversationId, null);
 
-      if (data && data.length > 0) {
-        // Fetch sender profiles separately
-        const senderIds = [...new Set(data.map(m => m.sender_id))];
-        const { data: profiles } = await supabase
-          .from("profiles")
-          .select("id, email")
-          .in("id", senderIds);
-
-        const profileMap = new Map(profiles?.map(p => [p.id, p.email]) || []);
-
-        const formattedMessages: Message[] = data.map((msg) => ({
-          id: msg.id,
-          conversationId: msg.conversation_id,
-          senderId: msg.sender_id,
-          content: msg.content,
-          createdAt: msg.created_at,
-          senderEmail: profileMap.get(msg.sender_id) || null,
-        }));
-        
-        setMessages(formattedMessages);
+        setMessages(page.messages);
+        setHasOlderMessages(page.hasMore);
+
+        if (page.messages.some(m => m.senderId !== currentUserId && !m.isRead)) {
+          markRead(activeConversationId);
+        }
 
         // Get the other user's email for display
-        const otherMsg = formattedMessages.find(m => m.senderId !== currentUserId);
+        const otherMsg = page.messages.find(m => m.senderId !== currentUserId);
         if (otherMsg?.senderEmail) {
           setOtherUserEmail(otherMsg.senderEmail);
         }
-      } else {
-        setMessages([]);
+      } catch (error) {
+        console.error("Error fetching messages:", error);
       }
       setIsLoading(false);
     };
 
     fetchMessages();
 
-    // Set up realtime subscription
-    channelRef.current = supabase
-      .channel(`messages:${activeConversationId}`)
+    // Set up realtime subscription: new messages and read receipts from the
+    // database, plus presence and typing broadcasts between the two sides
+    const channel = supabase.channel(`messages:${activeConversationId}`, {
+      config: { presence: { key: currentUserId ?? "" } },
+    });
+    channelRef.current = channel;
+
+    channel
       .on(
         "postgres_changes",
         {
@@ -315,90 +491,268 @@ export function ChatSheet({
           filter: `conversation_id=eq.${activeConversationId}`,
         },
         async (payload) => {
-          // Fetch the sender info for the new message
-          const { data: profile } = await supabase
-            .from("profiles")
-            .select("email")
-            .eq("id", payload.new.sender_id)
+          // Re-read through the view for the sender info
+          const { data: row } = await supabase
+            .from("messages_with_sender")
+            .select(MESSAGE_COLUMNS)
+            .eq("id", payload.new.id)
             .maybeSingle();
 
-          const newMsg: Message = {
-            id: payload.new.id,
-            conversationId: payload.new.conversation_id,
-            senderId: payload.new.sender_id,
-            content: payload.new.content,
-            createdAt: payload.new.created_at,
-            senderEmail: profile?.email,
-          };
+          if (!row) return;
+          let newMsg = mapMessageRow(row);
+          try {
+            [newMsg] = await withAttachments(supabase, [newMsg]);
+          } catch (error) {
+            console.error("Error fetching attachments:", error);
+          }
 
           setMessages((prev) => {
             // Avoid duplicates
             if (prev.some(m => m.id === newMsg.id)) return prev;
             return [...prev, newMsg];
           });
+
+          // The conversation is open, so anything arriving is seen right away
+          if (newMsg.senderId !== currentUserId) {
+            markRead(newMsg.conversationId);
+          }
         }
       )
-      .subscribe();
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "messages",
+          filter: `conversation_id=eq.${activeConversationId}`,
+        },
+        (payload) => {
+          // The other side read our messages: flip the "Seen" marker
+          setMessages((prev) => prev.map(m =>
+            m.id === payload.new.id ? { ...m, isRead: payload.new.is_read } : m
+          ));
+        }
+      )
+      .on("presence", { event: "sync" }, () => {
+        setOtherInChat(Object.keys(channel.presenceState()).some(key => key !== currentUserId));
+      })
+      .on("presence", { event: "leave" }, ({ key }) => {
+        if (key !== currentUserId) {
+          setOtherLastSeen(new Date().toISOString());
+          setOtherTyping(false);
+        }
+      })
+      .on("broadcast", { event: "typing" }, ({ payload }) => {
+        if (payload.userId === currentUserId) return;
+        if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+        setOtherTyping(payload.isTyping);
+        if (payload.isTyping) {
+          typingTimeoutRef.current = setTimeout(() => setOtherTyping(false), TYPING_TIMEOUT_MS);
+        }
+      })
+      .subscribe(async (status) => {
+        if (status === "SUBSCRIBED" && currentUserId) {
+          await channel.track({ online_at: new Date().toISOString() });
+        }
+      });
 
     return () => {
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-      }
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      setOtherTyping(false);
+      setOtherInChat(false);
+      supabase.removeChannel(channel);
+      channelRef.current = null;
+    };
+  }, [activeConversationId, currentUserId, markRead]);
+
+  // Load the page before the oldest message on screen
+  const loadOlderMessages = async () => {
+    const conversationId = activeConversationId;
+    const oldest = messages[0];
+    if (!conversationId || !oldest || !hasOlderMessages || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(supabase, conversationId, oldest);
+
+      // Ignore a page that lands after switching conversations
+      if (conversationId !== activeConversationIdRef.current) return;
+
+      prependScrollHeightRef.current = messagesContainerRef.current?.scrollHeight ?? null;
+      setMessages(prev => [
+        ...page.messages.filter(m => !prev.some(p => p.id === m.id)),
+        ...prev,
+      ]);
+      setHasOlderMessages(page.hasMore);
+    } catch (error) {
+      console.error("Error fetching older messages:", error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  // Only scrolling up near the top loads more, not the scroll down to the latest message
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop } = e.currentTarget;
+    const scrollingUp = scrollTop < lastScrollTopRef.current;
+    lastScrollTopRef.current = scrollTop;
+
+    if (scrollingUp && scrollTop < 80) {
+      loadOlderMessages();
+    }
+  };
+
+  // Last seen time for the header while the other side is away
+  useEffect(() => {
+    if (!activeConversationId || !otherUserId) return;
+
+    const fetchLastSeen = async () => {
+      const { data } = await supabase
+        .from("profiles")
+        .select("last_seen_at")
+        .eq("id", otherUserId)
+        .maybeSingle();
+
+      setOtherLastSeen(data?.last_seen_at ?? null);
     };
-  }, [activeConversationId, currentUserId]);
 
-  // Start a new conversation
-  const handleStartChat = async () => {
+    fetchLastSeen();
+  }, [activeConversationId, otherUserId]);
+
+  // Tell the other side we're typing, at most once per throttle window
+  const broadcastTyping = (isTyping: boolean) => {
+    if (!channelRef.current || !currentUserId) return;
+
+    const now = Date.now();
+    if (isTyping && now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+    lastTypingSentRef.current = isTyping ? now : 0;
+
+    channelRef.current.send({
+      type: "broadcast",
+      event: "typing",
+      payload: { userId: currentUserId, isTyping },
+    });
+  };
+
+  // Apply to the job (creates the conversation and notifies the owner)
+  const handleApply = async () => {
     if (!job || !currentUserId) return;
 
     setIsLoading(true);
+    setApplyError(null);
+
+    const result = await applyToJob(job.id, coverNote);
+
+    if (result.conversationId) {
+      setMyApplicationStatus("pending");
+      setShowApplyForm(false);
+      setCoverNote("");
+      setActiveConversationId(result.conversationId);
+    } else {
+      console.error("Error applying to job:", result.error);
+      setApplyError(result.error || "Failed to apply");
+    }
+    setIsLoading(false);
+  };
 
-    // Check if conversation already exists
-    const { data: existing } = await supabase
-      .from("conversations")
-      .select("id")
-      .eq("job_id", job.id)
-      .eq("worker_id", currentUserId)
-      .maybeSingle();
+  // Withdraw the current user's application
+  const handleWithdraw = () => {
+    if (!job) return;
 
-    if (existing) {
-      setActiveConversationId(existing.id);
-      setIsLoading(false);
+    startTransition(async () => {
+      const result = await withdrawApplication(job.id);
+      if (result.success) {
+        setMyApplicationStatus("withdrawn");
+        setActiveConversationId(null);
+      } else {
+        console.error("Failed to withdraw application:", result.error);
+      }
+    });
+  };
+
+  // Shortlist or reject the applicant being viewed
+  const handleReviewApplicant = (status: "pending" | "shortlisted" | "rejected") => {
+    if (!currentApplicant) return;
+
+    startTransition(async () => {
+      const result = await updateApplicationStatus(currentApplicant.applicationId, status);
+      if (result.success) {
+        setApplicants(prev => prev.map(a =>
+          a.applicationId === currentApplicant.applicationId ? { ...a, status } : a
+        ));
+      } else {
+        console.error("Failed to update application:", result.error);
+      }
+    });
+  };
+
+  // Pick a file: photos are shrunk first, then checked against the limits
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setAttachmentError(null);
+
+    if (!ATTACHMENT_ACCEPTED_TYPES.includes(file.type)) {
+      setAttachmentError(validateAttachmentFile(file));
       return;
     }
 
-    // Create new conversation
-    const { data: newConversation, error } = await supabase
-      .from("conversations")
-      .insert({
-        job_id: job.id,
-        worker_id: currentUserId,
-      })
-      .select("id")
-      .single();
+    try {
+      const prepared = await shrinkImage(file);
+      const fileError = validateAttachmentFile(prepared);
+      if (fileError) {
+        setAttachmentError(fileError);
+        return;
+      }
+      setPendingFile(prepared);
+    } catch (error) {
+      setAttachmentError(error instanceof Error ? error.message : "Couldn't read that file");
+    }
+  };
+
+  // Send the pending file, with whatever's typed as its caption
+  const handleSendAttachment = async () => {
+    if (!pendingFile || !activeConversationId) return;
+
+    setIsSending(true);
+    setAttachmentError(null);
 
-    if (!error && newConversation) {
-      setActiveConversationId(newConversation.id);
+    const formData = new FormData();
+    formData.append("conversationId", activeConversationId);
+    formData.append("file", pendingFile);
+    formData.append("caption", newMessage);
+
+    const result = await sendAttachment(formData);
+
+    if (result.error) {
+      setAttachmentError(result.error);
+    } else {
+      setPendingFile(null);
+      setNewMessage("");
+      broadcastTyping(false);
     }
-    setIsLoading(false);
+    setIsSending(false);
   };
 
   // Send a message
   const handleSendMessage = async () => {
+    if (pendingFile) {
+      handleSendAttachment();
+      return;
+    }
     if (!newMessage.trim() || !activeConversationId || !currentUserId) return;
 
     setIsSending(true);
     const messageContent = newMessage.trim();
     setNewMessage("");
+    broadcastTyping(false);
 
-    const { error } = await supabase.from("messages").insert({
-      conversation_id: activeConversationId,
-      sender_id: currentUserId,
-      content: messageContent,
-    });
+    const result = await sendMessage(activeConversationId, messageContent);
 
-    if (error) {
-      console.error("Error sending message:", error);
+    if (result.error) {
+      console.error("Error sending message:", result.error);
       setNewMessage(messageContent); // Restore on error
     }
     setIsSending(false);
@@ -412,6 +766,17 @@ export function ChatSheet({
     }
   };
 
+  // Mirror assignWorker locally: the hired applicant wins, everyone else still waiting is rejected
+  const markHired = (workerId: string) => {
+    setApplicants(prev => prev.map(a =>
+      a.workerId === workerId
+        ? { ...a, status: "hired" }
+        : a.status === "pending" || a.status === "shortlisted"
+          ? { ...a, status: "rejected" }
+          : a
+    ));
+  };
+
   // Assign worker to job
   const handleAssignWorker = async () => {
     if (!job || !currentViewingWorkerId) return;
@@ -422,6 +787,7 @@ export function ChatSheet({
         // Update local state immediately
         setJobStatus("in_progress");
         setAssignedWorkerId(currentViewingWorkerId);
+        markHired(currentViewingWorkerId);
       } else {
         console.error("Failed to assign worker:", result.error);
       }
@@ -433,7 +799,19 @@ export function ChatSheet({
     jobStatus === "open" && 
     currentViewingWorkerId && 
     !assignedWorkerId &&
-    activeConversationId;
+    activeConversationId &&
+    currentApplicant?.status !== "rejected";
+
+  // Shortlist / reject controls for the applicant being viewed
+  const canReview = isOwner &&
+    jobStatus === "open" &&
+    activeConversationId &&
+    (currentApplicant?.status === "pending" || currentApplicant?.status === "shortlisted");
+
+  const canWithdraw = !isOwner &&
+    jobStatus === "open" &&
+    activeConversationId &&
+    (myApplicationStatus === "pending" || myApplicationStatus === "shortlisted");
 
   if (!job) return null;
 
@@ -466,7 +844,7 @@ export function ChatSheet({
                 <SheetTitle className="text-lg font-semibold text-zinc-900 dark:text-white truncate tracking-tight">
                   {activeConversationId 
                     ? `${isOwner ? (currentViewingWorkerName || extractRegNumber(otherUserEmail)) : job.studentName}` 
-                    : job.title}
+                    : toPreview(job.title, 60)}
                 </SheetTitle>
                 {activeConversationId && jobStatus !== "open" && assignedWorkerId && assignedWorkerId === currentViewingWorkerId && (
                   <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-400 text-[10px] font-bold border border-emerald-200 dark:border-emerald-500/30">
@@ -478,27 +856,95 @@ export function ChatSheet({
               {!activeConversationId ? (
                 <p className="text-sm text-zinc-500 dark:text-zinc-400 mt-0.5">
                   Posted by {job.studentName}
+                  {" · "}
+                  <Link href={`/jobs/${job.id}`} onClick={onClose} className="font-medium hover:text-zinc-900 dark:hover:text-white hover:underline">
+                    Task page
+                  </Link>
                 </p>
               ) : (
                 <div className="flex items-center gap-2 mt-0.5">
+                  {/* Other side: typing, online, or when they were last around */}
+                  {(otherTyping || isOtherOnline || otherLastSeen) && (
+                    <>
+                      <span className={`inline-flex items-center gap-1 text-xs font-medium shrink-0 ${
+                        otherTyping || isOtherOnline ? "text-emerald-600 dark:text-emerald-400" : "text-zinc-500 dark:text-zinc-400"
+                      }`}>
+                        {isOtherOnline && !otherTyping && <span className="h-1.5 w-1.5 rounded-full bg-emerald-500" />}
+                        {otherTyping ? "typing…" : isOtherOnline ? "Online" : formatLastSeen(otherLastSeen)}
+                      </span>
+                      <span className="text-zinc-300 dark:text-zinc-600">•</span>
+                    </>
+                  )}
                   <span className={`inline-flex items-center gap-1 text-xs font-medium ${
                     jobStatus === "open" 
                       ? "text-emerald-600 dark:text-emerald-400" 
                       : jobStatus === "in_progress"
                         ? "text-blue-600 dark:text-blue-400"
-                        : "text-zinc-500"
+                        : jobStatus === "pending_review"
+                          ? "text-sky-600 dark:text-sky-400"
+                          : "text-zinc-500"
                   }`}>
                     {jobStatus === "open" && <CircleDot className="h-3 w-3" />}
                     {jobStatus === "in_progress" && <Loader2 className="h-3 w-3 animate-spin" />}
                     {jobStatus === "completed" && <CheckCircle2 className="h-3 w-3" />}
-                    {jobStatus === "open" ? "Open" : jobStatus === "in_progress" ? "In Progress" : jobStatus === "completed" ? "Completed" : "Cancelled"}
+                    {jobStatus === "open" ? "Open" : jobStatus === "in_progress" ? "In Progress" : jobStatus === "pending_review" ? "In Review" : jobStatus === "completed" ? "Completed" : "Cancelled"}
                   </span>
                   <span className="text-zinc-300 dark:text-zinc-600">•</span>
-                  <span className="text-xs text-zinc-500 dark:text-zinc-400">{job.title}</span>
+                  <span className="text-xs text-zinc-500 dark:text-zinc-400 truncate">{toPreview(job.title, 40)}</span>
                 </div>
               )}
             </div>
             
+            {/* Shortlist / Reject - owner reviewing an applicant */}
+            {canReview && currentApplicant && (
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={currentApplicant.status === "shortlisted" ? "Remove from shortlist" : "Shortlist"}
+                  onClick={() => handleReviewApplicant(currentApplicant.status === "shortlisted" ? "pending" : "shortlisted")}
+                  disabled={isPending}
+                  className={`h-8 w-8 rounded-full ${
+                    currentApplicant.status === "shortlisted"
+                      ? "text-sky-600 bg-sky-50 dark:bg-sky-500/15 dark:text-sky-400"
+                      : "text-zinc-500"
+                  }`}
+                >
+                  <Bookmark className={`h-4 w-4 ${currentApplicant.status === "shortlisted" ? "fill-current" : ""}`} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Decline applicant"
+                  onClick={() => handleReviewApplicant("rejected")}
+                  disabled={isPending}
+                  className="h-8 w-8 rounded-full text-zinc-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-500/10"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {/* Withdraw - worker pulling their application */}
+            {canWithdraw && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleWithdraw}
+                disabled={isPending}
+                className="rounded-full h-8 px-3 text-xs font-semibold text-zinc-500"
+              >
+                {isPending ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <>
+                    <Undo2 className="h-3 w-3 mr-1" />
+                    Withdraw
+                  </>
+                )}
+              </Button>
+            )}
+
             {/* Assign Worker Button - Only for owner in open jobs viewing an unassigned applicant */}
             <AnimatePresence mode="wait">
               {canAssign ? (
@@ -583,12 +1029,14 @@ export function ChatSheet({
                     <div className="absolute inset-0 bg-gradient-to-br from-emerald-500/5 to-transparent" />
                     <div className="relative flex items-center gap-4 p-4">
                       <div className="relative">
-                        <Avatar className="h-14 w-14 rounded-2xl ring-2 ring-white dark:ring-zinc-700 shadow-xl">
-                          <AvatarImage src={job.avatarUrl} className="rounded-2xl" />
-                          <AvatarFallback className="rounded-2xl bg-gradient-to-br from-emerald-400 to-teal-500 text-white font-bold text-lg">
-                            {job.studentName.slice(0, 2)}
-                          </AvatarFallback>
-                        </Avatar>
+                        <ProfileLink userId={job.userId} onNavigate={onClose} className="block rounded-2xl">
+                          <Avatar className="h-14 w-14 rounded-2xl ring-2 ring-white dark:ring-zinc-700 shadow-xl">
+                            <AvatarImage src={job.avatarUrl} className="rounded-2xl" />
+                            <AvatarFallback className="rounded-2xl bg-gradient-to-br from-emerald-400 to-teal-500 text-white font-bold text-lg">
+                              {job.studentName.slice(0, 2)}
+                            </AvatarFallback>
+                          </Avatar>
+                        </ProfileLink>
                         {/* Online indicator */}
                         <div className="absolute -bottom-0.5 -right-0.5 w-4 h-4 rounded-full bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center">
                           <div className="w-2.5 h-2.5 rounded-full bg-emerald-500 ring-2 ring-emerald-500/30" />
@@ -596,7 +1044,9 @@ export function ChatSheet({
                       </div>
                       <div className="flex-1 min-w-0">
                         <p className="font-semibold text-zinc-900 dark:text-white text-lg tracking-tight">
-                          {job.studentName}
+                          <ProfileLink userId={job.userId} onNavigate={onClose} className="hover:underline">
+                            {job.studentName}
+                          </ProfileLink>
                         </p>
                         <p className="text-sm text-zinc-500 dark:text-zinc-400">
                           Task Owner
@@ -650,9 +1100,22 @@ export function ChatSheet({
                         <div className="w-1 h-4 rounded-full bg-gradient-to-b from-emerald-400 to-teal-500" />
                         <span className="text-xs font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">About this task</span>
                       </div>
-                      <p className="text-[15px] text-zinc-700 dark:text-zinc-300 leading-relaxed">
-                        {job.description}
-                      </p>
+                      <RichDescription
+                        text={job.description}
+                        className="text-[15px] text-zinc-700 dark:text-zinc-300 leading-relaxed"
+                      />
+                    </motion.div>
+                  )}
+
+                  {/* Status History - only the poster and worker get events back */}
+                  {currentUserId && (
+                    <motion.div
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: 0.25 }}
+                    >
+                      {/* Keyed by status so it refetches after a change made here */}
+                      <JobTimeline key={jobStatus} jobId={job.id} />
                     </motion.div>
                   )}
 
@@ -701,15 +1164,65 @@ export function ChatSheet({
                               <div className="flex items-center gap-2">
                                 <Users className="h-4 w-4 text-emerald-500" />
                                 <span className="text-sm font-semibold text-zinc-900 dark:text-white">
-                                  {applicants.length} Applicant{applicants.length > 1 ? "s" : ""}
+                                  {filteredApplicants.length === applicants.length
+                                    ? `${applicants.length} Applicant${applicants.length > 1 ? "s" : ""}`
+                                    : `${filteredApplicants.length} of ${applicants.length} Applicants`}
                                 </span>
                               </div>
                             </div>
-                            
+
+                            {/* Applicant Filters */}
+                            {applicants.length > 1 && (
+                              <div className="flex flex-wrap items-center gap-2 px-1 mb-3">
+                                {job.category && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setApplicantFilters((f) => ({ ...f, skillMatch: !f.skillMatch }))}
+                                    className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                                      applicantFilters.skillMatch
+                                        ? "bg-violet-600 border-violet-600 text-white"
+                                        : "border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 hover:border-violet-400"
+                                    }`}
+                                  >
+                                    Skilled in {getCategory(job.category).label}
+                                  </button>
+                                )}
+                                <button
+                                  type="button"
+                                  onClick={() => setApplicantFilters((f) => ({ ...f, availableNow: !f.availableNow }))}
+                                  className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                                    applicantFilters.availableNow
+                                      ? "bg-emerald-600 border-emerald-600 text-white"
+                                      : "border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 hover:border-emerald-400"
+                                  }`}
+                                >
+                                  Available now
+                                </button>
+                                {applicantHostels.length > 0 && (
+                                  <select
+                                    value={applicantFilters.hostel}
+                                    onChange={(e) => setApplicantFilters((f) => ({ ...f, hostel: e.target.value }))}
+                                    className="px-2.5 py-1 rounded-full text-xs font-medium border border-zinc-200 dark:border-zinc-700 bg-transparent text-zinc-600 dark:text-zinc-400"
+                                  >
+                                    <option value="">Any hostel</option>
+                                    {applicantHostels.map((hostel) => (
+                                      <option key={hostel} value={hostel}>{hostel}</option>
+                                    ))}
+                                  </select>
+                                )}
+                              </div>
+                            )}
+
                             {/* Applicant Cards */}
                             <div className="space-y-2">
-                              {applicants.map((applicant, index) => {
+                              {filteredApplicants.length === 0 && (
+                                <p className="text-center text-sm text-zinc-500 dark:text-zinc-400 py-6">
+                                  No applicants match these filters
+                                </p>
+                              )}
+                              {filteredApplicants.map((applicant, index) => {
                                 const isAssigned = assignedWorkerId === applicant.workerId;
+                                const isRejected = applicant.status === "rejected";
                                 return (
                                   <motion.button
                                     key={applicant.conversationId}
@@ -728,17 +1241,25 @@ export function ChatSheet({
                                       isAssigned 
                                         ? "bg-emerald-50 dark:bg-emerald-500/10 hover:bg-emerald-100 dark:hover:bg-emerald-500/15 border border-emerald-200 dark:border-emerald-500/20"
                                         : "bg-zinc-100/80 dark:bg-zinc-800/50 hover:bg-zinc-200/80 dark:hover:bg-zinc-800"
-                                    }`}
+                                    } ${isRejected ? "opacity-60" : ""}`}
                                   >
-                                    <Avatar className="h-11 w-11 rounded-xl ring-2 ring-white dark:ring-zinc-700 shadow-md">
-                                      <AvatarImage 
-                                        src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${applicant.workerId}`} 
-                                        className="rounded-xl"
-                                      />
-                                      <AvatarFallback className="rounded-xl bg-gradient-to-br from-violet-400 to-purple-500 text-white font-bold text-sm">
-                                        {extractRegNumber(applicant.workerEmail).slice(0, 2)}
-                                      </AvatarFallback>
-                                    </Avatar>
+                                    <ProfileLink userId={applicant.workerId} onNavigate={onClose} nested className="relative rounded-xl shrink-0">
+                                      {onlineUserIds.has(applicant.workerId) && (
+                                        <span
+                                          title="Online now"
+                                          className="absolute -bottom-0.5 -right-0.5 z-10 h-3.5 w-3.5 rounded-full bg-emerald-500 ring-2 ring-white dark:ring-zinc-900"
+                                        />
+                                      )}
+                                      <Avatar className="h-11 w-11 rounded-xl ring-2 ring-white dark:ring-zinc-700 shadow-md">
+                                        <AvatarImage 
+                                          src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${applicant.workerId}`} 
+                                          className="rounded-xl"
+                                        />
+                                        <AvatarFallback className="rounded-xl bg-gradient-to-br from-violet-400 to-purple-500 text-white font-bold text-sm">
+                                          {extractRegNumber(applicant.workerEmail).slice(0, 2)}
+                                        </AvatarFallback>
+                                      </Avatar>
+                                    </ProfileLink>
                                     <div className="flex-1 min-w-0">
                                       <div className="flex items-center gap-2">
                                         <p className="font-semibold text-zinc-900 dark:text-white">
@@ -750,11 +1271,78 @@ export function ChatSheet({
                                             Assigned
                                           </span>
                                         )}
+                                        {applicant.status === "shortlisted" && (
+                                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-sky-100 text-sky-700 dark:bg-sky-500/20 dark:text-sky-400 text-[10px] font-bold">
+                                            <Bookmark className="h-2.5 w-2.5" />
+                                            Shortlisted
+                                          </span>
+                                        )}
+                                        {isRejected && (
+                                          <span className="px-2 py-0.5 rounded-full bg-zinc-200 text-zinc-600 dark:bg-zinc-700 dark:text-zinc-400 text-[10px] font-bold">
+                                            Declined
+                                          </span>
+                                        )}
+                                        {applicant.offerPrice && !isAssigned && !isRejected && (
+                                          <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold ${
+                                            applicant.offerStatus === "countered"
+                                              ? "bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-400"
+                                              : "bg-violet-100 text-violet-700 dark:bg-violet-500/20 dark:text-violet-400"
+                                          }`}>
+                                            <HandCoins className="h-2.5 w-2.5" />
+                                            Rs. {applicant.offerPrice.toLocaleString()}
+                                          </span>
+                                        )}
                                       </div>
-                                      <p className="text-sm text-zinc-500 dark:text-zinc-400 truncate">
-                                        {applicant.lastMessage || "Tap to start chatting"}
+                                      {(applicant.workerHostel || applicant.workerDepartment || applicant.workerBatch || applicant.workerSkills.length > 0 || applicant.workerAvailability.length > 0) && (
+                                        <div className="flex flex-wrap items-center gap-x-2.5 gap-y-1 mt-0.5 text-[11px] text-zinc-500 dark:text-zinc-400">
+                                          {isAvailableAt(applicant.workerAvailability) && (
+                                            <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400 font-medium">
+                                              <span className="h-1.5 w-1.5 rounded-full bg-emerald-500" />
+                                              Available now
+                                            </span>
+                                          )}
+                                          {applicant.workerHostel && (
+                                            <span className="flex items-center gap-1">
+                                              <Home className="h-3 w-3" />
+                                              {applicant.workerHostel}
+                                            </span>
+                                          )}
+                                          {(applicant.workerDepartment || applicant.workerBatch) && (
+                                            <span
+                                              className="flex items-center gap-1"
+                                              title={getDepartmentLabel(applicant.workerDepartment) ?? undefined}
+                                            >
+                                              <GraduationCap className="h-3 w-3" />
+                                              {[applicant.workerDepartment, applicant.workerBatch].filter(Boolean).join(" ")}
+                                            </span>
+                                          )}
+                                          {applicant.workerSkills.slice(0, 3).map((slug) => (
+                                            <span
+                                              key={slug}
+                                              className={`px-1.5 py-0.5 rounded-md ${
+                                                slug === job.category
+                                                  ? "bg-violet-100 text-violet-700 dark:bg-violet-500/20 dark:text-violet-300"
+                                                  : "bg-zinc-200/70 dark:bg-zinc-700/60"
+                                              }`}
+                                            >
+                                              {getCategory(slug).label}
+                                            </span>
+                                          ))}
+                                        </div>
+                                      )}
+                                      <p className={`text-sm truncate ${
+                                        applicant.unreadCount > 0
+                                          ? "text-zinc-900 dark:text-white font-medium"
+                                          : "text-zinc-500 dark:text-zinc-400"
+                                      }`}>
+                                        {applicant.lastMessage || applicant.coverNote || applicant.workerBio || "Tap to start chatting"}
                                       </p>
                                     </div>
+                                    {applicant.unreadCount > 0 && (
+                                      <span className="flex items-center justify-center min-w-[20px] h-5 px-1.5 rounded-full bg-emerald-500 text-white text-[11px] font-bold">
+                                        {applicant.unreadCount > 99 ? "99+" : applicant.unreadCount}
+                                      </span>
+                                    )}
                                     <ChevronRight className="h-5 w-5 text-zinc-300 dark:text-zinc-600 group-hover:text-zinc-400 dark:group-hover:text-zinc-500 transition-colors" />
                                   </motion.button>
                                 );
@@ -771,11 +1359,31 @@ export function ChatSheet({
                         transition={{ delay: 0.35 }}
                         className="pt-2"
                       >
+                        {/* Cover note - shown once the worker taps Apply */}
+                        <AnimatePresence>
+                          {showApplyForm && (
+                            <motion.div
+                              initial={{ opacity: 0, height: 0 }}
+                              animate={{ opacity: 1, height: "auto" }}
+                              exit={{ opacity: 0, height: 0 }}
+                              className="overflow-hidden"
+                            >
+                              <Textarea
+                                value={coverNote}
+                                onChange={(e) => setCoverNote(e.target.value)}
+                                placeholder="Introduce yourself - why are you a good fit? (optional)"
+                                maxLength={500}
+                                rows={3}
+                                className="mb-3 rounded-2xl bg-white dark:bg-zinc-900 resize-none"
+                              />
+                            </motion.div>
+                          )}
+                        </AnimatePresence>
                         <motion.button
                           whileHover={{ scale: 1.02 }}
                           whileTap={{ scale: 0.98 }}
-                          onClick={handleStartChat}
-                          disabled={isLoading}
+                          onClick={showApplyForm ? handleApply : () => setShowApplyForm(true)}
+                          disabled={isLoading || myApplicationStatus === "rejected" || jobStatus !== "open"}
                           className="w-full h-14 rounded-full bg-emerald-500 hover:bg-emerald-400 text-white font-bold text-base shadow-xl shadow-emerald-500/30 flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
                         >
                           {isLoading ? (
@@ -783,12 +1391,21 @@ export function ChatSheet({
                           ) : (
                             <>
                               <MessageCircle className="h-5 w-5" />
-                              Apply for this Task
+                              {showApplyForm
+                                ? "Send Application"
+                                : myApplicationStatus === "withdrawn"
+                                  ? "Apply Again"
+                                  : "Apply for this Task"}
                             </>
                           )}
                         </motion.button>
-                        <p className="text-center text-xs text-zinc-400 dark:text-zinc-500 mt-3">
-                          Start a conversation with the owner
+                        <p className={`text-center text-xs mt-3 ${applyError ? "text-red-500" : "text-zinc-400 dark:text-zinc-500"}`}>
+                          {applyError
+                            || (myApplicationStatus === "rejected"
+                              ? "The owner has declined your application"
+                              : jobStatus !== "open"
+                                ? "This task is no longer accepting applicants"
+                                : "Chat with the owner and make an offer")}
                         </p>
                       </motion.div>
                     )}
@@ -804,9 +1421,25 @@ export function ChatSheet({
                 exit={{ opacity: 0, x: 20 }}
                 className="flex-1 flex flex-col overflow-hidden relative"
               >
+                {/* Offer bar - worker bids, owner accepts / counters */}
+                {(isOwner ? currentViewingWorkerId : currentUserId) && (isOwner || myApplicationStatus !== "rejected") && (
+                  <OfferPanel
+                    jobId={job.id}
+                    jobPrice={job.price}
+                    jobStatus={jobStatus}
+                    workerId={(isOwner ? currentViewingWorkerId : currentUserId)!}
+                    isOwner={isOwner}
+                    onAccepted={(workerId) => {
+                      setJobStatus("in_progress");
+                      setAssignedWorkerId(workerId);
+                      markHired(workerId);
+                    }}
+                  />
+                )}
                 {/* Messages Container with Mesh Gradient Background */}
                 <div 
                   ref={messagesContainerRef}
+                  onScroll={handleMessagesScroll}
                   className="flex-1 overflow-y-auto px-4 pt-4 pb-28 scrollbar-premium"
                   style={{
                     background: 'radial-gradient(ellipse at top, rgba(16, 185, 129, 0.03) 0%, transparent 50%), radial-gradient(ellipse at bottom right, rgba(20, 184, 166, 0.03) 0%, transparent 50%)'
@@ -836,71 +1469,39 @@ export function ChatSheet({
                     </div>
                   ) : (
                     <div className="space-y-3">
+                      {isLoadingOlder && (
+                        <div className="flex justify-center py-2">
+                          <Loader2 className="h-4 w-4 animate-spin text-zinc-400" />
+                        </div>
+                      )}
                       {messages.map((message, index) => {
                         const isMe = message.senderId === currentUserId;
-                        const showAvatar = index === 0 || 
-                          messages[index - 1].senderId !== message.senderId;
+                        // Event chips break up a run of bubbles from the same sender
+                        const showAvatar = index === 0 ||
+                          messages[index - 1].senderId !== message.senderId ||
+                          messages[index - 1].messageType !== "user";
                         const isLastInGroup = index === messages.length - 1 ||
-                          messages[index + 1]?.senderId !== message.senderId;
-                        
-                        // Detect system notification messages
-                        const isSystemMessage = 
-                          message.content.startsWith("You've been selected for") ||
-                          message.content.startsWith("Task completed.") ||
-                          message.content.startsWith("This task has been cancelled.");
+                          messages[index + 1].senderId !== message.senderId ||
+                          messages[index + 1].messageType !== "user";
                         
-                        // Render system messages as centered cards
-                        if (isSystemMessage) {
+                        // Status changes, offers and notices render as centered chips
+                        if (message.messageType !== "user") {
                           return (
                             <motion.div
                               key={message.id}
                               initial={{ opacity: 0, y: 10, scale: 0.95 }}
                               animate={{ opacity: 1, y: 0, scale: 1 }}
                               transition={{ duration: 0.3, ease: "easeOut" }}
-                              className="flex justify-center my-4"
                             >
-                              <div className="relative max-w-[85%]">
-                                {/* Subtle glow effect */}
-                                <div className="absolute inset-0 bg-gradient-to-r from-emerald-500/10 via-blue-500/10 to-violet-500/10 rounded-2xl blur-xl" />
-                                
-                                {/* Card */}
-                                <div className="relative px-5 py-4 rounded-2xl bg-white/80 dark:bg-zinc-800/80 backdrop-blur-xl border border-zinc-200/50 dark:border-zinc-700/50 shadow-xl">
-                                  <div className="flex items-start gap-3">
-                                    {/* Icon */}
-                                    <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
-                                      message.content.startsWith("You've been selected") 
-                                        ? "bg-emerald-100 dark:bg-emerald-500/20" 
-                                        : message.content.startsWith("Task completed")
-                                          ? "bg-blue-100 dark:bg-blue-500/20"
-                                          : "bg-zinc-100 dark:bg-zinc-700"
-                                    }`}>
-                                      {message.content.startsWith("You've been selected") && (
-                                        <CheckCircle2 className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
-                                      )}
-                                      {message.content.startsWith("Task completed") && (
-                                        <CheckCircle2 className="h-4 w-4 text-blue-600 dark:text-blue-400" />
-                                      )}
-                                      {message.content.startsWith("This task has been cancelled") && (
-                                        <CircleDot className="h-4 w-4 text-zinc-500" />
-                                      )}
-                                    </div>
-                                    
-                                    {/* Content */}
-                                    <div className="flex-1 min-w-0">
-                                      <p className="text-[13px] font-medium text-zinc-900 dark:text-white leading-snug">
-                                        {message.content}
-                                      </p>
-                                      <p className="text-[11px] text-zinc-400 dark:text-zinc-500 mt-1">
-                                        {formatMessageTime(message.createdAt)}
-                                      </p>
-                                    </div>
-                                  </div>
-                                </div>
-                              </div>
+                              <ChatEventChip
+                                message={message}
+                                isMe={isMe}
+                                time={formatMessageTime(message.createdAt)}
+                              />
                             </motion.div>
                           );
                         }
-                        
+
                         return (
                           <motion.div
                             key={message.id}
@@ -913,14 +1514,16 @@ export function ChatSheet({
                               {/* Avatar for their messages */}
                               {!isMe && (
                                 showAvatar ? (
-                                  <Avatar className="h-8 w-8 border-2 border-white dark:border-zinc-800 shadow-md">
-                                    <AvatarImage 
-                                      src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${message.senderId}`} 
-                                    />
-                                    <AvatarFallback className="text-xs bg-gradient-to-br from-zinc-200 to-zinc-300 dark:from-zinc-700 dark:to-zinc-600">
-                                      {extractRegNumber(message.senderEmail).slice(0, 2)}
-                                    </AvatarFallback>
-                                  </Avatar>
+                                  <ProfileLink userId={message.senderId} onNavigate={onClose}>
+                                    <Avatar className="h-8 w-8 border-2 border-white dark:border-zinc-800 shadow-md">
+                                      <AvatarImage 
+                                        src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${message.senderId}`} 
+                                      />
+                                      <AvatarFallback className="text-xs bg-gradient-to-br from-zinc-200 to-zinc-300 dark:from-zinc-700 dark:to-zinc-600">
+                                        {extractRegNumber(message.senderEmail).slice(0, 2)}
+                                      </AvatarFallback>
+                                    </Avatar>
+                                  </ProfileLink>
                                 ) : (
                                   <div className="w-8" />
                                 )
@@ -935,12 +1538,28 @@ export function ChatSheet({
                                       : "bg-white dark:bg-zinc-800/50 border border-zinc-200 dark:border-zinc-700 text-zinc-900 dark:text-zinc-100 rounded-2xl rounded-tl-sm shadow-lg shadow-zinc-200/50 dark:shadow-zinc-950/50"
                                   }`}
                                 >
-                                  <p className="text-[15px] leading-relaxed">{message.content}</p>
+                                  {message.attachments.length > 0 && (
+                                    <MessageAttachments
+                                      attachments={message.attachments}
+                                      isMe={isMe}
+                                      onOpenImage={setLightboxAttachment}
+                                    />
+                                  )}
+                                  {/* Captionless attachments carry a placeholder for previews; don't repeat it */}
+                                  {!(message.attachments.length > 0 &&
+                                    message.content === getAttachmentLabel(message.attachments[0].fileName, message.attachments[0].mimeType)) && (
+                                    <p className={`text-[15px] leading-relaxed ${message.attachments.length > 0 ? "mt-2" : ""}`}>{message.content}</p>
+                                  )}
                                 </div>
                                 {/* Timestamp for last message in group */}
                                 {isLastInGroup && (
                                   <p className={`text-[10px] text-zinc-400 dark:text-zinc-500 px-1 ${isMe ? 'text-right' : 'text-left'}`}>
                                     {formatMessageTime(message.createdAt)}
+                                    {message.id === lastOwnMessage?.id && (
+                                      <span className={message.isRead ? "text-emerald-600 dark:text-emerald-400 font-medium" : ""}>
+                                        {message.isRead ? " · Seen" : " · Sent"}
+                                      </span>
+                                    )}
                                   </p>
                                 )}
                               </div>
@@ -948,6 +1567,24 @@ export function ChatSheet({
                           </motion.div>
                         );
                       })}
+                      {/* Typing bubble */}
+                      {otherTyping && (
+                        <motion.div
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          className="flex justify-start pl-10"
+                        >
+                          <div className="flex items-center gap-1 px-4 py-3 rounded-2xl rounded-tl-sm bg-white dark:bg-zinc-800/50 border border-zinc-200 dark:border-zinc-700">
+                            {[0, 1, 2].map((dot) => (
+                              <span
+                                key={dot}
+                                className="h-1.5 w-1.5 rounded-full bg-zinc-400 animate-bounce"
+                                style={{ animationDelay: `${dot * 150}ms` }}
+                              />
+                            ))}
+                          </div>
+                        </motion.div>
+                      )}
                       <div ref={messagesEndRef} className="h-1" />
                     </div>
                   )}
@@ -955,16 +1592,74 @@ export function ChatSheet({
 
                 {/* Floating Dock Input */}
                 <div className="absolute bottom-0 left-0 right-0 px-4 pb-6 pt-2 bg-gradient-to-t from-zinc-50 dark:from-zinc-950 via-zinc-50/80 dark:via-zinc-950/80 to-transparent">
+                  {/* Pending attachment */}
+                  {pendingFile && (
+                    <div className="flex items-center gap-3 mb-2 p-2 pr-3 rounded-2xl bg-white dark:bg-zinc-900 border border-zinc-200/50 dark:border-zinc-800/50 shadow-lg">
+                      {pendingPreviewUrl ? (
+                        <Image
+                          src={pendingPreviewUrl}
+                          alt={pendingFile.name}
+                          width={48}
+                          height={48}
+                          unoptimized
+                          className="h-12 w-12 rounded-xl object-cover"
+                        />
+                      ) : (
+                        <div className="flex items-center justify-center h-12 w-12 rounded-xl bg-zinc-100 dark:bg-zinc-800">
+                          <FileText className="h-5 w-5 text-zinc-500" />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-zinc-900 dark:text-white truncate">{pendingFile.name}</p>
+                        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                          {formatFileSize(pendingFile.size)} · add a caption or send
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Remove attachment"
+                        onClick={() => setPendingFile(null)}
+                        disabled={isSending}
+                        className="h-8 w-8 rounded-full text-zinc-500"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                  {attachmentError && (
+                    <p className="mb-2 px-3 text-sm text-red-500 dark:text-red-400">{attachmentError}</p>
+                  )}
                   <motion.div 
                     initial={{ y: 20, opacity: 0 }}
                     animate={{ y: 0, opacity: 1 }}
-                    className="flex items-center gap-2 p-2 pl-5 rounded-full bg-white dark:bg-zinc-900 shadow-xl shadow-zinc-300/50 dark:shadow-zinc-950/50 border border-zinc-200/50 dark:border-zinc-800/50"
+                    className="flex items-center gap-2 p-2 pl-3 rounded-full bg-white dark:bg-zinc-900 shadow-xl shadow-zinc-300/50 dark:shadow-zinc-950/50 border border-zinc-200/50 dark:border-zinc-800/50"
                   >
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept={ATTACHMENT_ACCEPTED_TYPES.join(",")}
+                      onChange={handleFileSelected}
+                      className="hidden"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Attach a photo or PDF"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={isSending}
+                      className="h-9 w-9 rounded-full text-zinc-500 hover:text-zinc-900 dark:hover:text-white shrink-0"
+                    >
+                      <Paperclip className="h-4 w-4" />
+                    </Button>
                     <Input
                       value={newMessage}
-                      onChange={(e) => setNewMessage(e.target.value)}
+                      onChange={(e) => {
+                        setNewMessage(e.target.value);
+                        broadcastTyping(e.target.value.length > 0);
+                      }}
                       onKeyDown={handleKeyPress}
-                      placeholder="Type a message..."
+                      placeholder={pendingFile ? "Add a caption..." : "Type a message..."}
                       className="flex-1 h-10 border-0 bg-transparent focus-visible:ring-0 focus-visible:ring-offset-0 placeholder:text-zinc-400 dark:placeholder:text-zinc-500 text-zinc-900 dark:text-white"
                       disabled={isSending}
                     />
@@ -974,7 +1669,7 @@ export function ChatSheet({
                     >
                       <Button
                         onClick={handleSendMessage}
-                        disabled={!newMessage.trim() || isSending}
+                        disabled={(!newMessage.trim() && !pendingFile) || isSending}
                         size="icon"
                         className="h-10 w-10 rounded-full bg-gradient-to-br from-emerald-500 to-teal-600 hover:from-emerald-600 hover:to-teal-700 text-white shadow-lg shadow-emerald-500/30 disabled:opacity-50 disabled:shadow-none transition-all"
                       >
@@ -991,6 +1686,9 @@ export function ChatSheet({
             )}
           </AnimatePresence>
         </div>
+
+        {/* Inside the sheet so Radix treats it as a nested layer, not an outside click */}
+        <AttachmentLightbox attachment={lightboxAttachment} onClose={() => setLightboxAttachment(null)} />
       </SheetContent>
     </Sheet>
   );
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { openDispute } from "@/app/actions/disputes";
+import { DISPUTE_REASONS, EVIDENCE_MAX_LENGTH, type DisputeReason } from "@/lib/disputes";
+
+interface DisputeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after the dispute is opened, so the page can freeze the job locally
+  onOpened: () => void;
+  jobId: string;
+  jobTitle: string;
+}
+
+export function DisputeDialog({
+  isOpen,
+  onClose,
+  onOpened,
+  jobId,
+  jobTitle,
+}: DisputeDialogProps) {
+  const [reason, setReason] = useState<DisputeReason | "">("");
+  const [evidence, setEvidence] = useState("");
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setReason("");
+    setEvidence("");
+    setError(null);
+  };
+
+  const handleClose = () => {
+    if (!isPending) {
+      onClose();
+      reset();
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!reason) return;
+    setError(null);
+
+    startTransition(async () => {
+      const result = await openDispute(jobId, reason, evidence);
+
+      if (result.success) {
+        onOpened();
+        onClose();
+        reset();
+      } else if (result.error) {
+        setError(result.error);
+      }
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[440px] rounded-3xl border border-zinc-200 dark:border-zinc-800 p-6">
+        <DialogHeader className="mb-2">
+          <div className="w-12 h-12 rounded-2xl bg-red-100 dark:bg-red-500/20 flex items-center justify-center mb-3">
+            <AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" />
+          </div>
+          <DialogTitle className="text-xl font-bold tracking-tight text-zinc-900 dark:text-white">
+            Report a problem
+          </DialogTitle>
+          <DialogDescription className="text-zinc-500 dark:text-zinc-400">
+            A moderator will review &quot;{jobTitle}&quot;. Until then the task is frozen: no status
+            changes, payments or ratings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select value={reason} onValueChange={(value) => setReason(value as DisputeReason)}>
+            <SelectTrigger className="w-full h-11 rounded-xl">
+              <SelectValue placeholder="What went wrong?" />
+            </SelectTrigger>
+            <SelectContent>
+              {DISPUTE_REASONS.map((r) => (
+                <SelectItem key={r.value} value={r.value}>
+                  {r.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div>
+            <Textarea
+              placeholder="Describe what happened. Include anything that helps the moderator: times, amounts, what was agreed in chat..."
+              value={evidence}
+              onChange={(e) => setEvidence(e.target.value)}
+              className="min-h-[120px] rounded-xl border-zinc-200 dark:border-zinc-800 resize-none"
+              maxLength={EVIDENCE_MAX_LENGTH}
+            />
+            <p className="text-xs text-zinc-400 mt-2 text-right">
+              {evidence.length}/{EVIDENCE_MAX_LENGTH}
+            </p>
+          </div>
+
+          <AnimatePresence>
+            {error && (
+              <motion.p
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0 }}
+                className="text-center text-sm text-red-500 dark:text-red-400"
+              >
+                {error}
+              </motion.p>
+            )}
+          </AnimatePresence>
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              disabled={isPending}
+              className="flex-1 rounded-xl h-11 font-medium"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={!reason || isPending}
+              className="flex-1 rounded-xl h-11 font-semibold bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+            >
+              {isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Opening...
+                </>
+              ) : (
+                "Open Dispute"
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
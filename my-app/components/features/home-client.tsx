@@ -1,8 +1,9 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
-import { Plus, Search, Utensils, BookOpen, Laptop, Car, ClipboardList, ShoppingCart, GraduationCap, Shirt, Printer, Package } from "lucide-react";
+import { Plus, Search, ClipboardList } from "lucide-react";
 import { JobCard, JobCardSkeleton } from "@/components/features/job-card";
 import { SmartPricingForm } from "@/components/features/smart-pricing-form";
 import { ChatSheet } from "@/components/features/chat-sheet";
@@ -22,44 +23,37 @@ import {
   SearchFilterBar, 
   FilterState, 
   countActiveFilters, 
-  filterJobs 
 } from "@/components/features/search-filter-bar";
+import {
+  FEED_PAGE_SIZE,
+  defaultFilters,
+  parseFilterParams,
+  serializeFilters,
+  type FeedJob,
+  type FeedPage,
+} from "@/lib/job-search";
+import { useJobs } from "@/lib/hooks/use-data";
+import { getCategory } from "@/lib/categories";
 
 // Create a single instance outside the component to prevent re-creation
 const supabase = createClient();
 
-// Job type from database
-type JobStatus = "open" | "in_progress" | "completed" | "cancelled";
-
-interface Job {
-  id: string;
-  title: string;
-  description?: string;
-  price: number;
-  urgency: string;
-  location: string;
-  category?: string;
-  status?: JobStatus;
-  assignedTo?: string | null;
-  userId: string;
-  studentName: string;
-  avatarUrl: string;
-  timeAgo: string;
-  createdAt?: string | null;
-}
+type Job = FeedJob;
 
 interface HomeClientProps {
-  jobs: Job[];
+  initialFilters: FilterState;
+  initialPage: FeedPage;
 }
 
-// Bento Category Data - Vibrant colors like Spotify
+// Wait for the user to stop typing before querying search_jobs
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Bento Category Data - Vibrant colors like Spotify (label, slug and icon from the registry)
 const categories = [
   {
-    title: "Food Delivery",
+    ...getCategory("food-delivery"),
     description: "Get meals delivered to your hostel",
     emoji: "🍔",
-    icon: Utensils,
-    filterValue: "food-delivery",
     span: "col-span-2 row-span-2",
     iconColor: "text-orange-500",
     iconBg: "bg-orange-500/20",
@@ -68,11 +62,9 @@ const categories = [
     hoverBorder: "hover:border-orange-400/50",
   },
   {
-    title: "Assignments",
+    ...getCategory("assignments"),
     description: "Academic help when you need it",
     emoji: "📚",
-    icon: BookOpen,
-    filterValue: "assignments",
     span: "col-span-2 row-span-1",
     iconColor: "text-blue-500",
     iconBg: "bg-blue-500/20",
@@ -81,11 +73,9 @@ const categories = [
     hoverBorder: "hover:border-blue-400/50",
   },
   {
-    title: "Tech Support",
+    ...getCategory("tech-support"),
     description: "Fix your devices",
     emoji: "💻",
-    icon: Laptop,
-    filterValue: "tech-support",
     span: "col-span-1 row-span-1",
     iconColor: "text-purple-500",
     iconBg: "bg-purple-500/20",
@@ -94,11 +84,9 @@ const categories = [
     hoverBorder: "hover:border-purple-400/50",
   },
   {
-    title: "Ride Share",
+    ...getCategory("ride-share"),
     description: "Split travel costs",
     emoji: "🚗",
-    icon: Car,
-    filterValue: "ride-share",
     span: "col-span-1 row-span-1",
     iconColor: "text-emerald-500",
     iconBg: "bg-emerald-500/20",
@@ -108,24 +96,40 @@ const categories = [
   },
 ];
 
-// Default filter state
-const defaultFilters: FilterState = {
-  search: "",
-  category: "",
-  urgency: "",
-  location: "",
-  minPrice: 0,
-  maxPrice: 10000,
-  sortBy: "newest",
-};
-
-export function HomeClient({ jobs }: HomeClientProps) {
+export function HomeClient({ initialFilters, initialPage }: HomeClientProps) {
   const [headerDialogOpen, setHeaderDialogOpen] = useState(false);
   const [heroDialogOpen, setHeroDialogOpen] = useState(false);
   const [mounted, setMounted] = useState(false);
   
-  // Filter state
-  const [filters, setFilters] = useState<FilterState>(defaultFilters);
+  // Filter state - seeded from the query string parsed on the server
+  const [filters, setFilters] = useState<FilterState>(initialFilters);
+
+  const router = useRouter();
+
+  // Keep filters in sync with the URL on back/forward navigation
+  const searchParams = useSearchParams();
+  const searchParamsKey = searchParams.toString();
+  const [syncedParamsKey, setSyncedParamsKey] = useState(searchParamsKey);
+  if (searchParamsKey !== syncedParamsKey) {
+    setSyncedParamsKey(searchParamsKey);
+    setFilters(parseFilterParams(searchParams));
+  }
+
+  // Update filters and mirror them into the query string so the view can be shared.
+  // Typing in search replaces the history entry instead of adding one per keystroke.
+  const updateFilters = useCallback((next: FilterState) => {
+    const query = serializeFilters(next);
+    const url = query ? `${window.location.pathname}?${query}` : window.location.pathname;
+    const onlySearchChanged =
+      serializeFilters({ ...filters, search: "" }) === serializeFilters({ ...next, search: "" });
+
+    if (onlySearchChanged) {
+      window.history.replaceState(null, "", url);
+    } else {
+      window.history.pushState(null, "", url);
+    }
+    setFilters(next);
+  }, [filters]);
   
   // Chat sheet state
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
@@ -133,17 +137,50 @@ export function HomeClient({ jobs }: HomeClientProps) {
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [currentUserEmail, setCurrentUserEmail] = useState<string | null>(null);
 
-  // Filter jobs using the filterJobs utility
-  const filteredJobs = useMemo(() => {
-    return filterJobs(jobs, filters);
-  }, [jobs, filters]);
+  // Debounced copy of the search text so typing doesn't fire a query per keystroke
+  const [debouncedSearch, setDebouncedSearch] = useState(filters.search);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(filters.search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters.search]);
+
+  const queryFilters = useMemo(
+    () => ({ ...filters, search: debouncedSearch }),
+    [filters, debouncedSearch]
+  );
+
+  // Server-side search with infinite scroll
+  const { jobs, total, hasMore, isLoadingMore, setSize } = useJobs(queryFilters, {
+    filters: initialFilters,
+    page: initialPage,
+  });
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isLoadingMore) {
+          setSize((size) => size + 1);
+        }
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, setSize]);
   
   // Handle category click from bento grid
   const handleCategoryClick = (filterValue: string) => {
-    setFilters(prev => ({
-      ...prev,
-      category: prev.category === filterValue ? "" : filterValue,
-    }));
+    updateFilters({
+      ...filters,
+      category: filters.category === filterValue ? "" : filterValue,
+    });
   };
 
   // Prevent hydration mismatch with Radix UI dialogs
@@ -179,8 +216,7 @@ export function HomeClient({ jobs }: HomeClientProps) {
   };
 
   // Handle opening chat from notification
-  const handleOpenChatFromNotification = useCallback(async (jobId: string, conversationId: string) => {
-    // Find the job in our list or fetch it
+  const handleOpenChatFromNotification = useCallback((jobId: string) => {
     const job = jobs.find(j => j.id === jobId);
     if (job) {
       setSelectedJob({
@@ -189,34 +225,10 @@ export function HomeClient({ jobs }: HomeClientProps) {
       });
       setChatSheetOpen(true);
     } else {
-      // Fetch job from database if not in current list
-      const { data: jobData } = await supabase
-        .from("jobs")
-        .select("*, profiles!jobs_user_id_fkey(email)")
-        .eq("id", jobId)
-        .maybeSingle();
-      
-      if (jobData) {
-        const email = jobData.profiles?.email || "";
-        const regMatch = email.match(/[a-z]?(\d+)@/i);
-        const regNumber = regMatch ? regMatch[1] : "User";
-        
-        setSelectedJob({
-          id: jobData.id,
-          title: jobData.title,
-          description: jobData.description || "",
-          price: jobData.price,
-          urgency: jobData.urgency,
-          location: jobData.location,
-          userId: jobData.user_id,
-          studentName: regNumber,
-          avatarUrl: `https://api.dicebear.com/7.x/avataaars/svg?seed=${jobData.user_id}`,
-          timeAgo: "Just now",
-        });
-        setChatSheetOpen(true);
-      }
+      // Not in the loaded feed (filtered out, or no longer open): go to its page
+      router.push(`/jobs/${jobId}`);
     }
-  }, [jobs]);
+  }, [jobs, router]);
 
   return (
     <div className="relative min-h-screen">
@@ -229,6 +241,7 @@ export function HomeClient({ jobs }: HomeClientProps) {
           price: selectedJob.price,
           urgency: selectedJob.urgency,
           location: selectedJob.location,
+          category: selectedJob.category,
           userId: selectedJob.userId,
           studentName: selectedJob.studentName,
           avatarUrl: selectedJob.avatarUrl,
@@ -329,7 +342,7 @@ export function HomeClient({ jobs }: HomeClientProps) {
             {mounted ? (
               <SearchFilterBar 
                 filters={filters} 
-                onFiltersChange={setFilters}
+                onFiltersChange={updateFilters}
               />
             ) : (
               /* Skeleton placeholder to prevent layout shift */
@@ -358,16 +371,16 @@ export function HomeClient({ jobs }: HomeClientProps) {
 
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 auto-rows-[160px]">
             {categories.map((category, index) => {
-              const isSelected = filters.category === category.filterValue;
+              const isSelected = filters.category === category.value;
               return (
                 <motion.div
-                  key={category.title}
+                  key={category.value}
                   initial={{ opacity: 0, y: 20 }}
                   whileInView={{ opacity: 1, y: 0 }}
                   viewport={{ once: true }}
                   transition={{ duration: 0.4, delay: index * 0.1 }}
                   whileHover={{ scale: 1.02, y: -4 }}
-                  onClick={() => handleCategoryClick(category.filterValue)}
+                  onClick={() => handleCategoryClick(category.value)}
                   className={`${category.span} relative rounded-3xl p-6 cursor-pointer overflow-hidden group
                     ${category.cardBg}
                     border-2 ${isSelected ? 'border-emerald-500 ring-2 ring-emerald-500/20' : category.borderColor}
@@ -400,7 +413,7 @@ export function HomeClient({ jobs }: HomeClientProps) {
                       />
                     </div>
                     <h4 className="font-bold tracking-tight text-zinc-900 dark:text-white text-lg">
-                      {category.title}
+                      {category.label}
                     </h4>
                     {category.description && (
                       <p className="text-sm text-zinc-600 dark:text-zinc-300 mt-1">
@@ -436,14 +449,14 @@ export function HomeClient({ jobs }: HomeClientProps) {
             </div>
             {countActiveFilters(filters) > 0 && (
               <span className="text-sm text-zinc-500 dark:text-zinc-400">
-                {filteredJobs.length} of {jobs.length} tasks
+                {total} {total === 1 ? "task" : "tasks"}
               </span>
             )}
           </motion.div>
 
           {/* Jobs Grid */}
           <AnimatePresence mode="wait">
-            {filteredJobs.length > 0 ? (
+            {jobs.length > 0 ? (
               <motion.div 
                 key="jobs-grid"
                 initial={{ opacity: 0 }}
@@ -451,14 +464,15 @@ export function HomeClient({ jobs }: HomeClientProps) {
                 exit={{ opacity: 0 }}
                 className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
               >
-                {filteredJobs.map((job, index) => (
+                {jobs.map((job, index) => (
                   <motion.div
                     key={job.id || `job-${index}`}
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{
                       duration: 0.3,
-                      delay: index * 0.05,
+                      // Stagger within each page, not across the whole feed
+                      delay: (index % FEED_PAGE_SIZE) * 0.05,
                       ease: "easeOut",
                     }}
                   >
@@ -467,9 +481,11 @@ export function HomeClient({ jobs }: HomeClientProps) {
                       description={job.description}
                       price={job.price}
                       urgency={job.urgency}
+                      dueAt={job.dueAt}
                       distance={job.location}
                       avatarUrl={job.avatarUrl}
                       studentName={job.studentName}
+                      userId={job.userId}
                       timeAgo={job.timeAgo}
                       createdAt={job.createdAt ?? undefined}
                       status={job.status}
@@ -502,7 +518,7 @@ export function HomeClient({ jobs }: HomeClientProps) {
                 </p>
                 <Button 
                   variant="outline"
-                  onClick={() => setFilters(defaultFilters)}
+                  onClick={() => updateFilters(defaultFilters)}
                   className="rounded-2xl px-8 h-12 text-base font-medium"
                 >
                   Clear All Filters
@@ -547,6 +563,15 @@ export function HomeClient({ jobs }: HomeClientProps) {
               </motion.div>
             )}
           </AnimatePresence>
+
+          {/* Infinite Scroll - next page loads when this comes into view */}
+          {hasMore && (
+            <div ref={loadMoreRef} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-6">
+              {isLoadingMore && Array.from({ length: 3 }).map((_, i) => (
+                <JobCardSkeleton key={`skeleton-${i}`} />
+              ))}
+            </div>
+          )}
         </div>
       </section>
     </div>
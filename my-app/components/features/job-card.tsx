@@ -9,16 +9,8 @@ import {
   Loader2, 
   CheckCircle2, 
   XCircle,
-  UtensilsCrossed,
-  BookOpen,
-  Monitor,
-  Car,
-  ShoppingBag,
-  GraduationCap,
-  Shirt,
-  Printer,
-  Package,
-  MoreHorizontal,
+  TimerOff,
+  Hourglass,
   type LucideIcon
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -28,9 +20,13 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { getCategory } from "@/lib/categories";
+import { TITLE_MAX_LENGTH, toPreview } from "@/lib/job-text";
+import { formatDueLabel } from "@/lib/deadlines";
+import { ProfileLink } from "@/components/features/profile-link";
 
 // Status configuration with premium styling
-type JobStatus = "open" | "in_progress" | "completed" | "cancelled";
+type JobStatus = "open" | "in_progress" | "pending_review" | "completed" | "cancelled" | "expired";
 
 const STATUS_CONFIG: Record<JobStatus, {
   label: string;
@@ -50,6 +46,12 @@ const STATUS_CONFIG: Record<JobStatus, {
     className: "bg-blue-100 text-blue-800 border border-blue-300 dark:bg-blue-500/25 dark:text-blue-300 dark:border-blue-500/40",
     dotColor: "bg-blue-500",
   },
+  pending_review: {
+    label: "In Review",
+    icon: Hourglass,
+    className: "bg-sky-100 text-sky-800 border border-sky-300 dark:bg-sky-500/25 dark:text-sky-300 dark:border-sky-500/40",
+    dotColor: "bg-sky-500",
+  },
   completed: {
     label: "Completed",
     icon: CheckCircle2,
@@ -62,20 +64,12 @@ const STATUS_CONFIG: Record<JobStatus, {
     className: "bg-red-100 text-red-800 border border-red-300 dark:bg-red-500/25 dark:text-red-300 dark:border-red-500/40",
     dotColor: "bg-red-500",
   },
-};
-
-// Category icons mapping
-const CATEGORY_ICONS: Record<string, LucideIcon> = {
-  "food-delivery": UtensilsCrossed,
-  "academic": BookOpen,
-  "tech-support": Monitor,
-  "transport": Car,
-  "shopping": ShoppingBag,
-  "tutoring": GraduationCap,
-  "laundry": Shirt,
-  "printing": Printer,
-  "moving": Package,
-  "other": MoreHorizontal,
+  expired: {
+    label: "Expired",
+    icon: TimerOff,
+    className: "bg-amber-100 text-amber-800 border border-amber-300 dark:bg-amber-500/25 dark:text-amber-300 dark:border-amber-500/40",
+    dotColor: "bg-amber-500",
+  },
 };
 
 interface JobCardProps {
@@ -83,9 +77,11 @@ interface JobCardProps {
   description?: string;
   price: number;
   urgency: string;
+  dueAt?: string | null;
   distance: string;
   avatarUrl: string;
   studentName: string;
+  userId?: string;
   timeAgo: string;
   createdAt?: string;
   status?: JobStatus;
@@ -121,9 +117,11 @@ export function JobCard({
   description,
   price,
   urgency,
+  dueAt,
   distance,
   avatarUrl,
   studentName,
+  userId,
   timeAgo,
   createdAt,
   status = "open",
@@ -132,8 +130,9 @@ export function JobCard({
 }: JobCardProps) {
   const statusConfig = STATUS_CONFIG[status];
   const StatusIcon = statusConfig.icon;
-  const CategoryIcon = category ? CATEGORY_ICONS[category] || MoreHorizontal : null;
-  const isCompleted = status === "completed" || status === "cancelled";
+  const categoryInfo = category ? getCategory(category) : null;
+  const CategoryIcon = categoryInfo?.icon;
+  const isCompleted = status === "completed" || status === "cancelled" || status === "expired";
 
   return (
     <motion.div
@@ -164,17 +163,23 @@ export function JobCard({
 
         {/* Header */}
         <div className="flex items-start gap-4 mb-3 mt-2">
-          <Avatar className="h-12 w-12 rounded-xl ring-2 ring-zinc-100 dark:ring-zinc-800">
-            <AvatarImage src={avatarUrl} alt={studentName} />
-            <AvatarFallback className="rounded-xl text-sm font-medium bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400">
-              {studentName
-                .split(" ")
-                .map((n) => n[0])
-                .join("")}
-            </AvatarFallback>
-          </Avatar>
+          <ProfileLink userId={userId} className="rounded-xl">
+            <Avatar className="h-12 w-12 rounded-xl ring-2 ring-zinc-100 dark:ring-zinc-800">
+              <AvatarImage src={avatarUrl} alt={studentName} />
+              <AvatarFallback className="rounded-xl text-sm font-medium bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400">
+                {studentName
+                  .split(" ")
+                  .map((n) => n[0])
+                  .join("")}
+              </AvatarFallback>
+            </Avatar>
+          </ProfileLink>
           <div className="flex-1 min-w-0 pt-1">
-            <p className="text-sm text-zinc-500 dark:text-zinc-400 tracking-tight">{studentName}</p>
+            <p className="text-sm text-zinc-500 dark:text-zinc-400 tracking-tight">
+              <ProfileLink userId={userId} className="hover:text-zinc-900 dark:hover:text-white hover:underline">
+                {studentName}
+              </ProfileLink>
+            </p>
             <Tooltip>
               <TooltipTrigger asChild>
                 <p className="text-xs text-zinc-400 dark:text-zinc-500 cursor-help hover:text-zinc-600 dark:hover:text-zinc-300 transition-colors">
@@ -191,23 +196,23 @@ export function JobCard({
 
         {/* Title - with line clamp */}
         <h3 className="font-semibold text-zinc-900 dark:text-white tracking-tight text-lg leading-snug mb-2 line-clamp-2">
-          {title}
+          {toPreview(title, TITLE_MAX_LENGTH)}
         </h3>
 
         {/* Description Preview - Enhanced with 2 lines */}
         {description && (
           <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
-            {description}
+            {toPreview(description, 160)}
           </p>
         )}
 
         {/* Footer Tags */}
         <div className="flex items-center gap-2 flex-wrap">
           {/* Category Tag */}
-          {CategoryIcon && category && (
+          {CategoryIcon && categoryInfo && (
             <span className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-violet-50 dark:bg-violet-500/10 text-violet-700 dark:text-violet-400 rounded-lg text-xs font-medium">
               <CategoryIcon className="h-3 w-3" strokeWidth={2} />
-              {category.replace("-", " ").replace(/\b\w/g, l => l.toUpperCase())}
+              {categoryInfo.label}
             </span>
           )}
           <span className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg text-xs font-medium text-zinc-600 dark:text-zinc-400">
@@ -216,7 +221,7 @@ export function JobCard({
           </span>
           <span className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-amber-50 dark:bg-amber-500/10 text-amber-700 dark:text-amber-400 rounded-lg text-xs font-medium">
             <Clock className="h-3 w-3" strokeWidth={2} />
-            {urgency}
+            {dueAt && status === "open" ? formatDueLabel(dueAt) : urgency}
           </span>
         </div>
       </div>
@@ -0,0 +1,105 @@
+"use client";
+
+import {
+  CircleDot,
+  UserCheck,
+  Hourglass,
+  RotateCcw,
+  CheckCircle2,
+  XCircle,
+  TimerOff,
+  History,
+  type LucideIcon,
+} from "lucide-react";
+import { useJobEvents } from "@/lib/hooks/use-data";
+import { describeJobEvent, type JobEvent, type JobStatus } from "@/lib/job-transitions";
+
+interface JobTimelineProps {
+  jobId: string;
+}
+
+const EVENT_STYLES: Record<JobStatus, { icon: LucideIcon; color: string }> = {
+  open: { icon: CircleDot, color: "bg-emerald-500" },
+  in_progress: { icon: UserCheck, color: "bg-blue-500" },
+  pending_review: { icon: Hourglass, color: "bg-sky-500" },
+  completed: { icon: CheckCircle2, color: "bg-zinc-500" },
+  cancelled: { icon: XCircle, color: "bg-red-500" },
+  expired: { icon: TimerOff, color: "bg-amber-500" },
+};
+
+function extractRegNumber(email: string | null): string {
+  if (!email) return "User";
+  const match = email.match(/[a-z]?(\d+)@/i);
+  return match ? match[1] : "User";
+}
+
+function getDisplayName(name: string | null, email: string | null): string {
+  if (name && name.trim()) return name;
+  return extractRegNumber(email);
+}
+
+function formatEventTime(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function getEventStyle(event: JobEvent) {
+  // Sent back for changes reads better as a rewind than a fresh assignment
+  if (event.fromStatus === "pending_review" && event.toStatus === "in_progress") {
+    return { icon: RotateCcw, color: "bg-amber-500" };
+  }
+  return EVENT_STYLES[event.toStatus];
+}
+
+// Status history of a job, for its poster and worker
+export function JobTimeline({ jobId }: JobTimelineProps) {
+  const { data: events = [] } = useJobEvents(jobId);
+
+  // Nothing to show to people outside the job
+  if (events.length === 0) return null;
+
+  return (
+    <div className="p-5 rounded-2xl bg-zinc-100/80 dark:bg-zinc-800/50">
+      <div className="flex items-center gap-2 mb-4">
+        <History className="h-4 w-4 text-zinc-400" />
+        <span className="text-xs font-semibold text-zinc-500 dark:text-zinc-400 uppercase tracking-wider">History</span>
+      </div>
+
+      <ol className="relative space-y-4">
+        {events.map((event, index) => {
+          const { icon: Icon, color } = getEventStyle(event);
+          const isLast = index === events.length - 1;
+
+          return (
+            <li key={event.id} className="relative flex gap-3">
+              {!isLast && (
+                <span className="absolute left-3 top-7 -bottom-4 w-px bg-zinc-200 dark:bg-zinc-700" />
+              )}
+              <div className={`relative z-10 flex items-center justify-center w-6 h-6 rounded-full shrink-0 ${color}`}>
+                <Icon className="h-3.5 w-3.5 text-white" />
+              </div>
+              <div className="min-w-0 pt-0.5">
+                <p className="text-sm font-medium text-zinc-900 dark:text-white">
+                  {describeJobEvent(event, getDisplayName(event.workerName, event.workerEmail))}
+                </p>
+                {event.note && (
+                  <p className="text-sm text-zinc-600 dark:text-zinc-300 mt-0.5">&ldquo;{event.note}&rdquo;</p>
+                )}
+                <p className="text-xs text-zinc-400 mt-0.5">
+                  {formatEventTime(event.createdAt)}
+                  {event.actorId && event.actorRole !== "system" && (
+                    <> · {getDisplayName(event.actorName, event.actorEmail)}</>
+                  )}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
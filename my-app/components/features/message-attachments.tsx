@@ -0,0 +1,114 @@
+"use client";
+
+import Image from "next/image";
+import { FileText, Download, ImageOff } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import * as VisuallyHidden from "@radix-ui/react-visually-hidden";
+import { formatFileSize, isImageAttachment, type ChatAttachment } from "@/lib/attachments";
+
+interface MessageAttachmentsProps {
+  attachments: ChatAttachment[];
+  isMe: boolean;
+  onOpenImage: (attachment: ChatAttachment) => void;
+}
+
+// Thumbnails and file cards inside a chat bubble
+export function MessageAttachments({ attachments, isMe, onOpenImage }: MessageAttachmentsProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      {attachments.map((attachment) => {
+        if (!attachment.url) {
+          return (
+            <div key={attachment.id} className="flex items-center gap-2 text-sm opacity-70">
+              <ImageOff className="h-4 w-4" />
+              {attachment.fileName}
+            </div>
+          );
+        }
+
+        if (isImageAttachment(attachment.mimeType)) {
+          return (
+            <button
+              key={attachment.id}
+              type="button"
+              onClick={() => onOpenImage(attachment)}
+              className="block overflow-hidden rounded-xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500"
+            >
+              {/* Signed URLs expire, so they are served as-is rather than optimised */}
+              <Image
+                src={attachment.url}
+                alt={attachment.fileName}
+                width={260}
+                height={240}
+                unoptimized
+                className="max-h-60 w-full max-w-[260px] object-cover"
+              />
+            </button>
+          );
+        }
+
+        return (
+          <a
+            key={attachment.id}
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`flex items-center gap-3 p-3 rounded-xl transition-colors ${
+              isMe
+                ? "bg-white/15 hover:bg-white/25"
+                : "bg-zinc-100 hover:bg-zinc-200 dark:bg-zinc-700/50 dark:hover:bg-zinc-700"
+            }`}
+          >
+            <FileText className="h-8 w-8 shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{attachment.fileName}</p>
+              <p className={`text-xs ${isMe ? "text-white/70" : "text-zinc-500 dark:text-zinc-400"}`}>
+                {formatFileSize(attachment.sizeBytes)}
+              </p>
+            </div>
+            <Download className="h-4 w-4 shrink-0 opacity-70" />
+          </a>
+        );
+      })}
+    </div>
+  );
+}
+
+interface AttachmentLightboxProps {
+  attachment: ChatAttachment | null;
+  onClose: () => void;
+}
+
+// Full-size view of a photo sent in chat
+export function AttachmentLightbox({ attachment, onClose }: AttachmentLightboxProps) {
+  return (
+    <Dialog open={!!attachment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl p-2 bg-black/90 border-zinc-800">
+        <VisuallyHidden.Root>
+          <DialogTitle>{attachment?.fileName ?? "Photo"}</DialogTitle>
+        </VisuallyHidden.Root>
+        {attachment?.url && (
+          <div className="flex flex-col items-center gap-2">
+            <Image
+              src={attachment.url}
+              alt={attachment.fileName}
+              width={1600}
+              height={1200}
+              unoptimized
+              className="max-h-[80vh] w-auto h-auto rounded-lg object-contain"
+            />
+            <a
+              href={attachment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1.5 text-xs text-zinc-400 hover:text-white"
+            >
+              <Download className="h-3.5 w-3.5" />
+              Open original
+            </a>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,27 +1,53 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
-import { Bell, MessageSquare, X, ChevronRight, ArrowLeft, Send } from "lucide-react";
+import {
+  Bell,
+  MessageSquare,
+  X,
+  ChevronRight,
+  ArrowLeft,
+  Send,
+  UserCheck,
+  CheckCircle2,
+  XCircle,
+  UserPlus,
+  Star,
+  HandCoins,
+  ArrowLeftRight,
+  Bookmark,
+  TimerOff,
+  Banknote,
+  AlertTriangle,
+  Scale,
+  ClipboardCheck,
+  RotateCcw,
+  type LucideIcon,
+} from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { createClient } from "@/utils/supabase/client";
+import { useNotifications, useUnreadNotifications, type Notification } from "@/lib/hooks/use-data";
+import type { NotificationKind } from "@/lib/notifications";
+import { fetchLastMessagePreview } from "@/lib/chat-history";
+import { getMessagePreview, isPreviewMessageType, type MessagePreviewRow } from "@/lib/system-messages";
+import { markAllNotificationsRead, markNotificationRead } from "@/app/actions/notifications";
+import { ProfileLink } from "@/components/features/profile-link";
 import type { RealtimeChannel } from "@supabase/supabase-js";
 
 // Create a single instance outside the component to prevent re-creation
 const supabase = createClient();
 
-interface Notification {
-  id: string;
-  type: "message";
-  conversationId: string;
-  jobId: string;
-  jobTitle: string;
-  senderId: string;
-  senderEmail: string;
-  senderName: string | null;
-  content: string;
-  createdAt: string;
-  read: boolean;
+// Unread messages per conversation, for the signed-in user
+async function fetchUnreadCounts(): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc("conversation_unread_counts");
+  if (error) {
+    console.error("Error fetching unread counts:", error);
+  }
+  return new Map(
+    (data || []).map((r: { conversation_id: string; unread_count: number }) => [r.conversation_id, r.unread_count])
+  );
 }
 
 interface ConversationThread {
@@ -34,13 +60,14 @@ interface ConversationThread {
   lastMessage: string;
   lastMessageAt: string;
   lastMessageFromMe: boolean;
-  messageCount: number;
+  unreadCount: number;
   isJobOwner: boolean;
 }
 
 interface NotificationsPopoverProps {
   userId: string | null;
-  onOpenChat?: (jobId: string, conversationId: string) => void;
+  // Without it, job notifications link to the job's page instead
+  onOpenChat?: (jobId: string, conversationId: string | null) => void;
 }
 
 function extractRegNumber(email: string | null | undefined): string {
@@ -70,14 +97,57 @@ function formatRelativeTime(dateString: string): string {
   return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
 }
 
+// Icon, accent and headline for each notification kind
+const KIND_CONFIG: Record<NotificationKind, { icon: LucideIcon; color: string; text: string }> = {
+  worker_assigned: { icon: UserCheck, color: "bg-emerald-500", text: "picked you for" },
+  job_completed: { icon: CheckCircle2, color: "bg-blue-500", text: "marked as completed" },
+  job_cancelled: { icon: XCircle, color: "bg-red-500", text: "cancelled" },
+  // Sent by the expiry job, so there is no actor to name
+  job_expired: { icon: TimerOff, color: "bg-amber-500", text: "Your task expired" },
+  new_applicant: { icon: UserPlus, color: "bg-violet-500", text: "applied to" },
+  new_rating: { icon: Star, color: "bg-amber-500", text: "rated you for" },
+  new_message: { icon: MessageSquare, color: "bg-teal-500", text: "messaged you about" },
+  new_offer: { icon: HandCoins, color: "bg-violet-500", text: "made an offer on" },
+  offer_accepted: { icon: UserCheck, color: "bg-emerald-500", text: "accepted your offer on" },
+  offer_rejected: { icon: XCircle, color: "bg-red-500", text: "declined your offer on" },
+  offer_countered: { icon: ArrowLeftRight, color: "bg-amber-500", text: "countered your offer on" },
+  application_shortlisted: { icon: Bookmark, color: "bg-sky-500", text: "shortlisted you for" },
+  application_rejected: { icon: XCircle, color: "bg-zinc-500", text: "declined your application for" },
+  payment_marked_paid: { icon: Banknote, color: "bg-emerald-500", text: "marked as paid" },
+  payment_confirmed: { icon: CheckCircle2, color: "bg-emerald-500", text: "confirmed payment for" },
+  payment_disputed: { icon: AlertTriangle, color: "bg-red-500", text: "reported a missing payment for" },
+  // Sent by the reminder job, so there is no actor to name
+  payment_reminder: { icon: Banknote, color: "bg-amber-500", text: "Payment still unconfirmed" },
+  dispute_opened: { icon: AlertTriangle, color: "bg-red-500", text: "opened a dispute on" },
+  dispute_resolved: { icon: Scale, color: "bg-violet-500", text: "resolved the dispute on" },
+  work_submitted: { icon: ClipboardCheck, color: "bg-sky-500", text: "submitted for review" },
+  changes_requested: { icon: RotateCcw, color: "bg-amber-500", text: "requested changes on" },
+  // Sent by the auto-approval job, so there is no actor to name
+  work_auto_approved: { icon: CheckCircle2, color: "bg-emerald-500", text: "Approved automatically" },
+};
+
+function getNotificationPreview(notif: Notification): string | null {
+  if (notif.kind === "new_offer" || notif.kind === "offer_countered" || notif.kind === "offer_accepted") {
+    const price = Number(notif.data.price) || 0;
+    return notif.body ? `Rs. ${price.toLocaleString()} · ${notif.body}` : `Rs. ${price.toLocaleString()}`;
+  }
+  if (notif.kind === "new_rating") {
+    const stars = Number(notif.data.rating) || 0;
+    return notif.body ? `${"★".repeat(stars)} "${notif.body}"` : "★".repeat(stars);
+  }
+  return notif.body;
+}
+
 export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopoverProps) {
+  const router = useRouter();
   const [isOpen, setIsOpen] = useState(false);
   const [showFullInbox, setShowFullInbox] = useState(false);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
   const [conversations, setConversations] = useState<ConversationThread[]>([]);
-  const [unreadCount, setUnreadCount] = useState(0);
   const [loadingConversations, setLoadingConversations] = useState(false);
 
+  const { data: notifications = [], mutate: mutateNotifications } = useNotifications(userId);
+  const { data: unreadCount = 0, mutate: mutateUnread } = useUnreadNotifications(userId);
+
   const fetchConversations = useCallback(async () => {
     if (!userId) return;
     setLoadingConversations(true);
@@ -107,6 +177,7 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
         return;
       }
 
+      const unreadMap = await fetchUnreadCounts();
       const threads: ConversationThread[] = [];
 
       for (const conv of myConversations) {
@@ -120,14 +191,7 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
           .eq("id", otherUserId)
           .maybeSingle();
 
-        const { data: messages, count } = await supabase
-          .from("messages")
-          .select("*", { count: "exact" })
-          .eq("conversation_id", conv.id)
-          .order("created_at", { ascending: false })
-          .limit(1);
-
-        const lastMessage = messages?.[0];
+        const lastMessage = await fetchLastMessagePreview(supabase, conv.id, userId);
 
         if (lastMessage) {
           threads.push({
@@ -137,10 +201,10 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
             otherUserId,
             otherUserEmail: otherProfile?.email || "",
             otherUserName: otherProfile?.full_name || null,
-            lastMessage: lastMessage.content,
-            lastMessageAt: lastMessage.created_at,
-            lastMessageFromMe: lastMessage.sender_id === userId,
-            messageCount: count || 0,
+            lastMessage: lastMessage.text,
+            lastMessageAt: lastMessage.createdAt,
+            lastMessageFromMe: lastMessage.senderId === userId,
+            unreadCount: unreadMap.get(conv.id) ?? 0,
             isJobOwner,
           });
         }
@@ -153,153 +217,110 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
     }
   }, [userId]);
 
-  const fetchNotifications = useCallback(async () => {
+  // Refresh the list and badge as soon as a notification lands for this user
+  useEffect(() => {
     if (!userId) return;
 
-    const { data: workerConvs } = await supabase
-      .from("conversations")
-      .select(`id, job_id, worker_id, jobs (id, title, user_id)`)
-      .eq("worker_id", userId);
-
-    const { data: allConvs } = await supabase
-      .from("conversations")
-      .select(`id, job_id, worker_id, jobs (id, title, user_id)`);
-
-    const myConversations = [...(workerConvs || [])];
-    const seenIds = new Set(myConversations.map(c => c.id));
-    
-    for (const conv of allConvs || []) {
-      const job = conv.jobs as unknown as { id: string; title: string; user_id: string };
-      if (job && job.user_id === userId && !seenIds.has(conv.id)) {
-        myConversations.push(conv);
-      }
-    }
-
-    if (myConversations.length === 0) {
-      setNotifications([]);
-      return;
-    }
-
-    const notifs: Notification[] = [];
-
-    for (const conv of myConversations) {
-      const { data: latestMessage } = await supabase
-        .from("messages")
-        .select("*")
-        .eq("conversation_id", conv.id)
-        .neq("sender_id", userId)
-        .order("created_at", { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      if (latestMessage) {
-        const { data: senderProfile } = await supabase
-          .from("profiles")
-          .select("email, full_name")
-          .eq("id", latestMessage.sender_id)
-          .maybeSingle();
-
-        const job = conv.jobs as unknown as { id: string; title: string; user_id: string };
-
-        notifs.push({
-          id: latestMessage.id,
-          type: "message",
-          conversationId: conv.id,
-          jobId: job.id,
-          jobTitle: job.title,
-          senderId: latestMessage.sender_id,
-          senderEmail: senderProfile?.email || "",
-          senderName: senderProfile?.full_name || null,
-          content: latestMessage.content,
-          createdAt: latestMessage.created_at,
-          read: false,
-        });
-      }
-    }
+    const channel: RealtimeChannel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${userId}`,
+        },
+        () => {
+          mutateNotifications();
+          mutateUnread();
+        }
+      )
+      .subscribe();
 
-    notifs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    setNotifications(notifs);
-    setUnreadCount(notifs.length);
-  }, [userId]);
+    return () => { supabase.removeChannel(channel); };
+  }, [userId, mutateNotifications, mutateUnread]);
 
+  // While the inbox is open, keep previews and unread badges live.
+  // Updates are messages being read, on either side.
   useEffect(() => {
-    fetchNotifications();
-  }, [fetchNotifications]);
+    if (!userId || !showFullInbox) return;
 
-  useEffect(() => {
-    if (!userId) return;
-
-    let channel: RealtimeChannel;
-
-    const setupRealtime = async () => {
-      channel = supabase
-        .channel(`notifications:${userId}`)
-        .on(
-          "postgres_changes",
-          { event: "INSERT", schema: "public", table: "messages" },
-          async (payload) => {
-            const { data: conv } = await supabase
-              .from("conversations")
-              .select(`id, job_id, worker_id, jobs (id, title, user_id)`)
-              .eq("id", payload.new.conversation_id)
-              .maybeSingle();
-
-            if (!conv) return;
-
-            const job = conv.jobs as unknown as { id: string; title: string; user_id: string };
-            const isUserInConversation = conv.worker_id === userId || job.user_id === userId;
-            const isFromOtherUser = payload.new.sender_id !== userId;
-
-            if (isUserInConversation && isFromOtherUser) {
-              const { data: senderProfile } = await supabase
-                .from("profiles")
-                .select("email, full_name")
-                .eq("id", payload.new.sender_id)
-                .maybeSingle();
-
-              const newNotif: Notification = {
-                id: payload.new.id,
-                type: "message",
-                conversationId: conv.id,
-                jobId: job.id,
-                jobTitle: job.title,
-                senderId: payload.new.sender_id,
-                senderEmail: senderProfile?.email || "",
-                senderName: senderProfile?.full_name || null,
-                content: payload.new.content,
-                createdAt: payload.new.created_at,
-                read: false,
-              };
-
-              setNotifications((prev) => {
-                const filtered = prev.filter((n) => n.conversationId !== conv.id);
-                return [newNotif, ...filtered];
-              });
-              setUnreadCount((prev) => prev + 1);
-            }
-          }
-        )
-        .subscribe();
+    const refreshUnread = async () => {
+      const unreadMap = await fetchUnreadCounts();
+      setConversations((prev) => prev.map((t) => ({ ...t, unreadCount: unreadMap.get(t.conversationId) ?? 0 })));
     };
 
-    setupRealtime();
-    return () => { if (channel) supabase.removeChannel(channel); };
-  }, [userId]);
-
-  const handleNotificationClick = (notif: Notification) => {
-    if (onOpenChat) onOpenChat(notif.jobId, notif.conversationId);
+    const channel: RealtimeChannel = supabase
+      .channel(`inbox:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "messages" },
+        (payload) => {
+          refreshUnread();
+          // Notices count as unread but don't replace what was last said
+          if (!isPreviewMessageType(payload.new.message_type)) return;
+
+          setConversations((prev) => {
+            const updated = prev.map((t) =>
+              t.conversationId === payload.new.conversation_id
+                ? {
+                    ...t,
+                    lastMessage: getMessagePreview(payload.new as MessagePreviewRow, userId),
+                    lastMessageAt: payload.new.created_at,
+                    lastMessageFromMe: payload.new.sender_id === userId,
+                  }
+                : t
+            );
+            return updated.sort((a, b) => new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime());
+          });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "messages" },
+        () => { refreshUnread(); }
+      )
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }, [userId, showFullInbox]);
+
+  const handleNotificationClick = async (notif: Notification) => {
+    if (notif.jobId) {
+      if (onOpenChat) onOpenChat(notif.jobId, notif.conversationId);
+      else router.push(`/jobs/${notif.jobId}`);
+    }
     setIsOpen(false);
+
+    if (!notif.isRead) {
+      mutateNotifications(
+        (prev) => prev?.map((n) => (n.id === notif.id ? { ...n, isRead: true } : n)),
+        { revalidate: false }
+      );
+      mutateUnread((prev) => Math.max((prev || 0) - 1, 0), { revalidate: false });
+      await markNotificationRead(notif.id);
+      mutateUnread();
+    }
   };
 
   const handleConversationClick = (thread: ConversationThread) => {
     if (onOpenChat) onOpenChat(thread.jobId, thread.conversationId);
+    else router.push(`/jobs/${thread.jobId}`);
     setShowFullInbox(false);
     setIsOpen(false);
   };
 
-  const markAllAsRead = () => {
-    setUnreadCount(0);
-    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+  const markAllAsRead = async () => {
+    mutateNotifications((prev) => prev?.map((n) => ({ ...n, isRead: true })), { revalidate: false });
+    mutateUnread(0, { revalidate: false });
+
+    const result = await markAllNotificationsRead();
+    if (result.error) {
+      console.error("Failed to mark notifications read:", result.error);
+    }
+    mutateNotifications();
+    mutateUnread();
   };
 
   if (!userId) return null;
@@ -354,7 +375,7 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
               <div className="px-6 pt-6 pb-4">
                 <div className="flex items-center justify-between">
                   <h2 className="text-[22px] font-semibold tracking-tight text-zinc-900 dark:text-white">
-                    Messages
+                    Notifications
                   </h2>
                   <div className="flex items-center gap-2">
                     {unreadCount > 0 && (
@@ -393,12 +414,18 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
                     </div>
                     <p className="text-[17px] font-semibold text-zinc-900 dark:text-white mb-1">All caught up</p>
                     <p className="text-[14px] text-zinc-500 dark:text-zinc-400 text-center max-w-[240px]">
-                      You&apos;ll see new messages here when they arrive
+                      You&apos;ll see updates on your tasks here when they happen
                     </p>
                   </div>
                 ) : (
                   <div className="px-3 pb-3 space-y-2">
-                    {notifications.map((notif, index) => (
+                    {notifications.map((notif, index) => {
+                      const config = KIND_CONFIG[notif.kind] ?? KIND_CONFIG.new_message;
+                      const KindIcon = config.icon;
+                      const actorName = getDisplayName(notif.actorName, notif.actorEmail);
+                      const preview = getNotificationPreview(notif);
+
+                      return (
                       <motion.button
                         key={notif.id}
                         initial={{ opacity: 0, x: -20 }}
@@ -406,23 +433,28 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
                         transition={{ delay: index * 0.05, type: "spring", stiffness: 400, damping: 30 }}
                         onClick={() => handleNotificationClick(notif)}
                         className={`w-full flex items-start gap-4 p-4 rounded-2xl text-left transition-all duration-200 group ${
-                          !notif.read 
+                          !notif.isRead 
                             ? "bg-emerald-50 dark:bg-emerald-500/15 hover:bg-emerald-100 dark:hover:bg-emerald-500/20 border border-emerald-200/50 dark:border-emerald-500/20" 
                             : "bg-zinc-50 dark:bg-zinc-800/50 hover:bg-zinc-100 dark:hover:bg-zinc-800 border border-zinc-100 dark:border-zinc-800"
                         }`}
                       >
-                        {/* Avatar with online indicator style */}
+                        {/* Avatar with event kind badge */}
                         <div className="relative flex-shrink-0">
-                          <Avatar className="h-12 w-12 rounded-2xl shadow-md ring-2 ring-white dark:ring-zinc-800">
-                            <AvatarImage
-                              src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${notif.senderId}`}
-                              className="rounded-2xl"
-                            />
-                            <AvatarFallback className="rounded-2xl bg-gradient-to-br from-violet-500 to-purple-600 text-white font-semibold">
-                              {getDisplayName(notif.senderName, notif.senderEmail).slice(0, 2)}
-                            </AvatarFallback>
-                          </Avatar>
-                          {!notif.read && (
+                          <ProfileLink userId={notif.actorId} onNavigate={() => setIsOpen(false)} nested className="block rounded-2xl">
+                            <Avatar className="h-12 w-12 rounded-2xl shadow-md ring-2 ring-white dark:ring-zinc-800">
+                              <AvatarImage
+                                src={notif.actorAvatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${notif.actorId}`}
+                                className="rounded-2xl"
+                              />
+                              <AvatarFallback className="rounded-2xl bg-gradient-to-br from-violet-500 to-purple-600 text-white font-semibold">
+                                {actorName.slice(0, 2)}
+                              </AvatarFallback>
+                            </Avatar>
+                          </ProfileLink>
+                          <div className={`absolute -bottom-1 -right-1 w-6 h-6 rounded-full ${config.color} flex items-center justify-center ring-2 ring-white dark:ring-zinc-900`}>
+                            <KindIcon className="w-3.5 h-3.5 text-white" />
+                          </div>
+                          {!notif.isRead && (
                             <div className="absolute -top-0.5 -right-0.5 w-3.5 h-3.5 rounded-full bg-emerald-500 ring-2 ring-white dark:ring-zinc-900" />
                           )}
                         </div>
@@ -430,25 +462,37 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
                         {/* Content */}
                         <div className="flex-1 min-w-0">
                           <div className="flex items-baseline justify-between gap-2 mb-1">
-                            <span className="font-semibold text-[15px] text-zinc-900 dark:text-white">
-                              {getDisplayName(notif.senderName, notif.senderEmail)}
+                            <span className="text-[14px] text-zinc-600 dark:text-zinc-400 truncate">
+                              {notif.actorId && (
+                                <>
+                                  <span className="font-semibold text-[15px] text-zinc-900 dark:text-white">
+                                    {actorName}
+                                  </span>{" "}
+                                </>
+                              )}
+                              {config.text}
                             </span>
-                            <span className="text-[12px] text-zinc-400 dark:text-zinc-500 tabular-nums">
+                            <span className="flex-shrink-0 text-[12px] text-zinc-400 dark:text-zinc-500 tabular-nums">
                               {formatRelativeTime(notif.createdAt)}
                             </span>
                           </div>
-                          <p className="text-[13px] text-emerald-600 dark:text-emerald-400 font-medium mb-1 truncate">
-                            {notif.jobTitle}
-                          </p>
-                          <p className="text-[14px] text-zinc-600 dark:text-zinc-400 line-clamp-2 leading-snug">
-                            {notif.content}
-                          </p>
+                          {notif.jobTitle && (
+                            <p className="text-[13px] text-emerald-600 dark:text-emerald-400 font-medium mb-1 truncate">
+                              {notif.jobTitle}
+                            </p>
+                          )}
+                          {preview && (
+                            <p className="text-[14px] text-zinc-600 dark:text-zinc-400 line-clamp-2 leading-snug">
+                              {preview}
+                            </p>
+                          )}
                         </div>
 
                         {/* Arrow indicator on hover */}
                         <ChevronRight className="flex-shrink-0 w-5 h-5 text-zinc-300 dark:text-zinc-600 mt-1 opacity-0 group-hover:opacity-100 transition-opacity" />
                       </motion.button>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -553,15 +597,17 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
                         <div className="flex items-center gap-4">
                           {/* Avatar */}
                           <div className="relative flex-shrink-0">
-                            <Avatar className="h-14 w-14 rounded-2xl shadow-lg ring-2 ring-white dark:ring-zinc-700">
-                              <AvatarImage
-                                src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${thread.otherUserId}`}
-                                className="rounded-2xl"
-                              />
-                              <AvatarFallback className="rounded-2xl bg-gradient-to-br from-emerald-400 to-teal-500 text-white font-bold text-lg">
-                                {getDisplayName(thread.otherUserName, thread.otherUserEmail).slice(0, 2)}
-                              </AvatarFallback>
-                            </Avatar>
+                            <ProfileLink userId={thread.otherUserId} onNavigate={() => { setShowFullInbox(false); setIsOpen(false); }} nested className="block rounded-2xl">
+                              <Avatar className="h-14 w-14 rounded-2xl shadow-lg ring-2 ring-white dark:ring-zinc-700">
+                                <AvatarImage
+                                  src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${thread.otherUserId}`}
+                                  className="rounded-2xl"
+                                />
+                                <AvatarFallback className="rounded-2xl bg-gradient-to-br from-emerald-400 to-teal-500 text-white font-bold text-lg">
+                                  {getDisplayName(thread.otherUserName, thread.otherUserEmail).slice(0, 2)}
+                                </AvatarFallback>
+                              </Avatar>
+                            </ProfileLink>
                           </div>
 
                           {/* Content */}
@@ -588,7 +634,11 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
                               {thread.jobTitle}
                             </p>
                             
-                            <p className="text-[14px] text-zinc-500 dark:text-zinc-400 truncate">
+                            <p className={`text-[14px] truncate ${
+                              thread.unreadCount > 0
+                                ? "text-zinc-900 dark:text-white font-medium"
+                                : "text-zinc-500 dark:text-zinc-400"
+                            }`}>
                               {thread.lastMessageFromMe && (
                                 <span className="text-zinc-400 dark:text-zinc-500">You: </span>
                               )}
@@ -598,11 +648,13 @@ export function NotificationsPopover({ userId, onOpenChat }: NotificationsPopove
 
                           {/* Right side */}
                           <div className="flex flex-col items-end gap-2 flex-shrink-0">
-                            <div className="flex items-center justify-center min-w-[28px] h-7 px-2 rounded-full bg-zinc-200/80 dark:bg-zinc-700/80">
-                              <span className="text-[12px] font-semibold text-zinc-600 dark:text-zinc-300">
-                                {thread.messageCount}
-                              </span>
-                            </div>
+                            {thread.unreadCount > 0 && (
+                              <div className="flex items-center justify-center min-w-[28px] h-7 px-2 rounded-full bg-emerald-500 shadow-lg shadow-emerald-500/30">
+                                <span className="text-[12px] font-semibold text-white">
+                                  {thread.unreadCount > 99 ? "99+" : thread.unreadCount}
+                                </span>
+                              </div>
+                            )}
                             <ChevronRight className="w-5 h-5 text-zinc-300 dark:text-zinc-600 opacity-0 group-hover:opacity-100 transition-opacity" />
                           </div>
                         </div>
@@ -0,0 +1,345 @@
+"use client";
+
+import { useState, useEffect, useTransition } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  HandCoins,
+  Check,
+  X,
+  ArrowLeftRight,
+  Loader2,
+  Clock,
+  Undo2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createClient } from "@/utils/supabase/client";
+import { useOffers, type Offer } from "@/lib/hooks/use-data";
+import {
+  submitOffer,
+  withdrawOffer,
+  acceptOffer,
+  rejectOffer,
+  counterOffer,
+} from "@/app/actions/offers";
+
+// Create a single instance outside the component to prevent re-creation
+const supabase = createClient();
+
+type JobStatus = "open" | "in_progress" | "pending_review" | "completed" | "cancelled" | "expired";
+
+interface OfferPanelProps {
+  jobId: string;
+  jobPrice: number;
+  jobStatus: JobStatus;
+  // The worker on the other side of this conversation (or the current user when not the owner)
+  workerId: string;
+  isOwner: boolean;
+  onAccepted?: (workerId: string) => void;
+}
+
+type FormMode = "offer" | "counter" | null;
+
+const STATUS_LABELS: Record<Offer["status"], string> = {
+  pending: "Pending",
+  countered: "Countered",
+  accepted: "Accepted",
+  rejected: "Declined",
+  withdrawn: "Withdrawn",
+  superseded: "Replaced",
+};
+
+export function OfferPanel({
+  jobId,
+  jobPrice,
+  jobStatus,
+  workerId,
+  isOwner,
+  onAccepted,
+}: OfferPanelProps) {
+  const { data: offers = [], mutate } = useOffers(jobId, workerId);
+  const [formMode, setFormMode] = useState<FormMode>(null);
+  const [price, setPrice] = useState("");
+  const [eta, setEta] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  // Latest offer in the thread drives the panel
+  const offer = offers.find((o) => o.status !== "superseded") || null;
+  const isLive = offer?.status === "pending" || offer?.status === "countered";
+
+  // Refresh when the other side responds
+  useEffect(() => {
+    const channel = supabase
+      .channel(`offers:${jobId}:${workerId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "offers",
+          filter: `job_id=eq.${jobId}`,
+        },
+        () => mutate()
+      )
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }, [jobId, workerId, mutate]);
+
+  const openForm = (mode: FormMode, initialPrice: number) => {
+    setFormMode(mode);
+    setPrice(String(initialPrice));
+    setEta(mode === "offer" ? offer?.eta || "" : "");
+    setNote("");
+    setError(null);
+  };
+
+  const runAction = (action: () => Promise<{ success?: boolean; error?: string }>, after?: () => void) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      setFormMode(null);
+      after?.();
+      mutate();
+    });
+  };
+
+  const handleSubmitForm = () => {
+    const value = parseInt(price, 10);
+    if (isNaN(value) || value <= 0) {
+      setError("Enter a valid price");
+      return;
+    }
+
+    if (formMode === "counter" && offer) {
+      runAction(() => counterOffer(offer.id, { price: value, note }));
+    } else {
+      runAction(() => submitOffer({ jobId, price: value, eta, note }));
+    }
+  };
+
+  // Nothing to show the owner until the worker bids
+  if (isOwner && !offer) return null;
+
+  // Workers can only bid while the job is open
+  if (!isOwner && !offer && jobStatus !== "open") return null;
+
+  return (
+    <div className="px-4 pt-3">
+      <div className="rounded-2xl bg-white/80 dark:bg-zinc-900/80 backdrop-blur-xl border border-zinc-200/50 dark:border-zinc-800/50 shadow-sm p-3">
+        {offer ? (
+          <div className="flex items-start gap-3">
+            <div className="flex-shrink-0 w-8 h-8 rounded-full bg-violet-100 dark:bg-violet-500/20 flex items-center justify-center">
+              <HandCoins className="h-4 w-4 text-violet-600 dark:text-violet-400" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-[15px] font-semibold text-zinc-900 dark:text-white">
+                  Rs. {offer.price.toLocaleString()}
+                </span>
+                {offer.eta && (
+                  <span className="inline-flex items-center gap-1 text-xs text-zinc-500 dark:text-zinc-400">
+                    <Clock className="h-3 w-3" />
+                    {offer.eta}
+                  </span>
+                )}
+                <span className={`ml-auto px-2 py-0.5 rounded-full text-[10px] font-bold ${
+                  offer.status === "accepted"
+                    ? "bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-400"
+                    : offer.status === "countered"
+                      ? "bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-400"
+                      : offer.status === "pending"
+                        ? "bg-violet-100 text-violet-700 dark:bg-violet-500/20 dark:text-violet-400"
+                        : "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400"
+                }`}>
+                  {STATUS_LABELS[offer.status]}
+                </span>
+              </div>
+              {offer.note && (
+                <p className="text-[13px] text-zinc-600 dark:text-zinc-400 mt-0.5 line-clamp-2">
+                  {offer.note}
+                </p>
+              )}
+              {offer.status === "countered" && offer.counterPrice && (
+                <p className="text-[13px] text-amber-700 dark:text-amber-400 mt-1">
+                  {isOwner ? "You countered with" : "Poster countered with"}{" "}
+                  <span className="font-semibold">Rs. {offer.counterPrice.toLocaleString()}</span>
+                  {offer.counterNote && <span className="text-zinc-500"> · {offer.counterNote}</span>}
+                </p>
+              )}
+              <p className="text-[11px] text-zinc-400 dark:text-zinc-500 mt-1">
+                Posted price Rs. {jobPrice.toLocaleString()}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center gap-3">
+            <div className="flex-shrink-0 w-8 h-8 rounded-full bg-violet-100 dark:bg-violet-500/20 flex items-center justify-center">
+              <HandCoins className="h-4 w-4 text-violet-600 dark:text-violet-400" />
+            </div>
+            <p className="flex-1 text-[13px] text-zinc-600 dark:text-zinc-400">
+              Propose your price and ETA for this task
+            </p>
+          </div>
+        )}
+
+        {/* Actions */}
+        {jobStatus === "open" && formMode === null && (
+          <div className="flex items-center gap-2 mt-3">
+            {isOwner && offer?.status === "pending" && (
+              <>
+                <Button
+                  size="sm"
+                  disabled={isPending}
+                  onClick={() => runAction(() => acceptOffer(offer.id), () => onAccepted?.(offer.workerId))}
+                  className="rounded-full h-8 px-3 bg-emerald-500 hover:bg-emerald-600 text-white text-xs font-semibold"
+                >
+                  {isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <><Check className="h-3 w-3 mr-1" />Accept</>}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isPending}
+                  onClick={() => openForm("counter", offer.price)}
+                  className="rounded-full h-8 px-3 text-xs font-semibold"
+                >
+                  <ArrowLeftRight className="h-3 w-3 mr-1" />
+                  Counter
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isPending}
+                  onClick={() => runAction(() => rejectOffer(offer.id))}
+                  className="rounded-full h-8 px-3 text-xs font-semibold text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-500/10"
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Decline
+                </Button>
+              </>
+            )}
+
+            {!isOwner && (
+              <>
+                {offer?.status === "countered" && offer.counterPrice && (
+                  <Button
+                    size="sm"
+                    disabled={isPending}
+                    onClick={() => openForm("offer", offer.counterPrice!)}
+                    className="rounded-full h-8 px-3 bg-amber-500 hover:bg-amber-600 text-white text-xs font-semibold"
+                  >
+                    <Check className="h-3 w-3 mr-1" />
+                    Match counter
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant={isLive ? "outline" : "default"}
+                  disabled={isPending}
+                  onClick={() => openForm("offer", offer?.price || jobPrice)}
+                  className={`rounded-full h-8 px-3 text-xs font-semibold ${
+                    isLive ? "" : "bg-violet-500 hover:bg-violet-600 text-white"
+                  }`}
+                >
+                  <HandCoins className="h-3 w-3 mr-1" />
+                  {isLive ? "Revise offer" : "Make an offer"}
+                </Button>
+                {isLive && offer && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isPending}
+                    onClick={() => runAction(() => withdrawOffer(offer.id))}
+                    className="rounded-full h-8 px-3 text-xs font-semibold text-zinc-500"
+                  >
+                    <Undo2 className="h-3 w-3 mr-1" />
+                    Withdraw
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Offer / counter form */}
+        <AnimatePresence>
+          {formMode && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: "auto" }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+            >
+              <div className="mt-3 space-y-2">
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs text-zinc-400">Rs.</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      inputMode="numeric"
+                      value={price}
+                      onChange={(e) => setPrice(e.target.value)}
+                      className="pl-9 h-9 rounded-xl"
+                    />
+                  </div>
+                  {formMode === "offer" && (
+                    <Input
+                      value={eta}
+                      onChange={(e) => setEta(e.target.value)}
+                      placeholder="ETA, e.g. 2 hours"
+                      maxLength={50}
+                      className="flex-1 h-9 rounded-xl"
+                    />
+                  )}
+                </div>
+                <Input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={formMode === "counter" ? "Add a note (optional)" : "Why you're a good fit (optional)"}
+                  maxLength={500}
+                  className="h-9 rounded-xl"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setFormMode(null)}
+                    disabled={isPending}
+                    className="rounded-full h-8 px-3 text-xs"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleSubmitForm}
+                    disabled={isPending}
+                    className="rounded-full h-8 px-4 bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 text-xs font-semibold"
+                  >
+                    {isPending ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : formMode === "counter" ? (
+                      "Send counter"
+                    ) : (
+                      "Send offer"
+                    )}
+                  </Button>
+                </div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {error && (
+          <p className="text-xs text-red-500 mt-2">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { KeyboardEvent, MouseEvent, ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+interface ProfileLinkProps {
+  userId: string | null | undefined;
+  children: ReactNode;
+  className?: string;
+  // Use inside another clickable element (a card or a <button>), where a nested <a> isn't allowed
+  nested?: boolean;
+  // Called before navigating, e.g. to close the sheet or popover the link lives in
+  onNavigate?: () => void;
+}
+
+// Wraps an avatar or name so it opens the user's public profile at /u/[id]
+export function ProfileLink({ userId, children, className, nested = false, onNavigate }: ProfileLinkProps) {
+  const router = useRouter();
+
+  if (!userId) {
+    return <>{children}</>;
+  }
+
+  const href = `/u/${userId}`;
+
+  if (!nested) {
+    return (
+      <Link
+        href={href}
+        onClick={(e) => {
+          e.stopPropagation();
+          onNavigate?.();
+        }}
+        className={cn("rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500", className)}
+      >
+        {children}
+      </Link>
+    );
+  }
+
+  const open = (e: MouseEvent | KeyboardEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onNavigate?.();
+    router.push(href);
+  };
+
+  return (
+    <span
+      role="link"
+      tabIndex={0}
+      onClick={open}
+      onKeyDown={(e) => e.key === "Enter" && open(e)}
+      className={cn("cursor-pointer rounded-full focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500", className)}
+    >
+      {children}
+    </span>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { Fragment } from "react";
+import { parseDescription, type InlineNode } from "@/lib/job-text";
+import { cn } from "@/lib/utils";
+
+interface RichDescriptionProps {
+  text: string;
+  className?: string;
+}
+
+function renderInline(nodes: InlineNode[]) {
+  return nodes.map((node, index) =>
+    node.type === "link" ? (
+      <a
+        key={index}
+        href={node.href}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="text-emerald-600 dark:text-emerald-400 underline underline-offset-2 break-all hover:text-emerald-700 dark:hover:text-emerald-300"
+      >
+        {node.text}
+      </a>
+    ) : (
+      <Fragment key={index}>{node.text}</Fragment>
+    )
+  );
+}
+
+// Renders the markdown-lite subset from lib/job-text as React elements (never raw HTML)
+export function RichDescription({ text, className }: RichDescriptionProps) {
+  const blocks = parseDescription(text);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {blocks.map((block, index) => {
+        if (block.type === "list") {
+          const ListTag = block.ordered ? "ol" : "ul";
+          return (
+            <ListTag
+              key={index}
+              className={cn("pl-5 space-y-1", block.ordered ? "list-decimal" : "list-disc")}
+            >
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>{renderInline(item)}</li>
+              ))}
+            </ListTag>
+          );
+        }
+
+        return (
+          <p key={index}>
+            {block.lines.map((line, lineIndex) => (
+              <Fragment key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {renderInline(line)}
+              </Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
@@ -32,20 +32,13 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { Slider } from "@/components/ui/slider";
+import type { FilterState } from "@/lib/job-search";
+import { TASK_CATEGORIES } from "@/lib/categories";
 
-// Premium category definitions (no emojis - clean icons implied by design)
-export const FILTER_CATEGORIES = [
-  { value: "food-delivery", label: "Food Delivery" },
-  { value: "academic", label: "Academic Help" },
-  { value: "tech-support", label: "Tech Support" },
-  { value: "transport", label: "Transport" },
-  { value: "shopping", label: "Shopping" },
-  { value: "tutoring", label: "Tutoring" },
-  { value: "laundry", label: "Laundry" },
-  { value: "printing", label: "Printing" },
-  { value: "moving", label: "Moving Help" },
-  { value: "other", label: "Other" },
-];
+export type { FilterState };
+
+// Filter options come from the shared category registry so slugs always match posted jobs
+export const FILTER_CATEGORIES = TASK_CATEGORIES.map(({ value, label }) => ({ value, label }));
 
 export const URGENCY_OPTIONS = [
   { value: "Flexible", label: "Flexible", sublabel: "No rush" },
@@ -60,7 +53,7 @@ export const SORT_OPTIONS = [
   { value: "oldest", label: "Oldest" },
   { value: "price_low", label: "Price: Low → High" },
   { value: "price_high", label: "Price: High → Low" },
-  { value: "urgency", label: "Most Urgent" },
+  { value: "deadline", label: "Due Soonest" },
 ];
 
 export const LOCATION_OPTIONS = [
@@ -71,16 +64,6 @@ export const LOCATION_OPTIONS = [
   "Auditorium", "Other",
 ];
 
-export interface FilterState {
-  search: string;
-  category: string;
-  urgency: string;
-  location: string;
-  minPrice: number;
-  maxPrice: number;
-  sortBy: string;
-}
-
 interface SearchFilterBarProps {
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
@@ -543,67 +526,3 @@ export function countActiveFilters(filters: FilterState): number {
   if (filters.minPrice > 0 || filters.maxPrice < 10000) count++;
   return count;
 }
-
-// Helper to filter jobs client-side
-export function filterJobs<T extends {
-  title: string;
-  description?: string;
-  category?: string;
-  urgency: string;
-  location: string;
-  price: number;
-  createdAt?: string | null;
-}>(jobs: T[], filters: FilterState): T[] {
-  let filtered = [...jobs];
-
-  // Search filter
-  if (filters.search) {
-    const searchLower = filters.search.toLowerCase();
-    filtered = filtered.filter(
-      (job) =>
-        job.title.toLowerCase().includes(searchLower) ||
-        (job.description && job.description.toLowerCase().includes(searchLower))
-    );
-  }
-
-  // Category filter
-  if (filters.category) {
-    filtered = filtered.filter((job) => job.category === filters.category);
-  }
-
-  // Urgency filter
-  if (filters.urgency) {
-    filtered = filtered.filter((job) => job.urgency === filters.urgency);
-  }
-
-  // Location filter
-  if (filters.location) {
-    filtered = filtered.filter((job) => job.location === filters.location);
-  }
-
-  // Price range filter
-  filtered = filtered.filter(
-    (job) => job.price >= filters.minPrice && job.price <= filters.maxPrice
-  );
-
-  // Sort
-  const urgencyOrder = ["ASAP", "Today", "3 days", "This week", "Flexible"];
-  
-  filtered.sort((a, b) => {
-    switch (filters.sortBy) {
-      case "oldest":
-        return new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime();
-      case "price_low":
-        return a.price - b.price;
-      case "price_high":
-        return b.price - a.price;
-      case "urgency":
-        return urgencyOrder.indexOf(a.urgency) - urgencyOrder.indexOf(b.urgency);
-      case "newest":
-      default:
-        return new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime();
-    }
-  });
-
-  return filtered;
-}
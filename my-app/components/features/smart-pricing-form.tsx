@@ -2,12 +2,8 @@
 
 import { useState, useEffect, useTransition } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { 
-  Loader2, CheckCircle2, Sparkles, MapPin, Tag,
-  UtensilsCrossed, BookOpen, Monitor, Car, ShoppingBag, 
-  GraduationCap, Shirt, Printer, Package, MoreHorizontal,
-  type LucideIcon
-} from "lucide-react";
+import { Loader2, CheckCircle2, Sparkles, MapPin, Tag, CalendarClock } from "lucide-react";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Slider } from "@/components/ui/slider";
 import { Button } from "@/components/ui/button";
@@ -19,20 +15,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { createJob } from "@/app/actions/create-job";
-
-// Task categories with icons
-export const TASK_CATEGORIES: { value: string; label: string; icon: LucideIcon }[] = [
-  { value: "food-delivery", label: "Food Delivery", icon: UtensilsCrossed },
-  { value: "assignments", label: "Assignments", icon: BookOpen },
-  { value: "tech-support", label: "Tech Support", icon: Monitor },
-  { value: "ride-share", label: "Ride Share", icon: Car },
-  { value: "shopping", label: "Shopping", icon: ShoppingBag },
-  { value: "tutoring", label: "Tutoring", icon: GraduationCap },
-  { value: "laundry", label: "Laundry", icon: Shirt },
-  { value: "printing", label: "Printing", icon: Printer },
-  { value: "moving", label: "Moving Help", icon: Package },
-  { value: "other", label: "Other", icon: MoreHorizontal },
-];
+import { updateJob } from "@/app/actions/update-job";
+import { TASK_CATEGORIES, getCategory } from "@/lib/categories";
+import {
+  DESCRIPTION_MAX_LENGTH,
+  TITLE_MAX_LENGTH,
+  sanitizeTitle,
+  validateTitle,
+} from "@/lib/job-text";
+import { getDefaultDueAt, toDateTimeLocalValue, validateDueAt } from "@/lib/deadlines";
 
 // Campus location options
 const CAMPUS_LOCATIONS = [
@@ -58,35 +49,66 @@ const CAMPUS_LOCATIONS = [
   "Other",
 ];
 
+// Urgency slider steps, 0-4 (Chill to ASAP)
+const URGENCY_LEVELS = ["Flexible", "This week", "3 days", "Today", "ASAP"];
+
+// Helper function to calculate price - base comes from the category's pricing hint
+const calculatePrice = (text: string, urgencyValue: number, categorySlug: string) => {
+  const basePrice = getCategory(categorySlug).basePrice;
+  const textBonus = text.length * 2;
+  const urgencyBonus = urgencyValue * 100;
+  return basePrice + textBonus + urgencyBonus;
+};
+
+// An existing job being edited
+export interface EditableJob {
+  id: string;
+  title: string;
+  description: string;
+  price: number;
+  urgency: string;
+  location: string;
+  category: string;
+  // null when the deadline should be picked fresh from the urgency (e.g. reposting)
+  dueAt?: string | null;
+}
+
 interface SmartPricingFormProps {
   onSuccess?: () => void;
+  // When set, the form edits this job instead of posting a new one
+  job?: EditableJob;
 }
 
-export function SmartPricingForm({ onSuccess }: SmartPricingFormProps) {
-  const [description, setDescription] = useState("");
-  const [urgency, setUrgency] = useState([2]); // 0-4 scale (Chill to ASAP)
+// Map urgency slider value to text
+const getUrgencyText = (value: number) => URGENCY_LEVELS[value] || "Flexible";
+
+export function SmartPricingForm({ onSuccess, job }: SmartPricingFormProps) {
+  const isEditing = !!job;
+  const [title, setTitle] = useState(job?.title || "");
+  const [description, setDescription] = useState(job?.description || "");
+  const [urgency, setUrgency] = useState([
+    job && URGENCY_LEVELS.includes(job.urgency) ? URGENCY_LEVELS.indexOf(job.urgency) : 2,
+  ]);
   const [isThinking, setIsThinking] = useState(false);
-  const [showPrice, setShowPrice] = useState(false);
-  const [calculatedPrice, setCalculatedPrice] = useState(0);
+  const [showPrice, setShowPrice] = useState(isEditing);
+  const [calculatedPrice, setCalculatedPrice] = useState(job?.price || 0);
   const [isPending, startTransition] = useTransition();
   const [showSuccess, setShowSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [location, setLocation] = useState("");
-  const [category, setCategory] = useState("");
-
-  // Map urgency slider value to text
-  const getUrgencyText = (value: number) => {
-    const urgencyMap = ["Flexible", "This week", "3 days", "Today", "ASAP"];
-    return urgencyMap[value] || "Flexible";
-  };
-
-  // Helper function to calculate price
-  const calculatePrice = (text: string, urgencyValue: number) => {
-    const basePrice = 300;
-    const textBonus = text.length * 2;
-    const urgencyBonus = urgencyValue * 100;
-    return basePrice + textBonus + urgencyBonus;
-  };
+  const [location, setLocation] = useState(job?.location || "");
+  const [category, setCategory] = useState(job?.category || "");
+  // A deadline typed in by hand; null follows the urgency slider
+  const [dueAtOverride, setDueAtOverride] = useState<string | null>(
+    job?.dueAt ? toDateTimeLocalValue(new Date(job.dueAt)) : null
+  );
+
+  const dueAtValue = dueAtOverride ?? toDateTimeLocalValue(getDefaultDueAt(getUrgencyText(urgency[0])));
+
+  // While editing, keep the posted price until the pricing inputs change
+  const keepsPostedPrice = !!job &&
+    description === job.description &&
+    getUrgencyText(urgency[0]) === job.urgency &&
+    category === job.category;
 
   // Debounced price calculation - only for description changes
   useEffect(() => {
@@ -96,11 +118,17 @@ export function SmartPricingForm({ onSuccess }: SmartPricingFormProps) {
       return;
     }
 
+    if (keepsPostedPrice) {
+      setCalculatedPrice(job.price);
+      setShowPrice(true);
+      return;
+    }
+
     setIsThinking(true);
     setShowPrice(false);
 
     const timer = setTimeout(() => {
-      const price = calculatePrice(description, urgency[0]);
+      const price = calculatePrice(description, urgency[0], category);
       setCalculatedPrice(price);
       setIsThinking(false);
       setShowPrice(true);
@@ -109,31 +137,55 @@ export function SmartPricingForm({ onSuccess }: SmartPricingFormProps) {
     return () => clearTimeout(timer);
   }, [description]); // Only depend on description, not urgency
 
-  // Instant recalculation when urgency changes (no loading state)
+  // Instant recalculation when urgency or category changes (no loading state)
   useEffect(() => {
     if (description.length > 0 && showPrice) {
-      const price = calculatePrice(description, urgency[0]);
+      const price = keepsPostedPrice ? job.price : calculatePrice(description, urgency[0], category);
       setCalculatedPrice(price);
     }
-  }, [urgency, description, showPrice]);
+  }, [urgency, description, showPrice, category, keepsPostedPrice, job]);
 
   return (
     <div className="relative bg-white dark:bg-zinc-950 border-0 dark:border dark:border-zinc-800 max-h-[85dvh] flex flex-col shadow-xl overflow-hidden">
       {/* Header */}
       <div className="px-6 sm:px-8 pt-6 sm:pt-8 pb-2 flex-shrink-0">
-        <h2 className="text-2xl font-bold tracking-tight text-zinc-900 dark:text-white">Create a Task</h2>
-        <p className="text-sm text-zinc-500 dark:text-zinc-400 mt-1">Describe what you need and we'll suggest a fair price</p>
+        <h2 className="text-2xl font-bold tracking-tight text-zinc-900 dark:text-white">
+          {isEditing ? "Edit Task" : "Create a Task"}
+        </h2>
+        <p className="text-sm text-zinc-500 dark:text-zinc-400 mt-1">
+          {isEditing
+            ? "Applicants are told if the price or location changes"
+            : "Describe what you need and we'll suggest a fair price"}
+        </p>
       </div>
 
       {/* Scrollable Content */}
       <div className="px-6 py-4 flex-1 overflow-y-auto min-h-0">
+        {/* Title */}
+        <div className="relative mb-3">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Give your task a short title"
+            maxLength={TITLE_MAX_LENGTH}
+            className="w-full h-12 text-base font-semibold border border-zinc-200 dark:border-zinc-700 rounded-xl pl-4 pr-14 focus-visible:ring-1 focus-visible:ring-emerald-500 bg-zinc-50 dark:bg-zinc-800/50 placeholder:text-zinc-400 dark:placeholder:text-zinc-500 placeholder:font-normal text-zinc-900 dark:text-zinc-100"
+          />
+          <span className="absolute right-4 top-1/2 -translate-y-1/2 text-[11px] tabular-nums text-zinc-400">
+            {title.length}/{TITLE_MAX_LENGTH}
+          </span>
+        </div>
+
         {/* Premium Notepad Textarea */}
         <Textarea
           value={description}
           onChange={(e) => setDescription(e.target.value)}
-          placeholder="e.g., I need someone to pick up my parcel from the admin block..."
+          placeholder={getCategory(category).example}
+          maxLength={DESCRIPTION_MAX_LENGTH}
           className="w-full min-h-[100px] text-base font-normal border border-zinc-200 dark:border-zinc-700 rounded-xl p-4 resize-none focus-visible:ring-1 focus-visible:ring-emerald-500 bg-zinc-50 dark:bg-zinc-800/50 placeholder:text-zinc-400 dark:placeholder:text-zinc-500 text-zinc-900 dark:text-zinc-100 leading-relaxed"
         />
+        <p className="text-[11px] text-zinc-400 dark:text-zinc-500 mt-1.5 px-1">
+          Use &quot;- &quot; for lists and paste links - line breaks are kept
+        </p>
 
         {/* Location & Category Row */}
         <div className="mt-4 grid grid-cols-2 gap-3">
@@ -273,7 +325,10 @@ export function SmartPricingForm({ onSuccess }: SmartPricingFormProps) {
                   <div className="px-1">
                     <Slider
                       value={urgency}
-                      onValueChange={setUrgency}
+                      onValueChange={(value) => {
+                        setUrgency(value);
+                        setDueAtOverride(null);
+                      }}
                       min={0}
                       max={4}
                       step={1}
@@ -286,27 +341,65 @@ export function SmartPricingForm({ onSuccess }: SmartPricingFormProps) {
                   </div>
                 </div>
 
+                {/* Deadline - follows the timeline unless set by hand */}
+                <div className="relative space-y-2">
+                  <label
+                    htmlFor="due-at"
+                    className="flex items-center gap-1.5 text-[10px] text-emerald-700/60 dark:text-zinc-500 uppercase tracking-widest font-semibold"
+                  >
+                    <CalendarClock className="h-3 w-3" />
+                    Deadline
+                  </label>
+                  <Input
+                    id="due-at"
+                    type="datetime-local"
+                    value={dueAtValue}
+                    min={toDateTimeLocalValue(new Date())}
+                    onChange={(e) => setDueAtOverride(e.target.value || null)}
+                    className="h-10 rounded-xl bg-white/80 dark:bg-zinc-800/80 border-0 shadow-sm ring-1 ring-emerald-200/80 dark:ring-zinc-700/50 text-sm text-zinc-900 dark:text-zinc-100 focus-visible:ring-2 focus-visible:ring-emerald-500/50"
+                  />
+                </div>
+
                 {/* Submit Button */}
                 <Button
                   size="lg"
                   disabled={isPending}
                   onClick={() => {
+                    const titleError = validateTitle(sanitizeTitle(title));
+                    if (titleError) {
+                      setError(titleError);
+                      return;
+                    }
+
+                    const dueAt = new Date(dueAtValue);
+                    const dueAtError = validateDueAt(dueAt);
+                    if (dueAtError) {
+                      setError(dueAtError);
+                      return;
+                    }
+
                     setError(null);
                     startTransition(async () => {
                       const formData = new FormData();
-                      formData.append("title", description.slice(0, 100));
+                      formData.append("title", title);
                       formData.append("description", description);
                       formData.append("price", calculatedPrice.toString());
                       formData.append("urgency", getUrgencyText(urgency[0]));
                       formData.append("location", location || "Campus");
                       formData.append("category", category || "other");
+                      formData.append("due_at", dueAt.toISOString());
 
-                      const result = await createJob(formData);
+                      const result = job
+                        ? await updateJob(job.id, formData)
+                        : await createJob(formData);
 
                       if (result.success) {
                         setShowSuccess(true);
-                        setDescription("");
-                        setShowPrice(false);
+                        if (!isEditing) {
+                          setTitle("");
+                          setDescription("");
+                          setShowPrice(false);
+                        }
                         setTimeout(() => {
                           setShowSuccess(false);
                           onSuccess?.();
@@ -325,8 +418,10 @@ export function SmartPricingForm({ onSuccess }: SmartPricingFormProps) {
                   {isPending ? (
                     <span className="flex items-center gap-2">
                       <Loader2 className="h-4 w-4 animate-spin" />
-                      Posting...
+                      {isEditing ? "Saving..." : "Posting..."}
                     </span>
+                  ) : isEditing ? (
+                    `Save for Rs. ${calculatedPrice.toLocaleString()}`
                   ) : (
                     `Post for Rs. ${calculatedPrice.toLocaleString()}`
                   )}
@@ -394,10 +489,12 @@ export function SmartPricingForm({ onSuccess }: SmartPricingFormProps) {
                   className="space-y-2"
                 >
                   <h3 className="text-2xl font-bold tracking-tight text-zinc-900 dark:text-white">
-                    Task Posted! 🎉
+                    {isEditing ? "Task Updated!" : "Task Posted! 🎉"}
                   </h3>
                   <p className="text-zinc-500 dark:text-zinc-400 text-sm">
-                    Your task is now live. Helpers will reach out soon!
+                    {isEditing
+                      ? "Your changes are live."
+                      : "Your task is now live. Helpers will reach out soon!"}
                   </p>
                 </motion.div>
 
@@ -0,0 +1,85 @@
+// Chat attachment rules shared by ChatSheet and the chat server action.
+// Keep the limits in sync with the bucket and table in supabase/chat-attachments.sql.
+
+export const ATTACHMENT_BUCKET = "chat-attachments";
+export const ATTACHMENT_MAX_BYTES = 5 * 1024 * 1024;
+export const ATTACHMENT_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+export const ATTACHMENT_ACCEPTED_TYPES = [...ATTACHMENT_IMAGE_TYPES, "application/pdf"];
+export const ATTACHMENT_NAME_MAX_LENGTH = 120;
+
+// Signed URLs for the private bucket; long enough to outlast a chat session
+export const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+// Photos are scaled down to fit this box before upload
+export const ATTACHMENT_IMAGE_MAX_SIDE = 2048;
+
+export interface ChatAttachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  // Signed URL, or null if signing failed
+  url: string | null;
+}
+
+export function isImageAttachment(mimeType: string): boolean {
+  return ATTACHMENT_IMAGE_TYPES.includes(mimeType);
+}
+
+// Returns an error message, or null when the file can be sent
+export function validateAttachmentFile(file: { size: number; type: string }): string | null {
+  if (!ATTACHMENT_ACCEPTED_TYPES.includes(file.type)) {
+    return "Attachments must be a photo (JPEG, PNG, WebP, GIF) or a PDF";
+  }
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return `Attachments must be ${ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB or smaller`;
+  }
+  return null;
+}
+
+// Message text for an attachment sent without a caption, used in previews
+export function getAttachmentLabel(fileName: string, mimeType: string): string {
+  return isImageAttachment(mimeType) ? "📷 Photo" : `📎 ${fileName}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Browser-only: scales a photo down to ATTACHMENT_IMAGE_MAX_SIDE and re-encodes
+ * it as WebP, which also strips EXIF data (including location). GIFs and
+ * PDFs are sent as they are.
+ */
+export async function shrinkImage(file: File): Promise<File> {
+  if (!isImageAttachment(file.type) || file.type === "image/gif") return file;
+
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, ATTACHMENT_IMAGE_MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Couldn't process that image");
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (result) => (result ? resolve(result) : reject(new Error("Couldn't process that image"))),
+      "image/webp",
+      0.85
+    );
+  });
+
+  const baseName = file.name.replace(/\.[^.]+$/, "") || "photo";
+  return new File([blob], `${baseName}.webp`, { type: "image/webp" });
+}
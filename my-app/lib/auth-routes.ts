@@ -0,0 +1,38 @@
+// Route rules shared by the middleware and the login form.
+
+// Pages that need a signed-in user (matched by path prefix)
+export const PROTECTED_ROUTES = ["/my-jobs", "/my-gigs", "/profile", "/moderation"];
+
+// Pages a signed-in user has no reason to see
+export const AUTH_ROUTES = ["/login"];
+
+export const LOGIN_PATH = "/login";
+
+// Query parameter carrying the page to return to after login
+export const NEXT_PARAM = "next";
+
+function matchesRoute(pathname: string, routes: string[]): boolean {
+  return routes.some((route) => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+export function isProtectedRoute(pathname: string): boolean {
+  return matchesRoute(pathname, PROTECTED_ROUTES);
+}
+
+export function isAuthRoute(pathname: string): boolean {
+  return matchesRoute(pathname, AUTH_ROUTES);
+}
+
+/**
+ * Only same-site paths are allowed as a return target, so `next` can't be used
+ * as an open redirect ("//evil.com" and "/\evil.com" are treated as external).
+ */
+export function getSafeNextPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) {
+    return "/";
+  }
+  if (isAuthRoute(next.split(/[?#]/)[0])) {
+    return "/";
+  }
+  return next;
+}
@@ -0,0 +1,80 @@
+// Avatar upload rules shared by ProfileClient and the profile server action.
+// Keep the limits in sync with the bucket settings in supabase/avatars.sql.
+
+export const AVATAR_BUCKET = "avatars";
+export const AVATAR_MAX_BYTES = 2 * 1024 * 1024;
+export const AVATAR_ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// Uploaded avatars are cropped to a square of this size before upload
+export const AVATAR_SIZE = 512;
+
+// Generated fallback used by handle_new_user and when an avatar is removed
+export function getDefaultAvatarUrl(userId: string): string {
+  return `https://api.dicebear.com/7.x/avataaars/svg?seed=${userId}`;
+}
+
+// Returns an error message, or null when the file can be uploaded
+export function validateAvatarFile(file: { size: number; type: string }): string | null {
+  if (!AVATAR_ACCEPTED_TYPES.includes(file.type)) {
+    return "Avatar must be a JPEG, PNG or WebP image";
+  }
+  if (file.size > AVATAR_MAX_BYTES) {
+    return `Avatar must be ${AVATAR_MAX_BYTES / (1024 * 1024)} MB or smaller`;
+  }
+  return null;
+}
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Couldn't read that image"));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Browser-only: center-crops an image to a square and scales it down to AVATAR_SIZE.
+ * Re-encoding also strips EXIF data (including location) before the file leaves the device.
+ */
+export async function cropAvatar(file: File): Promise<Blob> {
+  const image = await loadImage(file);
+  const side = Math.min(image.naturalWidth, image.naturalHeight);
+  const size = Math.min(side, AVATAR_SIZE);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Couldn't process that image");
+  }
+
+  context.drawImage(
+    image,
+    (image.naturalWidth - side) / 2,
+    (image.naturalHeight - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    size,
+    size
+  );
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Couldn't process that image"))),
+      "image/webp",
+      0.9
+    );
+  });
+}
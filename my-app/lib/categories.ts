@@ -0,0 +1,128 @@
+import {
+  UtensilsCrossed,
+  BookOpen,
+  Monitor,
+  Car,
+  ShoppingBag,
+  GraduationCap,
+  Shirt,
+  Printer,
+  Package,
+  MoreHorizontal,
+  type LucideIcon,
+} from "lucide-react";
+
+// Single source of truth for task categories.
+// Slugs must match the task_categories table in supabase/categories.sql.
+
+export const CATEGORY_SLUGS = [
+  "food-delivery",
+  "assignments",
+  "tech-support",
+  "ride-share",
+  "shopping",
+  "tutoring",
+  "laundry",
+  "printing",
+  "moving",
+  "other",
+] as const;
+
+export type CategorySlug = (typeof CATEGORY_SLUGS)[number];
+
+export const DEFAULT_CATEGORY: CategorySlug = "other";
+
+export interface TaskCategory {
+  value: CategorySlug;
+  label: string;
+  icon: LucideIcon;
+  // Pricing hints for the smart pricing form (Rs.)
+  basePrice: number;
+  // Example task shown as the description placeholder
+  example: string;
+}
+
+export const TASK_CATEGORIES: TaskCategory[] = [
+  {
+    value: "food-delivery",
+    label: "Food Delivery",
+    icon: UtensilsCrossed,
+    basePrice: 200,
+    example: "e.g., Bring two shawarmas from the Cafe to Hostel 6...",
+  },
+  {
+    value: "assignments",
+    label: "Assignments",
+    icon: BookOpen,
+    basePrice: 500,
+    example: "e.g., Help me debug my CS101 lab before Friday...",
+  },
+  {
+    value: "tech-support",
+    label: "Tech Support",
+    icon: Monitor,
+    basePrice: 400,
+    example: "e.g., My laptop won't connect to the hostel WiFi...",
+  },
+  {
+    value: "ride-share",
+    label: "Ride Share",
+    icon: Car,
+    basePrice: 300,
+    example: "e.g., Need a ride to Topi bazaar this evening...",
+  },
+  {
+    value: "shopping",
+    label: "Shopping",
+    icon: ShoppingBag,
+    basePrice: 250,
+    example: "e.g., Pick up stationery from the campus shop...",
+  },
+  {
+    value: "tutoring",
+    label: "Tutoring",
+    icon: GraduationCap,
+    basePrice: 600,
+    example: "e.g., Explain Laplace transforms before my quiz...",
+  },
+  {
+    value: "laundry",
+    label: "Laundry",
+    icon: Shirt,
+    basePrice: 250,
+    example: "e.g., Drop my clothes at the laundry and collect them...",
+  },
+  {
+    value: "printing",
+    label: "Printing",
+    icon: Printer,
+    basePrice: 150,
+    example: "e.g., Print and bind my 40-page report at the library...",
+  },
+  {
+    value: "moving",
+    label: "Moving Help",
+    icon: Package,
+    basePrice: 500,
+    example: "e.g., Help me carry boxes from Hostel 2 to Hostel 9...",
+  },
+  {
+    value: "other",
+    label: "Other",
+    icon: MoreHorizontal,
+    basePrice: 300,
+    example: "e.g., I need someone to pick up my parcel from the admin block...",
+  },
+];
+
+export function isCategorySlug(value: string): value is CategorySlug {
+  return (CATEGORY_SLUGS as readonly string[]).includes(value);
+}
+
+// Look up a category, falling back to "Other" for unknown or legacy slugs
+export function getCategory(value: string | null | undefined): TaskCategory {
+  return (
+    TASK_CATEGORIES.find((c) => c.value === value) ||
+    TASK_CATEGORIES.find((c) => c.value === DEFAULT_CATEGORY)!
+  );
+}
@@ -0,0 +1,207 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ATTACHMENT_BUCKET, ATTACHMENT_URL_TTL_SECONDS, type ChatAttachment } from "@/lib/attachments";
+import { PREVIEW_MESSAGE_TYPES, getMessagePreview, isPreviewMessageType, parseChatEvent, type ChatEvent, type MessagePreviewRow, type MessageType } from "@/lib/system-messages";
+
+// Cursor-paginated chat history for ChatSheet, read from messages_with_sender
+// (supabase/message-history.sql). Pages are fetched newest first and returned
+// oldest first, ready to prepend above what's already on screen.
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+export interface ChatMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  createdAt: string;
+  senderEmail?: string;
+  isRead: boolean;
+  messageType: MessageType;
+  // Set for status changes, offers and system notices
+  event: ChatEvent | null;
+  attachments: ChatAttachment[];
+}
+
+export interface MessagePage {
+  messages: ChatMessage[];
+  // Whether anything older is left to load
+  hasMore: boolean;
+}
+
+export const MESSAGE_COLUMNS =
+  "id, conversation_id, sender_id, content, is_read, created_at, sender_email, message_type, payload";
+
+// Row shape selected from messages_with_sender
+interface MessageRow {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  is_read: boolean;
+  created_at: string;
+  sender_email: string | null;
+  message_type: MessageType | null;
+  payload: unknown;
+}
+
+export function mapMessageRow(row: MessageRow): ChatMessage {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    senderId: row.sender_id,
+    content: row.content,
+    createdAt: row.created_at,
+    senderEmail: row.sender_email ?? undefined,
+    isRead: row.is_read,
+    messageType: row.message_type ?? "user",
+    event: parseChatEvent(row.message_type, row.payload),
+    attachments: [],
+  };
+}
+
+// Row shape selected from message_attachments
+interface AttachmentRow {
+  id: string;
+  message_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+}
+
+/**
+ * Fill in the attachments of a batch of messages, with signed URLs for the
+ * private bucket. Messages without files are returned unchanged.
+ */
+export async function withAttachments(
+  supabase: SupabaseClient,
+  messages: ChatMessage[]
+): Promise<ChatMessage[]> {
+  if (messages.length === 0) return messages;
+
+  const { data, error } = await supabase
+    .from("message_attachments")
+    .select("id, message_id, storage_path, file_name, mime_type, size_bytes")
+    .in("message_id", messages.map((m) => m.id))
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  const rows = (data || []) as AttachmentRow[];
+  if (rows.length === 0) return messages;
+
+  const { data: signed } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrls(rows.map((r) => r.storage_path), ATTACHMENT_URL_TTL_SECONDS);
+
+  const urlMap = new Map((signed || []).map((s) => [s.path, s.signedUrl]));
+  const byMessage = new Map<string, ChatAttachment[]>();
+
+  for (const row of rows) {
+    const list = byMessage.get(row.message_id) || [];
+    list.push({
+      id: row.id,
+      fileName: row.file_name,
+      mimeType: row.mime_type,
+      sizeBytes: row.size_bytes,
+      url: urlMap.get(row.storage_path) || null,
+    });
+    byMessage.set(row.message_id, list);
+  }
+
+  return messages.map((m) => {
+    const attachments = byMessage.get(m.id);
+    return attachments ? { ...m, attachments } : m;
+  });
+}
+
+/**
+ * Load the page of messages just before `before` (the oldest message on
+ * screen), or the latest page when it's null. id breaks ties between
+ * messages written in the same transaction, which share a created_at.
+ */
+export async function fetchMessagePage(
+  supabase: SupabaseClient,
+  conversationId: string,
+  before: ChatMessage | null
+): Promise<MessagePage> {
+  let query = supabase
+    .from("messages_with_sender")
+    .select(MESSAGE_COLUMNS)
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    // One extra row tells us whether there's another page
+    .limit(MESSAGE_PAGE_SIZE + 1);
+
+  if (before) {
+    query = query.or(
+      `created_at.lt."${before.createdAt}",and(created_at.eq."${before.createdAt}",id.lt.${before.id})`
+    );
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  const rows = (data || []) as MessageRow[];
+
+  const messages = rows.slice(0, MESSAGE_PAGE_SIZE).reverse().map(mapMessageRow);
+
+  return {
+    messages: await withAttachments(supabase, messages),
+    hasMore: rows.length > MESSAGE_PAGE_SIZE,
+  };
+}
+
+export interface MessagePreview {
+  text: string;
+  createdAt: string;
+  senderId: string;
+}
+
+const PREVIEW_COLUMNS = "content, created_at, sender_id, message_type, payload";
+
+interface PreviewRow extends MessagePreviewRow {
+  created_at: string;
+}
+
+/**
+ * The message that stands in for a conversation in a list: the latest thing
+ * either side said or offered, or the latest notice when that's all there is.
+ * Null for an empty conversation.
+ */
+export async function fetchLastMessagePreview(
+  supabase: SupabaseClient,
+  conversationId: string,
+  userId: string | null
+): Promise<MessagePreview | null> {
+  const { data: latest } = await supabase
+    .from("messages")
+    .select(PREVIEW_COLUMNS)
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle<PreviewRow>();
+
+  if (!latest) return null;
+
+  let row = latest;
+  if (!isPreviewMessageType(latest.message_type)) {
+    const { data: said } = await supabase
+      .from("messages")
+      .select(PREVIEW_COLUMNS)
+      .eq("conversation_id", conversationId)
+      .in("message_type", PREVIEW_MESSAGE_TYPES)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle<PreviewRow>();
+    if (said) row = said;
+  }
+
+  return {
+    text: getMessagePreview(row, userId),
+    createdAt: row.created_at,
+    senderId: row.sender_id,
+  };
+}
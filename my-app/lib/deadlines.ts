@@ -0,0 +1,63 @@
+// Deadlines derived from the urgency picked in the job form.
+// Keep the durations in sync with urgency_interval() in supabase/job-deadlines.sql.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const URGENCY_DURATION_HOURS: Record<string, number> = {
+  ASAP: 2,
+  Today: 12,
+  "3 days": 72,
+  "This week": 168,
+  Flexible: 336,
+};
+
+// The furthest out a poster can push a deadline by hand
+export const MAX_DEADLINE_DAYS = 60;
+
+// Default deadline for an urgency, counted from `from` (now by default)
+export function getDefaultDueAt(urgency: string, from: Date = new Date()): Date {
+  const hours = URGENCY_DURATION_HOURS[urgency] ?? URGENCY_DURATION_HOURS.Flexible;
+  return new Date(from.getTime() + hours * HOUR_MS);
+}
+
+// Returns an error message, or null when the deadline is acceptable
+export function validateDueAt(dueAt: Date, now: Date = new Date()): string | null {
+  if (Number.isNaN(dueAt.getTime())) {
+    return "Invalid deadline";
+  }
+  if (dueAt.getTime() <= now.getTime()) {
+    return "Deadline must be in the future";
+  }
+  if (dueAt.getTime() > now.getTime() + MAX_DEADLINE_DAYS * 24 * HOUR_MS) {
+    return `Deadline must be within ${MAX_DEADLINE_DAYS} days`;
+  }
+  return null;
+}
+
+// In-progress work past its deadline
+export function isOverdue(status: string | null | undefined, dueAt: string | null | undefined): boolean {
+  return status === "in_progress" && !!dueAt && new Date(dueAt).getTime() < Date.now();
+}
+
+// "Due in 3h", "Due in 2d", "Overdue by 5h"
+export function formatDueLabel(dueAt: string): string {
+  const diffMs = new Date(dueAt).getTime() - Date.now();
+  const absHours = Math.abs(diffMs) / HOUR_MS;
+
+  let amount: string;
+  if (absHours < 1) {
+    amount = `${Math.max(1, Math.round(absHours * 60))}m`;
+  } else if (absHours < 48) {
+    amount = `${Math.round(absHours)}h`;
+  } else {
+    amount = `${Math.round(absHours / 24)}d`;
+  }
+
+  return diffMs >= 0 ? `Due in ${amount}` : `Overdue by ${amount}`;
+}
+
+// Value for an <input type="datetime-local"> in the browser's timezone
+export function toDateTimeLocalValue(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
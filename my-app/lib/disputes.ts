@@ -0,0 +1,46 @@
+// Dispute reasons, outcomes and limits shared by the dispute dialog,
+// the moderation queue and the dispute server actions.
+// Keep them in sync with the CHECKs in supabase/disputes.sql.
+
+export type DisputeReason = "not_completed" | "poor_quality" | "not_paid" | "no_show" | "other";
+
+export type DisputeOutcome = "refund" | "release" | "split";
+
+export type DisputeStatus = "open" | "resolved";
+
+export const DISPUTE_REASONS: { value: DisputeReason; label: string }[] = [
+  { value: "not_completed", label: "The work wasn't done" },
+  { value: "poor_quality", label: "The work was done badly" },
+  { value: "not_paid", label: "I wasn't paid" },
+  { value: "no_show", label: "They stopped responding" },
+  { value: "other", label: "Something else" },
+];
+
+export const DISPUTE_OUTCOMES: { value: DisputeOutcome; label: string; description: string }[] = [
+  { value: "refund", label: "Refund", description: "The poster gets the full price back" },
+  { value: "release", label: "Release", description: "The worker gets the full price" },
+  { value: "split", label: "Split", description: "The price is divided between them" },
+];
+
+export const EVIDENCE_MAX_LENGTH = 2000;
+export const RESOLUTION_NOTE_MAX_LENGTH = 1000;
+
+export function isDisputeReason(value: string): value is DisputeReason {
+  return DISPUTE_REASONS.some((r) => r.value === value);
+}
+
+export function isDisputeOutcome(value: string): value is DisputeOutcome {
+  return DISPUTE_OUTCOMES.some((o) => o.value === value);
+}
+
+export function getDisputeReasonLabel(reason: string): string {
+  return DISPUTE_REASONS.find((r) => r.value === reason)?.label ?? "Something else";
+}
+
+// Returns an error message, or null when the split can be submitted
+export function validateWorkerShare(share: number, price: number): string | null {
+  if (!Number.isInteger(share) || share <= 0 || share >= price) {
+    return `The worker's share must be between Rs. 1 and Rs. ${price - 1}`;
+  }
+  return null;
+}
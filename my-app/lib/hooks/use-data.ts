@@ -1,25 +1,21 @@
+import { useMemo } from "react";
 import useSWR from "swr";
+import useSWRInfinite from "swr/infinite";
 import { createClient } from "@/utils/supabase/client";
+import {
+  FEED_PAGE_SIZE,
+  fetchJobsPage,
+  type FeedJob,
+  type FeedPage,
+  type FilterState,
+} from "@/lib/job-search";
+import type { NotificationKind } from "@/lib/notifications";
+import type { JobActor, JobEvent } from "@/lib/job-transitions";
 
 // Types
-export type JobStatus = "open" | "in_progress" | "completed" | "cancelled";
+export type JobStatus = "open" | "in_progress" | "pending_review" | "completed" | "cancelled" | "expired";
 
-export interface Job {
-  id: string;
-  title: string;
-  description?: string;
-  price: number;
-  urgency: string;
-  location: string;
-  category?: string;
-  status?: JobStatus;
-  assignedTo?: string | null;
-  userId: string;
-  studentName: string;
-  avatarUrl: string;
-  timeAgo: string;
-  createdAt?: string | null;
-}
+export type Job = FeedJob;
 
 export interface Profile {
   id: string;
@@ -32,76 +28,110 @@ export interface Profile {
   created_at: string;
 }
 
-// Supabase client singleton
-const supabase = createClient();
+export interface Notification {
+  id: string;
+  kind: NotificationKind;
+  actorId: string | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  actorAvatar: string | null;
+  jobId: string | null;
+  jobTitle: string | null;
+  conversationId: string | null;
+  body: string | null;
+  data: Record<string, unknown>;
+  isRead: boolean;
+  createdAt: string;
+}
 
-// Helper function to convert timestamp to "time ago" format
-function getTimeAgo(timestamp: string): string {
-  const now = new Date();
-  const past = new Date(timestamp);
-  const diffInSeconds = Math.floor((now.getTime() - past.getTime()) / 1000);
-
-  if (diffInSeconds < 60) return "Just now";
-  const diffInMinutes = Math.floor(diffInSeconds / 60);
-  if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
-  const diffInHours = Math.floor(diffInMinutes / 60);
-  if (diffInHours < 24) return `${diffInHours}h ago`;
-  const diffInDays = Math.floor(diffInHours / 24);
-  if (diffInDays < 7) return `${diffInDays}d ago`;
-  const diffInWeeks = Math.floor(diffInDays / 7);
-  return `${diffInWeeks}w ago`;
+export type OfferStatus =
+  | "pending"
+  | "countered"
+  | "accepted"
+  | "rejected"
+  | "withdrawn"
+  | "superseded";
+
+export interface Offer {
+  id: string;
+  jobId: string;
+  workerId: string;
+  conversationId: string | null;
+  price: number;
+  eta: string | null;
+  note: string | null;
+  status: OfferStatus;
+  counterPrice: number | null;
+  counterNote: string | null;
+  createdAt: string;
+  workerName: string | null;
+  workerEmail: string | null;
+  workerAvatar: string | null;
 }
 
-// Extract registration number from GIKI email
-function extractRegNumber(email: string | null): string {
-  if (!email) return "Student";
-  const match = email.match(/[a-z]?(\d+)@/i);
-  return match ? match[1] : "Student";
+// Totals from the payment ledger (see the wallets view in supabase/ledger.sql)
+export interface Wallet {
+  balance: number;
+  earned: number;
+  pendingEarnings: number;
+  spent: number;
+  held: number;
 }
 
+const EMPTY_WALLET: Wallet = {
+  balance: 0,
+  earned: 0,
+  pendingEarnings: 0,
+  spent: 0,
+  held: 0,
+};
+
+// Supabase client singleton
+const supabase = createClient();
+
 /**
- * Hook to fetch open/in_progress jobs for the home feed
+ * Hook to page through the home feed via the search_jobs RPC.
+ * `initial` is the server-rendered first page and the filters it was fetched with.
  */
-export function useJobs() {
-  return useSWR<Job[]>(
-    "jobs:feed",
-    async () => {
-      const { data: jobsData, error } = await supabase
-        .from("jobs_with_poster")
-        .select("*")
-        .in("status", ["open", "in_progress"])
-        .order("created_at", { ascending: false });
+export function useJobs(
+  filters: FilterState,
+  initial?: { filters: FilterState; page: FeedPage }
+) {
+  const filterKey = JSON.stringify(filters);
+  const isInitialFilters = !!initial && filterKey === JSON.stringify(initial.filters);
 
-      if (error) throw error;
-
-      return (jobsData || []).map((job) => ({
-        id: job.id,
-        title: job.title,
-        description: job.description || "",
-        price: job.price,
-        urgency: job.urgency || "Flexible",
-        location: job.location || "Campus",
-        category: job.category || "",
-        status: job.status || "open",
-        assignedTo: job.assigned_to || null,
-        userId: job.user_id || "",
-        studentName: job.student_name || extractRegNumber(job.student_email),
-        avatarUrl:
-          job.avatar_url ||
-          (job.user_id
-            ? `https://api.dicebear.com/7.x/avataaars/svg?seed=${job.user_id}`
-            : "https://api.dicebear.com/7.x/avataaars/svg?seed=anonymous"),
-        timeAgo: job.created_at ? getTimeAgo(job.created_at) : "Recently",
-        createdAt: job.created_at || null,
-      }));
+  const result = useSWRInfinite<FeedPage>(
+    (pageIndex, previousPage: FeedPage | null) => {
+      // Stop once the previous page came back short
+      if (previousPage && previousPage.jobs.length < FEED_PAGE_SIZE) return null;
+      return ["jobs:feed", filterKey, pageIndex];
     },
+    ([, key, pageIndex]: [string, string, number]) =>
+      fetchJobsPage(supabase, JSON.parse(key) as FilterState, pageIndex),
     {
-      // Revalidate every 30 seconds for fresh data
-      refreshInterval: 30000,
-      // Keep showing stale data while revalidating
+      // Only the filter set rendered on the server has a fallback page
+      fallbackData: isInitialFilters ? [initial.page] : undefined,
+      // Keep the current results on screen while a new filter set loads
+      keepPreviousData: true,
+      revalidateFirstPage: false,
       revalidateOnFocus: true,
     }
   );
+
+  const pages = result.data;
+  const jobs = useMemo(() => (pages || []).flatMap((page) => page.jobs), [pages]);
+  const lastPage = pages?.[pages.length - 1];
+  const total = lastPage?.total ?? 0;
+
+  return {
+    ...result,
+    jobs,
+    total,
+    hasMore: !!lastPage && lastPage.jobs.length === FEED_PAGE_SIZE && jobs.length < total,
+    isLoadingMore:
+      result.isLoading ||
+      (result.size > 0 && typeof result.data?.[result.size - 1] === "undefined"),
+  };
 }
 
 /**
@@ -134,9 +164,10 @@ export function useMyJobs(userId: string | null) {
       const jobsWithCounts = await Promise.all(
         (jobsData || []).map(async (job) => {
           const { count } = await supabase
-            .from("conversations")
+            .from("applications")
             .select("*", { count: "exact", head: true })
-            .eq("job_id", job.id);
+            .eq("job_id", job.id)
+            .neq("status", "withdrawn");
 
           return {
             id: job.id,
@@ -150,6 +181,8 @@ export function useMyJobs(userId: string | null) {
             assigned_to: job.assigned_to,
             assigned_name: job.assigned_name,
             created_at: job.created_at,
+            due_at: job.due_at,
+            is_overdue: !!job.is_overdue,
             applicant_count: count || 0,
             hasRated: ratedJobIds.has(job.id),
           };
@@ -204,6 +237,8 @@ export function useMyGigs(userId: string | null) {
         poster_avatar: job.avatar_url,
         assigned_at: job.updated_at || job.created_at,
         created_at: job.created_at,
+        due_at: job.due_at,
+        is_overdue: !!job.is_overdue,
         hasRated: ratedJobIds.has(job.id),
       }));
     },
@@ -213,6 +248,38 @@ export function useMyGigs(userId: string | null) {
   );
 }
 
+/**
+ * Hook to fetch the current user's wallet totals from the ledger
+ */
+export function useWallet(userId: string | null) {
+  return useSWR<Wallet>(
+    userId ? `wallet:${userId}` : null,
+    async () => {
+      if (!userId) return EMPTY_WALLET;
+
+      const { data, error } = await supabase
+        .from("wallets")
+        .select("balance, earned, pending_earnings, spent, held")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return EMPTY_WALLET;
+
+      return {
+        balance: data.balance,
+        earned: data.earned,
+        pendingEarnings: data.pending_earnings,
+        spent: data.spent,
+        held: data.held,
+      };
+    },
+    {
+      revalidateOnFocus: true,
+    }
+  );
+}
+
 /**
  * Hook to get the current authenticated user
  */
@@ -273,3 +340,127 @@ export function useUnreadNotifications(userId: string | null) {
     }
   );
 }
+
+/**
+ * Hook to fetch the latest notifications for the current user
+ */
+export function useNotifications(userId: string | null, limit = 30) {
+  return useSWR<Notification[]>(
+    userId ? `notifications:list:${userId}` : null,
+    async () => {
+      if (!userId) return [];
+
+      const { data, error } = await supabase
+        .from("notifications_with_details")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return (data || []).map((n) => ({
+        id: n.id,
+        kind: n.kind as NotificationKind,
+        actorId: n.actor_id,
+        actorName: n.actor_name,
+        actorEmail: n.actor_email,
+        actorAvatar: n.actor_avatar,
+        jobId: n.job_id,
+        jobTitle: n.job_title,
+        conversationId: n.conversation_id,
+        body: n.body,
+        data: n.data || {},
+        isRead: n.is_read,
+        createdAt: n.created_at,
+      }));
+    },
+    {
+      revalidateOnFocus: true,
+    }
+  );
+}
+
+/**
+ * Hook to fetch offers on a job, newest first.
+ * Pass a workerId to only load that worker's offers.
+ */
+export function useOffers(jobId: string | null, workerId?: string | null) {
+  return useSWR<Offer[]>(
+    jobId ? `offers:${jobId}:${workerId || "all"}` : null,
+    async () => {
+      if (!jobId) return [];
+
+      let query = supabase
+        .from("offers_with_worker")
+        .select("*")
+        .eq("job_id", jobId)
+        .order("created_at", { ascending: false });
+
+      if (workerId) {
+        query = query.eq("worker_id", workerId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return (data || []).map((o) => ({
+        id: o.id,
+        jobId: o.job_id,
+        workerId: o.worker_id,
+        conversationId: o.conversation_id,
+        price: o.price,
+        eta: o.eta,
+        note: o.note,
+        status: o.status as OfferStatus,
+        counterPrice: o.counter_price,
+        counterNote: o.counter_note,
+        createdAt: o.created_at,
+        workerName: o.worker_name,
+        workerEmail: o.worker_email,
+        workerAvatar: o.worker_avatar,
+      }));
+    },
+    {
+      revalidateOnFocus: true,
+    }
+  );
+}
+
+/**
+ * Hook to fetch a job's status history, oldest first.
+ * Only the job's parties get rows back (see job_events in supabase/job-events.sql).
+ */
+export function useJobEvents(jobId: string | null) {
+  return useSWR<JobEvent[]>(
+    jobId ? `job-events:${jobId}` : null,
+    async () => {
+      if (!jobId) return [];
+
+      const { data, error } = await supabase
+        .from("job_events_with_actor")
+        .select("*")
+        .eq("job_id", jobId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map((e) => ({
+        id: e.id,
+        fromStatus: e.from_status as JobStatus | null,
+        toStatus: e.to_status as JobStatus,
+        actorRole: e.actor_role as JobActor,
+        actorId: e.actor_id,
+        actorName: e.actor_name,
+        actorEmail: e.actor_email,
+        workerName: e.worker_name,
+        workerEmail: e.worker_email,
+        note: e.note,
+        createdAt: e.created_at,
+      }));
+    },
+    {
+      revalidateOnFocus: true,
+    }
+  );
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { createClient } from "@/utils/supabase/client";
+import { touchLastSeen } from "@/app/actions/chat";
+import { LAST_SEEN_HEARTBEAT_MS, ONLINE_CHANNEL } from "@/lib/presence";
+
+const supabase = createClient();
+
+/**
+ * Join the app-wide presence channel as the current user and return the ids of
+ * everyone currently online. Also keeps profiles.last_seen_at fresh while the
+ * page is open. Mount it once per page.
+ */
+export function useOnlineUsers(userId: string | null): Set<string> {
+  const [onlineIds, setOnlineIds] = useState<Set<string>>(() => new Set());
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase.channel(ONLINE_CHANNEL, {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        setOnlineIds(new Set(Object.keys(channel.presenceState())));
+      })
+      .subscribe(async (status) => {
+        if (status === "SUBSCRIBED") {
+          await channel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    touchLastSeen();
+    const heartbeat = setInterval(touchLastSeen, LAST_SEEN_HEARTBEAT_MS);
+
+    return () => {
+      clearInterval(heartbeat);
+      touchLastSeen();
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  return onlineIds;
+}
@@ -0,0 +1,255 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Shared between the server-rendered first page (app/page.tsx) and the
+// client-side infinite feed (useJobs) so both hit search_jobs the same way.
+
+export type JobStatus = "open" | "in_progress" | "pending_review" | "completed" | "cancelled" | "expired";
+
+export interface FilterState {
+  search: string;
+  category: string;
+  urgency: string;
+  location: string;
+  minPrice: number;
+  maxPrice: number;
+  sortBy: string;
+}
+
+// Upper bound of the price slider - anything at the bound means "no max"
+export const MAX_PRICE_FILTER = 10000;
+
+export const defaultFilters: FilterState = {
+  search: "",
+  category: "",
+  urgency: "",
+  location: "",
+  minPrice: 0,
+  maxPrice: MAX_PRICE_FILTER,
+  sortBy: "newest",
+};
+
+// Sort keys understood by search_jobs
+const SORT_KEYS = ["newest", "oldest", "price_low", "price_high", "deadline"];
+
+// Older shared links used "urgency" before sorting moved to real deadlines
+const LEGACY_SORT_KEYS: Record<string, string> = { urgency: "deadline" };
+
+// Query string keys for each filter - short so shared links stay readable
+const FILTER_PARAMS = {
+  search: "q",
+  category: "category",
+  urgency: "urgency",
+  location: "location",
+  minPrice: "min",
+  maxPrice: "max",
+  sortBy: "sort",
+} as const;
+
+type SearchParamsInput =
+  | URLSearchParams
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | undefined>;
+
+function readParam(params: SearchParamsInput, key: string): string {
+  if (typeof params.get === "function") {
+    return (params as { get(name: string): string | null }).get(key) ?? "";
+  }
+  const value = (params as Record<string, string | string[] | undefined>)[key];
+  return (Array.isArray(value) ? value[0] : value) ?? "";
+}
+
+function readPrice(raw: string, fallback: number): number {
+  const value = parseInt(raw, 10);
+  if (Number.isNaN(value)) return fallback;
+  return Math.min(Math.max(value, 0), MAX_PRICE_FILTER);
+}
+
+/**
+ * Parse filters from the query string (server searchParams or client useSearchParams).
+ * Unknown or malformed values fall back to the defaults.
+ */
+export function parseFilterParams(params: SearchParamsInput): FilterState {
+  const rawSort = readParam(params, FILTER_PARAMS.sortBy);
+  const sortBy = LEGACY_SORT_KEYS[rawSort] || rawSort;
+  const minPrice = readPrice(readParam(params, FILTER_PARAMS.minPrice), defaultFilters.minPrice);
+  const maxPrice = readPrice(readParam(params, FILTER_PARAMS.maxPrice), defaultFilters.maxPrice);
+
+  return {
+    ...defaultFilters,
+    search: readParam(params, FILTER_PARAMS.search),
+    category: readParam(params, FILTER_PARAMS.category),
+    urgency: readParam(params, FILTER_PARAMS.urgency),
+    location: readParam(params, FILTER_PARAMS.location),
+    minPrice: Math.min(minPrice, maxPrice),
+    maxPrice: Math.max(minPrice, maxPrice),
+    sortBy: SORT_KEYS.includes(sortBy) ? sortBy : defaultFilters.sortBy,
+  };
+}
+
+/**
+ * Serialize filters into a query string, leaving out anything at its default
+ * so the unfiltered feed stays at a clean "/".
+ */
+export function serializeFilters(filters: FilterState): string {
+  const params = new URLSearchParams();
+
+  if (filters.search) params.set(FILTER_PARAMS.search, filters.search);
+  if (filters.category) params.set(FILTER_PARAMS.category, filters.category);
+  if (filters.urgency) params.set(FILTER_PARAMS.urgency, filters.urgency);
+  if (filters.location) params.set(FILTER_PARAMS.location, filters.location);
+  if (filters.minPrice > defaultFilters.minPrice) {
+    params.set(FILTER_PARAMS.minPrice, String(filters.minPrice));
+  }
+  if (filters.maxPrice < defaultFilters.maxPrice) {
+    params.set(FILTER_PARAMS.maxPrice, String(filters.maxPrice));
+  }
+  if (filters.sortBy && filters.sortBy !== defaultFilters.sortBy) {
+    params.set(FILTER_PARAMS.sortBy, filters.sortBy);
+  }
+
+  return params.toString();
+}
+
+// Jobs per page of the home feed
+export const FEED_PAGE_SIZE = 12;
+
+// Statuses shown on the home feed
+export const FEED_STATUSES: JobStatus[] = ["open", "in_progress"];
+
+export interface FeedJob {
+  id: string;
+  title: string;
+  description?: string;
+  price: number;
+  urgency: string;
+  location: string;
+  category?: string;
+  status?: JobStatus;
+  assignedTo?: string | null;
+  userId: string;
+  studentName: string;
+  avatarUrl: string;
+  timeAgo: string;
+  createdAt?: string | null;
+  dueAt?: string | null;
+}
+
+export interface FeedPage {
+  jobs: FeedJob[];
+  total: number;
+}
+
+// Row shape returned by the search_jobs RPC (supabase/job-search.sql)
+interface SearchJobsRow {
+  id: string;
+  title: string;
+  description: string | null;
+  price: number;
+  urgency: string | null;
+  location: string | null;
+  category: string | null;
+  status: JobStatus | null;
+  created_at: string | null;
+  user_id: string | null;
+  student_name: string | null;
+  student_email: string | null;
+  avatar_url: string | null;
+  poster_rating: number | null;
+  assigned_to: string | null;
+  due_at: string | null;
+  total_count: number;
+}
+
+// Helper function to convert timestamp to "time ago" format
+function getTimeAgo(timestamp: string): string {
+  const now = new Date();
+  const past = new Date(timestamp);
+  const diffInSeconds = Math.floor((now.getTime() - past.getTime()) / 1000);
+
+  if (diffInSeconds < 60) return "Just now";
+  const diffInMinutes = Math.floor(diffInSeconds / 60);
+  if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+  const diffInHours = Math.floor(diffInMinutes / 60);
+  if (diffInHours < 24) return `${diffInHours}h ago`;
+  const diffInDays = Math.floor(diffInHours / 24);
+  if (diffInDays < 7) return `${diffInDays}d ago`;
+  const diffInWeeks = Math.floor(diffInDays / 7);
+  return `${diffInWeeks}w ago`;
+}
+
+// Extract registration number from GIKI email (e.g., u2023446@giki.edu.pk -> 2023446)
+function extractRegNumber(email: string | null | undefined): string {
+  if (!email) return "Student";
+  const match = email.match(/[a-z]?(\d+)@/i);
+  return match ? match[1] : "Student";
+}
+
+/**
+ * Serialize UI filter state into search_jobs arguments.
+ * Empty strings and the slider bounds become NULL so the RPC skips them.
+ */
+export function toSearchJobsArgs(filters: FilterState, pageIndex: number) {
+  return {
+    search_query: filters.search.trim() || null,
+    filter_category: filters.category || null,
+    filter_urgency: filters.urgency || null,
+    filter_location: filters.location || null,
+    filter_statuses: FEED_STATUSES,
+    min_price: filters.minPrice > 0 ? filters.minPrice : null,
+    max_price: filters.maxPrice < MAX_PRICE_FILTER ? filters.maxPrice : null,
+    sort_by: filters.sortBy || "newest",
+    page_limit: FEED_PAGE_SIZE,
+    page_offset: pageIndex * FEED_PAGE_SIZE,
+  };
+}
+
+// Transform a search_jobs row to the UI format used by JobCard / ChatSheet
+export function mapSearchJobRow(job: SearchJobsRow): FeedJob {
+  return {
+    id: job.id,
+    title: job.title,
+    description: job.description || "",
+    price: job.price,
+    urgency: job.urgency || "Flexible",
+    location: job.location || "Campus",
+    category: job.category || "",
+    status: job.status || "open",
+    assignedTo: job.assigned_to || null,
+    userId: job.user_id || "",
+    // Use display name if set, otherwise fall back to roll number from email
+    studentName: job.student_name || extractRegNumber(job.student_email),
+    avatarUrl:
+      job.avatar_url ||
+      (job.user_id
+        ? `https://api.dicebear.com/7.x/avataaars/svg?seed=${job.user_id}`
+        : "https://api.dicebear.com/7.x/avataaars/svg?seed=anonymous"),
+    timeAgo: job.created_at ? getTimeAgo(job.created_at) : "Recently",
+    createdAt: job.created_at || null,
+    dueAt: job.due_at || null,
+  };
+}
+
+/**
+ * Fetch one page of the home feed through the search_jobs RPC.
+ * Works with both the server and the browser Supabase client.
+ */
+export async function fetchJobsPage(
+  supabase: SupabaseClient,
+  filters: FilterState,
+  pageIndex: number
+): Promise<FeedPage> {
+  const { data, error } = await supabase.rpc(
+    "search_jobs",
+    toSearchJobsArgs(filters, pageIndex)
+  );
+
+  if (error) throw error;
+
+  const rows = (data || []) as SearchJobsRow[];
+
+  return {
+    jobs: rows.map(mapSearchJobRow),
+    // total_count is repeated on every row; an empty page means nothing left
+    total: rows.length > 0 ? Number(rows[0].total_count) : pageIndex * FEED_PAGE_SIZE,
+  };
+}
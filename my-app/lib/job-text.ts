@@ -0,0 +1,147 @@
+// Title and description rules shared by the job form, the server actions and the UI.
+// Descriptions support a small markdown subset: "-" / "1." lists, [links](https://...),
+// bare URLs and line breaks. Everything else is shown as plain text.
+
+export const TITLE_MIN_LENGTH = 5;
+export const TITLE_MAX_LENGTH = 80;
+export const DESCRIPTION_MAX_LENGTH = 2000;
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "link"; text: string; href: string };
+
+export type DescriptionBlock =
+  | { type: "paragraph"; lines: InlineNode[][] }
+  | { type: "list"; ordered: boolean; items: InlineNode[][] };
+
+// [label](https://url) or a bare http(s) URL (trailing punctuation excluded)
+const LINK_PATTERN = /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)])/gi;
+const BULLET_PATTERN = /^\s*[-*•]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+export function validateTitle(title: string): string | null {
+  if (title.length < TITLE_MIN_LENGTH) {
+    return `Title must be at least ${TITLE_MIN_LENGTH} characters`;
+  }
+  if (title.length > TITLE_MAX_LENGTH) {
+    return `Title must be ${TITLE_MAX_LENGTH} characters or less`;
+  }
+  return null;
+}
+
+export function validateDescription(description: string): string | null {
+  if (description.length > DESCRIPTION_MAX_LENGTH) {
+    return `Description must be ${DESCRIPTION_MAX_LENGTH} characters or less`;
+  }
+  return null;
+}
+
+// Titles are a single plain line
+export function sanitizeTitle(title: string): string {
+  return title.replace(/\s+/g, " ").trim();
+}
+
+// Keep newlines and tabs, drop every other control character
+function stripControlCharacters(text: string): string {
+  return Array.from(text)
+    .filter((c) => {
+      const code = c.charCodeAt(0);
+      return c === "\n" || c === "\t" || (code >= 32 && code !== 127);
+    })
+    .join("");
+}
+
+/**
+ * Server-side cleanup before a description is stored.
+ * Control characters are dropped and links are limited to http(s). Angle
+ * brackets are left alone: descriptions render as text, never as HTML.
+ */
+export function sanitizeDescription(description: string): string {
+  return stripControlCharacters(description.replace(/\r\n?/g, "\n"))
+    .replace(/\[([^\]\n]*)\]\((?!https?:\/\/)[^\s]*\)/gi, "$1")
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function parseInline(line: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of line.matchAll(LINK_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      nodes.push({ type: "text", text: line.slice(lastIndex, index) });
+    }
+
+    const href = match[2] || match[3];
+    nodes.push({ type: "link", text: match[1] || href, href });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < line.length) {
+    nodes.push({ type: "text", text: line.slice(lastIndex) });
+  }
+
+  return nodes;
+}
+
+// Split a description into paragraphs and lists
+export function parseDescription(description: string): DescriptionBlock[] {
+  const blocks: DescriptionBlock[] = [];
+  let current: DescriptionBlock | null = null;
+
+  for (const line of description.split("\n")) {
+    if (!line.trim()) {
+      current = null;
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    const numbered = bullet ? null : line.match(NUMBERED_PATTERN);
+
+    if (bullet || numbered) {
+      const ordered = !!numbered;
+      if (current?.type !== "list" || current.ordered !== ordered) {
+        current = { type: "list", ordered, items: [] };
+        blocks.push(current);
+      }
+      current.items.push(parseInline((bullet || numbered)![1]));
+      continue;
+    }
+
+    if (current?.type !== "paragraph") {
+      current = { type: "paragraph", lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(parseInline(line.trim()));
+  }
+
+  return blocks;
+}
+
+// Strip the markdown subset down to a single line of text
+export function toPlainText(text: string): string {
+  return text
+    .replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/gi, "$1")
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s+/gm, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Cut at a word boundary so previews never end mid-word
+export function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  const trimmed = lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut;
+
+  return `${trimmed.replace(/[\s.,;:!?-]+$/, "")}…`;
+}
+
+// Length-aware single-line preview for cards, headers and notifications
+export function toPreview(text: string | null | undefined, maxLength: number): string {
+  if (!text) return "";
+  return truncateText(toPlainText(text), maxLength);
+}
@@ -0,0 +1,127 @@
+// Job status state machine: which moves are allowed, and who may make them.
+// Keep the table in sync with job_status_transitions in supabase/job-events.sql,
+// which enforces the same rules in a trigger on jobs.
+
+export type JobStatus = "open" | "in_progress" | "pending_review" | "completed" | "cancelled" | "expired";
+
+// "system" covers the scheduled jobs (expiry, auto-approval) and moderators
+// settling a dispute
+export type JobActor = "poster" | "worker" | "system";
+
+export interface JobTransition {
+  from: JobStatus;
+  to: JobStatus;
+  actors: JobActor[];
+  // Completes "Only the job owner can ..."
+  action: string;
+}
+
+export const JOB_TRANSITIONS: JobTransition[] = [
+  { from: "open", to: "in_progress", actors: ["poster"], action: "assign a worker" },
+  { from: "open", to: "cancelled", actors: ["poster"], action: "cancel a job" },
+  { from: "open", to: "expired", actors: ["system"], action: "expire a job" },
+  { from: "expired", to: "open", actors: ["poster"], action: "repost a job" },
+  { from: "in_progress", to: "pending_review", actors: ["worker"], action: "submit a job for review" },
+  { from: "in_progress", to: "completed", actors: ["poster", "system"], action: "complete a job" },
+  { from: "in_progress", to: "cancelled", actors: ["poster", "system"], action: "cancel a job" },
+  { from: "in_progress", to: "open", actors: ["poster"], action: "reopen a job" },
+  { from: "pending_review", to: "completed", actors: ["poster", "system"], action: "approve a job" },
+  { from: "pending_review", to: "in_progress", actors: ["poster"], action: "request changes" },
+  { from: "pending_review", to: "cancelled", actors: ["system"], action: "cancel a submitted job" },
+];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  open: "open",
+  in_progress: "in progress",
+  pending_review: "in review",
+  completed: "completed",
+  cancelled: "cancelled",
+  expired: "expired",
+};
+
+const ACTOR_LABELS: Record<JobActor, string> = {
+  poster: "the job owner",
+  worker: "the assigned worker",
+  system: "a moderator",
+};
+
+// The caller's side of a job, or null if they aren't on it
+export function getJobActor(
+  job: { user_id: string; assigned_to: string | null },
+  userId: string
+): JobActor | null {
+  if (job.user_id === userId) return "poster";
+  if (job.assigned_to === userId) return "worker";
+  return null;
+}
+
+export function findTransition(from: JobStatus, to: JobStatus): JobTransition | undefined {
+  return JOB_TRANSITIONS.find((t) => t.from === from && t.to === to);
+}
+
+export function canTransition(from: JobStatus, to: JobStatus, actor: JobActor | null): boolean {
+  return !!actor && !!findTransition(from, to)?.actors.includes(actor);
+}
+
+// Explain why a move isn't allowed, or null if it is
+export function getTransitionError(
+  from: JobStatus,
+  to: JobStatus,
+  actor: JobActor | null
+): string | null {
+  const transition = findTransition(from, to);
+
+  if (!transition) {
+    return `A job that is ${JOB_STATUS_LABELS[from]} can't be moved to ${JOB_STATUS_LABELS[to]}`;
+  }
+
+  if (!actor) {
+    return "You are not involved in this job";
+  }
+
+  if (!transition.actors.includes(actor)) {
+    return `Only ${ACTOR_LABELS[transition.actors[0]]} can ${transition.action}`;
+  }
+
+  return null;
+}
+
+// One row of job_events, as read from job_events_with_actor
+export interface JobEvent {
+  id: string;
+  fromStatus: JobStatus | null;
+  toStatus: JobStatus;
+  actorRole: JobActor;
+  actorId: string | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  workerName: string | null;
+  workerEmail: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+// Timeline wording for a recorded transition
+export function describeJobEvent(event: JobEvent, workerName: string): string {
+  const bySystem = event.actorRole === "system";
+
+  switch (event.toStatus) {
+    case "open":
+      if (!event.fromStatus) return "Task posted";
+      if (event.fromStatus === "expired") return "Reposted with a new deadline";
+      return `${workerName} was unassigned and the task reopened`;
+    case "in_progress":
+      if (event.fromStatus === "pending_review") return "Changes requested";
+      return `${workerName} was assigned`;
+    case "pending_review":
+      return "Submitted for review";
+    case "completed":
+      // Scheduled jobs have no actor; moderators do
+      if (bySystem) return event.actorId ? "Completed by a moderator" : "Approved automatically";
+      return event.fromStatus === "pending_review" ? "Approved" : "Marked as completed";
+    case "cancelled":
+      return bySystem ? "Cancelled by a moderator" : "Cancelled";
+    case "expired":
+      return "Expired past its deadline";
+  }
+}
@@ -0,0 +1,67 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Event kinds stored in notifications.kind (keep in sync with the CHECK in
+// supabase/job-review.sql and can_notify in supabase/notifications.sql)
+export type NotificationKind =
+  | "worker_assigned"
+  | "job_completed"
+  | "job_cancelled"
+  | "job_expired"
+  | "new_applicant"
+  | "new_rating"
+  | "new_message"
+  | "new_offer"
+  | "offer_accepted"
+  | "offer_rejected"
+  | "offer_countered"
+  | "application_shortlisted"
+  | "application_rejected"
+  | "payment_marked_paid"
+  | "payment_confirmed"
+  | "payment_disputed"
+  | "payment_reminder"
+  | "dispute_opened"
+  | "dispute_resolved"
+  | "work_submitted"
+  | "changes_requested"
+  | "work_auto_approved";
+
+export interface NotificationInput {
+  recipientId: string;
+  actorId: string;
+  kind: NotificationKind;
+  jobId?: string | null;
+  conversationId?: string | null;
+  body?: string | null;
+  data?: Record<string, unknown>;
+}
+
+// Keep previews short - the popover only shows two lines anyway
+const MAX_BODY_LENGTH = 200;
+
+/**
+ * Insert a notification for another user.
+ * Failures are logged but never fail the calling action - a missing
+ * notification should not roll back an assignment or a rating.
+ */
+export async function createNotification(
+  supabase: SupabaseClient,
+  input: NotificationInput
+): Promise<void> {
+  // Never notify users about their own actions
+  if (!input.recipientId || input.recipientId === input.actorId) return;
+
+  const { error } = await supabase.from("notifications").insert({
+    user_id: input.recipientId,
+    actor_id: input.actorId,
+    kind: input.kind,
+    job_id: input.jobId ?? null,
+    conversation_id: input.conversationId ?? null,
+    body: input.body ? input.body.slice(0, MAX_BODY_LENGTH) : null,
+    data: input.data ?? {},
+  });
+
+  if (error) {
+    console.error("Error creating notification:", error);
+  }
+}
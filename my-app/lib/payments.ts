@@ -0,0 +1,34 @@
+// Cash payment confirmation after a job is completed.
+// Keep the statuses and timings in sync with supabase/payment-confirmation.sql.
+
+export type PaymentStatus = "pending" | "marked_paid" | "confirmed" | "disputed";
+
+// A reminder goes out in the job's chat this often while payment is unconfirmed
+export const PAYMENT_REMINDER_HOURS = 24;
+
+// Unconfirmed payments are flagged as disputed after this long
+export const PAYMENT_DISPUTE_DAYS = 7;
+
+export const PAYMENT_STATUS_CONFIG: Record<PaymentStatus, { label: string; className: string }> = {
+  pending: {
+    label: "Payment pending",
+    className: "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/10 dark:text-amber-400 dark:border-amber-500/30",
+  },
+  marked_paid: {
+    label: "Awaiting confirmation",
+    className: "bg-sky-50 text-sky-700 border-sky-200 dark:bg-sky-500/10 dark:text-sky-400 dark:border-sky-500/30",
+  },
+  confirmed: {
+    label: "Paid",
+    className: "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/10 dark:text-emerald-400 dark:border-emerald-500/30",
+  },
+  disputed: {
+    label: "Payment disputed",
+    className: "bg-red-50 text-red-700 border-red-200 dark:bg-red-500/10 dark:text-red-400 dark:border-red-500/30",
+  },
+};
+
+// Payment still needs someone to act on it
+export function isPaymentUnresolved(status: PaymentStatus | null | undefined): boolean {
+  return status === "pending" || status === "marked_paid";
+}
@@ -0,0 +1,28 @@
+// Chat presence: online status and typing indicators over Supabase Realtime.
+// Nothing here is stored except last_seen_at (see supabase/presence.sql).
+
+// App-wide presence channel, keyed by user id
+export const ONLINE_CHANNEL = "online-users";
+
+// How often an open app refreshes profiles.last_seen_at
+export const LAST_SEEN_HEARTBEAT_MS = 2 * 60 * 1000;
+
+// Send at most one "typing" broadcast per interval while keys are pressed
+export const TYPING_THROTTLE_MS = 2000;
+
+// Hide "typing…" if no new broadcast arrives within this window
+export const TYPING_TIMEOUT_MS = 4000;
+
+// "Last seen just now", "Last seen 5m ago", "Last seen Mar 3"
+export function formatLastSeen(dateString: string | null): string | null {
+  if (!dateString) return null;
+
+  const diffMinutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+
+  if (diffMinutes < 1) return "Last seen just now";
+  if (diffMinutes < 60) return `Last seen ${diffMinutes}m ago`;
+  if (diffMinutes < 24 * 60) return `Last seen ${Math.floor(diffMinutes / 60)}h ago`;
+  if (diffMinutes < 7 * 24 * 60) return `Last seen ${Math.floor(diffMinutes / (24 * 60))}d ago`;
+
+  return `Last seen ${new Date(dateString).toLocaleDateString("en-US", { month: "short", day: "numeric" })}`;
+}
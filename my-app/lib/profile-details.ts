@@ -0,0 +1,142 @@
+// Profile fields beyond the name and avatar: bio, hostel, department/batch,
+// skills (task category slugs) and weekly availability windows.
+// Keep the limits in sync with the CHECKs in supabase/profile-details.sql.
+
+import { isCategorySlug } from "@/lib/categories";
+
+export const BIO_MAX_LENGTH = 280;
+export const MAX_SKILLS = 6;
+export const MAX_AVAILABILITY_WINDOWS = 14;
+
+export const HOSTELS = [
+  "Hostel 1",
+  "Hostel 2",
+  "Hostel 3",
+  "Hostel 4",
+  "Hostel 5",
+  "Hostel 6",
+  "Hostel 7",
+  "Hostel 8",
+  "Hostel 9",
+  "Hostel 10",
+  "Hostel 11",
+  "Hostel 12",
+  "New Girls Hostel",
+  "Day Scholar",
+];
+
+export const DEPARTMENTS = [
+  { value: "CS", label: "Computer Science" },
+  { value: "CE", label: "Computer Engineering" },
+  { value: "AI", label: "Artificial Intelligence" },
+  { value: "DS", label: "Data Science" },
+  { value: "CYS", label: "Cyber Security" },
+  { value: "EE", label: "Electrical Engineering" },
+  { value: "ME", label: "Mechanical Engineering" },
+  { value: "MSE", label: "Materials Engineering" },
+  { value: "CHE", label: "Chemical Engineering" },
+  { value: "CVE", label: "Civil Engineering" },
+  { value: "ES", label: "Engineering Sciences" },
+  { value: "MS", label: "Management Sciences" },
+];
+
+// Indexed like Date.getDay(): 0 is Sunday
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const MIN_BATCH = 1993;
+
+export interface AvailabilityWindow {
+  day: number;
+  // 24-hour "HH:MM"
+  start: string;
+  end: string;
+}
+
+export interface ProfileDetails {
+  bio: string;
+  hostel: string | null;
+  department: string | null;
+  batch: number | null;
+  skills: string[];
+  availability: AvailabilityWindow[];
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Returns an error message, or null when the details can be saved
+export function validateProfileDetails(details: ProfileDetails): string | null {
+  if (details.bio.length > BIO_MAX_LENGTH) {
+    return `Bio must be ${BIO_MAX_LENGTH} characters or less`;
+  }
+  if (details.hostel && !HOSTELS.includes(details.hostel)) {
+    return "Invalid hostel";
+  }
+  if (details.department && !DEPARTMENTS.some((d) => d.value === details.department)) {
+    return "Invalid department";
+  }
+  if (details.batch !== null) {
+    const maxBatch = new Date().getFullYear() + 1;
+    if (!Number.isInteger(details.batch) || details.batch < MIN_BATCH || details.batch > maxBatch) {
+      return `Batch must be between ${MIN_BATCH} and ${maxBatch}`;
+    }
+  }
+  if (details.skills.length > MAX_SKILLS) {
+    return `Pick at most ${MAX_SKILLS} skills`;
+  }
+  if (!details.skills.every(isCategorySlug)) {
+    return "Invalid skill";
+  }
+  if (details.availability.length > MAX_AVAILABILITY_WINDOWS) {
+    return `Add at most ${MAX_AVAILABILITY_WINDOWS} availability windows`;
+  }
+  for (const window of details.availability) {
+    if (!Number.isInteger(window.day) || window.day < 0 || window.day > 6) {
+      return "Invalid availability day";
+    }
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+      return "Availability times must be in HH:MM format";
+    }
+    if (window.start >= window.end) {
+      return `${WEEKDAYS[window.day]}: the end time must be after the start time`;
+    }
+  }
+  return null;
+}
+
+// Coerce a stored or submitted value into availability windows, dropping anything malformed
+export function parseAvailability(value: unknown): AvailabilityWindow[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((w): w is AvailabilityWindow =>
+      !!w &&
+      typeof w === "object" &&
+      typeof w.day === "number" &&
+      typeof w.start === "string" &&
+      typeof w.end === "string"
+    )
+    .map(({ day, start, end }) => ({ day, start, end }));
+}
+
+// Whether `date` (local time) falls inside one of the windows
+export function isAvailableAt(availability: AvailabilityWindow[], date: Date = new Date()): boolean {
+  const day = date.getDay();
+  const time = `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+  return availability.some((w) => w.day === day && w.start <= time && time < w.end);
+}
+
+// "Mon 18:00–22:00"
+export function formatAvailabilityWindow(window: AvailabilityWindow): string {
+  return `${WEEKDAYS[window.day]} ${window.start}–${window.end}`;
+}
+
+// Windows in week order (Monday first), for display
+export function sortAvailability(availability: AvailabilityWindow[]): AvailabilityWindow[] {
+  const weekOrder = (day: number) => (day + 6) % 7;
+  return [...availability].sort((a, b) =>
+    weekOrder(a.day) - weekOrder(b.day) || a.start.localeCompare(b.start)
+  );
+}
+
+export function getDepartmentLabel(value: string | null | undefined): string | null {
+  return DEPARTMENTS.find((d) => d.value === value)?.label ?? null;
+}
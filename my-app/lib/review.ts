@@ -0,0 +1,7 @@
+// Two-step completion: the worker submits, the poster approves or requests changes.
+// Keep the timeout and limits in sync with supabase/job-review.sql.
+
+// A submission the poster hasn't reviewed is approved automatically after this long
+export const REVIEW_AUTO_APPROVE_HOURS = 72;
+
+export const REVIEW_NOTE_MAX_LENGTH = 500;
@@ -0,0 +1,203 @@
+import { getDisputeReasonLabel, type DisputeOutcome } from "@/lib/disputes";
+
+// Structured chat events stored in messages.message_type and messages.payload
+// (supabase/system-messages.sql). The database functions that make each change
+// store the event; the text is written here at render time, from the reader's
+// side of the conversation.
+// Keep the types in sync with the CHECK in supabase/system-messages.sql.
+
+export type MessageType = "user" | "system" | "offer" | "status_change";
+
+export type ChatEvent =
+  | { event: "worker_selected"; jobTitle: string }
+  | { event: "job_filled"; jobTitle: string }
+  | { event: "work_submitted"; jobTitle: string }
+  | { event: "job_completed"; jobTitle: string }
+  | { event: "job_cancelled"; jobTitle: string }
+  | { event: "changes_requested"; jobTitle: string; note: string }
+  | { event: "work_auto_approved"; jobTitle: string; afterHours: number }
+  | { event: "job_updated"; jobTitle: string; price?: number; location?: string }
+  | { event: "payment_marked_paid"; jobTitle: string }
+  | { event: "payment_confirmed"; jobTitle: string }
+  | { event: "payment_disputed"; jobTitle: string }
+  | { event: "payment_reminder"; jobTitle: string; paymentStatus: "pending" | "marked_paid" }
+  | { event: "payment_flagged"; jobTitle: string }
+  | { event: "dispute_opened"; jobTitle: string; reason: string }
+  | { event: "dispute_resolved"; jobTitle: string; outcome: DisputeOutcome; total: number; workerShare: number; note?: string }
+  | { event: "offer_made"; price: number; eta?: string }
+  | { event: "offer_countered"; price: number; note?: string }
+  | { event: "offer_declined" };
+
+export type ChatEventKind = ChatEvent["event"];
+
+// Which message_type each event is stored as (keep in sync with post_chat_event
+// in supabase/system-messages.sql)
+export const CHAT_EVENT_TYPES: Record<ChatEventKind, Exclude<MessageType, "user">> = {
+  worker_selected: "status_change",
+  job_filled: "status_change",
+  work_submitted: "status_change",
+  job_completed: "status_change",
+  job_cancelled: "status_change",
+  changes_requested: "status_change",
+  work_auto_approved: "status_change",
+  job_updated: "system",
+  payment_marked_paid: "system",
+  payment_confirmed: "system",
+  payment_disputed: "system",
+  payment_reminder: "system",
+  payment_flagged: "system",
+  dispute_opened: "system",
+  dispute_resolved: "system",
+  offer_made: "offer",
+  offer_countered: "offer",
+  offer_declined: "offer",
+};
+
+// Messages that stand in for the conversation in inbox and applicant list
+// previews. Status changes and system notices only do when nothing else has
+// been said yet.
+export const PREVIEW_MESSAGE_TYPES: MessageType[] = ["user", "offer"];
+
+export function isPreviewMessageType(type: string | null | undefined): boolean {
+  return PREVIEW_MESSAGE_TYPES.includes((type || "user") as MessageType);
+}
+
+// Read the stored payload back into an event; null for plain messages and
+// for anything this client doesn't recognise
+export function parseChatEvent(type: string | null | undefined, payload: unknown): ChatEvent | null {
+  if (!type || type === "user" || !payload || typeof payload !== "object") return null;
+  const event = (payload as { event?: unknown }).event;
+  if (typeof event !== "string" || !(event in CHAT_EVENT_TYPES)) return null;
+  return payload as ChatEvent;
+}
+
+function formatRs(amount: number): string {
+  return `Rs. ${amount.toLocaleString()}`;
+}
+
+export interface ChatEventText {
+  title: string;
+  // Second line: review notes, moderator notes and the like
+  detail?: string;
+}
+
+// Languages the event copy is written in. Events are stored without text, so
+// adding one here is enough for every event already in the database.
+export type Locale = "en";
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+type ChatEventCopy = {
+  [K in ChatEventKind]: (event: Extract<ChatEvent, { event: K }>, fromMe: boolean) => ChatEventText;
+};
+
+const CHAT_EVENT_COPY: Record<Locale, ChatEventCopy> = {
+  en: {
+    worker_selected: (event, fromMe) => ({
+      title: fromMe
+        ? `You picked a worker for "${event.jobTitle}"`
+        : `You've been selected for "${event.jobTitle}". Ready when you are.`,
+    }),
+    job_filled: (event, fromMe) => ({
+      title: fromMe
+        ? `"${event.jobTitle}" was filled by someone else`
+        : `This task has been filled. Thanks for applying to "${event.jobTitle}".`,
+    }),
+    work_submitted: (event, fromMe) => ({
+      title: fromMe
+        ? `You submitted "${event.jobTitle}" for review`
+        : `"${event.jobTitle}" was submitted for review. Approve it or request changes.`,
+    }),
+    job_completed: (event) => ({ title: `"${event.jobTitle}" is complete` }),
+    job_cancelled: (event) => ({ title: `"${event.jobTitle}" was cancelled` }),
+    changes_requested: (event, fromMe) => ({
+      title: fromMe ? `You requested changes on "${event.jobTitle}"` : `Changes requested on "${event.jobTitle}"`,
+      detail: event.note,
+    }),
+    work_auto_approved: (event) => ({
+      title: `"${event.jobTitle}" was approved automatically after ${event.afterHours} hours without a review`,
+    }),
+    job_updated: (event) => {
+      const details = [
+        event.price !== undefined && `now pays ${formatRs(event.price)}`,
+        event.location && `is now at ${event.location}`,
+      ].filter(Boolean).join(" and ");
+      return { title: details ? `Task updated. "${event.jobTitle}" ${details}.` : `"${event.jobTitle}" was updated` };
+    },
+    payment_marked_paid: (event, fromMe) => ({
+      title: fromMe
+        ? `You marked "${event.jobTitle}" as paid`
+        : `Payment sent for "${event.jobTitle}". Confirm once you've received it.`,
+    }),
+    payment_confirmed: (event) => ({ title: `Payment received for "${event.jobTitle}"` }),
+    payment_disputed: (event) => ({
+      title: `Payment for "${event.jobTitle}" was reported as not received and flagged for review`,
+    }),
+    payment_reminder: (event) => ({
+      title: event.paymentStatus === "pending"
+        ? `Reminder: payment for "${event.jobTitle}" hasn't been marked as paid yet`
+        : `Reminder: payment for "${event.jobTitle}" is waiting to be confirmed`,
+    }),
+    payment_flagged: (event) => ({
+      title: `Payment for "${event.jobTitle}" wasn't confirmed within a week and has been flagged for review`,
+    }),
+    dispute_opened: (event, fromMe) => ({
+      title: fromMe ? `You opened a dispute on "${event.jobTitle}"` : `A dispute was opened on "${event.jobTitle}"`,
+      detail: `${getDisputeReasonLabel(event.reason)}. A moderator will review it.`,
+    }),
+    dispute_resolved: (event) => ({
+      title: event.outcome === "refund"
+        ? `Dispute resolved: the poster is refunded the full ${formatRs(event.total)}`
+        : event.outcome === "release"
+          ? `Dispute resolved: the full ${formatRs(event.total)} goes to the worker`
+          : `Dispute resolved: ${formatRs(event.workerShare)} to the worker and ${formatRs(event.total - event.workerShare)} refunded to the poster`,
+      detail: event.note ? `Moderator note: ${event.note}` : undefined,
+    }),
+    offer_made: (event, fromMe) => ({
+      title: `${fromMe ? "You offered" : "New offer:"} ${formatRs(event.price)}${event.eta ? ` · ${event.eta}` : ""}`,
+    }),
+    offer_countered: (event, fromMe) => ({
+      title: `${fromMe ? "You countered with" : "Counter-offer:"} ${formatRs(event.price)}`,
+      detail: event.note,
+    }),
+    offer_declined: (_event, fromMe) => ({ title: fromMe ? "You declined the offer" : "Your offer was declined" }),
+  },
+};
+
+// Shown for an event this client doesn't know how to word yet
+const UNKNOWN_EVENT_TEXT: Record<Locale, string> = {
+  en: "Task update",
+};
+
+/**
+ * The text for an event, as seen by one side of the conversation.
+ * `fromMe` is whether the reader is the one the event was sent by.
+ */
+export function describeChatEvent(event: ChatEvent, fromMe: boolean, locale: Locale = DEFAULT_LOCALE): ChatEventText {
+  const describe = CHAT_EVENT_COPY[locale][event.event] as (event: ChatEvent, fromMe: boolean) => ChatEventText;
+  return describe(event, fromMe);
+}
+
+/**
+ * The text for a status change, offer or notice whose payload this client
+ * couldn't read: notices from before events were stored keep their text in
+ * content, newer events have none.
+ */
+export function describeUnknownEvent(content: string, locale: Locale = DEFAULT_LOCALE): ChatEventText {
+  return { title: content || UNKNOWN_EVENT_TEXT[locale] };
+}
+
+// The columns of a messages row that previews are written from
+export interface MessagePreviewRow {
+  content: string;
+  sender_id: string;
+  message_type?: string | null;
+  payload?: unknown;
+}
+
+// One-line preview text for a message row
+export function getMessagePreview(row: MessagePreviewRow, userId: string | null): string {
+  const event = parseChatEvent(row.message_type, row.payload);
+  if (event) return describeChatEvent(event, row.sender_id === userId).title;
+  return (row.message_type || "user") === "user" ? row.content : describeUnknownEvent(row.content).title;
+}
@@ -22,6 +22,11 @@ const nextConfig: NextConfig = {
   },
   // Optimize package imports to reduce bundle size
   experimental: {
+    // Avatar and chat attachment uploads go through server actions
+    // (largest limit is lib/attachments.ts, plus form overhead)
+    serverActions: {
+      bodySizeLimit: "6mb",
+    },
     optimizePackageImports: [
       "lucide-react",
       "framer-motion",
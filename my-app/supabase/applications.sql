@@ -0,0 +1,236 @@
+-- ============================================
+-- JOB APPLICATIONS FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after chat-tables.sql and offers.sql)
+-- ============================================
+
+-- ============================================
+-- APPLICATIONS TABLE
+-- One row per worker per job. The chat thread with the poster is
+-- linked here, but applying no longer just means "has a conversation".
+-- ============================================
+CREATE TABLE IF NOT EXISTS applications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+  -- The job being applied to
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+
+  -- The worker applying
+  worker_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Chat thread between the worker and the poster
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+
+  -- Short pitch shown in the poster's applicant list
+  cover_note TEXT CHECK (char_length(cover_note) <= 500),
+
+  -- Lifecycle
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending',      -- waiting for the poster
+    'shortlisted',  -- poster is considering this worker
+    'rejected',     -- poster declined (or hired someone else)
+    'withdrawn',    -- worker pulled out
+    'hired'         -- worker was assigned to the job
+  )),
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  -- A worker applies to a job once; withdrawing and re-applying reuses the row
+  UNIQUE(job_id, worker_id)
+);
+
+-- Indexes for applications
+CREATE INDEX IF NOT EXISTS applications_job_id_idx ON applications(job_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS applications_worker_id_idx ON applications(worker_id);
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_applications_updated_at ON applications;
+CREATE TRIGGER update_applications_updated_at
+  BEFORE UPDATE ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- FUNCTION: Limit the transitions a worker can make
+-- RLS cannot see the old row, so this stops a rejected worker
+-- from flipping their own application back to pending
+-- ============================================
+CREATE OR REPLACE FUNCTION guard_application_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> OLD.status AND auth.uid() = OLD.worker_id THEN
+    IF NOT (
+      (OLD.status IN ('pending', 'shortlisted') AND NEW.status = 'withdrawn')
+      OR (OLD.status = 'withdrawn' AND NEW.status = 'pending')
+    ) THEN
+      RAISE EXCEPTION 'Workers cannot change an application from % to %', OLD.status, NEW.status;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_application_status ON applications;
+CREATE TRIGGER guard_application_status
+  BEFORE UPDATE ON applications
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_application_status();
+
+-- ============================================
+-- TRIGGER: Settle applications when a worker is hired
+-- Runs in the same transaction as the hire, so a job is never assigned
+-- while the hired worker's application is still pending
+-- ============================================
+CREATE OR REPLACE FUNCTION settle_applications_on_hire()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE applications
+  SET status = CASE WHEN worker_id = NEW.assigned_to THEN 'hired' ELSE 'rejected' END
+  WHERE job_id = NEW.id
+  AND (worker_id = NEW.assigned_to OR status IN ('pending', 'shortlisted'));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS settle_applications_on_hire ON jobs;
+CREATE TRIGGER settle_applications_on_hire
+  AFTER UPDATE OF assigned_to ON jobs
+  FOR EACH ROW
+  WHEN (NEW.assigned_to IS NOT NULL AND NEW.assigned_to IS DISTINCT FROM OLD.assigned_to)
+  EXECUTE FUNCTION settle_applications_on_hire();
+
+-- Enable RLS
+ALTER TABLE applications ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for re-running)
+DROP POLICY IF EXISTS "Workers and posters can view applications" ON applications;
+DROP POLICY IF EXISTS "Workers can apply to open jobs" ON applications;
+DROP POLICY IF EXISTS "Workers can update their own applications" ON applications;
+DROP POLICY IF EXISTS "Posters can review applications" ON applications;
+
+-- Policy: The worker and the job poster can see an application
+CREATE POLICY "Workers and posters can view applications"
+  ON applications
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = worker_id
+    OR EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = applications.job_id
+      AND jobs.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Workers can apply to open jobs they did not post
+CREATE POLICY "Workers can apply to open jobs"
+  ON applications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = worker_id
+    AND status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = applications.job_id
+      AND jobs.status = 'open'
+      AND jobs.user_id <> auth.uid()
+    )
+  );
+
+-- Policy: Workers can withdraw or re-apply
+CREATE POLICY "Workers can update their own applications"
+  ON applications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = worker_id)
+  WITH CHECK (auth.uid() = worker_id AND status IN ('pending', 'withdrawn'));
+
+-- Policy: Posters can shortlist, reject or hire applicants on their jobs
+CREATE POLICY "Posters can review applications"
+  ON applications
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = applications.job_id
+      AND jobs.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (status IN ('pending', 'shortlisted', 'rejected', 'hired'));
+
+-- ============================================
+-- MIGRATION: Backfill applications from existing conversations
+-- ============================================
+INSERT INTO applications (job_id, worker_id, conversation_id, status, created_at)
+SELECT
+  c.job_id,
+  c.worker_id,
+  c.id,
+  CASE
+    WHEN j.assigned_to = c.worker_id THEN 'hired'
+    WHEN j.status IN ('in_progress', 'completed') THEN 'rejected'
+    ELSE 'pending'
+  END,
+  c.created_at
+FROM conversations c
+JOIN jobs j ON j.id = c.job_id
+ON CONFLICT (job_id, worker_id) DO NOTHING;
+
+-- ============================================
+-- VIEW: Applications with worker info
+-- security_invoker so the applications RLS above still applies
+-- ============================================
+CREATE OR REPLACE VIEW applications_with_worker
+WITH (security_invoker = true) AS
+SELECT
+  a.id,
+  a.job_id,
+  a.worker_id,
+  a.conversation_id,
+  a.cover_note,
+  a.status,
+  a.created_at,
+  a.updated_at,
+  p.full_name AS worker_name,
+  p.email AS worker_email,
+  p.avatar_url AS worker_avatar,
+  p.average_rating AS worker_rating
+FROM applications a
+LEFT JOIN profiles p ON a.worker_id = p.id;
+
+-- ============================================
+-- NOTIFICATIONS: Application event kinds
+-- ============================================
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check CHECK (kind IN (
+  'worker_assigned',
+  'job_completed',
+  'job_cancelled',
+  'new_applicant',
+  'new_rating',
+  'new_message',
+  'new_offer',
+  'offer_accepted',
+  'offer_rejected',
+  'offer_countered',
+  'application_shortlisted',
+  'application_rejected'
+));
+
+-- ============================================
+-- ENABLE REALTIME FOR APPLICATIONS
+-- ============================================
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND tablename = 'applications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE applications;
+  END IF;
+END $$;
@@ -0,0 +1,62 @@
+-- ============================================
+-- AVATAR STORAGE FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after schema.sql)
+-- Keep the size and type limits in sync with lib/avatar.ts
+-- ============================================
+
+-- ============================================
+-- BUCKET: Public avatars, one folder per user ({user_id}/avatar-*.webp)
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'avatars',
+  'avatars',
+  true,
+  2097152,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE
+  SET public = EXCLUDED.public,
+      file_size_limit = EXCLUDED.file_size_limit,
+      allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- ============================================
+-- STORAGE RLS: Users manage only their own folder
+-- ============================================
+DROP POLICY IF EXISTS "Avatars are viewable by everyone" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload their own avatar" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update their own avatar" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own avatar" ON storage.objects;
+
+-- Policy: Anyone can see avatars (they appear on public profiles and job cards)
+CREATE POLICY "Avatars are viewable by everyone"
+  ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'avatars');
+
+-- Policy: Uploads must go into the uploader's own folder
+CREATE POLICY "Users can upload their own avatar"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Policy: Users can replace files in their own folder
+CREATE POLICY "Users can update their own avatar"
+  ON storage.objects
+  FOR UPDATE
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Policy: Users can remove files in their own folder
+CREATE POLICY "Users can delete their own avatar"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,64 @@
+-- ============================================
+-- TASK CATEGORIES FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after schema-v2.sql)
+-- Keep the slugs in sync with lib/categories.ts
+-- ============================================
+
+-- ============================================
+-- LOOKUP TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS task_categories (
+  slug TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO task_categories (slug, label, sort_order) VALUES
+  ('food-delivery', 'Food Delivery', 1),
+  ('assignments', 'Assignments', 2),
+  ('tech-support', 'Tech Support', 3),
+  ('ride-share', 'Ride Share', 4),
+  ('shopping', 'Shopping', 5),
+  ('tutoring', 'Tutoring', 6),
+  ('laundry', 'Laundry', 7),
+  ('printing', 'Printing', 8),
+  ('moving', 'Moving Help', 9),
+  ('other', 'Other', 10)
+ON CONFLICT (slug) DO UPDATE
+  SET label = EXCLUDED.label,
+      sort_order = EXCLUDED.sort_order;
+
+-- Enable RLS
+ALTER TABLE task_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view task categories" ON task_categories;
+
+-- Policy: Categories are public reference data
+CREATE POLICY "Anyone can view task categories"
+  ON task_categories
+  FOR SELECT
+  USING (true);
+
+-- ============================================
+-- MIGRATION: Remap legacy category values
+-- The old filter bar used 'academic' / 'transport', and the column
+-- defaulted to 'Other' while the form sent 'other'
+-- ============================================
+UPDATE jobs SET category = 'assignments' WHERE category = 'academic';
+UPDATE jobs SET category = 'ride-share' WHERE category = 'transport';
+UPDATE jobs SET category = lower(category) WHERE category <> lower(category);
+UPDATE jobs SET category = 'other'
+  WHERE category IS NULL
+  OR category NOT IN (SELECT slug FROM task_categories);
+
+-- ============================================
+-- CONSTRAINT: jobs.category must be a known slug
+-- ============================================
+ALTER TABLE jobs ALTER COLUMN category SET DEFAULT 'other';
+ALTER TABLE jobs ALTER COLUMN category SET NOT NULL;
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_category_fkey;
+ALTER TABLE jobs
+  ADD CONSTRAINT jobs_category_fkey
+  FOREIGN KEY (category) REFERENCES task_categories(slug)
+  ON UPDATE CASCADE;
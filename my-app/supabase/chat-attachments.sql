@@ -0,0 +1,153 @@
+-- ============================================
+-- CHAT ATTACHMENTS FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after message-history.sql)
+--
+-- Photos and PDFs sent in a conversation. Files live in a private bucket,
+-- one folder per conversation ({conversation_id}/{uuid}.{ext}), and only the
+-- two sides of that conversation can read them (through signed URLs).
+-- Keep the size and type limits in sync with lib/attachments.ts
+-- ============================================
+
+-- ============================================
+-- BUCKET: Private chat attachments
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf']
+)
+ON CONFLICT (id) DO UPDATE
+  SET public = EXCLUDED.public,
+      file_size_limit = EXCLUDED.file_size_limit,
+      allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- ============================================
+-- FUNCTION: Is the caller one side of the conversation a storage folder belongs to
+-- Compared as text so a folder that isn't a UUID simply doesn't match
+-- ============================================
+CREATE OR REPLACE FUNCTION is_conversation_folder_party(p_folder TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversations c
+    JOIN jobs j ON j.id = c.job_id
+    WHERE c.id::text = p_folder
+    AND (c.worker_id = auth.uid() OR j.user_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- STORAGE RLS: Conversation parties only
+-- No update or delete: a sent attachment stays as it was sent
+-- ============================================
+DROP POLICY IF EXISTS "Conversation parties can view chat attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Conversation parties can upload chat attachments" ON storage.objects;
+
+-- Policy: Both sides of a conversation can read its files
+CREATE POLICY "Conversation parties can view chat attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'chat-attachments'
+    AND is_conversation_folder_party((storage.foldername(name))[1])
+  );
+
+-- Policy: Either side can upload into the conversation's folder
+CREATE POLICY "Conversation parties can upload chat attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'chat-attachments'
+    AND is_conversation_folder_party((storage.foldername(name))[1])
+  );
+
+-- ============================================
+-- MESSAGE ATTACHMENTS TABLE
+-- One row per file; the message carries the caption
+-- ============================================
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  uploader_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL CHECK (char_length(file_name) BETWEEN 1 AND 120),
+  mime_type TEXT NOT NULL CHECK (mime_type IN (
+    'image/jpeg', 'image/png', 'image/webp', 'image/gif', 'application/pdf'
+  )),
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 5242880),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- The file must sit in its conversation's folder
+  CHECK (split_part(storage_path, '/', 1) = conversation_id::text)
+);
+
+CREATE INDEX IF NOT EXISTS message_attachments_message_id_idx ON message_attachments(message_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE message_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Conversation parties can view attachments" ON message_attachments;
+DROP POLICY IF EXISTS "Senders can add attachments to their messages" ON message_attachments;
+
+-- Policy: Both sides of the conversation can see its attachments
+CREATE POLICY "Conversation parties can view attachments"
+  ON message_attachments
+  FOR SELECT
+  TO authenticated
+  USING (is_conversation_party(conversation_id));
+
+-- Policy: Only the sender of the message, on their own message
+CREATE POLICY "Senders can add attachments to their messages"
+  ON message_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = uploader_id
+    AND EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.id = message_attachments.message_id
+      AND m.sender_id = auth.uid()
+      AND m.conversation_id = message_attachments.conversation_id
+    )
+  );
+
+-- ============================================
+-- FUNCTION: Send a message with an uploaded file
+-- Message and attachment are written in one transaction, so realtime
+-- subscribers never see the message without its file. Runs as the caller,
+-- so the insert policies above still apply.
+-- ============================================
+CREATE OR REPLACE FUNCTION send_attachment_message(
+  p_conversation_id UUID,
+  p_content TEXT,
+  p_storage_path TEXT,
+  p_file_name TEXT,
+  p_mime_type TEXT,
+  p_size_bytes INTEGER
+)
+RETURNS UUID AS $$
+DECLARE
+  new_message_id UUID;
+BEGIN
+  INSERT INTO messages (conversation_id, sender_id, content)
+  VALUES (p_conversation_id, auth.uid(), p_content)
+  RETURNING id INTO new_message_id;
+
+  INSERT INTO message_attachments (
+    message_id, conversation_id, uploader_id, storage_path, file_name, mime_type, size_bytes
+  )
+  VALUES (
+    new_message_id, p_conversation_id, auth.uid(), p_storage_path, p_file_name, p_mime_type, p_size_bytes
+  );
+
+  RETURN new_message_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION send_attachment_message(UUID, TEXT, TEXT, TEXT, TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,556 @@
+-- ============================================
+-- DISPUTES FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after ledger.sql and payment-confirmation.sql)
+--
+-- Either side of an in-progress or completed job can open a dispute.
+-- While it is open the job is frozen: no status changes, no payment
+-- confirmation and no ratings. A moderator resolves it by refunding the
+-- poster, releasing to the worker or splitting the price.
+-- Keep the reasons and limits in sync with lib/disputes.ts
+-- ============================================
+
+-- ============================================
+-- MODERATORS TABLE
+-- Managed from the dashboard; no policies, so it is not readable from the app
+-- ============================================
+CREATE TABLE IF NOT EXISTS moderators (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE moderators ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_moderator()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM moderators WHERE user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_moderator() TO authenticated;
+
+-- ============================================
+-- DISPUTES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS disputes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  opened_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  reason TEXT NOT NULL CHECK (reason IN (
+    'not_completed',  -- the work wasn't done
+    'poor_quality',   -- the work was done badly
+    'not_paid',       -- the worker wasn't paid
+    'no_show',        -- the other side stopped responding
+    'other'
+  )),
+  evidence TEXT CHECK (char_length(evidence) <= 2000),
+
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+
+  -- Filled in by the moderator
+  outcome TEXT CHECK (outcome IN ('refund', 'release', 'split')),
+  worker_share INTEGER CHECK (worker_share IS NULL OR worker_share >= 0),
+  resolution_note TEXT CHECK (char_length(resolution_note) <= 1000),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CHECK ((status = 'resolved') = (outcome IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS disputes_job_id_idx ON disputes(job_id);
+CREATE INDEX IF NOT EXISTS disputes_status_idx ON disputes(status, created_at DESC);
+
+-- Only one open dispute per job
+CREATE UNIQUE INDEX IF NOT EXISTS disputes_one_open_per_job_idx
+  ON disputes(job_id)
+  WHERE status = 'open';
+
+DROP TRIGGER IF EXISTS update_disputes_updated_at ON disputes;
+CREATE TRIGGER update_disputes_updated_at
+  BEFORE UPDATE ON disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Whether a job is frozen by an open dispute
+CREATE OR REPLACE FUNCTION job_has_open_dispute(p_job_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM disputes WHERE job_id = p_job_id AND status = 'open');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RLS: Both sides of the job and moderators can see a dispute.
+-- Resolution goes through resolve_dispute below.
+-- ============================================
+ALTER TABLE disputes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Job parties and moderators can view disputes" ON disputes;
+DROP POLICY IF EXISTS "Job parties can open disputes" ON disputes;
+
+-- Policy: The poster, the assigned worker and moderators can see a dispute
+CREATE POLICY "Job parties and moderators can view disputes"
+  ON disputes
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_moderator()
+    OR EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = disputes.job_id
+      AND (jobs.user_id = auth.uid() OR jobs.assigned_to = auth.uid())
+    )
+  );
+
+-- Policy: Either side can open a dispute on an in-progress or completed job
+CREATE POLICY "Job parties can open disputes"
+  ON disputes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = opened_by
+    AND status = 'open'
+    AND EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = disputes.job_id
+      AND jobs.status IN ('in_progress', 'completed')
+      AND (jobs.user_id = auth.uid() OR jobs.assigned_to = auth.uid())
+    )
+  );
+
+-- ============================================
+-- TRIGGER: Freeze disputed jobs
+-- Blocks status changes and payment confirmation while a dispute is open.
+-- resolve_dispute sets crowdserve.resolving_dispute to get past it.
+-- ============================================
+CREATE OR REPLACE FUNCTION freeze_disputed_job()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('crowdserve.resolving_dispute', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT job_has_open_dispute(NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'This job is under dispute';
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status AND NEW.payment_status <> 'disputed' THEN
+    RAISE EXCEPTION 'This job is under dispute';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Named to sort before reset_job_payment_status, so it runs first
+DROP TRIGGER IF EXISTS freeze_disputed_job ON jobs;
+CREATE TRIGGER freeze_disputed_job
+  BEFORE UPDATE OF status, payment_status ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION freeze_disputed_job();
+
+-- ============================================
+-- TRIGGERS: Disputes and payment status follow each other
+--   a dispute on a completed job marks its payment disputed
+--   a payment reported missing (or unconfirmed for a week) opens a dispute
+-- ============================================
+CREATE OR REPLACE FUNCTION mark_disputed_job_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Let the update past guard_job_payment_columns (payment-confirmation.sql)
+  PERFORM set_config('crowdserve.job_rpc', 'on', true);
+
+  UPDATE jobs
+  SET payment_status = 'disputed'
+  WHERE id = NEW.job_id
+  AND status = 'completed'
+  AND payment_status IS DISTINCT FROM 'disputed';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS mark_disputed_job_payment ON disputes;
+CREATE TRIGGER mark_disputed_job_payment
+  AFTER INSERT ON disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_disputed_job_payment();
+
+CREATE OR REPLACE FUNCTION open_payment_dispute()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payment_status = 'disputed'
+    AND OLD.payment_status IS DISTINCT FROM 'disputed'
+    AND NEW.assigned_to IS NOT NULL
+    AND NOT job_has_open_dispute(NEW.id)
+  THEN
+    INSERT INTO disputes (job_id, opened_by, reason)
+    VALUES (NEW.id, NEW.assigned_to, 'not_paid');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS open_payment_dispute ON jobs;
+CREATE TRIGGER open_payment_dispute
+  AFTER UPDATE OF payment_status ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION open_payment_dispute();
+
+-- Payments flagged before disputes existed
+INSERT INTO disputes (job_id, opened_by, reason)
+SELECT j.id, j.assigned_to, 'not_paid'
+FROM jobs j
+WHERE j.payment_status = 'disputed'
+AND j.assigned_to IS NOT NULL
+AND NOT job_has_open_dispute(j.id);
+
+-- ============================================
+-- RATINGS: No ratings while a dispute is open
+-- ============================================
+DROP POLICY IF EXISTS "No ratings on disputed jobs" ON ratings;
+CREATE POLICY "No ratings on disputed jobs"
+  ON ratings
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT job_has_open_dispute(job_id));
+
+-- ============================================
+-- LEDGER: Partial settlements and adjustments
+--   release and refund can move part of the escrow (for splits)
+--   adjustment moves money back from the worker's wallet to the poster's
+--   when a dispute on an already-released job goes the poster's way
+-- ============================================
+ALTER TABLE ledger_transactions DROP CONSTRAINT IF EXISTS ledger_transactions_kind_check;
+ALTER TABLE ledger_transactions ADD CONSTRAINT ledger_transactions_kind_check
+  CHECK (kind IN ('hold', 'release', 'refund', 'adjustment'));
+
+CREATE OR REPLACE FUNCTION post_job_ledger_transaction(
+  p_job_id UUID,
+  p_kind TEXT,
+  p_poster_id UUID,
+  p_worker_id UUID,
+  p_amount INTEGER DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  escrow_balance INTEGER := job_escrow_balance(p_job_id);
+  tx_amount INTEGER;
+  tx_id UUID;
+BEGIN
+  IF p_kind = 'hold' THEN
+    IF escrow_balance > 0 THEN
+      RAISE EXCEPTION 'Payment for job % is already held', p_job_id;
+    END IF;
+    tx_amount := p_amount;
+  ELSIF p_kind = 'adjustment' THEN
+    tx_amount := p_amount;
+  ELSE
+    IF p_amount > escrow_balance THEN
+      RAISE EXCEPTION 'Only % is held for job %', escrow_balance, p_job_id;
+    END IF;
+    tx_amount := COALESCE(p_amount, escrow_balance);
+  END IF;
+
+  IF tx_amount IS NULL OR tx_amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO ledger_transactions (job_id, kind, amount, poster_id, worker_id, created_by)
+  VALUES (p_job_id, p_kind, tx_amount, p_poster_id, p_worker_id, auth.uid())
+  RETURNING id INTO tx_id;
+
+  INSERT INTO ledger_entries (transaction_id, account, user_id, amount)
+  SELECT tx_id, entry.account, entry.user_id, entry.amount
+  FROM (VALUES
+    -- hold: poster wallet -> escrow
+    ('hold', 'wallet', p_poster_id, -tx_amount),
+    ('hold', 'escrow', NULL::UUID, tx_amount),
+    -- release: escrow -> worker wallet
+    ('release', 'escrow', NULL::UUID, -tx_amount),
+    ('release', 'wallet', p_worker_id, tx_amount),
+    -- refund: escrow -> poster wallet
+    ('refund', 'escrow', NULL::UUID, -tx_amount),
+    ('refund', 'wallet', p_poster_id, tx_amount),
+    -- adjustment: worker wallet -> poster wallet
+    ('adjustment', 'wallet', p_worker_id, -tx_amount),
+    ('adjustment', 'wallet', p_poster_id, tx_amount)
+  ) AS entry(kind, account, user_id, amount)
+  WHERE entry.kind = p_kind;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION post_job_ledger_transaction(UUID, TEXT, UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- UPDATE VIEW: Wallets (adjustments count against earned and spent)
+-- ============================================
+CREATE OR REPLACE VIEW wallets
+WITH (security_invoker = true) AS
+WITH parties AS (
+  SELECT poster_id AS user_id FROM ledger_transactions
+  UNION
+  SELECT worker_id FROM ledger_transactions
+)
+SELECT
+  p.user_id,
+  COALESCE((
+    SELECT SUM(e.amount)
+    FROM ledger_entries e
+    WHERE e.account = 'wallet'
+    AND e.user_id = p.user_id
+  ), 0)::INTEGER AS balance,
+  COALESCE(SUM(CASE WHEN t.kind = 'release' THEN t.amount ELSE -t.amount END) FILTER (
+    WHERE t.kind IN ('release', 'adjustment') AND t.worker_id = p.user_id
+  ), 0)::INTEGER AS earned,
+  COALESCE(SUM(CASE WHEN t.kind = 'hold' THEN t.amount ELSE -t.amount END) FILTER (
+    WHERE t.kind IN ('hold', 'release', 'refund') AND t.worker_id = p.user_id
+  ), 0)::INTEGER AS pending_earnings,
+  COALESCE(SUM(CASE WHEN t.kind = 'release' THEN t.amount ELSE -t.amount END) FILTER (
+    WHERE t.kind IN ('release', 'adjustment') AND t.poster_id = p.user_id
+  ), 0)::INTEGER AS spent,
+  COALESCE(SUM(CASE WHEN t.kind = 'hold' THEN t.amount ELSE -t.amount END) FILTER (
+    WHERE t.kind IN ('hold', 'release', 'refund') AND t.poster_id = p.user_id
+  ), 0)::INTEGER AS held
+FROM parties p
+JOIN ledger_transactions t ON p.user_id IN (t.poster_id, t.worker_id)
+GROUP BY p.user_id;
+
+-- ============================================
+-- NOTIFICATIONS: Dispute event kinds
+-- ============================================
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check CHECK (kind IN (
+  'worker_assigned',
+  'job_completed',
+  'job_cancelled',
+  'job_expired',
+  'new_applicant',
+  'new_rating',
+  'new_message',
+  'new_offer',
+  'offer_accepted',
+  'offer_rejected',
+  'offer_countered',
+  'application_shortlisted',
+  'application_rejected',
+  'payment_marked_paid',
+  'payment_confirmed',
+  'payment_disputed',
+  'payment_reminder',
+  'dispute_opened',
+  'dispute_resolved'
+));
+
+-- ============================================
+-- FUNCTION: Resolve a dispute (moderators only)
+--   refund  - the poster gets the full price back
+--   release - the worker gets the full price
+--   split   - the worker gets p_worker_share, the poster the rest
+-- An in-progress job is settled from escrow and closed (completed if the
+-- worker gets anything, cancelled otherwise). A completed job has already
+-- been released, so the poster's share comes back as an adjustment.
+-- The outcome is posted in the job's chat and both sides are notified.
+-- ============================================
+CREATE OR REPLACE FUNCTION resolve_dispute(
+  p_dispute_id UUID,
+  p_outcome TEXT,
+  p_worker_share INTEGER DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  dispute RECORD;
+  job RECORD;
+  total INTEGER;
+  worker_amount INTEGER;
+  released INTEGER;
+  conv_id UUID;
+  summary TEXT;
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can resolve disputes';
+  END IF;
+
+  SELECT * INTO dispute FROM disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This dispute has already been resolved';
+  END IF;
+
+  SELECT * INTO job FROM jobs WHERE id = dispute.job_id FOR UPDATE;
+
+  IF job.assigned_to IS NULL THEN
+    RAISE EXCEPTION 'This job has no assigned worker';
+  END IF;
+
+  total := COALESCE(job.agreed_price, job.price);
+
+  worker_amount := CASE p_outcome
+    WHEN 'refund' THEN 0
+    WHEN 'release' THEN total
+    WHEN 'split' THEN p_worker_share
+  END;
+
+  IF p_outcome NOT IN ('refund', 'release', 'split') THEN
+    RAISE EXCEPTION 'Invalid outcome %', p_outcome;
+  END IF;
+
+  IF p_outcome = 'split' AND (worker_amount IS NULL OR worker_amount <= 0 OR worker_amount >= total) THEN
+    RAISE EXCEPTION 'The worker''s share must be between 1 and %', total - 1;
+  END IF;
+
+  PERFORM set_config('crowdserve.resolving_dispute', 'on', true);
+
+  IF job.status = 'in_progress' THEN
+    PERFORM post_job_ledger_transaction(job.id, 'release', job.user_id, job.assigned_to, worker_amount);
+    PERFORM post_job_ledger_transaction(job.id, 'refund', job.user_id, job.assigned_to);
+
+    IF worker_amount > 0 THEN
+      UPDATE jobs
+      SET status = 'completed',
+          completed_at = now()
+      WHERE id = job.id;
+    ELSE
+      UPDATE jobs
+      SET status = 'cancelled',
+          assigned_to = NULL
+      WHERE id = job.id;
+    END IF;
+  ELSE
+    SELECT COALESCE(SUM(CASE WHEN kind = 'release' THEN amount ELSE -amount END), 0)
+    INTO released
+    FROM ledger_transactions
+    WHERE job_id = job.id
+    AND kind IN ('release', 'adjustment');
+
+    IF released > worker_amount THEN
+      PERFORM post_job_ledger_transaction(job.id, 'adjustment', job.user_id, job.assigned_to, released - worker_amount);
+    END IF;
+
+    -- Cash is still owed for the worker's share; nothing is owed after a refund
+    UPDATE jobs
+    SET payment_status = CASE WHEN worker_amount > 0 THEN 'pending' END,
+        payment_marked_at = NULL,
+        payment_confirmed_at = NULL,
+        payment_reminded_at = NULL
+    WHERE id = job.id
+    AND payment_status = 'disputed';
+  END IF;
+
+  UPDATE disputes
+  SET status = 'resolved',
+      outcome = p_outcome,
+      worker_share = worker_amount,
+      resolution_note = NULLIF(trim(p_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_dispute_id;
+
+  summary := CASE p_outcome
+    WHEN 'refund' THEN format('Dispute resolved: the poster is refunded the full Rs. %s.', total)
+    WHEN 'release' THEN format('Dispute resolved: the full Rs. %s goes to the worker.', total)
+    ELSE format('Dispute resolved: Rs. %s to the worker and Rs. %s refunded to the poster.', worker_amount, total - worker_amount)
+  END;
+
+  IF NULLIF(trim(p_note), '') IS NOT NULL THEN
+    summary := summary || E'\nModerator note: ' || trim(p_note);
+  END IF;
+
+  SELECT id INTO conv_id
+  FROM conversations
+  WHERE job_id = job.id
+  AND worker_id = job.assigned_to;
+
+  IF conv_id IS NOT NULL THEN
+    INSERT INTO messages (conversation_id, sender_id, content)
+    VALUES (conv_id, auth.uid(), summary);
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, kind, job_id, conversation_id, body, data)
+  SELECT recipient, auth.uid(), 'dispute_resolved', job.id, conv_id, summary,
+    jsonb_build_object('outcome', p_outcome, 'workerShare', worker_amount)
+  FROM unnest(ARRAY[job.user_id, job.assigned_to]) AS recipient;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION resolve_dispute(UUID, TEXT, INTEGER, TEXT) TO authenticated;
+
+-- ============================================
+-- VIEW: Disputes with job and party details (moderator queue)
+-- security_invoker so the disputes RLS above still applies
+-- ============================================
+CREATE OR REPLACE VIEW disputes_with_details
+WITH (security_invoker = true) AS
+SELECT
+  d.id,
+  d.job_id,
+  d.opened_by,
+  d.reason,
+  d.evidence,
+  d.status,
+  d.outcome,
+  d.worker_share,
+  d.resolution_note,
+  d.resolved_by,
+  d.resolved_at,
+  d.created_at,
+  j.title AS job_title,
+  j.status AS job_status,
+  COALESCE(j.agreed_price, j.price) AS job_price,
+  j.user_id AS poster_id,
+  pp.full_name AS poster_name,
+  pp.email AS poster_email,
+  j.assigned_to AS worker_id,
+  wp.full_name AS worker_name,
+  wp.email AS worker_email
+FROM disputes d
+JOIN jobs j ON d.job_id = j.id
+LEFT JOIN profiles pp ON j.user_id = pp.id
+LEFT JOIN profiles wp ON j.assigned_to = wp.id;
+
+-- ============================================
+-- UPDATE VIEW: Jobs with Poster Info (append has_open_dispute)
+-- ============================================
+CREATE OR REPLACE VIEW jobs_with_poster AS
+SELECT
+  j.id,
+  j.title,
+  j.description,
+  j.price,
+  j.urgency,
+  j.location,
+  j.category,
+  j.status,
+  j.assigned_to,
+  j.completed_at,
+  j.created_at,
+  j.updated_at,
+  j.user_id,
+  p.full_name AS student_name,
+  p.email AS student_email,
+  p.avatar_url,
+  p.average_rating AS poster_rating,
+  p.total_ratings AS poster_total_ratings,
+  ap.full_name AS assigned_name,
+  ap.email AS assigned_email,
+  ap.avatar_url AS assigned_avatar,
+  j.agreed_price,
+  j.due_at,
+  (j.status = 'in_progress' AND j.due_at < now()) AS is_overdue,
+  j.payment_status,
+  j.payment_marked_at,
+  j.payment_confirmed_at,
+  job_has_open_dispute(j.id) AS has_open_dispute
+FROM jobs j
+LEFT JOIN profiles p ON j.user_id = p.id
+LEFT JOIN profiles ap ON j.assigned_to = ap.id;
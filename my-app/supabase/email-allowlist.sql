@@ -0,0 +1,93 @@
+-- ============================================
+-- SIGN-UP EMAIL ALLOW-LIST FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after schema.sql)
+-- New accounts need an email on an allowed domain, or an individual exception
+-- ============================================
+
+-- ============================================
+-- ALLOWED DOMAINS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS allowed_email_domains (
+  domain TEXT PRIMARY KEY CHECK (domain = lower(domain)),
+  label TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO allowed_email_domains (domain, label) VALUES
+  ('giki.edu.pk', 'GIKI students and staff'),
+  ('giki.edu', 'GIKI (legacy)')
+ON CONFLICT (domain) DO NOTHING;
+
+-- ============================================
+-- INDIVIDUAL EXCEPTIONS TABLE (alumni, staff on other domains)
+-- ============================================
+CREATE TABLE IF NOT EXISTS allowed_emails (
+  email TEXT PRIMARY KEY CHECK (email = lower(email)),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE allowed_email_domains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE allowed_emails ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view allowed email domains" ON allowed_email_domains;
+
+-- Policy: The domain list is public so the login form can explain it.
+-- Individual exceptions stay private (no policies, managed from the dashboard).
+CREATE POLICY "Anyone can view allowed email domains"
+  ON allowed_email_domains
+  FOR SELECT
+  USING (true);
+
+-- ============================================
+-- FUNCTION: Check an email against the allow-list
+-- Only used by the trigger below. It is not exposed to the app, since it
+-- would let anyone probe the private exception list one address at a time.
+-- ============================================
+CREATE OR REPLACE FUNCTION is_email_allowed(email TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM allowed_emails a WHERE a.email = lower(trim(is_email_allowed.email))
+  ) OR EXISTS (
+    SELECT 1 FROM allowed_email_domains d
+    WHERE d.domain = lower(split_part(trim(is_email_allowed.email), '@', 2))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION is_email_allowed(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- TRIGGER: Reject sign-ups and email changes from outside the allow-list
+-- Runs before handle_new_user, so no profile is created for rejected emails.
+-- This is the real gate: it also covers direct calls to the Auth API.
+-- An email change is checked when it is requested (email_change) and again
+-- when it is confirmed (email), so an account can't move off the list later.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_email_allowlist()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.email IS DISTINCT FROM OLD.email THEN
+    IF NOT public.is_email_allowed(NEW.email) THEN
+      RAISE EXCEPTION 'Sign-ups are limited to GIKI email addresses'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND COALESCE(NEW.email_change, '') <> ''
+    AND NEW.email_change IS DISTINCT FROM OLD.email_change
+    AND NOT public.is_email_allowed(NEW.email_change)
+  THEN
+    RAISE EXCEPTION 'Accounts are limited to GIKI email addresses'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_email_allowlist ON auth.users;
+CREATE TRIGGER enforce_email_allowlist
+  BEFORE INSERT OR UPDATE OF email, email_change ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_email_allowlist();
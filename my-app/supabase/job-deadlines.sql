@@ -0,0 +1,262 @@
+-- ============================================
+-- JOB DEADLINES AND EXPIRY FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after job-search.sql, offers.sql and applications.sql)
+-- Requires the pg_cron extension (Database > Extensions in the dashboard)
+-- ============================================
+
+-- ============================================
+-- FUNCTION: Default time allowed for each urgency
+-- Keep in sync with URGENCY_DURATION_HOURS in lib/deadlines.ts
+-- ============================================
+CREATE OR REPLACE FUNCTION urgency_interval(urgency TEXT)
+RETURNS INTERVAL AS $$
+  SELECT CASE urgency
+    WHEN 'ASAP' THEN INTERVAL '2 hours'
+    WHEN 'Today' THEN INTERVAL '12 hours'
+    WHEN '3 days' THEN INTERVAL '3 days'
+    WHEN 'This week' THEN INTERVAL '7 days'
+    ELSE INTERVAL '14 days'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- UPDATE JOBS TABLE: Concrete deadline
+-- ============================================
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ;
+
+-- Backfill existing jobs from their urgency
+UPDATE jobs
+SET due_at = created_at + urgency_interval(urgency)
+WHERE due_at IS NULL;
+
+-- Fill in due_at when a job is posted without an explicit deadline
+CREATE OR REPLACE FUNCTION set_job_due_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.due_at IS NULL THEN
+    NEW.due_at := coalesce(NEW.created_at, now()) + urgency_interval(NEW.urgency);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_job_due_at ON jobs;
+CREATE TRIGGER set_job_due_at
+  BEFORE INSERT ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION set_job_due_at();
+
+ALTER TABLE jobs ALTER COLUMN due_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS jobs_due_at_idx ON jobs(due_at);
+
+-- ============================================
+-- UPDATE JOBS TABLE: 'expired' status
+-- ============================================
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_status_check CHECK (status IN (
+  'open',
+  'in_progress',
+  'completed',
+  'cancelled',
+  'expired'
+));
+
+-- ============================================
+-- NOTIFICATIONS: Expiry event kind
+-- ============================================
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check CHECK (kind IN (
+  'worker_assigned',
+  'job_completed',
+  'job_cancelled',
+  'job_expired',
+  'new_applicant',
+  'new_rating',
+  'new_message',
+  'new_offer',
+  'offer_accepted',
+  'offer_rejected',
+  'offer_countered',
+  'application_shortlisted',
+  'application_rejected'
+));
+
+-- ============================================
+-- FUNCTION: Expire open jobs past their deadline
+-- Closes live offers and applications and tells the poster. Applications
+-- are withdrawn rather than rejected so workers can apply again if the job
+-- is reposted. Returns the number of jobs expired.
+-- ============================================
+CREATE OR REPLACE FUNCTION expire_stale_jobs()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  WITH expired AS (
+    UPDATE jobs
+    SET status = 'expired'
+    WHERE status = 'open'
+    AND due_at < now()
+    RETURNING id, user_id
+  ),
+  closed_offers AS (
+    UPDATE offers
+    SET status = 'rejected'
+    WHERE job_id IN (SELECT id FROM expired)
+    AND status IN ('pending', 'countered')
+  ),
+  closed_applications AS (
+    UPDATE applications
+    SET status = 'withdrawn'
+    WHERE job_id IN (SELECT id FROM expired)
+    AND status IN ('pending', 'shortlisted')
+  ),
+  notified AS (
+    INSERT INTO notifications (user_id, kind, job_id)
+    SELECT user_id, 'job_expired', id FROM expired
+  )
+  SELECT COUNT(*) INTO expired_count FROM expired;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler should run this
+REVOKE EXECUTE ON FUNCTION expire_stale_jobs() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- CRON: Run expiry every 15 minutes
+-- ============================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule('expire-stale-jobs')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'expire-stale-jobs');
+
+SELECT cron.schedule('expire-stale-jobs', '*/15 * * * *', 'SELECT expire_stale_jobs()');
+
+-- ============================================
+-- UPDATE VIEW: Jobs with Poster Info (append due_at and is_overdue)
+-- ============================================
+CREATE OR REPLACE VIEW jobs_with_poster AS
+SELECT
+  j.id,
+  j.title,
+  j.description,
+  j.price,
+  j.urgency,
+  j.location,
+  j.category,
+  j.status,
+  j.assigned_to,
+  j.completed_at,
+  j.created_at,
+  j.updated_at,
+  j.user_id,
+  p.full_name AS student_name,
+  p.email AS student_email,
+  p.avatar_url,
+  p.average_rating AS poster_rating,
+  p.total_ratings AS poster_total_ratings,
+  ap.full_name AS assigned_name,
+  ap.email AS assigned_email,
+  ap.avatar_url AS assigned_avatar,
+  j.agreed_price,
+  j.due_at,
+  (j.status = 'in_progress' AND j.due_at < now()) AS is_overdue
+FROM jobs j
+LEFT JOIN profiles p ON j.user_id = p.id
+LEFT JOIN profiles ap ON j.assigned_to = ap.id;
+
+-- ============================================
+-- FUNCTION: Search jobs (adds due_at and the 'deadline' sort)
+-- The return type changes, so drop the job-search.sql version first
+-- ============================================
+DROP FUNCTION IF EXISTS search_jobs(TEXT, TEXT, TEXT, TEXT, TEXT[], INTEGER, INTEGER, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_jobs(
+  search_query TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_urgency TEXT DEFAULT NULL,
+  filter_location TEXT DEFAULT NULL,
+  filter_statuses TEXT[] DEFAULT ARRAY['open', 'in_progress'],
+  min_price INTEGER DEFAULT NULL,
+  max_price INTEGER DEFAULT NULL,
+  sort_by TEXT DEFAULT 'newest',
+  page_limit INTEGER DEFAULT 12,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  price INTEGER,
+  urgency TEXT,
+  location TEXT,
+  category TEXT,
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  user_id UUID,
+  student_name TEXT,
+  student_email TEXT,
+  avatar_url TEXT,
+  poster_rating DECIMAL,
+  assigned_to UUID,
+  due_at TIMESTAMPTZ,
+  total_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    j.id,
+    j.title,
+    j.description,
+    j.price,
+    j.urgency,
+    j.location,
+    j.category,
+    j.status,
+    j.created_at,
+    j.user_id,
+    p.full_name AS student_name,
+    p.email AS student_email,
+    p.avatar_url,
+    p.average_rating AS poster_rating,
+    j.assigned_to,
+    j.due_at,
+    -- Total matches before LIMIT/OFFSET so the client knows when to stop
+    COUNT(*) OVER() AS total_count
+  FROM jobs j
+  LEFT JOIN profiles p ON j.user_id = p.id
+  WHERE
+    -- Status filter
+    (filter_statuses IS NULL OR j.status = ANY(filter_statuses))
+    -- Open jobs past their deadline are hidden even before the expiry job runs
+    AND NOT (j.status = 'open' AND j.due_at < now())
+    -- Search query (full text search, plus substring match for partial words while typing)
+    AND (search_query IS NULL OR search_query = '' OR
+         to_tsvector('english', coalesce(j.title, '') || ' ' || coalesce(j.description, '')) @@ plainto_tsquery('english', search_query)
+         OR j.title ILIKE '%' || search_query || '%'
+         OR j.description ILIKE '%' || search_query || '%')
+    -- Category filter
+    AND (filter_category IS NULL OR filter_category = '' OR j.category = filter_category)
+    -- Urgency filter
+    AND (filter_urgency IS NULL OR filter_urgency = '' OR j.urgency = filter_urgency)
+    -- Location filter
+    AND (filter_location IS NULL OR filter_location = '' OR j.location = filter_location)
+    -- Price range filter
+    AND (min_price IS NULL OR j.price >= min_price)
+    AND (max_price IS NULL OR j.price <= max_price)
+  ORDER BY
+    CASE WHEN sort_by = 'newest' THEN j.created_at END DESC,
+    CASE WHEN sort_by = 'oldest' THEN j.created_at END ASC,
+    CASE WHEN sort_by = 'price_low' THEN j.price END ASC,
+    CASE WHEN sort_by = 'price_high' THEN j.price END DESC,
+    CASE WHEN sort_by = 'deadline' THEN j.due_at END ASC,
+    -- Tie-breakers keep pages stable between requests
+    j.created_at DESC,
+    j.id
+  LIMIT page_limit
+  OFFSET page_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,119 @@
+-- ============================================
+-- JOB EDIT HISTORY FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after applications.sql and job-deadlines.sql)
+-- ============================================
+
+-- ============================================
+-- JOB EDITS TABLE
+-- One row per saved edit. `changes` maps each changed field
+-- to its old and new value: {"price": {"from": 300, "to": 450}}
+-- ============================================
+CREATE TABLE IF NOT EXISTS job_edits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+  -- The job that was edited
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+
+  -- Who made the edit (always the poster today)
+  editor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Field-level diff
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Timestamp
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Index for job_edits
+CREATE INDEX IF NOT EXISTS job_edits_job_id_idx ON job_edits(job_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE job_edits ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for re-running)
+DROP POLICY IF EXISTS "Posters and applicants can view job edits" ON job_edits;
+DROP POLICY IF EXISTS "Posters can record edits to their jobs" ON job_edits;
+
+-- Policy: The poster and anyone who applied can see what changed
+CREATE POLICY "Posters and applicants can view job edits"
+  ON job_edits
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_edits.job_id
+      AND jobs.user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM applications
+      WHERE applications.job_id = job_edits.job_id
+      AND applications.worker_id = auth.uid()
+    )
+  );
+
+-- Policy: Posters can record edits to their own jobs
+CREATE POLICY "Posters can record edits to their jobs"
+  ON job_edits
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = editor_id
+    AND EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_edits.job_id
+      AND jobs.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- FUNCTION: Repost an expired job with new details
+-- Called by the updateJob server action. The edit and the move back to
+-- open happen in one transaction, so a failed repost leaves the job as it
+-- was. Ordinary edits to open jobs are plain updates.
+-- ============================================
+CREATE OR REPLACE FUNCTION repost_job(
+  p_job_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_price INTEGER,
+  p_urgency TEXT,
+  p_location TEXT,
+  p_category TEXT,
+  p_due_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+DECLARE
+  job RECORD;
+BEGIN
+  SELECT * INTO job FROM jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  IF job.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only repost your own jobs';
+  END IF;
+
+  IF job.status <> 'expired' THEN
+    RAISE EXCEPTION 'Only expired jobs can be reposted';
+  END IF;
+
+  -- Let the status change past enforce_job_status_transition (job-events.sql)
+  PERFORM set_config('crowdserve.job_rpc', 'on', true);
+
+  UPDATE jobs
+  SET title = p_title,
+      description = p_description,
+      price = p_price,
+      urgency = p_urgency,
+      location = p_location,
+      category = p_category,
+      due_at = p_due_at,
+      status = 'open'
+  WHERE id = p_job_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION repost_job(UUID, TEXT, TEXT, INTEGER, TEXT, TEXT, TEXT, TIMESTAMPTZ) TO authenticated;
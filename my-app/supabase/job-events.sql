@@ -0,0 +1,254 @@
+-- ============================================
+-- JOB STATE MACHINE AND HISTORY FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after job-review.sql)
+--
+-- Every status change on jobs is checked against job_status_transitions,
+-- whichever path makes it (server actions, RPCs, cron or the dashboard),
+-- and recorded in job_events for the timeline in the job details.
+-- Keep the transitions in sync with lib/job-transitions.ts
+-- ============================================
+
+-- ============================================
+-- TRANSITIONS TABLE
+-- actor is who may make the move:
+--   poster - the job's owner
+--   worker - the assigned worker
+--   system - scheduled jobs, and moderators settling a dispute
+-- ============================================
+CREATE TABLE IF NOT EXISTS job_status_transitions (
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  actor TEXT NOT NULL CHECK (actor IN ('poster', 'worker', 'system')),
+  PRIMARY KEY (from_status, to_status, actor)
+);
+
+ALTER TABLE job_status_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view job status transitions" ON job_status_transitions;
+
+-- Policy: The rules are public; changes are made here, not from the app
+CREATE POLICY "Anyone can view job status transitions"
+  ON job_status_transitions
+  FOR SELECT
+  USING (true);
+
+DELETE FROM job_status_transitions;
+
+INSERT INTO job_status_transitions (from_status, to_status, actor) VALUES
+  ('open', 'in_progress', 'poster'),
+  ('open', 'cancelled', 'poster'),
+  ('open', 'expired', 'system'),
+  ('expired', 'open', 'poster'),
+  ('in_progress', 'pending_review', 'worker'),
+  ('in_progress', 'completed', 'poster'),
+  ('in_progress', 'completed', 'system'),
+  ('in_progress', 'cancelled', 'poster'),
+  ('in_progress', 'cancelled', 'system'),
+  ('in_progress', 'open', 'poster'),
+  ('pending_review', 'completed', 'poster'),
+  ('pending_review', 'completed', 'system'),
+  ('pending_review', 'in_progress', 'poster'),
+  ('pending_review', 'cancelled', 'system');
+
+-- ============================================
+-- FUNCTION: Who is changing a job right now
+-- No signed-in user means a scheduled job; resolve_dispute flags itself
+-- with crowdserve.resolving_dispute (see disputes.sql).
+-- ============================================
+CREATE OR REPLACE FUNCTION current_job_actor(p_poster_id UUID, p_worker_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN 'system'
+    WHEN current_setting('crowdserve.resolving_dispute', true) = 'on' THEN 'system'
+    WHEN auth.uid() = p_poster_id THEN 'poster'
+    WHEN auth.uid() = p_worker_id THEN 'worker'
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- TRIGGER: Enforce the state machine
+-- Signed-in users only change status through the RPCs (set_job_status,
+-- assign_job_worker, accept_offer, resolve_dispute), which settle the escrow
+-- in the same transaction and flag themselves with crowdserve.job_rpc. A
+-- plain UPDATE through the jobs policies would skip the ledger.
+-- ============================================
+CREATE OR REPLACE FUNCTION enforce_job_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  job_actor TEXT := current_job_actor(OLD.user_id, OLD.assigned_to);
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+    AND current_setting('crowdserve.job_rpc', true) IS DISTINCT FROM 'on'
+    AND current_setting('crowdserve.resolving_dispute', true) IS DISTINCT FROM 'on'
+  THEN
+    RAISE EXCEPTION 'Job status can only be changed through the app';
+  END IF;
+
+  IF job_actor IS NULL OR NOT EXISTS (
+    SELECT 1 FROM job_status_transitions t
+    WHERE t.from_status = OLD.status
+    AND t.to_status = NEW.status
+    AND t.actor = job_actor
+  ) THEN
+    RAISE EXCEPTION 'Job % cannot move from % to % (as %)',
+      OLD.id, OLD.status, NEW.status, COALESCE(job_actor, 'outsider');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_job_status_transition ON jobs;
+CREATE TRIGGER enforce_job_status_transition
+  BEFORE UPDATE OF status ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_job_status_transition();
+
+-- ============================================
+-- JOB EVENTS TABLE
+-- One row per status change. from_status is NULL for the job being posted.
+-- worker_id is the worker assigned at the time, so a worker keeps seeing the
+-- history of a job they were later unassigned from.
+-- ============================================
+CREATE TABLE IF NOT EXISTS job_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('poster', 'worker', 'system')),
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  worker_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS job_events_job_id_idx ON job_events(job_id, created_at);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Read-only from the app; rows are written by the triggers below
+-- ============================================
+ALTER TABLE job_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Job parties can view job events" ON job_events;
+
+-- Policy: The poster, workers involved and moderators can see a job's history
+CREATE POLICY "Job parties can view job events"
+  ON job_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    worker_id = auth.uid()
+    OR is_moderator()
+    OR EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = job_events.job_id
+      AND (jobs.user_id = auth.uid() OR jobs.assigned_to = auth.uid())
+    )
+  );
+
+-- ============================================
+-- TRIGGERS: Record every status change
+-- ============================================
+CREATE OR REPLACE FUNCTION record_job_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO job_events (job_id, actor_id, actor_role, from_status, to_status, worker_id)
+    VALUES (NEW.id, NEW.user_id, 'poster', NULL, NEW.status, NEW.assigned_to);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO job_events (job_id, actor_id, actor_role, from_status, to_status, worker_id, note)
+  VALUES (
+    NEW.id,
+    auth.uid(),
+    current_job_actor(OLD.user_id, OLD.assigned_to),
+    OLD.status,
+    NEW.status,
+    COALESCE(NEW.assigned_to, OLD.assigned_to),
+    -- The poster's note when a submission is sent back
+    CASE WHEN OLD.status = 'pending_review' AND NEW.status = 'in_progress' THEN NEW.review_note END
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_job_created ON jobs;
+CREATE TRIGGER record_job_created
+  AFTER INSERT ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION record_job_event();
+
+DROP TRIGGER IF EXISTS record_job_status_change ON jobs;
+CREATE TRIGGER record_job_status_change
+  AFTER UPDATE OF status ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION record_job_event();
+
+-- ============================================
+-- BACKFILL: A best-effort history for jobs posted before events existed
+-- the posting, then one step to the current status
+-- ============================================
+INSERT INTO job_events (job_id, actor_id, actor_role, from_status, to_status, created_at)
+SELECT j.id, j.user_id, 'poster', NULL, 'open', j.created_at
+FROM jobs j
+WHERE NOT EXISTS (SELECT 1 FROM job_events e WHERE e.job_id = j.id);
+
+INSERT INTO job_events (job_id, actor_id, actor_role, from_status, to_status, worker_id, created_at)
+SELECT
+  j.id,
+  CASE j.status
+    WHEN 'expired' THEN NULL
+    WHEN 'pending_review' THEN j.assigned_to
+    ELSE j.user_id
+  END,
+  CASE j.status
+    WHEN 'expired' THEN 'system'
+    WHEN 'pending_review' THEN 'worker'
+    ELSE 'poster'
+  END,
+  CASE WHEN j.status = 'pending_review' THEN 'in_progress' ELSE 'open' END,
+  j.status,
+  j.assigned_to,
+  COALESCE(j.submitted_at, j.completed_at, j.updated_at, j.created_at)
+FROM jobs j
+WHERE j.status <> 'open'
+AND NOT EXISTS (
+  SELECT 1 FROM job_events e
+  WHERE e.job_id = j.id
+  AND e.from_status IS NOT NULL
+);
+
+-- ============================================
+-- VIEW: Job events with actor and worker names (timeline)
+-- security_invoker so the job_events RLS above still applies
+-- ============================================
+CREATE OR REPLACE VIEW job_events_with_actor
+WITH (security_invoker = true) AS
+SELECT
+  e.id,
+  e.job_id,
+  e.actor_id,
+  e.actor_role,
+  e.from_status,
+  e.to_status,
+  e.worker_id,
+  e.note,
+  e.created_at,
+  ap.full_name AS actor_name,
+  ap.email AS actor_email,
+  wp.full_name AS worker_name,
+  wp.email AS worker_email
+FROM job_events e
+LEFT JOIN profiles ap ON e.actor_id = ap.id
+LEFT JOIN profiles wp ON e.worker_id = wp.id;
@@ -0,0 +1,22 @@
+-- ============================================
+-- JOB DETAIL PAGE FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after job-events.sql)
+--
+-- The shareable /jobs/[id] page is public, but applications are only
+-- readable by the job's parties, so the applicant count comes from here.
+-- ============================================
+
+-- ============================================
+-- FUNCTION: Number of live applications on a job
+-- Withdrawn applications don't count
+-- ============================================
+CREATE OR REPLACE FUNCTION job_applicant_count(p_job_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM applications
+  WHERE job_id = p_job_id
+  AND status <> 'withdrawn';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Signed-out visitors see the count on shared links too
+GRANT EXECUTE ON FUNCTION job_applicant_count(UUID) TO anon, authenticated;
@@ -0,0 +1,468 @@
+-- ============================================
+-- TWO-STEP COMPLETION FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after disputes.sql)
+--
+-- The worker no longer completes a job. They submit it for review
+-- (pending_review) and the poster either approves it, which completes the
+-- job and releases the escrow, or requests changes with a note, which puts
+-- it back in progress. A submission the poster leaves alone is approved
+-- automatically after a timeout.
+-- Keep the timeout and limits in sync with lib/review.ts
+-- ============================================
+
+-- ============================================
+-- UPDATE JOBS TABLE: 'pending_review' status and review fields
+-- ============================================
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_status_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_status_check CHECK (status IN (
+  'open',
+  'in_progress',
+  'pending_review',
+  'completed',
+  'cancelled',
+  'expired'
+));
+
+-- When the worker last submitted the job for review
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ;
+
+-- The poster's note from the last "request changes"
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS review_note TEXT
+  CHECK (review_note IS NULL OR char_length(review_note) <= 500);
+
+-- ============================================
+-- RLS: Workers can no longer update jobs directly
+-- Submitting goes through set_job_status, which stamps submitted_at itself
+-- ============================================
+DROP POLICY IF EXISTS "Assigned workers can update job status" ON jobs;
+
+-- ============================================
+-- TRIGGER: Keep the hiring and review columns out of direct updates
+-- The poster can still update their own row for edits, so the worker, the
+-- agreed price and the review timestamps only change through the RPCs,
+-- which flag themselves with crowdserve.job_rpc. The price is only edited
+-- while the job is still open or expired (see app/actions/update-job.ts).
+-- ============================================
+CREATE OR REPLACE FUNCTION guard_job_review_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR current_setting('crowdserve.job_rpc', true) = 'on'
+    OR current_setting('crowdserve.resolving_dispute', true) = 'on'
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+    OR NEW.agreed_price IS DISTINCT FROM OLD.agreed_price
+    OR NEW.submitted_at IS DISTINCT FROM OLD.submitted_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR NEW.review_note IS DISTINCT FROM OLD.review_note
+  THEN
+    RAISE EXCEPTION 'This job can only be changed through the app';
+  END IF;
+
+  IF NEW.price IS DISTINCT FROM OLD.price AND OLD.status NOT IN ('open', 'expired') THEN
+    RAISE EXCEPTION 'The price can only be changed while the job is open';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_job_review_columns ON jobs;
+CREATE TRIGGER guard_job_review_columns
+  BEFORE UPDATE OF assigned_to, agreed_price, submitted_at, completed_at, review_note, price ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_job_review_columns();
+
+-- ============================================
+-- NOTIFICATIONS: Review event kinds
+-- ============================================
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check CHECK (kind IN (
+  'worker_assigned',
+  'job_completed',
+  'job_cancelled',
+  'job_expired',
+  'new_applicant',
+  'new_rating',
+  'new_message',
+  'new_offer',
+  'offer_accepted',
+  'offer_rejected',
+  'offer_countered',
+  'application_shortlisted',
+  'application_rejected',
+  'payment_marked_paid',
+  'payment_confirmed',
+  'payment_disputed',
+  'payment_reminder',
+  'dispute_opened',
+  'dispute_resolved',
+  'work_submitted',
+  'changes_requested',
+  'work_auto_approved'
+));
+
+-- ============================================
+-- FUNCTION: Change a job's status (replaces the one in ledger.sql)
+--   pending_review - the assigned worker submits an in-progress job
+--   in_progress    - the poster requests changes on a submitted job (p_note)
+--   completed      - the poster approves; the escrow is released
+--   cancelled/open - the poster closes or reopens; the escrow is refunded
+--                    (not once the work has been submitted)
+-- ============================================
+DROP FUNCTION IF EXISTS set_job_status(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION set_job_status(
+  p_job_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  job RECORD;
+  is_owner BOOLEAN;
+BEGIN
+  SELECT * INTO job FROM jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  is_owner := job.user_id = auth.uid();
+
+  IF p_status = 'pending_review' THEN
+    IF job.assigned_to IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the assigned worker can submit a job for review';
+    END IF;
+    IF job.status <> 'in_progress' THEN
+      RAISE EXCEPTION 'Job must be in progress to be submitted';
+    END IF;
+  ELSIF NOT is_owner THEN
+    RAISE EXCEPTION 'Only the job owner can change this job';
+  ELSIF p_status = 'completed' AND job.status NOT IN ('in_progress', 'pending_review') THEN
+    RAISE EXCEPTION 'Job must be in progress to be completed';
+  ELSIF p_status = 'in_progress' AND job.status <> 'pending_review' THEN
+    RAISE EXCEPTION 'Changes can only be requested on submitted jobs';
+  ELSIF p_status IN ('cancelled', 'open') AND job.status = 'pending_review' THEN
+    RAISE EXCEPTION 'A submitted job must be approved, sent back or disputed';
+  END IF;
+
+  -- Let the status change past enforce_job_status_transition (job-events.sql)
+  PERFORM set_config('crowdserve.job_rpc', 'on', true);
+
+  IF p_status = 'pending_review' THEN
+    UPDATE jobs
+    SET status = p_status,
+        submitted_at = now()
+    WHERE id = p_job_id;
+  ELSIF p_status = 'in_progress' THEN
+    UPDATE jobs
+    SET status = p_status,
+        review_note = NULLIF(trim(p_note), '')
+    WHERE id = p_job_id;
+  ELSIF p_status = 'completed' THEN
+    PERFORM post_job_ledger_transaction(p_job_id, 'release', job.user_id, job.assigned_to);
+
+    UPDATE jobs
+    SET status = p_status,
+        completed_at = now(),
+        review_note = NULL
+    WHERE id = p_job_id;
+  ELSIF p_status = 'cancelled' THEN
+    IF job.assigned_to IS NOT NULL THEN
+      PERFORM post_job_ledger_transaction(p_job_id, 'refund', job.user_id, job.assigned_to);
+    END IF;
+
+    UPDATE jobs
+    SET status = p_status,
+        assigned_to = NULL
+    WHERE id = p_job_id;
+  ELSIF p_status = 'open' THEN
+    IF job.assigned_to IS NOT NULL THEN
+      PERFORM post_job_ledger_transaction(p_job_id, 'refund', job.user_id, job.assigned_to);
+    END IF;
+
+    UPDATE jobs
+    SET status = p_status,
+        assigned_to = NULL,
+        completed_at = NULL,
+        agreed_price = NULL,
+        submitted_at = NULL,
+        review_note = NULL
+    WHERE id = p_job_id;
+  ELSE
+    UPDATE jobs
+    SET status = p_status
+    WHERE id = p_job_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_job_status(UUID, TEXT, TEXT) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Approve submissions the poster hasn't reviewed
+-- Completes jobs that have sat in pending_review for longer than p_after,
+-- releases their escrow and tells both sides. Jobs under dispute are left
+-- for the moderator.
+-- Returns the number of jobs approved.
+-- ============================================
+CREATE OR REPLACE FUNCTION auto_approve_reviews(p_after INTERVAL DEFAULT INTERVAL '72 hours')
+RETURNS INTEGER AS $$
+DECLARE
+  job RECORD;
+  conv_id UUID;
+  approved INTEGER := 0;
+BEGIN
+  FOR job IN
+    SELECT * FROM jobs
+    WHERE status = 'pending_review'
+    AND submitted_at < now() - p_after
+    AND assigned_to IS NOT NULL
+    AND NOT job_has_open_dispute(id)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM post_job_ledger_transaction(job.id, 'release', job.user_id, job.assigned_to);
+
+    UPDATE jobs
+    SET status = 'completed',
+        completed_at = now(),
+        review_note = NULL
+    WHERE id = job.id;
+
+    SELECT id INTO conv_id
+    FROM conversations
+    WHERE job_id = job.id
+    AND worker_id = job.assigned_to;
+
+    IF conv_id IS NOT NULL THEN
+      INSERT INTO messages (conversation_id, sender_id, content)
+      VALUES (
+        conv_id,
+        job.user_id,
+        format('"%s" was approved automatically after %s without a review.', job.title, p_after)
+      );
+    END IF;
+
+    INSERT INTO notifications (user_id, kind, job_id, conversation_id)
+    VALUES
+      (job.user_id, 'work_auto_approved', job.id, conv_id),
+      (job.assigned_to, 'work_auto_approved', job.id, conv_id);
+
+    approved := approved + 1;
+  END LOOP;
+
+  RETURN approved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler should run this
+REVOKE EXECUTE ON FUNCTION auto_approve_reviews(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- CRON: Check for unreviewed submissions every hour
+-- Change the interval here to change the auto-approval timeout
+-- ============================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule('auto-approve-reviews')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'auto-approve-reviews');
+
+SELECT cron.schedule('auto-approve-reviews', '0 * * * *', $$SELECT auto_approve_reviews(INTERVAL '72 hours')$$);
+
+-- ============================================
+-- DISPUTES: Submitted jobs can be disputed too
+-- ============================================
+DROP POLICY IF EXISTS "Job parties can open disputes" ON disputes;
+
+-- Policy: Either side can open a dispute on an active or completed job
+CREATE POLICY "Job parties can open disputes"
+  ON disputes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = opened_by
+    AND status = 'open'
+    AND EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = disputes.job_id
+      AND jobs.status IN ('in_progress', 'pending_review', 'completed')
+      AND (jobs.user_id = auth.uid() OR jobs.assigned_to = auth.uid())
+    )
+  );
+
+-- ============================================
+-- FUNCTION: Resolve a dispute (replaces the one in disputes.sql)
+-- Same as before, except a submitted job is settled from escrow like an
+-- in-progress one.
+-- ============================================
+CREATE OR REPLACE FUNCTION resolve_dispute(
+  p_dispute_id UUID,
+  p_outcome TEXT,
+  p_worker_share INTEGER DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  dispute RECORD;
+  job RECORD;
+  total INTEGER;
+  worker_amount INTEGER;
+  released INTEGER;
+  conv_id UUID;
+  summary TEXT;
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can resolve disputes';
+  END IF;
+
+  SELECT * INTO dispute FROM disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This dispute has already been resolved';
+  END IF;
+
+  SELECT * INTO job FROM jobs WHERE id = dispute.job_id FOR UPDATE;
+
+  IF job.assigned_to IS NULL THEN
+    RAISE EXCEPTION 'This job has no assigned worker';
+  END IF;
+
+  total := COALESCE(job.agreed_price, job.price);
+
+  worker_amount := CASE p_outcome
+    WHEN 'refund' THEN 0
+    WHEN 'release' THEN total
+    WHEN 'split' THEN p_worker_share
+  END;
+
+  IF p_outcome NOT IN ('refund', 'release', 'split') THEN
+    RAISE EXCEPTION 'Invalid outcome %', p_outcome;
+  END IF;
+
+  IF p_outcome = 'split' AND (worker_amount IS NULL OR worker_amount <= 0 OR worker_amount >= total) THEN
+    RAISE EXCEPTION 'The worker''s share must be between 1 and %', total - 1;
+  END IF;
+
+  PERFORM set_config('crowdserve.resolving_dispute', 'on', true);
+
+  IF job.status IN ('in_progress', 'pending_review') THEN
+    PERFORM post_job_ledger_transaction(job.id, 'release', job.user_id, job.assigned_to, worker_amount);
+    PERFORM post_job_ledger_transaction(job.id, 'refund', job.user_id, job.assigned_to);
+
+    IF worker_amount > 0 THEN
+      UPDATE jobs
+      SET status = 'completed',
+          completed_at = now(),
+          review_note = NULL
+      WHERE id = job.id;
+    ELSE
+      UPDATE jobs
+      SET status = 'cancelled',
+          assigned_to = NULL
+      WHERE id = job.id;
+    END IF;
+  ELSE
+    SELECT COALESCE(SUM(CASE WHEN kind = 'release' THEN amount ELSE -amount END), 0)
+    INTO released
+    FROM ledger_transactions
+    WHERE job_id = job.id
+    AND kind IN ('release', 'adjustment');
+
+    IF released > worker_amount THEN
+      PERFORM post_job_ledger_transaction(job.id, 'adjustment', job.user_id, job.assigned_to, released - worker_amount);
+    END IF;
+
+    -- Cash is still owed for the worker's share; nothing is owed after a refund
+    UPDATE jobs
+    SET payment_status = CASE WHEN worker_amount > 0 THEN 'pending' END,
+        payment_marked_at = NULL,
+        payment_confirmed_at = NULL,
+        payment_reminded_at = NULL
+    WHERE id = job.id
+    AND payment_status = 'disputed';
+  END IF;
+
+  UPDATE disputes
+  SET status = 'resolved',
+      outcome = p_outcome,
+      worker_share = worker_amount,
+      resolution_note = NULLIF(trim(p_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_dispute_id;
+
+  summary := CASE p_outcome
+    WHEN 'refund' THEN format('Dispute resolved: the poster is refunded the full Rs. %s.', total)
+    WHEN 'release' THEN format('Dispute resolved: the full Rs. %s goes to the worker.', total)
+    ELSE format('Dispute resolved: Rs. %s to the worker and Rs. %s refunded to the poster.', worker_amount, total - worker_amount)
+  END;
+
+  IF NULLIF(trim(p_note), '') IS NOT NULL THEN
+    summary := summary || E'\nModerator note: ' || trim(p_note);
+  END IF;
+
+  SELECT id INTO conv_id
+  FROM conversations
+  WHERE job_id = job.id
+  AND worker_id = job.assigned_to;
+
+  IF conv_id IS NOT NULL THEN
+    INSERT INTO messages (conversation_id, sender_id, content)
+    VALUES (conv_id, auth.uid(), summary);
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, kind, job_id, conversation_id, body, data)
+  SELECT recipient, auth.uid(), 'dispute_resolved', job.id, conv_id, summary,
+    jsonb_build_object('outcome', p_outcome, 'workerShare', worker_amount)
+  FROM unnest(ARRAY[job.user_id, job.assigned_to]) AS recipient;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION resolve_dispute(UUID, TEXT, INTEGER, TEXT) TO authenticated;
+
+-- ============================================
+-- UPDATE VIEW: Jobs with Poster Info (append review fields)
+-- ============================================
+CREATE OR REPLACE VIEW jobs_with_poster AS
+SELECT
+  j.id,
+  j.title,
+  j.description,
+  j.price,
+  j.urgency,
+  j.location,
+  j.category,
+  j.status,
+  j.assigned_to,
+  j.completed_at,
+  j.created_at,
+  j.updated_at,
+  j.user_id,
+  p.full_name AS student_name,
+  p.email AS student_email,
+  p.avatar_url,
+  p.average_rating AS poster_rating,
+  p.total_ratings AS poster_total_ratings,
+  ap.full_name AS assigned_name,
+  ap.email AS assigned_email,
+  ap.avatar_url AS assigned_avatar,
+  j.agreed_price,
+  j.due_at,
+  (j.status = 'in_progress' AND j.due_at < now()) AS is_overdue,
+  j.payment_status,
+  j.payment_marked_at,
+  j.payment_confirmed_at,
+  job_has_open_dispute(j.id) AS has_open_dispute,
+  j.submitted_at,
+  j.review_note
+FROM jobs j
+LEFT JOIN profiles p ON j.user_id = p.id
+LEFT JOIN profiles ap ON j.assigned_to = ap.id;
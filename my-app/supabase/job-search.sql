@@ -0,0 +1,104 @@
+-- ============================================
+-- PAGINATED JOB SEARCH FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after schema-v2.sql)
+-- Replaces search_jobs with a version that drives the home feed:
+-- multiple statuses, page limit/offset and a total count
+-- ============================================
+
+-- The signature changes, so drop the schema-v2 version first
+-- (CREATE OR REPLACE would otherwise leave an ambiguous overload)
+DROP FUNCTION IF EXISTS search_jobs(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT);
+
+-- ============================================
+-- FUNCTION: Search jobs with filters and pagination
+-- ============================================
+CREATE OR REPLACE FUNCTION search_jobs(
+  search_query TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_urgency TEXT DEFAULT NULL,
+  filter_location TEXT DEFAULT NULL,
+  filter_statuses TEXT[] DEFAULT ARRAY['open', 'in_progress'],
+  min_price INTEGER DEFAULT NULL,
+  max_price INTEGER DEFAULT NULL,
+  sort_by TEXT DEFAULT 'newest',
+  page_limit INTEGER DEFAULT 12,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  price INTEGER,
+  urgency TEXT,
+  location TEXT,
+  category TEXT,
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  user_id UUID,
+  student_name TEXT,
+  student_email TEXT,
+  avatar_url TEXT,
+  poster_rating DECIMAL,
+  assigned_to UUID,
+  total_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    j.id,
+    j.title,
+    j.description,
+    j.price,
+    j.urgency,
+    j.location,
+    j.category,
+    j.status,
+    j.created_at,
+    j.user_id,
+    p.full_name AS student_name,
+    p.email AS student_email,
+    p.avatar_url,
+    p.average_rating AS poster_rating,
+    j.assigned_to,
+    -- Total matches before LIMIT/OFFSET so the client knows when to stop
+    COUNT(*) OVER() AS total_count
+  FROM jobs j
+  LEFT JOIN profiles p ON j.user_id = p.id
+  WHERE
+    -- Status filter
+    (filter_statuses IS NULL OR j.status = ANY(filter_statuses))
+    -- Search query (full text search, plus substring match for partial words while typing)
+    AND (search_query IS NULL OR search_query = '' OR
+         to_tsvector('english', coalesce(j.title, '') || ' ' || coalesce(j.description, '')) @@ plainto_tsquery('english', search_query)
+         OR j.title ILIKE '%' || search_query || '%'
+         OR j.description ILIKE '%' || search_query || '%')
+    -- Category filter
+    AND (filter_category IS NULL OR filter_category = '' OR j.category = filter_category)
+    -- Urgency filter
+    AND (filter_urgency IS NULL OR filter_urgency = '' OR j.urgency = filter_urgency)
+    -- Location filter
+    AND (filter_location IS NULL OR filter_location = '' OR j.location = filter_location)
+    -- Price range filter
+    AND (min_price IS NULL OR j.price >= min_price)
+    AND (max_price IS NULL OR j.price <= max_price)
+  ORDER BY
+    CASE WHEN sort_by = 'newest' THEN j.created_at END DESC,
+    CASE WHEN sort_by = 'oldest' THEN j.created_at END ASC,
+    CASE WHEN sort_by = 'price_low' THEN j.price END ASC,
+    CASE WHEN sort_by = 'price_high' THEN j.price END DESC,
+    CASE WHEN sort_by = 'urgency' THEN
+      CASE j.urgency
+        WHEN 'ASAP' THEN 1
+        WHEN 'Today' THEN 2
+        WHEN '3 days' THEN 3
+        WHEN 'This week' THEN 4
+        ELSE 5
+      END
+    END ASC,
+    -- Tie-breakers keep pages stable between requests
+    j.created_at DESC,
+    j.id
+  LIMIT page_limit
+  OFFSET page_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,418 @@
+-- ============================================
+-- PAYMENT LEDGER FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after offers.sql and job-deadlines.sql)
+--
+-- Escrow-style double-entry ledger. Every movement of money is a
+-- transaction with balanced entries (they always sum to zero):
+--   hold    - on assignment:   poster wallet -> job escrow
+--   release - on completion:   job escrow    -> worker wallet
+--   refund  - on cancellation: job escrow    -> poster wallet
+-- ============================================
+
+-- ============================================
+-- LEDGER TRANSACTIONS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+  -- Job the money is for (kept as history if the job is deleted)
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+
+  kind TEXT NOT NULL CHECK (kind IN ('hold', 'release', 'refund')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+
+  -- Both sides of the job at the time of the transaction
+  poster_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  worker_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Who triggered it
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ledger_transactions_job_id_idx ON ledger_transactions(job_id);
+CREATE INDEX IF NOT EXISTS ledger_transactions_poster_id_idx ON ledger_transactions(poster_id);
+CREATE INDEX IF NOT EXISTS ledger_transactions_worker_id_idx ON ledger_transactions(worker_id);
+
+-- ============================================
+-- LEDGER ENTRIES TABLE
+-- One row per account touched. Positive amounts credit the account,
+-- negative amounts debit it.
+-- ============================================
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_id UUID NOT NULL REFERENCES ledger_transactions(id) ON DELETE CASCADE,
+
+  -- 'wallet' belongs to user_id; 'escrow' is the per-job holding account
+  account TEXT NOT NULL CHECK (account IN ('wallet', 'escrow')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CHECK ((account = 'wallet') = (user_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS ledger_entries_transaction_id_idx ON ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS ledger_entries_user_id_idx ON ledger_entries(user_id) WHERE account = 'wallet';
+
+-- ============================================
+-- TRIGGER: Every transaction must balance
+-- Deferred so all entries of a transaction are in place before the check
+-- ============================================
+CREATE OR REPLACE FUNCTION check_ledger_transaction_balanced()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (
+    SELECT COALESCE(SUM(amount), 0)
+    FROM ledger_entries
+    WHERE transaction_id = NEW.transaction_id
+  ) <> 0 THEN
+    RAISE EXCEPTION 'Ledger transaction % does not balance', NEW.transaction_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_ledger_transaction_balanced ON ledger_entries;
+CREATE CONSTRAINT TRIGGER check_ledger_transaction_balanced
+  AFTER INSERT OR UPDATE ON ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION check_ledger_transaction_balanced();
+
+-- ============================================
+-- RLS: Both sides of a job can read its ledger.
+-- There are no write policies; entries are only written by the
+-- SECURITY DEFINER functions below.
+-- ============================================
+ALTER TABLE ledger_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Posters and workers can view their ledger transactions" ON ledger_transactions;
+DROP POLICY IF EXISTS "Posters and workers can view their ledger entries" ON ledger_entries;
+
+-- Policy: The poster and worker on a transaction can see it
+CREATE POLICY "Posters and workers can view their ledger transactions"
+  ON ledger_transactions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = poster_id OR auth.uid() = worker_id);
+
+-- Policy: Entries follow their transaction
+CREATE POLICY "Posters and workers can view their ledger entries"
+  ON ledger_entries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ledger_transactions t
+      WHERE t.id = ledger_entries.transaction_id
+      AND (auth.uid() = t.poster_id OR auth.uid() = t.worker_id)
+    )
+  );
+
+-- ============================================
+-- FUNCTION: Money currently held in escrow for a job
+-- ============================================
+CREATE OR REPLACE FUNCTION job_escrow_balance(p_job_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(e.amount), 0)::INTEGER
+  FROM ledger_entries e
+  JOIN ledger_transactions t ON t.id = e.transaction_id
+  WHERE t.job_id = p_job_id
+  AND e.account = 'escrow';
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- FUNCTION: Post one ledger transaction for a job
+-- hold takes the job's agreed (or posted) price; release and refund move
+-- whatever is still in escrow. Does nothing when there is nothing to move.
+-- Internal: called by the job functions below.
+-- ============================================
+CREATE OR REPLACE FUNCTION post_job_ledger_transaction(
+  p_job_id UUID,
+  p_kind TEXT,
+  p_poster_id UUID,
+  p_worker_id UUID,
+  p_amount INTEGER DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  escrow_balance INTEGER := job_escrow_balance(p_job_id);
+  tx_amount INTEGER;
+  tx_id UUID;
+BEGIN
+  IF p_kind = 'hold' THEN
+    IF escrow_balance > 0 THEN
+      RAISE EXCEPTION 'Payment for job % is already held', p_job_id;
+    END IF;
+    tx_amount := p_amount;
+  ELSE
+    tx_amount := escrow_balance;
+  END IF;
+
+  IF tx_amount IS NULL OR tx_amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO ledger_transactions (job_id, kind, amount, poster_id, worker_id, created_by)
+  VALUES (p_job_id, p_kind, tx_amount, p_poster_id, p_worker_id, auth.uid())
+  RETURNING id INTO tx_id;
+
+  INSERT INTO ledger_entries (transaction_id, account, user_id, amount)
+  SELECT tx_id, entry.account, entry.user_id, entry.amount
+  FROM (VALUES
+    -- hold: poster wallet -> escrow
+    ('hold', 'wallet', p_poster_id, -tx_amount),
+    ('hold', 'escrow', NULL::UUID, tx_amount),
+    -- release: escrow -> worker wallet
+    ('release', 'escrow', NULL::UUID, -tx_amount),
+    ('release', 'wallet', p_worker_id, tx_amount),
+    -- refund: escrow -> poster wallet
+    ('refund', 'escrow', NULL::UUID, -tx_amount),
+    ('refund', 'wallet', p_poster_id, tx_amount)
+  ) AS entry(kind, account, user_id, amount)
+  WHERE entry.kind = p_kind;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION post_job_ledger_transaction(UUID, TEXT, UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Assign a worker and hold the payment in escrow
+-- Shared by assign_job_worker and accept_offer below. The job update and
+-- the hold commit together or not at all. Not callable from the app, so an
+-- agreed price can only come from an accepted offer.
+-- ============================================
+CREATE OR REPLACE FUNCTION hire_job_worker(
+  p_job_id UUID,
+  p_worker_id UUID,
+  p_agreed_price INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  job RECORD;
+BEGIN
+  SELECT * INTO job FROM jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  IF job.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only assign workers to your own jobs';
+  END IF;
+
+  IF job.status <> 'open' THEN
+    RAISE EXCEPTION 'Can only assign workers to open jobs';
+  END IF;
+
+  IF p_worker_id = job.user_id THEN
+    RAISE EXCEPTION 'You cannot assign yourself';
+  END IF;
+
+  -- Let the status change past enforce_job_status_transition (job-events.sql)
+  PERFORM set_config('crowdserve.job_rpc', 'on', true);
+
+  UPDATE jobs
+  SET assigned_to = p_worker_id,
+      status = 'in_progress',
+      agreed_price = p_agreed_price
+  WHERE id = p_job_id;
+
+  PERFORM post_job_ledger_transaction(
+    p_job_id, 'hold', job.user_id, p_worker_id, COALESCE(p_agreed_price, job.price)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION hire_job_worker(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Assign a worker at the posted price
+-- Called by the assignWorker server action
+-- ============================================
+DROP FUNCTION IF EXISTS assign_job_worker(UUID, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION assign_job_worker(p_job_id UUID, p_worker_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM hire_job_worker(p_job_id, p_worker_id, NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION assign_job_worker(UUID, UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Accept an offer
+-- Assigns the worker at the offered price, marks the offer accepted and
+-- closes every other live offer on the job, all in one transaction.
+-- Called by the assignWorker server action when an offer is accepted.
+-- ============================================
+CREATE OR REPLACE FUNCTION accept_offer(p_offer_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  offer RECORD;
+BEGIN
+  SELECT * INTO offer FROM offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending offers can be accepted';
+  END IF;
+
+  -- Also checks that the caller posted the job and that it is still open
+  PERFORM hire_job_worker(offer.job_id, offer.worker_id, offer.price);
+
+  UPDATE offers
+  SET status = 'accepted'
+  WHERE id = p_offer_id;
+
+  UPDATE offers
+  SET status = 'rejected'
+  WHERE job_id = offer.job_id
+  AND id <> p_offer_id
+  AND status IN ('pending', 'countered');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION accept_offer(UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Change a job's status and settle its escrow
+-- Called by the updateJobStatus server action:
+--   completed       - release escrow to the assigned worker
+--   cancelled, open - refund escrow to the poster
+-- ============================================
+CREATE OR REPLACE FUNCTION set_job_status(p_job_id UUID, p_status TEXT)
+RETURNS VOID AS $$
+DECLARE
+  job RECORD;
+  is_owner BOOLEAN;
+BEGIN
+  SELECT * INTO job FROM jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  is_owner := job.user_id = auth.uid();
+
+  IF p_status = 'completed' THEN
+    IF NOT is_owner AND job.assigned_to IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the job owner or assigned worker can complete a job';
+    END IF;
+    IF job.status <> 'in_progress' THEN
+      RAISE EXCEPTION 'Job must be in progress to be completed';
+    END IF;
+  ELSIF NOT is_owner THEN
+    RAISE EXCEPTION 'Only the job owner can change this job';
+  END IF;
+
+  -- Let the status change past enforce_job_status_transition (job-events.sql)
+  PERFORM set_config('crowdserve.job_rpc', 'on', true);
+
+  IF p_status = 'completed' THEN
+    PERFORM post_job_ledger_transaction(p_job_id, 'release', job.user_id, job.assigned_to);
+
+    UPDATE jobs
+    SET status = p_status,
+        completed_at = now()
+    WHERE id = p_job_id;
+  ELSIF p_status = 'cancelled' THEN
+    IF job.assigned_to IS NOT NULL THEN
+      PERFORM post_job_ledger_transaction(p_job_id, 'refund', job.user_id, job.assigned_to);
+    END IF;
+
+    UPDATE jobs
+    SET status = p_status,
+        assigned_to = NULL
+    WHERE id = p_job_id;
+  ELSIF p_status = 'open' THEN
+    IF job.assigned_to IS NOT NULL THEN
+      PERFORM post_job_ledger_transaction(p_job_id, 'refund', job.user_id, job.assigned_to);
+    END IF;
+
+    UPDATE jobs
+    SET status = p_status,
+        assigned_to = NULL,
+        completed_at = NULL,
+        agreed_price = NULL
+    WHERE id = p_job_id;
+  ELSE
+    UPDATE jobs
+    SET status = p_status
+    WHERE id = p_job_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_job_status(UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- BACKFILL: Ledger for jobs assigned before the ledger existed
+-- ============================================
+DO $$
+DECLARE
+  job RECORD;
+BEGIN
+  FOR job IN
+    SELECT j.* FROM jobs j
+    WHERE j.status IN ('in_progress', 'completed')
+    AND j.assigned_to IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM ledger_transactions t WHERE t.job_id = j.id)
+  LOOP
+    PERFORM post_job_ledger_transaction(
+      job.id, 'hold', job.user_id, job.assigned_to, COALESCE(job.agreed_price, job.price)
+    );
+    IF job.status = 'completed' THEN
+      PERFORM post_job_ledger_transaction(job.id, 'release', job.user_id, job.assigned_to);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- ============================================
+-- VIEW: Wallet per user
+--   balance          - net of the user's wallet entries
+--   earned           - released to the user as a worker
+--   pending_earnings - held in escrow for jobs the user is working on
+--   spent            - released from the user's posted jobs
+--   held             - held in escrow for the user's posted jobs
+-- security_invoker so users only see their own ledger
+-- ============================================
+CREATE OR REPLACE VIEW wallets
+WITH (security_invoker = true) AS
+WITH parties AS (
+  SELECT poster_id AS user_id FROM ledger_transactions
+  UNION
+  SELECT worker_id FROM ledger_transactions
+)
+SELECT
+  p.user_id,
+  COALESCE((
+    SELECT SUM(e.amount)
+    FROM ledger_entries e
+    WHERE e.account = 'wallet'
+    AND e.user_id = p.user_id
+  ), 0)::INTEGER AS balance,
+  COALESCE(SUM(t.amount) FILTER (
+    WHERE t.kind = 'release' AND t.worker_id = p.user_id
+  ), 0)::INTEGER AS earned,
+  COALESCE(SUM(CASE WHEN t.kind = 'hold' THEN t.amount ELSE -t.amount END) FILTER (
+    WHERE t.worker_id = p.user_id
+  ), 0)::INTEGER AS pending_earnings,
+  COALESCE(SUM(t.amount) FILTER (
+    WHERE t.kind = 'release' AND t.poster_id = p.user_id
+  ), 0)::INTEGER AS spent,
+  COALESCE(SUM(CASE WHEN t.kind = 'hold' THEN t.amount ELSE -t.amount END) FILTER (
+    WHERE t.poster_id = p.user_id
+  ), 0)::INTEGER AS held
+FROM parties p
+JOIN ledger_transactions t ON p.user_id IN (t.poster_id, t.worker_id)
+GROUP BY p.user_id;
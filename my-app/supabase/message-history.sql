@@ -0,0 +1,33 @@
+-- ============================================
+-- PAGINATED CHAT HISTORY FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after presence.sql)
+--
+-- The chat loads a conversation newest first, a page at a time, from
+-- messages_with_sender (see lib/chat-history.ts).
+-- ============================================
+
+-- Cursor pagination walks (created_at, id) backwards within a conversation
+CREATE INDEX IF NOT EXISTS messages_conversation_page_idx
+  ON messages(conversation_id, created_at DESC, id DESC);
+
+-- ============================================
+-- VIEW: Messages with sender info
+-- Recreated with security_invoker so the messages RLS applies to readers of
+-- the view; as first defined in schema.sql it ran as its owner and would
+-- have exposed every conversation. read_at (read-receipts.sql) is appended.
+-- ============================================
+CREATE OR REPLACE VIEW messages_with_sender
+WITH (security_invoker = true) AS
+SELECT
+  m.id,
+  m.conversation_id,
+  m.sender_id,
+  m.content,
+  m.is_read,
+  m.created_at,
+  p.email AS sender_email,
+  p.full_name AS sender_name,
+  p.avatar_url AS sender_avatar,
+  m.read_at
+FROM messages m
+LEFT JOIN profiles p ON m.sender_id = p.id;
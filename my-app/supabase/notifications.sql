@@ -0,0 +1,242 @@
+-- ============================================
+-- NOTIFICATIONS FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after schema.sql and schema-v2.sql)
+-- ============================================
+
+-- ============================================
+-- NOTIFICATIONS TABLE
+-- One row per event delivered to a single recipient
+-- ============================================
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+  -- Who receives the notification
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Who triggered it (the poster, worker, rater or message sender)
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Event kind
+  kind TEXT NOT NULL CHECK (kind IN (
+    'worker_assigned',
+    'job_completed',
+    'job_cancelled',
+    'new_applicant',
+    'new_rating',
+    'new_message'
+  )),
+
+  -- Optional links back to the job / conversation the event is about
+  job_id UUID REFERENCES jobs(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+
+  -- Short preview text (message content, review text)
+  body TEXT,
+
+  -- Kind-specific extras (e.g. the star value of a rating)
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Read status
+  is_read BOOLEAN NOT NULL DEFAULT false,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Indexes for notifications
+CREATE INDEX IF NOT EXISTS notifications_user_id_idx ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notifications_unread_idx ON notifications(user_id) WHERE is_read = false;
+CREATE INDEX IF NOT EXISTS notifications_conversation_id_idx ON notifications(conversation_id);
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- FUNCTION: Can the caller send this notification
+-- Server actions insert notifications as the acting user, so the insert
+-- policy has to stop anyone from sending a made-up notice to a stranger.
+-- One side must be the job's poster and the other a worker on that job (its
+-- assignee, or the worker in the given conversation). Each kind may only be
+-- sent by the side the app sends it from, and only once the job (or offer,
+-- application, rating or dispute) is in the state the notice reports. Kinds
+-- written by scheduled jobs and moderators (SECURITY DEFINER functions) are
+-- never accepted here. The tables checked below come from later migrations.
+-- Keep the kinds in sync with lib/notifications.ts
+-- ============================================
+CREATE OR REPLACE FUNCTION can_notify(
+  p_recipient UUID,
+  p_kind TEXT,
+  p_job_id UUID,
+  p_conversation_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  job RECORD;
+  worker UUID;
+BEGIN
+  SELECT * INTO job FROM jobs WHERE id = p_job_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- Exactly one side is the poster
+  IF (auth.uid() = job.user_id) = (p_recipient = job.user_id) THEN
+    RETURN false;
+  END IF;
+
+  worker := CASE WHEN auth.uid() = job.user_id THEN p_recipient ELSE auth.uid() END;
+
+  IF p_conversation_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM conversations
+      WHERE id = p_conversation_id
+      AND job_id = p_job_id
+      AND worker_id = worker
+    ) THEN
+      RETURN false;
+    END IF;
+  ELSIF job.assigned_to IS DISTINCT FROM worker AND NOT EXISTS (
+    SELECT 1 FROM conversations
+    WHERE job_id = p_job_id
+    AND worker_id = worker
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- Either side, once there is something to send about
+  IF p_kind = 'new_message' THEN
+    RETURN p_conversation_id IS NOT NULL AND EXISTS (
+      SELECT 1 FROM messages WHERE conversation_id = p_conversation_id AND sender_id = auth.uid()
+    );
+  ELSIF p_kind = 'new_rating' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM ratings WHERE job_id = p_job_id AND rater_id = auth.uid() AND rated_id = p_recipient
+    );
+  ELSIF p_kind = 'dispute_opened' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM disputes WHERE job_id = p_job_id AND opened_by = auth.uid() AND status = 'open'
+    );
+  END IF;
+
+  -- Poster to worker
+  IF auth.uid() = job.user_id THEN
+    RETURN COALESCE(CASE p_kind
+      WHEN 'worker_assigned' THEN job.assigned_to = worker AND job.status = 'in_progress'
+      WHEN 'changes_requested' THEN job.assigned_to = worker AND job.status = 'in_progress'
+      WHEN 'job_completed' THEN job.assigned_to = worker AND job.status = 'completed'
+      WHEN 'job_cancelled' THEN job.status = 'cancelled'
+      WHEN 'payment_marked_paid' THEN job.assigned_to = worker AND job.payment_status = 'marked_paid'
+      WHEN 'offer_rejected' THEN EXISTS (
+        SELECT 1 FROM offers WHERE job_id = p_job_id AND worker_id = worker AND status = 'rejected'
+      )
+      WHEN 'offer_countered' THEN EXISTS (
+        SELECT 1 FROM offers WHERE job_id = p_job_id AND worker_id = worker AND status = 'countered'
+      )
+      WHEN 'application_shortlisted' THEN EXISTS (
+        SELECT 1 FROM applications WHERE job_id = p_job_id AND worker_id = worker AND status = 'shortlisted'
+      )
+      WHEN 'application_rejected' THEN EXISTS (
+        SELECT 1 FROM applications WHERE job_id = p_job_id AND worker_id = worker AND status = 'rejected'
+      )
+    END, false);
+  END IF;
+
+  -- Worker to poster
+  RETURN COALESCE(CASE p_kind
+    WHEN 'work_submitted' THEN job.assigned_to = worker AND job.status = 'pending_review'
+    WHEN 'payment_confirmed' THEN job.assigned_to = worker AND job.payment_status = 'confirmed'
+    WHEN 'payment_disputed' THEN job.assigned_to = worker AND job.payment_status = 'disputed'
+    WHEN 'new_applicant' THEN EXISTS (
+      SELECT 1 FROM applications WHERE job_id = p_job_id AND worker_id = worker AND status = 'pending'
+    )
+    WHEN 'new_offer' THEN EXISTS (
+      SELECT 1 FROM offers WHERE job_id = p_job_id AND worker_id = worker AND status = 'pending'
+    )
+  END, false);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Drop existing policies if they exist (for re-running)
+DROP POLICY IF EXISTS "Users can view their notifications" ON notifications;
+DROP POLICY IF EXISTS "Users can mark their notifications read" ON notifications;
+DROP POLICY IF EXISTS "Users can notify others as themselves" ON notifications;
+DROP POLICY IF EXISTS "Users can delete their notifications" ON notifications;
+
+-- Policy: Recipients can read their own notifications
+CREATE POLICY "Users can view their notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Policy: Recipients can mark their own notifications as read
+CREATE POLICY "Users can mark their notifications read"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Marking read is the only update: the rest of the row is the sender's
+REVOKE UPDATE ON notifications FROM anon, authenticated;
+GRANT UPDATE (is_read) ON notifications TO authenticated;
+
+-- Policy: Producers (server actions running as the acting user) can only
+-- create notifications for the other side of one of their jobs, with
+-- themselves as the actor (see can_notify above)
+CREATE POLICY "Users can notify others as themselves"
+  ON notifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = actor_id
+    AND user_id <> auth.uid()
+    AND can_notify(user_id, kind, job_id, conversation_id)
+  );
+
+-- Policy: Recipients can clear their own notifications
+CREATE POLICY "Users can delete their notifications"
+  ON notifications
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- VIEW: Notifications with actor and job info
+-- security_invoker so the notifications RLS above still applies
+-- ============================================
+CREATE OR REPLACE VIEW notifications_with_details
+WITH (security_invoker = true) AS
+SELECT
+  n.id,
+  n.user_id,
+  n.actor_id,
+  n.kind,
+  n.job_id,
+  n.conversation_id,
+  n.body,
+  n.data,
+  n.is_read,
+  n.created_at,
+  a.full_name AS actor_name,
+  a.email AS actor_email,
+  a.avatar_url AS actor_avatar,
+  j.title AS job_title
+FROM notifications n
+LEFT JOIN profiles a ON n.actor_id = a.id
+LEFT JOIN jobs j ON n.job_id = j.id;
+
+-- ============================================
+-- ENABLE REALTIME FOR NOTIFICATIONS
+-- ============================================
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
@@ -0,0 +1,254 @@
+-- ============================================
+-- OFFERS (BIDDING) FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after schema-v2.sql and notifications.sql)
+-- ============================================
+
+-- ============================================
+-- UPDATE JOBS TABLE: Price agreed through an accepted offer
+-- NULL means the posted price stands
+-- ============================================
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS agreed_price INTEGER CHECK (agreed_price IS NULL OR agreed_price > 0);
+
+-- ============================================
+-- OFFERS TABLE
+-- A worker's structured bid on an open job. The poster accepts,
+-- rejects or counters; the worker answers a counter with a new offer.
+-- ============================================
+CREATE TABLE IF NOT EXISTS offers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+
+  -- The job being bid on
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+
+  -- The worker making the offer
+  worker_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Chat thread between the worker and the poster
+  conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+
+  -- Offer details
+  price INTEGER NOT NULL CHECK (price > 0),
+  eta TEXT,
+  note TEXT CHECK (char_length(note) <= 500),
+
+  -- Lifecycle
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending',     -- waiting for the poster
+    'countered',   -- poster proposed a different price
+    'accepted',    -- poster accepted, worker assigned
+    'rejected',    -- poster declined (or another offer was accepted)
+    'withdrawn',   -- worker pulled the offer
+    'superseded'   -- worker replaced it with a newer offer
+  )),
+
+  -- Poster's counter proposal
+  counter_price INTEGER CHECK (counter_price IS NULL OR counter_price > 0),
+  counter_note TEXT CHECK (char_length(counter_note) <= 500),
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Indexes for offers
+CREATE INDEX IF NOT EXISTS offers_job_id_idx ON offers(job_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS offers_worker_id_idx ON offers(worker_id);
+
+-- Only one live (pending or countered) offer per worker per job
+CREATE UNIQUE INDEX IF NOT EXISTS offers_one_live_per_worker_idx
+  ON offers(job_id, worker_id)
+  WHERE status IN ('pending', 'countered');
+
+-- Keep updated_at current
+DROP TRIGGER IF EXISTS update_offers_updated_at ON offers;
+CREATE TRIGGER update_offers_updated_at
+  BEFORE UPDATE ON offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE offers ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (for re-running)
+DROP POLICY IF EXISTS "Workers and posters can view offers" ON offers;
+DROP POLICY IF EXISTS "Workers can create offers on open jobs" ON offers;
+DROP POLICY IF EXISTS "Workers can update their own offers" ON offers;
+DROP POLICY IF EXISTS "Posters can respond to offers" ON offers;
+
+-- Policy: The worker and the job poster can see an offer
+CREATE POLICY "Workers and posters can view offers"
+  ON offers
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = worker_id
+    OR EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = offers.job_id
+      AND jobs.user_id = auth.uid()
+    )
+  );
+
+-- Policy: Workers can bid on open jobs they did not post
+CREATE POLICY "Workers can create offers on open jobs"
+  ON offers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = worker_id
+    AND status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = offers.job_id
+      AND jobs.status = 'open'
+      AND jobs.user_id <> auth.uid()
+    )
+  );
+
+-- Policy: Workers can withdraw or supersede their own offers
+CREATE POLICY "Workers can update their own offers"
+  ON offers
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = worker_id)
+  WITH CHECK (auth.uid() = worker_id AND status IN ('withdrawn', 'superseded'));
+
+-- Policy: Posters can reject or counter offers on their jobs.
+-- Accepting goes through accept_offer (ledger.sql), which also assigns the job.
+CREATE POLICY "Posters can respond to offers"
+  ON offers
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs
+      WHERE jobs.id = offers.job_id
+      AND jobs.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (status IN ('rejected', 'countered'));
+
+-- ============================================
+-- TRIGGER: Keep the worker's bid as it was made
+-- The update policies only check the new status, so this stops either side
+-- from rewriting the rest of the row: the bid itself never changes, and only
+-- the poster can set the counter proposal.
+-- ============================================
+CREATE OR REPLACE FUNCTION guard_offer_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.job_id IS DISTINCT FROM OLD.job_id
+    OR NEW.worker_id IS DISTINCT FROM OLD.worker_id
+    OR NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.price IS DISTINCT FROM OLD.price
+    OR NEW.eta IS DISTINCT FROM OLD.eta
+    OR NEW.note IS DISTINCT FROM OLD.note
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Only the status of an offer can change';
+  END IF;
+
+  IF (NEW.counter_price IS DISTINCT FROM OLD.counter_price
+    OR NEW.counter_note IS DISTINCT FROM OLD.counter_note)
+    AND auth.uid() IS DISTINCT FROM (SELECT user_id FROM jobs WHERE id = OLD.job_id)
+  THEN
+    RAISE EXCEPTION 'Only the poster can counter an offer';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_offer_update ON offers;
+CREATE TRIGGER guard_offer_update
+  BEFORE UPDATE ON offers
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_offer_update();
+
+-- ============================================
+-- VIEW: Offers with worker info
+-- security_invoker so the offers RLS above still applies
+-- ============================================
+CREATE OR REPLACE VIEW offers_with_worker
+WITH (security_invoker = true) AS
+SELECT
+  o.id,
+  o.job_id,
+  o.worker_id,
+  o.conversation_id,
+  o.price,
+  o.eta,
+  o.note,
+  o.status,
+  o.counter_price,
+  o.counter_note,
+  o.created_at,
+  o.updated_at,
+  p.full_name AS worker_name,
+  p.email AS worker_email,
+  p.avatar_url AS worker_avatar,
+  p.average_rating AS worker_rating
+FROM offers o
+LEFT JOIN profiles p ON o.worker_id = p.id;
+
+-- ============================================
+-- UPDATE VIEW: Jobs with Poster Info (append agreed_price)
+-- ============================================
+CREATE OR REPLACE VIEW jobs_with_poster AS
+SELECT
+  j.id,
+  j.title,
+  j.description,
+  j.price,
+  j.urgency,
+  j.location,
+  j.category,
+  j.status,
+  j.assigned_to,
+  j.completed_at,
+  j.created_at,
+  j.updated_at,
+  j.user_id,
+  p.full_name AS student_name,
+  p.email AS student_email,
+  p.avatar_url,
+  p.average_rating AS poster_rating,
+  p.total_ratings AS poster_total_ratings,
+  ap.full_name AS assigned_name,
+  ap.email AS assigned_email,
+  ap.avatar_url AS assigned_avatar,
+  j.agreed_price
+FROM jobs j
+LEFT JOIN profiles p ON j.user_id = p.id
+LEFT JOIN profiles ap ON j.assigned_to = ap.id;
+
+-- ============================================
+-- NOTIFICATIONS: Offer event kinds
+-- ============================================
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check CHECK (kind IN (
+  'worker_assigned',
+  'job_completed',
+  'job_cancelled',
+  'new_applicant',
+  'new_rating',
+  'new_message',
+  'new_offer',
+  'offer_accepted',
+  'offer_rejected',
+  'offer_countered'
+));
+
+-- ============================================
+-- ENABLE REALTIME FOR OFFERS
+-- ============================================
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND tablename = 'offers'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE offers;
+  END IF;
+END $$;
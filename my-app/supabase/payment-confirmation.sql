@@ -0,0 +1,300 @@
+-- ============================================
+-- CASH PAYMENT CONFIRMATION FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after ledger.sql)
+-- Requires the pg_cron extension (Database > Extensions in the dashboard)
+--
+-- Most jobs are paid in cash on completion. Once a job is completed:
+--   pending     - waiting for the poster to mark it paid
+--   marked_paid - poster says they paid, waiting for the worker
+--   confirmed   - worker confirmed they received the money
+--   disputed    - worker reported it missing, or nobody confirmed in time
+-- Keep the timings in sync with lib/payments.ts
+-- ============================================
+
+-- ============================================
+-- UPDATE JOBS TABLE: Payment confirmation state
+-- NULL until the job is completed
+-- ============================================
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS payment_status TEXT CHECK (payment_status IN (
+  'pending',
+  'marked_paid',
+  'confirmed',
+  'disputed'
+));
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS payment_marked_at TIMESTAMPTZ;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS payment_confirmed_at TIMESTAMPTZ;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS payment_reminded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS jobs_payment_status_idx ON jobs(payment_status)
+  WHERE payment_status IN ('pending', 'marked_paid');
+
+-- Jobs completed before this migration are assumed settled
+UPDATE jobs
+SET payment_status = 'confirmed',
+    payment_confirmed_at = completed_at
+WHERE status = 'completed'
+AND payment_status IS NULL;
+
+-- ============================================
+-- TRIGGER: Start (or clear) payment tracking on status changes
+-- ============================================
+CREATE OR REPLACE FUNCTION reset_job_payment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status = 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.payment_status := CASE WHEN NEW.status = 'completed' THEN 'pending' END;
+  NEW.payment_marked_at := NULL;
+  NEW.payment_confirmed_at := NULL;
+  NEW.payment_reminded_at := NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_job_payment_status ON jobs;
+CREATE TRIGGER reset_job_payment_status
+  BEFORE UPDATE OF status ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_job_payment_status();
+
+-- ============================================
+-- TRIGGER: Keep the payment columns out of direct updates
+-- The jobs policies let the poster update their own row, so a signed-in
+-- user could otherwise confirm a payment themselves. Changes have to come
+-- from set_job_payment_status (or the dispute functions), which flag
+-- themselves with crowdserve.job_rpc; scheduled jobs run without a user.
+-- ============================================
+CREATE OR REPLACE FUNCTION guard_job_payment_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR current_setting('crowdserve.job_rpc', true) = 'on'
+    OR current_setting('crowdserve.resolving_dispute', true) = 'on'
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.payment_marked_at IS DISTINCT FROM OLD.payment_marked_at
+    OR NEW.payment_confirmed_at IS DISTINCT FROM OLD.payment_confirmed_at
+    OR NEW.payment_reminded_at IS DISTINCT FROM OLD.payment_reminded_at
+  THEN
+    RAISE EXCEPTION 'Payment status can only be changed through the app';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_job_payment_columns ON jobs;
+CREATE TRIGGER guard_job_payment_columns
+  BEFORE UPDATE OF payment_status, payment_marked_at, payment_confirmed_at, payment_reminded_at ON jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_job_payment_columns();
+
+-- ============================================
+-- NOTIFICATIONS: Payment event kinds
+-- ============================================
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check CHECK (kind IN (
+  'worker_assigned',
+  'job_completed',
+  'job_cancelled',
+  'job_expired',
+  'new_applicant',
+  'new_rating',
+  'new_message',
+  'new_offer',
+  'offer_accepted',
+  'offer_rejected',
+  'offer_countered',
+  'application_shortlisted',
+  'application_rejected',
+  'payment_marked_paid',
+  'payment_confirmed',
+  'payment_disputed',
+  'payment_reminder'
+));
+
+-- ============================================
+-- FUNCTION: Move a completed job's payment forward
+-- Called by the actions in app/actions/payments.ts:
+--   marked_paid - the poster, while pending
+--   confirmed   - the worker, while pending or marked_paid
+--   disputed    - the worker, while pending or marked_paid
+-- ============================================
+CREATE OR REPLACE FUNCTION set_job_payment_status(p_job_id UUID, p_status TEXT)
+RETURNS VOID AS $$
+DECLARE
+  job RECORD;
+BEGIN
+  SELECT * INTO job FROM jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  IF job.status <> 'completed' THEN
+    RAISE EXCEPTION 'Payment can only be confirmed on completed jobs';
+  END IF;
+
+  -- Let the update past guard_job_payment_columns
+  PERFORM set_config('crowdserve.job_rpc', 'on', true);
+
+  IF p_status = 'marked_paid' THEN
+    IF job.user_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Only the poster can mark a job as paid';
+    END IF;
+    IF job.payment_status <> 'pending' THEN
+      RAISE EXCEPTION 'This payment has already been marked';
+    END IF;
+
+    UPDATE jobs
+    SET payment_status = 'marked_paid',
+        payment_marked_at = now()
+    WHERE id = p_job_id;
+  ELSIF p_status IN ('confirmed', 'disputed') THEN
+    IF job.assigned_to IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the worker can confirm or report a payment';
+    END IF;
+    IF job.payment_status NOT IN ('pending', 'marked_paid') THEN
+      RAISE EXCEPTION 'This payment has already been settled';
+    END IF;
+
+    UPDATE jobs
+    SET payment_status = p_status,
+        payment_confirmed_at = CASE WHEN p_status = 'confirmed' THEN now() END
+    WHERE id = p_job_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid payment status %', p_status;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_job_payment_status(UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Remind both sides about unconfirmed payments
+-- Posts a reminder in the job's chat once a day, and flags the payment
+-- as disputed once it has gone unconfirmed for a week.
+-- Returns the number of jobs touched.
+-- ============================================
+CREATE OR REPLACE FUNCTION send_payment_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  job RECORD;
+  conv_id UUID;
+  touched INTEGER := 0;
+BEGIN
+  FOR job IN
+    SELECT * FROM jobs
+    WHERE status = 'completed'
+    AND payment_status IN ('pending', 'marked_paid')
+    AND assigned_to IS NOT NULL
+    AND COALESCE(payment_reminded_at, completed_at) < now() - INTERVAL '24 hours'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT id INTO conv_id
+    FROM conversations
+    WHERE job_id = job.id
+    AND worker_id = job.assigned_to;
+
+    IF job.completed_at < now() - INTERVAL '7 days' THEN
+      UPDATE jobs SET payment_status = 'disputed' WHERE id = job.id;
+
+      IF conv_id IS NOT NULL THEN
+        INSERT INTO messages (conversation_id, sender_id, content)
+        VALUES (
+          conv_id,
+          job.assigned_to,
+          format('Payment for "%s" wasn''t confirmed within a week, so it has been flagged for review.', job.title)
+        );
+      END IF;
+
+      INSERT INTO notifications (user_id, kind, job_id, conversation_id, body)
+      VALUES
+        (job.user_id, 'payment_reminder', job.id, conv_id, 'Payment wasn''t confirmed within a week and has been flagged for review.'),
+        (job.assigned_to, 'payment_reminder', job.id, conv_id, 'Payment wasn''t confirmed within a week and has been flagged for review.');
+    ELSE
+      UPDATE jobs SET payment_reminded_at = now() WHERE id = job.id;
+
+      -- Sent on behalf of whoever is waiting on the other side
+      IF conv_id IS NOT NULL THEN
+        INSERT INTO messages (conversation_id, sender_id, content)
+        VALUES (
+          conv_id,
+          CASE WHEN job.payment_status = 'pending' THEN job.assigned_to ELSE job.user_id END,
+          CASE WHEN job.payment_status = 'pending'
+            THEN format('Reminder: payment for "%s" hasn''t been marked as paid yet.', job.title)
+            ELSE format('Reminder: please confirm you received payment for "%s".', job.title)
+          END
+        );
+      END IF;
+
+      INSERT INTO notifications (user_id, kind, job_id, conversation_id)
+      VALUES (
+        CASE WHEN job.payment_status = 'pending' THEN job.user_id ELSE job.assigned_to END,
+        'payment_reminder',
+        job.id,
+        conv_id
+      );
+    END IF;
+
+    touched := touched + 1;
+  END LOOP;
+
+  RETURN touched;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler should run this
+REVOKE EXECUTE ON FUNCTION send_payment_reminders() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- CRON: Check for unconfirmed payments every hour
+-- ============================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule('send-payment-reminders')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'send-payment-reminders');
+
+SELECT cron.schedule('send-payment-reminders', '0 * * * *', 'SELECT send_payment_reminders()');
+
+-- ============================================
+-- UPDATE VIEW: Jobs with Poster Info (append payment confirmation)
+-- ============================================
+CREATE OR REPLACE VIEW jobs_with_poster AS
+SELECT
+  j.id,
+  j.title,
+  j.description,
+  j.price,
+  j.urgency,
+  j.location,
+  j.category,
+  j.status,
+  j.assigned_to,
+  j.completed_at,
+  j.created_at,
+  j.updated_at,
+  j.user_id,
+  p.full_name AS student_name,
+  p.email AS student_email,
+  p.avatar_url,
+  p.average_rating AS poster_rating,
+  p.total_ratings AS poster_total_ratings,
+  ap.full_name AS assigned_name,
+  ap.email AS assigned_email,
+  ap.avatar_url AS assigned_avatar,
+  j.agreed_price,
+  j.due_at,
+  (j.status = 'in_progress' AND j.due_at < now()) AS is_overdue,
+  j.payment_status,
+  j.payment_marked_at,
+  j.payment_confirmed_at
+FROM jobs j
+LEFT JOIN profiles p ON j.user_id = p.id
+LEFT JOIN profiles ap ON j.assigned_to = ap.id;
@@ -0,0 +1,23 @@
+-- ============================================
+-- CHAT PRESENCE FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after read-receipts.sql)
+--
+-- Who is online right now and who is typing come from Supabase Realtime
+-- presence and broadcast, and are never stored. This keeps the one thing
+-- realtime can't answer: when someone was last around, for the
+-- "Last seen" line in the chat header.
+-- Keep the heartbeat interval in sync with lib/presence.ts
+-- ============================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ;
+
+-- ============================================
+-- FUNCTION: Record that the caller is around
+-- Called on a heartbeat while the app is open
+-- ============================================
+CREATE OR REPLACE FUNCTION touch_last_seen()
+RETURNS VOID AS $$
+  UPDATE profiles SET last_seen_at = now() WHERE id = auth.uid();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION touch_last_seen() TO authenticated;
@@ -0,0 +1,88 @@
+-- ============================================
+-- PROFILE DETAILS FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after categories.sql and applications.sql)
+-- Keep the limits in sync with lib/profile-details.ts
+-- ============================================
+
+-- ============================================
+-- UPDATE PROFILES TABLE: Bio, hostel, department/batch, skills, availability
+-- ============================================
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS bio TEXT;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS hostel TEXT;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS department TEXT;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS batch SMALLINT;
+
+-- Task category slugs the user is good at
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS skills TEXT[] NOT NULL DEFAULT '{}';
+
+-- Weekly windows: [{ "day": 0-6 (Sunday = 0), "start": "HH:MM", "end": "HH:MM" }]
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS availability JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_bio_length_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_bio_length_check
+  CHECK (bio IS NULL OR char_length(bio) <= 280);
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_batch_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_batch_check
+  CHECK (batch IS NULL OR batch BETWEEN 1993 AND 2100);
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_skills_count_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_skills_count_check
+  CHECK (cardinality(skills) <= 6);
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_availability_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_availability_check
+  CHECK (jsonb_typeof(availability) = 'array' AND jsonb_array_length(availability) <= 14);
+
+-- Filter applicants by skill
+CREATE INDEX IF NOT EXISTS profiles_skills_idx ON profiles USING GIN (skills);
+
+-- ============================================
+-- TRIGGER: Skills must be known task categories
+-- (a CHECK can't look at task_categories)
+-- ============================================
+CREATE OR REPLACE FUNCTION validate_profile_skills()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unnest(NEW.skills) AS skill
+    WHERE skill NOT IN (SELECT slug FROM task_categories)
+  ) THEN
+    RAISE EXCEPTION 'Unknown skill in %', NEW.skills;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_profile_skills ON profiles;
+CREATE TRIGGER validate_profile_skills
+  BEFORE INSERT OR UPDATE OF skills ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_profile_skills();
+
+-- ============================================
+-- UPDATE VIEW: Applications with worker details (append profile fields)
+-- ============================================
+CREATE OR REPLACE VIEW applications_with_worker
+WITH (security_invoker = true) AS
+SELECT
+  a.id,
+  a.job_id,
+  a.worker_id,
+  a.conversation_id,
+  a.cover_note,
+  a.status,
+  a.created_at,
+  a.updated_at,
+  p.full_name AS worker_name,
+  p.email AS worker_email,
+  p.avatar_url AS worker_avatar,
+  p.average_rating AS worker_rating,
+  p.bio AS worker_bio,
+  p.hostel AS worker_hostel,
+  p.department AS worker_department,
+  p.batch AS worker_batch,
+  p.skills AS worker_skills,
+  p.availability AS worker_availability
+FROM applications a
+LEFT JOIN profiles p ON a.worker_id = p.id;
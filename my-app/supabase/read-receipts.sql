@@ -0,0 +1,75 @@
+-- ============================================
+-- READ RECEIPTS FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after job-page.sql)
+--
+-- Messages are marked read when the recipient opens the conversation,
+-- which drives the unread badges in the applicant list and inbox and the
+-- "Seen" marker under the sender's last message.
+-- ============================================
+
+-- When the recipient first saw the message
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS messages_unread_idx ON messages(conversation_id) WHERE is_read = false;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- The old update policy let either side rewrite any message in the
+-- conversation, content included. Reads are now marked through
+-- mark_conversation_read below, which only touches the read fields.
+-- ============================================
+DROP POLICY IF EXISTS "Users can update messages in their conversations" ON messages;
+
+-- ============================================
+-- FUNCTION: Is the caller one side of this conversation
+-- ============================================
+CREATE OR REPLACE FUNCTION is_conversation_party(p_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversations c
+    JOIN jobs j ON j.id = c.job_id
+    WHERE c.id = p_conversation_id
+    AND (c.worker_id = auth.uid() OR j.user_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- FUNCTION: Mark the other side's messages in a conversation as read
+-- Returns how many messages were marked
+-- ============================================
+CREATE OR REPLACE FUNCTION mark_conversation_read(p_conversation_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  marked INTEGER;
+BEGIN
+  IF NOT is_conversation_party(p_conversation_id) THEN
+    RAISE EXCEPTION 'You are not part of this conversation';
+  END IF;
+
+  UPDATE messages
+  SET is_read = true, read_at = now()
+  WHERE conversation_id = p_conversation_id
+  AND sender_id <> auth.uid()
+  AND is_read = false;
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_conversation_read(UUID) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Unread message count per conversation for the caller
+-- Runs as the caller, so the messages RLS limits it to their conversations
+-- ============================================
+CREATE OR REPLACE FUNCTION conversation_unread_counts()
+RETURNS TABLE (conversation_id UUID, unread_count INTEGER) AS $$
+  SELECT m.conversation_id, COUNT(*)::INTEGER
+  FROM messages m
+  WHERE m.is_read = false
+  AND m.sender_id <> auth.uid()
+  GROUP BY m.conversation_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION conversation_unread_counts() TO authenticated;
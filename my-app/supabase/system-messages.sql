@@ -0,0 +1,761 @@
+-- ============================================
+-- STRUCTURED SYSTEM MESSAGES FOR CROWDSERVE
+-- Run this in your Supabase SQL Editor (after chat-attachments.sql)
+--
+-- Status changes, offers and notices (payments, disputes, edits) are stored
+-- as events: a message_type and a JSON payload such as
+-- {"event": "worker_selected", "jobTitle": "..."}. The chat renders them as
+-- centered event chips and writes their text at render time, in the
+-- reader's language, so content is left empty. Events are only posted by
+-- the functions that make the change they report.
+-- Keep the types and events in sync with lib/system-messages.ts
+-- ============================================
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS message_type TEXT NOT NULL DEFAULT 'user';
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS payload JSONB;
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE messages ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('user', 'system', 'offer', 'status_change'));
+
+-- ============================================
+-- BACKFILL: Notices sent as plain text before this migration
+-- Matched on the wording the server actions and scheduled jobs used. The
+-- payload stays empty, so the chip shows the stored text as it was written.
+-- ============================================
+UPDATE messages
+SET message_type = 'status_change'
+WHERE message_type = 'user'
+AND (
+  content LIKE 'You''ve been selected for "%'
+  OR content LIKE 'This task has been filled.%'
+  OR content LIKE 'Task completed.%'
+  OR content LIKE 'This task has been cancelled.%'
+  OR content LIKE 'I''ve finished "%" and submitted it for review.%'
+  OR content LIKE 'Changes requested on "%'
+  OR content LIKE '"%" was approved automatically after %'
+);
+
+UPDATE messages
+SET message_type = 'system'
+WHERE message_type = 'user'
+AND (
+  content LIKE 'Task updated.%'
+  OR content LIKE 'I''ve paid for "%". Please confirm once you''ve received it.'
+  OR content LIKE 'Payment received for "%". Thanks!'
+  OR content LIKE 'I haven''t received payment for "%" yet.%'
+  OR content LIKE 'Reminder: %payment for "%'
+  OR content LIKE 'Payment for "%" wasn''t confirmed within a week%'
+  OR content LIKE 'I''ve opened a dispute on "%'
+  OR content LIKE 'Dispute resolved: %'
+);
+
+-- Latest message of a kind, for inbox previews
+CREATE INDEX IF NOT EXISTS messages_conversation_type_idx
+  ON messages(conversation_id, message_type, created_at DESC);
+
+-- ============================================
+-- VIEW: Messages with sender info (append message_type and payload)
+-- ============================================
+CREATE OR REPLACE VIEW messages_with_sender
+WITH (security_invoker = true) AS
+SELECT
+  m.id,
+  m.conversation_id,
+  m.sender_id,
+  m.content,
+  m.is_read,
+  m.created_at,
+  p.email AS sender_email,
+  p.full_name AS sender_name,
+  p.avatar_url AS sender_avatar,
+  m.read_at,
+  m.message_type,
+  m.payload
+FROM messages m
+LEFT JOIN profiles p ON m.sender_id = p.id;
+
+-- ============================================
+-- RLS: Users only send plain messages
+-- Events are posted by the functions and triggers below, as part of the
+-- change they report, so a participant can't forge a status change.
+-- ============================================
+DROP POLICY IF EXISTS "Users can send messages in their conversations" ON messages;
+
+CREATE POLICY "Users can send messages in their conversations"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id AND
+    message_type = 'user' AND
+    payload IS NULL AND
+    conversation_id IN (
+      SELECT c.id FROM conversations c
+      LEFT JOIN jobs j ON c.job_id = j.id
+      WHERE c.worker_id = auth.uid() OR j.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- FUNCTION: Post an event in a conversation
+-- Only called from the functions below; content is left empty because the
+-- text is written from the payload when it is shown. Does nothing when
+-- there is no conversation to post in or no event to post.
+-- ============================================
+DROP FUNCTION IF EXISTS post_chat_event(UUID, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION post_chat_event(
+  p_conversation_id UUID,
+  p_sender_id UUID,
+  p_payload JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  event_type TEXT := CASE p_payload->>'event'
+    WHEN 'worker_selected' THEN 'status_change'
+    WHEN 'job_filled' THEN 'status_change'
+    WHEN 'work_submitted' THEN 'status_change'
+    WHEN 'job_completed' THEN 'status_change'
+    WHEN 'job_cancelled' THEN 'status_change'
+    WHEN 'changes_requested' THEN 'status_change'
+    WHEN 'work_auto_approved' THEN 'status_change'
+    WHEN 'job_updated' THEN 'system'
+    WHEN 'payment_marked_paid' THEN 'system'
+    WHEN 'payment_confirmed' THEN 'system'
+    WHEN 'payment_disputed' THEN 'system'
+    WHEN 'payment_reminder' THEN 'system'
+    WHEN 'payment_flagged' THEN 'system'
+    WHEN 'dispute_opened' THEN 'system'
+    WHEN 'dispute_resolved' THEN 'system'
+    WHEN 'offer_made' THEN 'offer'
+    WHEN 'offer_countered' THEN 'offer'
+    WHEN 'offer_declined' THEN 'offer'
+  END;
+BEGIN
+  IF p_conversation_id IS NULL OR p_payload IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF event_type IS NULL THEN
+    RAISE EXCEPTION 'Invalid chat event %', p_payload->>'event';
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, content, message_type, payload)
+  VALUES (p_conversation_id, p_sender_id, '', event_type, jsonb_strip_nulls(p_payload));
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION post_chat_event(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Hire a worker (replaces the one in ledger.sql)
+-- Also posts "worker selected" in the hired worker's chat and "job filled"
+-- in the chats of the applicants turned away.
+-- ============================================
+CREATE OR REPLACE FUNCTION hire_job_worker(
+  p_job_id UUID,
+  p_worker_id UUID,
+  p_agreed_price INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  job RECORD;
+  conv_id UUID;
+  filled_conversations UUID[];
+BEGIN
+  SELECT * INTO job FROM jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  IF job.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only assign workers to your own jobs';
+  END IF;
+
+  IF job.status <> 'open' THEN
+    RAISE EXCEPTION 'Can only assign workers to open jobs';
+  END IF;
+
+  IF p_worker_id = job.user_id THEN
+    RAISE EXCEPTION 'You cannot assign yourself';
+  END IF;
+
+  -- The applicants still waiting, turned away by settle_applications_on_hire
+  -- (applications.sql) once the job is assigned
+  SELECT array_agg(conversation_id) INTO filled_conversations
+  FROM applications
+  WHERE job_id = p_job_id
+  AND worker_id <> p_worker_id
+  AND status IN ('pending', 'shortlisted')
+  AND conversation_id IS NOT NULL;
+
+  -- Let the status change past enforce_job_status_transition (job-events.sql)
+  PERFORM set_config('crowdserve.job_rpc', 'on', true);
+
+  UPDATE jobs
+  SET assigned_to = p_worker_id,
+      status = 'in_progress',
+      agreed_price = p_agreed_price
+  WHERE id = p_job_id;
+
+  PERFORM post_job_ledger_transaction(
+    p_job_id, 'hold', job.user_id, p_worker_id, COALESCE(p_agreed_price, job.price)
+  );
+
+  -- A worker hired without applying gets a chat with the poster here
+  INSERT INTO conversations (job_id, worker_id)
+  VALUES (p_job_id, p_worker_id)
+  ON CONFLICT (job_id, worker_id) DO NOTHING;
+
+  SELECT id INTO conv_id
+  FROM conversations
+  WHERE job_id = p_job_id
+  AND worker_id = p_worker_id;
+
+  PERFORM post_chat_event(conv_id, job.user_id, jsonb_build_object('event', 'worker_selected', 'jobTitle', job.title));
+
+  PERFORM post_chat_event(filled, job.user_id, jsonb_build_object('event', 'job_filled', 'jobTitle', job.title))
+  FROM unnest(filled_conversations) AS filled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION hire_job_worker(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Change a job's status (replaces the one in job-review.sql)
+-- Also posts the submission, review, completion or cancellation in the
+-- assigned worker's chat.
+-- ============================================
+CREATE OR REPLACE FUNCTION set_job_status(
+  p_job_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  job RECORD;
+  is_owner BOOLEAN;
+  conv_id UUID;
+BEGIN
+  SELECT * INTO job FROM jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  is_owner := job.user_id = auth.uid();
+
+  IF p_status = 'pending_review' THEN
+    IF job.assigned_to IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the assigned worker can submit a job for review';
+    END IF;
+    IF job.status <> 'in_progress' THEN
+      RAISE EXCEPTION 'Job must be in progress to be submitted';
+    END IF;
+  ELSIF NOT is_owner THEN
+    RAISE EXCEPTION 'Only the job owner can change this job';
+  ELSIF p_status = 'completed' AND job.status NOT IN ('in_progress', 'pending_review') THEN
+    RAISE EXCEPTION 'Job must be in progress to be completed';
+  ELSIF p_status = 'in_progress' AND job.status <> 'pending_review' THEN
+    RAISE EXCEPTION 'Changes can only be requested on submitted jobs';
+  ELSIF p_status IN ('cancelled', 'open') AND job.status = 'pending_review' THEN
+    RAISE EXCEPTION 'A submitted job must be approved, sent back or disputed';
+  END IF;
+
+  -- Let the status change past enforce_job_status_transition (job-events.sql)
+  PERFORM set_config('crowdserve.job_rpc', 'on', true);
+
+  IF p_status = 'pending_review' THEN
+    UPDATE jobs
+    SET status = p_status,
+        submitted_at = now()
+    WHERE id = p_job_id;
+  ELSIF p_status = 'in_progress' THEN
+    UPDATE jobs
+    SET status = p_status,
+        review_note = NULLIF(trim(p_note), '')
+    WHERE id = p_job_id;
+  ELSIF p_status = 'completed' THEN
+    PERFORM post_job_ledger_transaction(p_job_id, 'release', job.user_id, job.assigned_to);
+
+    UPDATE jobs
+    SET status = p_status,
+        completed_at = now(),
+        review_note = NULL
+    WHERE id = p_job_id;
+  ELSIF p_status = 'cancelled' THEN
+    IF job.assigned_to IS NOT NULL THEN
+      PERFORM post_job_ledger_transaction(p_job_id, 'refund', job.user_id, job.assigned_to);
+    END IF;
+
+    UPDATE jobs
+    SET status = p_status,
+        assigned_to = NULL
+    WHERE id = p_job_id;
+  ELSIF p_status = 'open' THEN
+    IF job.assigned_to IS NOT NULL THEN
+      PERFORM post_job_ledger_transaction(p_job_id, 'refund', job.user_id, job.assigned_to);
+    END IF;
+
+    UPDATE jobs
+    SET status = p_status,
+        assigned_to = NULL,
+        completed_at = NULL,
+        agreed_price = NULL,
+        submitted_at = NULL,
+        review_note = NULL
+    WHERE id = p_job_id;
+  ELSE
+    UPDATE jobs
+    SET status = p_status
+    WHERE id = p_job_id;
+  END IF;
+
+  -- Tell the other side in the worker's chat (a reopen goes unannounced)
+  SELECT id INTO conv_id
+  FROM conversations
+  WHERE job_id = p_job_id
+  AND worker_id = job.assigned_to;
+
+  PERFORM post_chat_event(conv_id, auth.uid(), CASE p_status
+    WHEN 'pending_review' THEN jsonb_build_object('event', 'work_submitted', 'jobTitle', job.title)
+    WHEN 'in_progress' THEN CASE WHEN job.status = 'pending_review'
+      THEN jsonb_build_object('event', 'changes_requested', 'jobTitle', job.title, 'note', NULLIF(trim(p_note), ''))
+    END
+    WHEN 'completed' THEN jsonb_build_object('event', 'job_completed', 'jobTitle', job.title)
+    WHEN 'cancelled' THEN jsonb_build_object('event', 'job_cancelled', 'jobTitle', job.title)
+  END);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_job_status(UUID, TEXT, TEXT) TO authenticated;
+
+-- ============================================
+-- FUNCTION: Move a completed job's payment forward
+-- (replaces the one in payment-confirmation.sql; also posts the change in
+-- the worker's chat)
+-- ============================================
+CREATE OR REPLACE FUNCTION set_job_payment_status(p_job_id UUID, p_status TEXT)
+RETURNS VOID AS $$
+DECLARE
+  job RECORD;
+  conv_id UUID;
+BEGIN
+  SELECT * INTO job FROM jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found';
+  END IF;
+
+  IF job.status <> 'completed' THEN
+    RAISE EXCEPTION 'Payment can only be confirmed on completed jobs';
+  END IF;
+
+  -- Let the update past guard_job_payment_columns
+  PERFORM set_config('crowdserve.job_rpc', 'on', true);
+
+  IF p_status = 'marked_paid' THEN
+    IF job.user_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Only the poster can mark a job as paid';
+    END IF;
+    IF job.payment_status <> 'pending' THEN
+      RAISE EXCEPTION 'This payment has already been marked';
+    END IF;
+
+    UPDATE jobs
+    SET payment_status = 'marked_paid',
+        payment_marked_at = now()
+    WHERE id = p_job_id;
+  ELSIF p_status IN ('confirmed', 'disputed') THEN
+    IF job.assigned_to IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the worker can confirm or report a payment';
+    END IF;
+    IF job.payment_status NOT IN ('pending', 'marked_paid') THEN
+      RAISE EXCEPTION 'This payment has already been settled';
+    END IF;
+
+    UPDATE jobs
+    SET payment_status = p_status,
+        payment_confirmed_at = CASE WHEN p_status = 'confirmed' THEN now() END
+    WHERE id = p_job_id;
+  ELSE
+    RAISE EXCEPTION 'Invalid payment status %', p_status;
+  END IF;
+
+  SELECT id INTO conv_id
+  FROM conversations
+  WHERE job_id = p_job_id
+  AND worker_id = job.assigned_to;
+
+  PERFORM post_chat_event(conv_id, auth.uid(), jsonb_build_object(
+    'event', CASE p_status
+      WHEN 'marked_paid' THEN 'payment_marked_paid'
+      WHEN 'confirmed' THEN 'payment_confirmed'
+      ELSE 'payment_disputed'
+    END,
+    'jobTitle', job.title
+  ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_job_payment_status(UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- TRIGGER: Post offers in the chat they were made in
+-- Offers are written by the worker and the poster directly (see offers.sql).
+-- Offers closed by a hire or by expiry aren't announced one by one: the
+-- applicants are told the job was filled instead.
+-- ============================================
+CREATE OR REPLACE FUNCTION post_offer_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  poster_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO poster_id FROM jobs WHERE id = NEW.job_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM post_chat_event(NEW.conversation_id, NEW.worker_id, jsonb_build_object(
+      'event', 'offer_made', 'price', NEW.price, 'eta', NEW.eta
+    ));
+  ELSIF NEW.status = 'countered' THEN
+    PERFORM post_chat_event(NEW.conversation_id, poster_id, jsonb_build_object(
+      'event', 'offer_countered', 'price', NEW.counter_price, 'note', NEW.counter_note
+    ));
+  ELSIF NEW.status = 'rejected'
+    AND auth.uid() = poster_id
+    AND current_setting('crowdserve.job_rpc', true) IS DISTINCT FROM 'on'
+  THEN
+    PERFORM post_chat_event(NEW.conversation_id, poster_id, jsonb_build_object('event', 'offer_declined'));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS post_offer_event ON offers;
+CREATE TRIGGER post_offer_event
+  AFTER INSERT OR UPDATE OF status ON offers
+  FOR EACH ROW
+  EXECUTE FUNCTION post_offer_event();
+
+-- ============================================
+-- TRIGGER: Post disputes opened from the app
+-- A dispute opened by open_payment_dispute (disputes.sql) comes from a
+-- payment reported missing, which set_job_payment_status already posts.
+-- ============================================
+CREATE OR REPLACE FUNCTION post_dispute_opened_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  job RECORD;
+  conv_id UUID;
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title, assigned_to INTO job FROM jobs WHERE id = NEW.job_id;
+
+  SELECT id INTO conv_id
+  FROM conversations
+  WHERE job_id = NEW.job_id
+  AND worker_id = job.assigned_to;
+
+  PERFORM post_chat_event(conv_id, NEW.opened_by, jsonb_build_object(
+    'event', 'dispute_opened', 'jobTitle', job.title, 'reason', NEW.reason
+  ));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS post_dispute_opened_event ON disputes;
+CREATE TRIGGER post_dispute_opened_event
+  AFTER INSERT ON disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION post_dispute_opened_event();
+
+-- ============================================
+-- TRIGGER: Tell current applicants when the terms change
+-- The poster edits open jobs directly (see app/actions/update-job.ts)
+-- ============================================
+CREATE OR REPLACE FUNCTION post_job_updated_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM post_chat_event(a.conversation_id, NEW.user_id, jsonb_build_object(
+    'event', 'job_updated',
+    'jobTitle', NEW.title,
+    'price', CASE WHEN NEW.price IS DISTINCT FROM OLD.price THEN NEW.price END,
+    'location', CASE WHEN NEW.location IS DISTINCT FROM OLD.location THEN NEW.location END
+  ))
+  FROM applications a
+  WHERE a.job_id = NEW.id
+  AND a.status IN ('pending', 'shortlisted')
+  AND a.conversation_id IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS post_job_updated_event ON jobs;
+CREATE TRIGGER post_job_updated_event
+  AFTER UPDATE OF price, location ON jobs
+  FOR EACH ROW
+  WHEN (NEW.price IS DISTINCT FROM OLD.price OR NEW.location IS DISTINCT FROM OLD.location)
+  EXECUTE FUNCTION post_job_updated_event();
+
+-- ============================================
+-- FUNCTION: Approve submissions the poster hasn't reviewed
+-- As in job-review.sql; the chat notice is now a status_change event.
+-- ============================================
+CREATE OR REPLACE FUNCTION auto_approve_reviews(p_after INTERVAL DEFAULT INTERVAL '72 hours')
+RETURNS INTEGER AS $$
+DECLARE
+  job RECORD;
+  conv_id UUID;
+  approved INTEGER := 0;
+  after_hours INTEGER := round(extract(epoch FROM p_after) / 3600);
+BEGIN
+  FOR job IN
+    SELECT * FROM jobs
+    WHERE status = 'pending_review'
+    AND submitted_at < now() - p_after
+    AND assigned_to IS NOT NULL
+    AND NOT job_has_open_dispute(id)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM post_job_ledger_transaction(job.id, 'release', job.user_id, job.assigned_to);
+
+    UPDATE jobs
+    SET status = 'completed',
+        completed_at = now(),
+        review_note = NULL
+    WHERE id = job.id;
+
+    SELECT id INTO conv_id
+    FROM conversations
+    WHERE job_id = job.id
+    AND worker_id = job.assigned_to;
+
+    PERFORM post_chat_event(conv_id, job.user_id, jsonb_build_object(
+      'event', 'work_auto_approved', 'jobTitle', job.title, 'afterHours', after_hours
+    ));
+
+    INSERT INTO notifications (user_id, kind, job_id, conversation_id)
+    VALUES
+      (job.user_id, 'work_auto_approved', job.id, conv_id),
+      (job.assigned_to, 'work_auto_approved', job.id, conv_id);
+
+    approved := approved + 1;
+  END LOOP;
+
+  RETURN approved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler should run this
+REVOKE EXECUTE ON FUNCTION auto_approve_reviews(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Remind both sides about unconfirmed payments
+-- As in payment-confirmation.sql; the chat notices are now system events.
+-- ============================================
+CREATE OR REPLACE FUNCTION send_payment_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  job RECORD;
+  conv_id UUID;
+  touched INTEGER := 0;
+BEGIN
+  FOR job IN
+    SELECT * FROM jobs
+    WHERE status = 'completed'
+    AND payment_status IN ('pending', 'marked_paid')
+    AND assigned_to IS NOT NULL
+    AND COALESCE(payment_reminded_at, completed_at) < now() - INTERVAL '24 hours'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT id INTO conv_id
+    FROM conversations
+    WHERE job_id = job.id
+    AND worker_id = job.assigned_to;
+
+    IF job.completed_at < now() - INTERVAL '7 days' THEN
+      UPDATE jobs SET payment_status = 'disputed' WHERE id = job.id;
+
+      PERFORM post_chat_event(conv_id, job.assigned_to, jsonb_build_object('event', 'payment_flagged', 'jobTitle', job.title));
+
+      INSERT INTO notifications (user_id, kind, job_id, conversation_id, body)
+      VALUES
+        (job.user_id, 'payment_reminder', job.id, conv_id, 'Payment wasn''t confirmed within a week and has been flagged for review.'),
+        (job.assigned_to, 'payment_reminder', job.id, conv_id, 'Payment wasn''t confirmed within a week and has been flagged for review.');
+    ELSE
+      UPDATE jobs SET payment_reminded_at = now() WHERE id = job.id;
+
+      -- Sent on behalf of whoever is waiting on the other side
+      PERFORM post_chat_event(
+        conv_id,
+        CASE WHEN job.payment_status = 'pending' THEN job.assigned_to ELSE job.user_id END,
+        jsonb_build_object('event', 'payment_reminder', 'jobTitle', job.title, 'paymentStatus', job.payment_status)
+      );
+
+      INSERT INTO notifications (user_id, kind, job_id, conversation_id)
+      VALUES (
+        CASE WHEN job.payment_status = 'pending' THEN job.user_id ELSE job.assigned_to END,
+        'payment_reminder',
+        job.id,
+        conv_id
+      );
+    END IF;
+
+    touched := touched + 1;
+  END LOOP;
+
+  RETURN touched;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler should run this
+REVOKE EXECUTE ON FUNCTION send_payment_reminders() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- FUNCTION: Resolve a dispute (replaces the one in job-review.sql)
+-- Same as before; the chat notice is now a system event.
+-- ============================================
+CREATE OR REPLACE FUNCTION resolve_dispute(
+  p_dispute_id UUID,
+  p_outcome TEXT,
+  p_worker_share INTEGER DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  dispute RECORD;
+  job RECORD;
+  total INTEGER;
+  worker_amount INTEGER;
+  released INTEGER;
+  conv_id UUID;
+  summary TEXT;
+BEGIN
+  IF NOT is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can resolve disputes';
+  END IF;
+
+  SELECT * INTO dispute FROM disputes WHERE id = p_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This dispute has already been resolved';
+  END IF;
+
+  SELECT * INTO job FROM jobs WHERE id = dispute.job_id FOR UPDATE;
+
+  IF job.assigned_to IS NULL THEN
+    RAISE EXCEPTION 'This job has no assigned worker';
+  END IF;
+
+  total := COALESCE(job.agreed_price, job.price);
+
+  worker_amount := CASE p_outcome
+    WHEN 'refund' THEN 0
+    WHEN 'release' THEN total
+    WHEN 'split' THEN p_worker_share
+  END;
+
+  IF p_outcome NOT IN ('refund', 'release', 'split') THEN
+    RAISE EXCEPTION 'Invalid outcome %', p_outcome;
+  END IF;
+
+  IF p_outcome = 'split' AND (worker_amount IS NULL OR worker_amount <= 0 OR worker_amount >= total) THEN
+    RAISE EXCEPTION 'The worker''s share must be between 1 and %', total - 1;
+  END IF;
+
+  PERFORM set_config('crowdserve.resolving_dispute', 'on', true);
+
+  IF job.status IN ('in_progress', 'pending_review') THEN
+    PERFORM post_job_ledger_transaction(job.id, 'release', job.user_id, job.assigned_to, worker_amount);
+    PERFORM post_job_ledger_transaction(job.id, 'refund', job.user_id, job.assigned_to);
+
+    IF worker_amount > 0 THEN
+      UPDATE jobs
+      SET status = 'completed',
+          completed_at = now(),
+          review_note = NULL
+      WHERE id = job.id;
+    ELSE
+      UPDATE jobs
+      SET status = 'cancelled',
+          assigned_to = NULL
+      WHERE id = job.id;
+    END IF;
+  ELSE
+    SELECT COALESCE(SUM(CASE WHEN kind = 'release' THEN amount ELSE -amount END), 0)
+    INTO released
+    FROM ledger_transactions
+    WHERE job_id = job.id
+    AND kind IN ('release', 'adjustment');
+
+    IF released > worker_amount THEN
+      PERFORM post_job_ledger_transaction(job.id, 'adjustment', job.user_id, job.assigned_to, released - worker_amount);
+    END IF;
+
+    -- Cash is still owed for the worker's share; nothing is owed after a refund
+    UPDATE jobs
+    SET payment_status = CASE WHEN worker_amount > 0 THEN 'pending' END,
+        payment_marked_at = NULL,
+        payment_confirmed_at = NULL,
+        payment_reminded_at = NULL
+    WHERE id = job.id
+    AND payment_status = 'disputed';
+  END IF;
+
+  UPDATE disputes
+  SET status = 'resolved',
+      outcome = p_outcome,
+      worker_share = worker_amount,
+      resolution_note = NULLIF(trim(p_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_dispute_id;
+
+  summary := CASE p_outcome
+    WHEN 'refund' THEN format('Dispute resolved: the poster is refunded the full Rs. %s.', total)
+    WHEN 'release' THEN format('Dispute resolved: the full Rs. %s goes to the worker.', total)
+    ELSE format('Dispute resolved: Rs. %s to the worker and Rs. %s refunded to the poster.', worker_amount, total - worker_amount)
+  END;
+
+  IF NULLIF(trim(p_note), '') IS NOT NULL THEN
+    summary := summary || E'\nModerator note: ' || trim(p_note);
+  END IF;
+
+  SELECT id INTO conv_id
+  FROM conversations
+  WHERE job_id = job.id
+  AND worker_id = job.assigned_to;
+
+  PERFORM post_chat_event(conv_id, auth.uid(), jsonb_build_object(
+    'event', 'dispute_resolved',
+    'jobTitle', job.title,
+    'outcome', p_outcome,
+    'total', total,
+    'workerShare', worker_amount,
+    'note', NULLIF(trim(p_note), '')
+  ));
+
+  INSERT INTO notifications (user_id, actor_id, kind, job_id, conversation_id, body, data)
+  SELECT recipient, auth.uid(), 'dispute_resolved', job.id, conv_id, summary,
+    jsonb_build_object('outcome', p_outcome, 'workerShare', worker_amount)
+  FROM unnest(ARRAY[job.user_id, job.assigned_to]) AS recipient;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION resolve_dispute(UUID, TEXT, INTEGER, TEXT) TO authenticated;
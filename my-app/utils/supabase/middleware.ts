@@ -0,0 +1,65 @@
+import { createServerClient } from "@supabase/ssr";
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  LOGIN_PATH,
+  NEXT_PARAM,
+  getSafeNextPath,
+  isAuthRoute,
+  isProtectedRoute,
+} from "@/lib/auth-routes";
+
+export async function updateSession(request: NextRequest) {
+  let supabaseResponse = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          // Refreshed tokens go on the request (for Server Components) and the response (for the browser)
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          supabaseResponse = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) =>
+            supabaseResponse.cookies.set(name, value, options)
+          );
+        },
+      },
+    }
+  );
+
+  // getUser() revalidates the token with Supabase and refreshes it when expired.
+  // Don't put other logic between createServerClient and this call.
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { pathname, search } = request.nextUrl;
+
+  if (!user && isProtectedRoute(pathname)) {
+    const url = request.nextUrl.clone();
+    url.pathname = LOGIN_PATH;
+    url.search = "";
+    url.searchParams.set(NEXT_PARAM, `${pathname}${search}`);
+    return redirectWithCookies(url, supabaseResponse);
+  }
+
+  if (user && isAuthRoute(pathname)) {
+    const url = request.nextUrl.clone();
+    const next = getSafeNextPath(request.nextUrl.searchParams.get(NEXT_PARAM));
+    const [nextPath, nextQuery = ""] = next.split("?");
+    url.pathname = nextPath;
+    url.search = nextQuery ? `?${nextQuery}` : "";
+    return redirectWithCookies(url, supabaseResponse);
+  }
+
+  return supabaseResponse;
+}
+
+// Carry any refreshed session cookies over to the redirect
+function redirectWithCookies(url: URL, sessionResponse: NextResponse) {
+  const response = NextResponse.redirect(url);
+  sessionResponse.cookies.getAll().forEach((cookie) => response.cookies.set(cookie));
+  return response;
+}